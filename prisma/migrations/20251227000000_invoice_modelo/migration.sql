@@ -0,0 +1,5 @@
+-- Invoice model (55 = NF-e, 65 = NFC-e)
+ALTER TABLE "Invoice" ADD COLUMN "modelo" TEXT NOT NULL DEFAULT '55';
+
+-- CreateIndex
+CREATE INDEX "Invoice_companyId_modelo_emissao_idx" ON "Invoice"("companyId", "modelo", "emissao");
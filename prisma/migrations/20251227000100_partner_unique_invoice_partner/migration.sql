@@ -0,0 +1,33 @@
+-- Parceiros repetidos com nomes diferentes precisam ser unificados à mão antes da chave única:
+-- SELECT "companyId", "cnpjCpf", array_agg("name") FROM "Partner" GROUP BY 1, 2 HAVING COUNT(DISTINCT "name") > 1;
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM "Partner"
+    GROUP BY "companyId", "cnpjCpf"
+    HAVING COUNT(DISTINCT "name") > 1
+  ) THEN
+    RAISE EXCEPTION 'Há parceiros com o mesmo CNPJ/CPF e nomes diferentes na mesma empresa; unifique-os antes de aplicar esta migração.';
+  END IF;
+END $$;
+
+-- Cópias idênticas (mesma empresa, documento e nome) ficam com uma linha só; nenhuma tabela referencia Partner ainda
+DELETE FROM "Partner" p
+USING "Partner" other
+WHERE p."companyId" = other."companyId"
+  AND p."cnpjCpf" = other."cnpjCpf"
+  AND p."name" = other."name"
+  AND p."id" > other."id";
+
+-- DropIndex
+DROP INDEX IF EXISTS "Partner_companyId_cnpjCpf_idx";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Partner_companyId_cnpjCpf_key" ON "Partner"("companyId", "cnpjCpf");
+
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN     "partnerId" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "Invoice" ADD CONSTRAINT "Invoice_partnerId_fkey" FOREIGN KEY ("partnerId") REFERENCES "Partner"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,48 @@
+-- CreateTable
+CREATE TABLE "ServiceInvoice" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "type" "InvoiceType" NOT NULL,
+    "numero" TEXT NOT NULL,
+    "codigoVerificacao" TEXT,
+    "emissao" TIMESTAMP(3) NOT NULL,
+    "competencia" TIMESTAMP(3),
+    "providerCnpj" TEXT NOT NULL,
+    "providerName" TEXT,
+    "providerMunicipio" TEXT,
+    "takerCnpj" TEXT,
+    "takerName" TEXT,
+    "serviceCode" TEXT,
+    "municipalServiceCode" TEXT,
+    "description" TEXT,
+    "servicesValue" DECIMAL(65,30) NOT NULL,
+    "deductionsValue" DECIMAL(65,30),
+    "issBase" DECIMAL(65,30),
+    "issRate" DECIMAL(65,30),
+    "issValue" DECIMAL(65,30),
+    "issWithheld" BOOLEAN NOT NULL DEFAULT false,
+    "issWithheldValue" DECIMAL(65,30),
+    "pisValue" DECIMAL(65,30),
+    "cofinsValue" DECIMAL(65,30),
+    "irValue" DECIMAL(65,30),
+    "csllValue" DECIMAL(65,30),
+    "inssValue" DECIMAL(65,30),
+    "netValue" DECIMAL(65,30),
+    "totalValue" DECIMAL(65,30) NOT NULL,
+    "isCancelled" BOOLEAN NOT NULL DEFAULT false,
+    "uploadBatchId" TEXT,
+    "sourceFileName" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ServiceInvoice_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "ServiceInvoice" ADD CONSTRAINT "ServiceInvoice_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "ServiceInvoice" ADD CONSTRAINT "ServiceInvoice_uploadBatchId_fkey" FOREIGN KEY ("uploadBatchId") REFERENCES "UploadBatch"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Indexes
+CREATE UNIQUE INDEX "ServiceInvoice_companyId_providerCnpj_numero_key" ON "ServiceInvoice"("companyId", "providerCnpj", "numero");
+CREATE INDEX "ServiceInvoice_companyId_emissao_idx" ON "ServiceInvoice"("companyId", "emissao");
+CREATE INDEX "ServiceInvoice_companyId_serviceCode_idx" ON "ServiceInvoice"("companyId", "serviceCode");
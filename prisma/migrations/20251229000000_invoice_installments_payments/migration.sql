@@ -0,0 +1,45 @@
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN "faturaNumero" TEXT;
+ALTER TABLE "Invoice" ADD COLUMN "faturaValorOriginal" DECIMAL(65,30);
+ALTER TABLE "Invoice" ADD COLUMN "faturaValorDesconto" DECIMAL(65,30);
+ALTER TABLE "Invoice" ADD COLUMN "faturaValorLiquido" DECIMAL(65,30);
+ALTER TABLE "Invoice" ADD COLUMN "changeValue" DECIMAL(65,30);
+
+-- CreateTable
+CREATE TABLE "InvoiceInstallment" (
+    "id" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "numero" TEXT,
+    "dueDate" TIMESTAMP(3),
+    "amount" DECIMAL(65,30) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "InvoiceInstallment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "InvoicePayment" (
+    "id" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "indPag" TEXT,
+    "tPag" TEXT NOT NULL,
+    "description" TEXT,
+    "amount" DECIMAL(65,30) NOT NULL,
+    "paidAt" TIMESTAMP(3),
+    "cardIntegration" TEXT,
+    "cardAcquirerCnpj" TEXT,
+    "cardBrand" TEXT,
+    "cardAuthorization" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "InvoicePayment_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "InvoiceInstallment" ADD CONSTRAINT "InvoiceInstallment_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "InvoicePayment" ADD CONSTRAINT "InvoicePayment_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Indexes
+CREATE INDEX "InvoiceInstallment_invoiceId_idx" ON "InvoiceInstallment"("invoiceId");
+CREATE INDEX "InvoiceInstallment_dueDate_idx" ON "InvoiceInstallment"("dueDate");
+CREATE INDEX "InvoicePayment_invoiceId_idx" ON "InvoicePayment"("invoiceId");
@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN "freightMode" TEXT;
+ALTER TABLE "Invoice" ADD COLUMN "carrierTaxId" TEXT;
+ALTER TABLE "Invoice" ADD COLUMN "carrierName" TEXT;
+ALTER TABLE "Invoice" ADD COLUMN "carrierUf" TEXT;
+ALTER TABLE "Invoice" ADD COLUMN "volumeQty" DECIMAL(65,30);
+ALTER TABLE "Invoice" ADD COLUMN "volumeSpecies" TEXT;
+ALTER TABLE "Invoice" ADD COLUMN "netWeight" DECIMAL(65,30);
+ALTER TABLE "Invoice" ADD COLUMN "grossWeight" DECIMAL(65,30);
+
+-- CreateTable
+CREATE TABLE "CteInvoiceLink" (
+    "id" TEXT NOT NULL,
+    "cteId" TEXT NOT NULL,
+    "chaveNFe" TEXT NOT NULL,
+    "invoiceId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CteInvoiceLink_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "CteInvoiceLink" ADD CONSTRAINT "CteInvoiceLink_cteId_fkey" FOREIGN KEY ("cteId") REFERENCES "Cte"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "CteInvoiceLink" ADD CONSTRAINT "CteInvoiceLink_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Indexes
+CREATE UNIQUE INDEX "CteInvoiceLink_cteId_chaveNFe_key" ON "CteInvoiceLink"("cteId", "chaveNFe");
+CREATE INDEX "CteInvoiceLink_chaveNFe_idx" ON "CteInvoiceLink"("chaveNFe");
+CREATE INDEX "CteInvoiceLink_invoiceId_idx" ON "CteInvoiceLink"("invoiceId");
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN "finalidade" TEXT;
+
+-- CreateTable
+CREATE TABLE "InvoiceReference" (
+    "id" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "refChave" TEXT NOT NULL,
+    "refKind" TEXT NOT NULL DEFAULT 'NFE',
+    "referencedInvoiceId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "InvoiceReference_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "InvoiceReference" ADD CONSTRAINT "InvoiceReference_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "InvoiceReference" ADD CONSTRAINT "InvoiceReference_referencedInvoiceId_fkey" FOREIGN KEY ("referencedInvoiceId") REFERENCES "Invoice"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Indexes
+CREATE UNIQUE INDEX "InvoiceReference_invoiceId_refChave_key" ON "InvoiceReference"("invoiceId", "refChave");
+CREATE INDEX "InvoiceReference_refChave_idx" ON "InvoiceReference"("refChave");
+CREATE INDEX "InvoiceReference_referencedInvoiceId_idx" ON "InvoiceReference"("referencedInvoiceId");
@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN "totalProd" DECIMAL(65,30);
+ALTER TABLE "Invoice" ADD COLUMN "totalDesc" DECIMAL(65,30);
+ALTER TABLE "Invoice" ADD COLUMN "totalFrete" DECIMAL(65,30);
+ALTER TABLE "Invoice" ADD COLUMN "totalSeg" DECIMAL(65,30);
+ALTER TABLE "Invoice" ADD COLUMN "totalOutro" DECIMAL(65,30);
+ALTER TABLE "Invoice" ADD COLUMN "totalIPI" DECIMAL(65,30);
+ALTER TABLE "Invoice" ADD COLUMN "totalST" DECIMAL(65,30);
+ALTER TABLE "Invoice" ADD COLUMN "totalFCP" DECIMAL(65,30);
+ALTER TABLE "Invoice" ADD COLUMN "totalPIS" DECIMAL(65,30);
+ALTER TABLE "Invoice" ADD COLUMN "totalCOFINS" DECIMAL(65,30);
+ALTER TABLE "Invoice" ADD COLUMN "totalsMismatch" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "Invoice" ADD COLUMN "totalsMismatches" JSONB;
+
+-- AlterTable
+ALTER TABLE "InvoiceItem" ADD COLUMN "vFrete" DECIMAL(65,30);
+ALTER TABLE "InvoiceItem" ADD COLUMN "vSeg" DECIMAL(65,30);
+ALTER TABLE "InvoiceItem" ADD COLUMN "vOutro" DECIMAL(65,30);
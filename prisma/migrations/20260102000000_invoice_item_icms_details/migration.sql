@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "InvoiceItem" ADD COLUMN "pICMS" DECIMAL(65,30);
+ALTER TABLE "InvoiceItem" ADD COLUMN "pRedBC" DECIMAL(65,30);
+ALTER TABLE "InvoiceItem" ADD COLUMN "pMVAST" DECIMAL(65,30);
+ALTER TABLE "InvoiceItem" ADD COLUMN "vFCP" DECIMAL(65,30);
+ALTER TABLE "InvoiceItem" ADD COLUMN "vFCPST" DECIMAL(65,30);
+ALTER TABLE "InvoiceItem" ADD COLUMN "vICMSSTRet" DECIMAL(65,30);
+ALTER TABLE "InvoiceItem" ADD COLUMN "vBCUFDest" DECIMAL(65,30);
+ALTER TABLE "InvoiceItem" ADD COLUMN "pFCPUFDest" DECIMAL(65,30);
+ALTER TABLE "InvoiceItem" ADD COLUMN "pICMSUFDest" DECIMAL(65,30);
+ALTER TABLE "InvoiceItem" ADD COLUMN "pICMSInter" DECIMAL(65,30);
+ALTER TABLE "InvoiceItem" ADD COLUMN "vFCPUFDest" DECIMAL(65,30);
+ALTER TABLE "InvoiceItem" ADD COLUMN "vICMSUFDest" DECIMAL(65,30);
+ALTER TABLE "InvoiceItem" ADD COLUMN "vICMSUFRemet" DECIMAL(65,30);
@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "InvoiceItem" ADD COLUMN "cstIBSCBS" TEXT;
+ALTER TABLE "InvoiceItem" ADD COLUMN "cClassTrib" TEXT;
+ALTER TABLE "InvoiceItem" ADD COLUMN "vBCIBSCBS" DECIMAL(65,30);
+ALTER TABLE "InvoiceItem" ADD COLUMN "pIBSUF" DECIMAL(65,30);
+ALTER TABLE "InvoiceItem" ADD COLUMN "vIBSUF" DECIMAL(65,30);
+ALTER TABLE "InvoiceItem" ADD COLUMN "pIBSMun" DECIMAL(65,30);
+ALTER TABLE "InvoiceItem" ADD COLUMN "vIBSMun" DECIMAL(65,30);
+ALTER TABLE "InvoiceItem" ADD COLUMN "vIBS" DECIMAL(65,30);
+ALTER TABLE "InvoiceItem" ADD COLUMN "pCBS" DECIMAL(65,30);
+ALTER TABLE "InvoiceItem" ADD COLUMN "vCBS" DECIMAL(65,30);
+ALTER TABLE "InvoiceItem" ADD COLUMN "cstIS" TEXT;
+ALTER TABLE "InvoiceItem" ADD COLUMN "cClassTribIS" TEXT;
+ALTER TABLE "InvoiceItem" ADD COLUMN "vBCIS" DECIMAL(65,30);
+ALTER TABLE "InvoiceItem" ADD COLUMN "pIS" DECIMAL(65,30);
+ALTER TABLE "InvoiceItem" ADD COLUMN "vIS" DECIMAL(65,30);
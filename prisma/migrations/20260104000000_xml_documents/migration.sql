@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "XmlDocument" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "sha256" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "fileName" TEXT,
+    "size" INTEGER NOT NULL,
+    "compressedSize" INTEGER NOT NULL,
+    "content" BYTEA NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "XmlDocument_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN "xmlDocumentId" TEXT;
+ALTER TABLE "Cte" ADD COLUMN "xmlDocumentId" TEXT;
+ALTER TABLE "InvoiceCancellation" ADD COLUMN "xmlDocumentId" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "XmlDocument" ADD CONSTRAINT "XmlDocument_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "Invoice" ADD CONSTRAINT "Invoice_xmlDocumentId_fkey" FOREIGN KEY ("xmlDocumentId") REFERENCES "XmlDocument"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "Cte" ADD CONSTRAINT "Cte_xmlDocumentId_fkey" FOREIGN KEY ("xmlDocumentId") REFERENCES "XmlDocument"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "InvoiceCancellation" ADD CONSTRAINT "InvoiceCancellation_xmlDocumentId_fkey" FOREIGN KEY ("xmlDocumentId") REFERENCES "XmlDocument"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Indexes
+CREATE UNIQUE INDEX "XmlDocument_companyId_sha256_key" ON "XmlDocument"("companyId", "sha256");
+CREATE INDEX "XmlDocument_companyId_kind_idx" ON "XmlDocument"("companyId", "kind");
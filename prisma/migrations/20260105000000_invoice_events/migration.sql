@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "InvoiceEvent" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "chave" TEXT NOT NULL,
+    "eventType" TEXT NOT NULL,
+    "eventSequence" INTEGER NOT NULL DEFAULT 1,
+    "description" TEXT,
+    "statusCode" TEXT,
+    "statusMessage" TEXT,
+    "protocolNumber" TEXT,
+    "eventTimestamp" TIMESTAMP(3),
+    "receivedAt" TIMESTAMP(3),
+    "authorTaxId" TEXT,
+    "correctionText" TEXT,
+    "justification" TEXT,
+    "payload" JSONB,
+    "sourceFileName" TEXT,
+    "uploadBatchId" TEXT,
+    "xmlDocumentId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "InvoiceEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "InvoiceEvent" ADD CONSTRAINT "InvoiceEvent_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "InvoiceEvent" ADD CONSTRAINT "InvoiceEvent_uploadBatchId_fkey" FOREIGN KEY ("uploadBatchId") REFERENCES "UploadBatch"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "InvoiceEvent" ADD CONSTRAINT "InvoiceEvent_xmlDocumentId_fkey" FOREIGN KEY ("xmlDocumentId") REFERENCES "XmlDocument"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Indexes
+CREATE UNIQUE INDEX "InvoiceEvent_companyId_chave_eventType_eventSequence_key" ON "InvoiceEvent"("companyId", "chave", "eventType", "eventSequence");
+CREATE INDEX "InvoiceEvent_companyId_eventType_idx" ON "InvoiceEvent"("companyId", "eventType");
+CREATE INDEX "InvoiceEvent_companyId_eventTimestamp_idx" ON "InvoiceEvent"("companyId", "eventTimestamp");
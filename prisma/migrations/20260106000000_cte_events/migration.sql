@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "CteEvent" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "chave" TEXT NOT NULL,
+    "eventType" TEXT NOT NULL,
+    "eventSequence" INTEGER NOT NULL DEFAULT 1,
+    "description" TEXT,
+    "statusCode" TEXT,
+    "statusMessage" TEXT,
+    "protocolNumber" TEXT,
+    "eventTimestamp" TIMESTAMP(3),
+    "receivedAt" TIMESTAMP(3),
+    "authorTaxId" TEXT,
+    "correctionText" TEXT,
+    "justification" TEXT,
+    "payload" JSONB,
+    "sourceFileName" TEXT,
+    "uploadBatchId" TEXT,
+    "xmlDocumentId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CteEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "CteEvent" ADD CONSTRAINT "CteEvent_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "CteEvent" ADD CONSTRAINT "CteEvent_uploadBatchId_fkey" FOREIGN KEY ("uploadBatchId") REFERENCES "UploadBatch"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "CteEvent" ADD CONSTRAINT "CteEvent_xmlDocumentId_fkey" FOREIGN KEY ("xmlDocumentId") REFERENCES "XmlDocument"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Indexes
+CREATE UNIQUE INDEX "CteEvent_companyId_chave_eventType_eventSequence_key" ON "CteEvent"("companyId", "chave", "eventType", "eventSequence");
+CREATE INDEX "CteEvent_companyId_eventType_idx" ON "CteEvent"("companyId", "eventType");
+CREATE INDEX "CteEvent_companyId_eventTimestamp_idx" ON "CteEvent"("companyId", "eventTimestamp");
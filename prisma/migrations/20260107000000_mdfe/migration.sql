@@ -0,0 +1,65 @@
+-- CreateTable
+CREATE TABLE "Mdfe" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "chave" TEXT NOT NULL,
+    "serie" TEXT,
+    "numero" TEXT,
+    "emissao" TIMESTAMP(3) NOT NULL,
+    "modal" TEXT,
+    "emitCnpj" TEXT,
+    "emitNome" TEXT,
+    "ufIni" TEXT,
+    "ufFim" TEXT,
+    "ufPercurso" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "loadingCities" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "vehiclePlate" TEXT,
+    "vehicleUf" TEXT,
+    "trailerPlates" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "driverName" TEXT,
+    "driverCpf" TEXT,
+    "cargoValue" DECIMAL(65,30),
+    "cargoWeight" DECIMAL(65,30),
+    "cargoUnit" TEXT,
+    "tripStartAt" TIMESTAMP(3),
+    "protocolo" TEXT,
+    "protocoloStatus" TEXT,
+    "isCancelled" BOOLEAN NOT NULL DEFAULT false,
+    "uploadBatchId" TEXT,
+    "sourceFileName" TEXT,
+    "xmlDocumentId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Mdfe_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "MdfeDocumentLink" (
+    "id" TEXT NOT NULL,
+    "mdfeId" TEXT NOT NULL,
+    "chave" TEXT NOT NULL,
+    "documentType" TEXT NOT NULL,
+    "unloadCity" TEXT,
+    "invoiceId" TEXT,
+    "cteId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MdfeDocumentLink_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "Mdfe" ADD CONSTRAINT "Mdfe_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "Mdfe" ADD CONSTRAINT "Mdfe_uploadBatchId_fkey" FOREIGN KEY ("uploadBatchId") REFERENCES "UploadBatch"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "Mdfe" ADD CONSTRAINT "Mdfe_xmlDocumentId_fkey" FOREIGN KEY ("xmlDocumentId") REFERENCES "XmlDocument"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "MdfeDocumentLink" ADD CONSTRAINT "MdfeDocumentLink_mdfeId_fkey" FOREIGN KEY ("mdfeId") REFERENCES "Mdfe"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "MdfeDocumentLink" ADD CONSTRAINT "MdfeDocumentLink_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "MdfeDocumentLink" ADD CONSTRAINT "MdfeDocumentLink_cteId_fkey" FOREIGN KEY ("cteId") REFERENCES "Cte"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Indexes
+CREATE UNIQUE INDEX "Mdfe_companyId_chave_key" ON "Mdfe"("companyId", "chave");
+CREATE INDEX "Mdfe_companyId_emissao_idx" ON "Mdfe"("companyId", "emissao");
+CREATE UNIQUE INDEX "MdfeDocumentLink_mdfeId_chave_key" ON "MdfeDocumentLink"("mdfeId", "chave");
+CREATE INDEX "MdfeDocumentLink_chave_idx" ON "MdfeDocumentLink"("chave");
+CREATE INDEX "MdfeDocumentLink_invoiceId_idx" ON "MdfeDocumentLink"("invoiceId");
+CREATE INDEX "MdfeDocumentLink_cteId_idx" ON "MdfeDocumentLink"("cteId");
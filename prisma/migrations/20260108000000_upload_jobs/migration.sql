@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "UploadBatch" ADD COLUMN "status" TEXT NOT NULL DEFAULT 'COMPLETED';
+ALTER TABLE "UploadBatch" ADD COLUMN "options" JSONB;
+ALTER TABLE "UploadBatch" ADD COLUMN "totalFiles" INTEGER;
+ALTER TABLE "UploadBatch" ADD COLUMN "processedFiles" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "UploadBatch" ADD COLUMN "errorMessage" TEXT;
+ALTER TABLE "UploadBatch" ADD COLUMN "startedAt" TIMESTAMP(3);
+ALTER TABLE "UploadBatch" ADD COLUMN "finishedAt" TIMESTAMP(3);
+ALTER TABLE "UploadBatch" ADD COLUMN "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- CreateTable
+CREATE TABLE "UploadBatchFile" (
+    "id" TEXT NOT NULL,
+    "uploadBatchId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "content" BYTEA NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "UploadBatchFile_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "UploadBatchFile" ADD CONSTRAINT "UploadBatchFile_uploadBatchId_fkey" FOREIGN KEY ("uploadBatchId") REFERENCES "UploadBatch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Indexes
+CREATE INDEX "UploadBatch_status_createdAt_idx" ON "UploadBatch"("status", "createdAt");
+CREATE INDEX "UploadBatchFile_uploadBatchId_position_idx" ON "UploadBatchFile"("uploadBatchId", "position");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "UploadBatch" ADD COLUMN "progress" JSONB;
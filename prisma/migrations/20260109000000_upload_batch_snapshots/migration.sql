@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "UploadBatchSnapshot" (
+    "id" TEXT NOT NULL,
+    "uploadBatchId" TEXT NOT NULL,
+    "entity" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "entityId" TEXT NOT NULL,
+    "data" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "UploadBatchSnapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UploadBatchSnapshot_uploadBatchId_entity_entityId_key" ON "UploadBatchSnapshot"("uploadBatchId", "entity", "entityId");
+CREATE INDEX "UploadBatchSnapshot_entity_entityId_idx" ON "UploadBatchSnapshot"("entity", "entityId");
+
+-- AddForeignKey
+ALTER TABLE "UploadBatchSnapshot" ADD CONSTRAINT "UploadBatchSnapshot_uploadBatchId_fkey" FOREIGN KEY ("uploadBatchId") REFERENCES "UploadBatch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
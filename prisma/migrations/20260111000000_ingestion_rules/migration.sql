@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "IngestionRule" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "cfopCodes" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "series" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "modelos" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "natOpContains" TEXT,
+    "issuerCnpj" TEXT,
+    "recipientCnpj" TEXT,
+    "action" TEXT NOT NULL,
+    "naturezaOperacaoId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "IngestionRule_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN "ingestionRuleId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "IngestionRule_companyId_priority_idx" ON "IngestionRule"("companyId", "priority");
+
+-- AddForeignKey
+ALTER TABLE "IngestionRule" ADD CONSTRAINT "IngestionRule_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "IngestionRule" ADD CONSTRAINT "IngestionRule_naturezaOperacaoId_fkey" FOREIGN KEY ("naturezaOperacaoId") REFERENCES "NaturezaOperacao"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "Invoice" ADD CONSTRAINT "Invoice_ingestionRuleId_fkey" FOREIGN KEY ("ingestionRuleId") REFERENCES "IngestionRule"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Mantém o comportamento anterior (CFOP 5949 + série 891 ignorada) para as empresas existentes
+INSERT INTO "IngestionRule" ("id", "companyId", "name", "cfopCodes", "series", "action", "updatedAt")
+SELECT 'ir_' || md5(c."id" || ':5949:891'), c."id", 'CFOP 5949 e série 891', ARRAY['5949'], ARRAY['891'], 'IGNORE', CURRENT_TIMESTAMP
+FROM "Company" c;
@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN "signatureStatus" TEXT,
+ADD COLUMN "integrityIssues" JSONB;
+
+-- AlterTable
+ALTER TABLE "Cte" ADD COLUMN "signatureStatus" TEXT,
+ADD COLUMN "integrityIssues" JSONB;
+
+-- CT-e sem protocolo eram gravados com o prefixo "CTe" do atributo Id na chave
+UPDATE "Cte" c
+SET "chave" = substring(c."chave" from 4)
+WHERE c."chave" LIKE 'CTe%'
+  AND NOT EXISTS (
+    SELECT 1 FROM "Cte" other
+    WHERE other."companyId" = c."companyId" AND other."chave" = substring(c."chave" from 4)
+  );
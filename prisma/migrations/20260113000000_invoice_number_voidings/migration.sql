@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "InvoiceNumberVoiding" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "issuerCnpj" TEXT NOT NULL,
+    "cUF" TEXT,
+    "ano" TEXT,
+    "modelo" TEXT NOT NULL DEFAULT '55',
+    "serie" INTEGER NOT NULL,
+    "startNumber" INTEGER NOT NULL,
+    "endNumber" INTEGER NOT NULL,
+    "justification" TEXT,
+    "statusCode" TEXT,
+    "statusMessage" TEXT,
+    "protocolNumber" TEXT,
+    "receivedAt" TIMESTAMP(3),
+    "sourceFileName" TEXT,
+    "uploadBatchId" TEXT,
+    "xmlDocumentId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "InvoiceNumberVoiding_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InvoiceNumberVoiding_unique_key" ON "InvoiceNumberVoiding"("companyId", "issuerCnpj", "modelo", "serie", "startNumber", "endNumber");
+CREATE INDEX "InvoiceNumberVoiding_companyId_receivedAt_idx" ON "InvoiceNumberVoiding"("companyId", "receivedAt");
+
+-- AddForeignKey
+ALTER TABLE "InvoiceNumberVoiding" ADD CONSTRAINT "InvoiceNumberVoiding_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "InvoiceNumberVoiding" ADD CONSTRAINT "InvoiceNumberVoiding_uploadBatchId_fkey" FOREIGN KEY ("uploadBatchId") REFERENCES "UploadBatch"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "InvoiceNumberVoiding" ADD CONSTRAINT "InvoiceNumberVoiding_xmlDocumentId_fkey" FOREIGN KEY ("xmlDocumentId") REFERENCES "XmlDocument"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "InvoiceItem" ADD COLUMN "icmsOrigin" TEXT;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "InvoiceItem" ADD COLUMN     "cstCOFINS" TEXT,
+ADD COLUMN     "cstPIS" TEXT,
+ADD COLUMN     "pCOFINS" DECIMAL(65,30),
+ADD COLUMN     "pPIS" DECIMAL(65,30),
+ADD COLUMN     "vBCCOFINS" DECIMAL(65,30),
+ADD COLUMN     "vBCPIS" DECIMAL(65,30);
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "InvoiceItem" ADD COLUMN     "cEnqIPI" TEXT,
+ADD COLUMN     "cstIPI" TEXT,
+ADD COLUMN     "pIPI" DECIMAL(65,30),
+ADD COLUMN     "vBCIPI" DECIMAL(65,30);
@@ -7,6 +7,10 @@ const adminRouter = require('./routes/admin');
 const productsRouter = require('./routes/products');
 const reportsRouter = require('./routes/reports');
 const ctesRouter = require('./routes/ctes');
+const mdfesRouter = require('./routes/mdfes');
+const uploadsRouter = require('./routes/uploads');
+const serviceInvoicesRouter = require('./routes/serviceInvoices');
+const { getInboxStatus } = require('./services/inboxWatcherService');
 
 const app = express();
 
@@ -34,6 +38,7 @@ app.get('/health', (req, res) => {
     ok: true,
     uptime: process.uptime(),
     timestamp: new Date().toISOString(),
+    inbox: getInboxStatus(),
   });
 });
 
@@ -43,6 +48,9 @@ app.use('/admin', adminRouter);
 app.use('/products', productsRouter);
 app.use('/reports', reportsRouter);
 app.use('/ctes', ctesRouter);
+app.use('/mdfes', mdfesRouter);
+app.use('/uploads', uploadsRouter);
+app.use('/service-invoices', serviceInvoicesRouter);
 
 app.use((err, req, res, next) => {
   if (res.headersSent) {
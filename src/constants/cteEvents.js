@@ -0,0 +1,30 @@
+// Tipos de evento (tpEvento) do CT-e
+const CTE_EVENT_TYPES = Object.freeze({
+  CARTA_CORRECAO: '110110',
+  CANCELAMENTO: '110111',
+  EPEC: '110113',
+  REGISTRO_MULTIMODAL: '110160',
+  COMPROVANTE_ENTREGA: '110180',
+  CANCELAMENTO_COMPROVANTE_ENTREGA: '110181',
+  PRESTACAO_DESACORDO: '610110',
+});
+
+const CTE_EVENT_LABELS = Object.freeze({
+  [CTE_EVENT_TYPES.CARTA_CORRECAO]: 'Carta de correção',
+  [CTE_EVENT_TYPES.CANCELAMENTO]: 'Cancelamento',
+  [CTE_EVENT_TYPES.EPEC]: 'EPEC',
+  [CTE_EVENT_TYPES.REGISTRO_MULTIMODAL]: 'Registro multimodal',
+  [CTE_EVENT_TYPES.COMPROVANTE_ENTREGA]: 'Comprovante de entrega',
+  [CTE_EVENT_TYPES.CANCELAMENTO_COMPROVANTE_ENTREGA]: 'Cancelamento do comprovante de entrega',
+  [CTE_EVENT_TYPES.PRESTACAO_DESACORDO]: 'Prestação em desacordo',
+});
+
+function resolveCteEventLabel(eventType, description = null) {
+  return CTE_EVENT_LABELS[eventType] ?? description ?? eventType;
+}
+
+module.exports = {
+  CTE_EVENT_TYPES,
+  CTE_EVENT_LABELS,
+  resolveCteEventLabel,
+};
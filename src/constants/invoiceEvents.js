@@ -0,0 +1,32 @@
+// Tipos de evento (tpEvento) da NF-e
+const INVOICE_EVENT_TYPES = Object.freeze({
+  CARTA_CORRECAO: '110110',
+  CANCELAMENTO: '110111',
+  CANCELAMENTO_SUBSTITUICAO: '110115',
+  EPEC: '110140',
+  CONFIRMACAO_OPERACAO: '210200',
+  CIENCIA_OPERACAO: '210210',
+  DESCONHECIMENTO_OPERACAO: '210220',
+  OPERACAO_NAO_REALIZADA: '210240',
+});
+
+const INVOICE_EVENT_LABELS = Object.freeze({
+  [INVOICE_EVENT_TYPES.CARTA_CORRECAO]: 'Carta de correção',
+  [INVOICE_EVENT_TYPES.CANCELAMENTO]: 'Cancelamento',
+  [INVOICE_EVENT_TYPES.CANCELAMENTO_SUBSTITUICAO]: 'Cancelamento por substituição',
+  [INVOICE_EVENT_TYPES.EPEC]: 'EPEC',
+  [INVOICE_EVENT_TYPES.CONFIRMACAO_OPERACAO]: 'Confirmação da operação',
+  [INVOICE_EVENT_TYPES.CIENCIA_OPERACAO]: 'Ciência da operação',
+  [INVOICE_EVENT_TYPES.DESCONHECIMENTO_OPERACAO]: 'Desconhecimento da operação',
+  [INVOICE_EVENT_TYPES.OPERACAO_NAO_REALIZADA]: 'Operação não realizada',
+});
+
+function resolveInvoiceEventLabel(eventType, description = null) {
+  return INVOICE_EVENT_LABELS[eventType] ?? description ?? eventType;
+}
+
+module.exports = {
+  INVOICE_EVENT_TYPES,
+  INVOICE_EVENT_LABELS,
+  resolveInvoiceEventLabel,
+};
@@ -0,0 +1,24 @@
+const INVOICE_MODELS = Object.freeze({
+  NFE: '55',
+  NFCE: '65',
+});
+
+// Finalidade de emissão (ide/finNFe)
+const INVOICE_PURPOSES = Object.freeze({
+  NORMAL: '1',
+  COMPLEMENTAR: '2',
+  AJUSTE: '3',
+  DEVOLUCAO: '4',
+});
+
+// Consumidor final não identificado em NFC-e (sem grupo dest)
+const ANONYMOUS_CONSUMER = Object.freeze({
+  taxId: '00000000000',
+  name: 'Consumidor final não identificado',
+});
+
+module.exports = {
+  INVOICE_MODELS,
+  INVOICE_PURPOSES,
+  ANONYMOUS_CONSUMER,
+};
@@ -0,0 +1,32 @@
+// Meios de pagamento (tPag) do grupo detPag da NF-e/NFC-e
+const PAYMENT_METHOD_LABELS = Object.freeze({
+  '01': 'Dinheiro',
+  '02': 'Cheque',
+  '03': 'Cartão de crédito',
+  '04': 'Cartão de débito',
+  '05': 'Crédito loja',
+  '10': 'Vale alimentação',
+  '11': 'Vale refeição',
+  '12': 'Vale presente',
+  '13': 'Vale combustível',
+  '15': 'Boleto bancário',
+  '16': 'Depósito bancário',
+  '17': 'PIX',
+  '18': 'Transferência bancária',
+  '19': 'Programa de fidelidade',
+  '20': 'PIX estático',
+  '21': 'Crédito em loja',
+  '22': 'Pagamento eletrônico não informado',
+  '90': 'Sem pagamento',
+  '99': 'Outros',
+});
+
+function resolvePaymentMethodLabel(tPag, description = null) {
+  if (description) return description;
+  return PAYMENT_METHOD_LABELS[tPag] ?? tPag;
+}
+
+module.exports = {
+  PAYMENT_METHOD_LABELS,
+  resolvePaymentMethodLabel,
+};
@@ -6,11 +6,22 @@ const { reprocessCompanyCfops } = require('../services/cfopReprocessService');
 const { mergeNaturezas } = require('../services/naturezaOperacaoRegistry');
 const { sanitizeNatOp, buildCfopCompositeFromNatOp } = require('../utils/naturezaOperacao');
 const { buildWarehouseGeneralReport } = require('../services/warehouseReportService');
+const { resolveInboxPath, scanInboxes } = require('../services/inboxWatcherService');
+const {
+  INGESTION_RULE_SELECT,
+  normalizeIngestionRuleInput,
+  assertIngestionRuleConsistent,
+  serializeIngestionRule,
+} = require('../services/ingestionRuleService');
 const { generateWarehouseReportPdf } = require('../services/warehouseReportPdf');
 const {
   buildUnconditionalDiscountReport,
   generateUnconditionalDiscountCsv,
 } = require('../services/unconditionalDiscountReportService');
+const { buildNumberingGapReport } = require('../services/numberingGapReportService');
+const { buildEfdIcmsIpi } = require('../services/spedEfdIcmsIpiService');
+const { buildEfdContribuicoes } = require('../services/spedEfdContribuicoesService');
+const { toSpedBuffer } = require('../utils/spedFormat');
 
 const router = express.Router();
 
@@ -559,6 +570,7 @@ router.get('/', async (req, res, next) => {
         id: true,
         name: true,
         cnpj: true,
+        inboxPath: true,
         createdAt: true,
         updatedAt: true,
       },
@@ -721,6 +733,42 @@ router.post('/', async (req, res, next) => {
   }
 });
 
+// Pasta monitorada pelo importador automático; vazio desativa
+router.patch('/:id/inbox', async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const rawPath = req.body?.inboxPath;
+    if (rawPath != null && typeof rawPath !== 'string') {
+      return res.status(400).json({ error: 'inboxPath deve ser texto' });
+    }
+    const inboxPath = rawPath ? rawPath.trim() : '';
+
+    const company = await prisma.company.findUnique({ where: { id }, select: { id: true } });
+    if (!company) {
+      return res.status(404).json({ error: 'Empresa não encontrada' });
+    }
+
+    const resolvedPath = inboxPath ? await resolveInboxPath(id, inboxPath) : null;
+
+    const updated = await prisma.company.update({
+      where: { id },
+      data: { inboxPath: resolvedPath },
+      select: { id: true, name: true, cnpj: true, inboxPath: true, createdAt: true, updatedAt: true },
+    });
+
+    if (updated.inboxPath) {
+      scanInboxes();
+    }
+
+    res.status(200).json({ item: updated });
+  } catch (error) {
+    if (error.status === 400) {
+      return res.status(400).json({ error: error.message });
+    }
+    next(error);
+  }
+});
+
 router.get('/:id/summary', async (req, res, next) => {
   try {
     const { id } = req.params;
@@ -931,6 +979,119 @@ router.get('/:id/reports/unconditional-discounts.csv', async (req, res, next) =>
   }
 });
 
+router.get('/:id/reports/numbering-gaps', async (req, res, next) => {
+  try {
+    const report = await buildNumberingGapReport({ companyId: req.params.id });
+    res.status(200).json({ report });
+  } catch (error) {
+    if (error.status === 400) {
+      return res.status(400).json({ error: error.message });
+    }
+    if (error.status === 404) {
+      return res.status(404).json({ error: error.message });
+    }
+    return next(error);
+  }
+});
+
+// Parâmetros comuns da geração do SPED; saldo credor aceita vírgula ou ponto decimal
+function parseSpedQuery(query) {
+  const rawBalance = String(query.previousCreditBalance ?? '').trim();
+  if (rawBalance && !/^\d+([.,]\d{1,2})?$/.test(rawBalance)) {
+    const error = new Error('Saldo credor anterior inválido.');
+    error.status = 400;
+    throw error;
+  }
+  return {
+    period: query.period,
+    profile: query.profile ? String(query.profile).toUpperCase() : undefined,
+    activity: query.activity ? String(query.activity) : undefined,
+    previousCreditBalance: rawBalance ? rawBalance.replace(',', '.') : undefined,
+  };
+}
+
+router.get('/:id/sped/efd-icms-ipi', async (req, res, next) => {
+  try {
+    const { content, ...result } = await buildEfdIcmsIpi({
+      companyId: req.params.id,
+      ...parseSpedQuery(req.query),
+    });
+    res.status(200).json(result);
+  } catch (error) {
+    if (error.status === 400) {
+      return res.status(400).json({ error: error.message });
+    }
+    if (error.status === 404) {
+      return res.status(404).json({ error: error.message });
+    }
+    return next(error);
+  }
+});
+
+router.get('/:id/sped/efd-icms-ipi.txt', async (req, res, next) => {
+  try {
+    const result = await buildEfdIcmsIpi({
+      companyId: req.params.id,
+      ...parseSpedQuery(req.query),
+    });
+
+    res.setHeader('Content-Type', 'text/plain; charset=iso-8859-1');
+    res.setHeader('Content-Disposition', `attachment; filename="${result.fileName}"`);
+    res.status(200).send(toSpedBuffer(result.content));
+  } catch (error) {
+    if (error.status === 400) {
+      return res.status(400).json({ error: error.message });
+    }
+    if (error.status === 404) {
+      return res.status(404).json({ error: error.message });
+    }
+    return next(error);
+  }
+});
+
+router.get('/:id/sped/efd-contribuicoes', async (req, res, next) => {
+  try {
+    const { period, activity } = parseSpedQuery(req.query);
+    const { content, ...result } = await buildEfdContribuicoes({
+      companyId: req.params.id,
+      period,
+      activity,
+    });
+    res.status(200).json(result);
+  } catch (error) {
+    if (error.status === 400) {
+      return res.status(400).json({ error: error.message });
+    }
+    if (error.status === 404) {
+      return res.status(404).json({ error: error.message });
+    }
+    return next(error);
+  }
+});
+
+router.get('/:id/sped/efd-contribuicoes.txt', async (req, res, next) => {
+  try {
+    const { period, activity } = parseSpedQuery(req.query);
+    const result = await buildEfdContribuicoes({
+      companyId: req.params.id,
+      period,
+      activity,
+    });
+
+    res.setHeader('Content-Type', 'text/plain; charset=iso-8859-1');
+    res.setHeader('Content-Disposition', `attachment; filename="${result.fileName}"`);
+    res.status(200).send(toSpedBuffer(result.content));
+  } catch (error) {
+    if (error.status === 400) {
+      return res.status(400).json({ error: error.message });
+    }
+    if (error.status === 404) {
+      return res.status(404).json({ error: error.message });
+    }
+    return next(error);
+  }
+});
+
 router.post('/:id/reprocess-cfop', async (req, res, next) => {
   if (!CFOP_REPROCESS_ENABLED) {
     return res.status(404).json({ error: 'Recurso não disponível.' });
@@ -1657,6 +1818,115 @@ router.put('/:id/cfop-rules/:cfopCode', async (req, res, next) => {
   }
 });
 
+async function assertNaturezaBelongsToCompany(companyId, naturezaOperacaoId) {
+  if (!naturezaOperacaoId) return;
+  const natureza = await prisma.naturezaOperacao.findFirst({
+    where: { id: naturezaOperacaoId, companyId },
+    select: { id: true },
+  });
+  if (!natureza) {
+    const error = new Error('Natureza de operação não encontrada para esta empresa');
+    error.status = 404;
+    throw error;
+  }
+}
+
+router.get('/:id/ingestion-rules', async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const company = await prisma.company.findUnique({ where: { id }, select: { id: true } });
+    if (!company) {
+      return res.status(404).json({ error: 'Empresa não encontrada' });
+    }
+
+    const [rules, naturezas] = await Promise.all([
+      prisma.ingestionRule.findMany({
+        where: { companyId: id },
+        orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+        select: INGESTION_RULE_SELECT,
+      }),
+      prisma.naturezaOperacao.findMany({
+        where: { companyId: id },
+        orderBy: [{ cfopCode: 'asc' }, { descricao: 'asc' }],
+        select: { id: true, natOp: true, descricao: true, cfopCode: true, cfopType: true },
+      }),
+    ]);
+
+    res.status(200).json({ items: rules.map(serializeIngestionRule), naturezas });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/:id/ingestion-rules', async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const company = await prisma.company.findUnique({ where: { id }, select: { id: true } });
+    if (!company) {
+      return res.status(404).json({ error: 'Empresa não encontrada' });
+    }
+
+    const data = normalizeIngestionRuleInput(req.body ?? {});
+    assertIngestionRuleConsistent(data);
+    await assertNaturezaBelongsToCompany(id, data.naturezaOperacaoId);
+
+    const rule = await prisma.ingestionRule.create({
+      data: { companyId: id, ...data },
+      select: INGESTION_RULE_SELECT,
+    });
+
+    res.status(201).json({ item: serializeIngestionRule(rule) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.patch('/:id/ingestion-rules/:ruleId', async (req, res, next) => {
+  try {
+    const { id, ruleId } = req.params;
+    const existing = await prisma.ingestionRule.findFirst({
+      where: { id: ruleId, companyId: id },
+      select: INGESTION_RULE_SELECT,
+    });
+    if (!existing) {
+      return res.status(404).json({ error: 'Regra de ingestão não encontrada.' });
+    }
+
+    const data = normalizeIngestionRuleInput(req.body ?? {}, { partial: true });
+    assertIngestionRuleConsistent({ ...existing, ...data });
+    await assertNaturezaBelongsToCompany(id, data.naturezaOperacaoId);
+
+    const rule = await prisma.ingestionRule.update({
+      where: { id: ruleId },
+      data,
+      select: INGESTION_RULE_SELECT,
+    });
+
+    res.status(200).json({ item: serializeIngestionRule(rule) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.delete('/:id/ingestion-rules/:ruleId', async (req, res, next) => {
+  try {
+    const { id, ruleId } = req.params;
+    const existing = await prisma.ingestionRule.findFirst({
+      where: { id: ruleId, companyId: id },
+      select: { id: true },
+    });
+    if (!existing) {
+      return res.status(404).json({ error: 'Regra de ingestão não encontrada.' });
+    }
+
+    await prisma.ingestionRule.delete({ where: { id: ruleId } });
+
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
+
 router.get('/:id/products', async (req, res, next) => {
   try {
     const { id } = req.params;
@@ -2957,7 +3227,13 @@ router.post('/:id/reset-data', async (req, res, next) => {
         uploadBatches: await tx.uploadBatch.count({ where: { companyId: id } }),
         reprocessBatches: await tx.reprocessBatch.count({ where: { companyId: id } }),
         cancellations: await tx.invoiceCancellation.count({ where: { companyId: id } }),
+        numberVoidings: await tx.invoiceNumberVoiding.count({ where: { companyId: id } }),
         stockMovements: await tx.stockMovement.count({ where: { companyId: id } }),
+        serviceInvoices: await tx.serviceInvoice.count({ where: { companyId: id } }),
+        xmlDocuments: await tx.xmlDocument.count({ where: { companyId: id } }),
+        invoiceEvents: await tx.invoiceEvent.count({ where: { companyId: id } }),
+        cteEvents: await tx.cteEvent.count({ where: { companyId: id } }),
+        mdfes: await tx.mdfe.count({ where: { companyId: id } }),
       };
 
       await tx.invoiceItemProductMapping.deleteMany({
@@ -2965,6 +3241,7 @@ router.post('/:id/reset-data', async (req, res, next) => {
       });
       await tx.stockMovement.deleteMany({ where: { companyId: id } });
       await tx.invoiceCancellation.deleteMany({ where: { companyId: id } });
+      await tx.invoiceNumberVoiding.deleteMany({ where: { companyId: id } });
       await tx.uploadBatch.deleteMany({ where: { companyId: id } });
       await tx.reprocessBatch.deleteMany({ where: { companyId: id } });
       await tx.invoiceItemMappingRule.deleteMany({ where: { companyId: id } });
@@ -2972,7 +3249,13 @@ router.post('/:id/reset-data', async (req, res, next) => {
       await tx.naturezaOperacaoAlias.deleteMany({ where: { companyId: id } });
       await tx.naturezaOperacao.deleteMany({ where: { companyId: id } });
       await tx.cfopRule.deleteMany({ where: { companyId: id } });
+      await tx.serviceInvoice.deleteMany({ where: { companyId: id } });
+      await tx.invoiceEvent.deleteMany({ where: { companyId: id } });
+      await tx.cteEvent.deleteMany({ where: { companyId: id } });
+      await tx.mdfeDocumentLink.deleteMany({ where: { mdfe: { companyId: id } } });
+      await tx.mdfe.deleteMany({ where: { companyId: id } });
       await tx.invoice.deleteMany({ where: { companyId: id } });
+      await tx.xmlDocument.deleteMany({ where: { companyId: id } });
 
       return counts;
     });
@@ -1,5 +1,9 @@
 const express = require('express');
 const { prisma } = require('../prisma');
+const { allocateCteFreight, computeFreightPerSaca } = require('../services/cteFreightService');
+const { decompressXml } = require('../services/xmlDocumentService');
+const { loadDacte } = require('../services/dacteService');
+const { generateDactePdf } = require('../services/dactePdf');
 
 const router = express.Router();
 
@@ -97,6 +101,7 @@ router.get('/', async (req, res, next) => {
             { numero: { contains: term } },
             { destCnpj: { contains: term.replace(/\D/g, '') } },
             { destNome: { contains: term, mode: 'insensitive' } },
+            { invoiceLinks: { some: { chaveNFe: { contains: term } } } },
           ],
         });
       }
@@ -109,6 +114,16 @@ router.get('/', async (req, res, next) => {
       where,
       orderBy: [{ emissao: 'desc' }, { id: 'desc' }],
       take: pageSize + 1,
+      include: {
+        invoiceLinks: {
+          orderBy: { chaveNFe: 'asc' },
+          select: {
+            chaveNFe: true,
+            invoiceId: true,
+            invoice: { select: { id: true, numero: true, totalNFe: true, grossWeight: true } },
+          },
+        },
+      },
     };
 
     if (cursorId) {
@@ -124,22 +139,34 @@ router.get('/', async (req, res, next) => {
       nextCursor = encodeCursor(nextItem.id);
     }
 
-    const items = ctes.map((cte) => ({
-      id: cte.id,
-      chave: cte.chave,
-      numero: cte.numero,
-      serie: cte.serie,
-      emissao: cte.emissao.toISOString(),
-      cfop: cte.cfop,
-      emitNome: cte.emitNome,
-      emitCnpj: cte.emitCnpj,
-      destNome: cte.destNome,
-      destCnpj: cte.destCnpj,
-      destUf: cte.destUf,
-      destMun: cte.destMun,
-      valorPrestacao: formatDecimal(cte.valorPrestacao),
-      pesoBruto: formatDecimal(cte.pesoBruto),
-    }));
+    const items = ctes.map((cte) => {
+      const allocation = allocateCteFreight(cte);
+      const freightPerSaca = computeFreightPerSaca(cte.valorPrestacao, cte.pesoBruto);
+      return {
+        id: cte.id,
+        chave: cte.chave,
+        numero: cte.numero,
+        serie: cte.serie,
+        emissao: cte.emissao.toISOString(),
+        cfop: cte.cfop,
+        emitNome: cte.emitNome,
+        emitCnpj: cte.emitCnpj,
+        destNome: cte.destNome,
+        destCnpj: cte.destCnpj,
+        destUf: cte.destUf,
+        destMun: cte.destMun,
+        valorPrestacao: formatDecimal(cte.valorPrestacao),
+        pesoBruto: formatDecimal(cte.pesoBruto),
+        freightPerSaca: freightPerSaca ? freightPerSaca.toFixed(2) : null,
+        hasXml: Boolean(cte.xmlDocumentId),
+        invoices: cte.invoiceLinks.map((link) => ({
+          chave: link.chaveNFe,
+          invoiceId: link.invoiceId,
+          numero: link.invoice?.numero ?? null,
+          freightValue: allocation.get(link.chaveNFe)?.toFixed(2) ?? null,
+        })),
+      };
+    });
 
     res.status(200).json({ items, nextCursor });
   } catch (error) {
@@ -150,4 +177,66 @@ router.get('/', async (req, res, next) => {
   }
 });
 
+router.get('/:id/xml', async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const { companyId } = req.query;
+
+    if (!companyId || typeof companyId !== 'string') {
+      const error = new Error('Parâmetro companyId é obrigatório');
+      error.status = 400;
+      throw error;
+    }
+
+    const cte = await prisma.cte.findFirst({
+      where: { id, companyId },
+      select: { chave: true, xmlDocument: { select: { content: true } } },
+    });
+    if (!cte) {
+      return res.status(404).json({ error: 'CT-e não encontrado' });
+    }
+    const xml = decompressXml(cte.xmlDocument);
+    if (!xml) {
+      return res.status(404).json({ error: 'XML original não armazenado para este CT-e' });
+    }
+
+    res.setHeader('Content-Type', 'application/xml; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${cte.chave}.xml"`);
+    res.status(200).send(xml);
+  } catch (error) {
+    if (error.status === 400) {
+      return res.status(400).json({ error: error.message });
+    }
+    return next(error);
+  }
+});
+
+router.get('/:id/dacte.pdf', async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const { companyId } = req.query;
+
+    if (!companyId || typeof companyId !== 'string') {
+      const error = new Error('Parâmetro companyId é obrigatório');
+      error.status = 400;
+      throw error;
+    }
+
+    const dacte = await loadDacte(companyId, id);
+    if (!dacte) {
+      return res.status(404).json({ error: 'CT-e não encontrado' });
+    }
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="dacte-${dacte.chave}.pdf"`);
+    res.status(200);
+    await generateDactePdf({ res, dacte });
+  } catch (error) {
+    if (error.status === 400) {
+      return res.status(400).json({ error: error.message });
+    }
+    return next(error);
+  }
+});
+
 module.exports = router;
@@ -1,8 +1,17 @@
 const express = require('express');
 const multer = require('multer');
 const path = require('path');
+const { Prisma } = require('@prisma/client');
 const { prisma } = require('../prisma');
-const { processInvoicesFromZip } = require('../services/invoiceUploadService');
+const { enqueueUploadJob } = require('../services/uploadJobService');
+const { INVOICE_MODELS } = require('../constants/invoiceModels');
+const { resolvePaymentMethodLabel } = require('../constants/paymentMethods');
+const { buildInvoiceFreightMap, computeFreightPerSaca } = require('../services/cteFreightService');
+const { buildDocumentChain } = require('../services/invoiceReferenceService');
+const { buildXmlArchive, decompressXml } = require('../services/xmlDocumentService');
+const { loadDanfeInvoices } = require('../services/danfeService');
+const { generateDanfePdf } = require('../services/danfePdf');
+const { listInvoiceEvents, findLatestCorrections } = require('../services/invoiceEventService');
 
 const multiCompanyAccessKeyFlag =
   String(process.env.MULTI_COMPANY_ACCESS_KEY ?? 'false').toLowerCase() === 'true';
@@ -25,12 +34,12 @@ const upload = multer({
   storage,
   limits: {
     fileSize: MAX_ZIP_SIZE,
-    files: 1,
+    files: MAX_XML_FILES,
   },
   fileFilter: (req, file, cb) => {
     const ext = path.extname(file.originalname).toLowerCase();
-    if (ext !== '.zip') {
-      const error = new Error('Apenas arquivos .zip são aceitos');
+    if (ext !== '.zip' && ext !== '.xml') {
+      const error = new Error('Apenas arquivos .zip ou .xml são aceitos');
       error.status = 400;
       return cb(error);
     }
@@ -38,7 +47,11 @@ const upload = multer({
   },
 });
 
-const uploadSingleZip = upload.single('file');
+// "files" recebe vários XML/zip; "file" continua aceito para o envio de um único zip
+const uploadXmlFiles = upload.fields([
+  { name: 'files', maxCount: MAX_XML_FILES },
+  { name: 'file', maxCount: 1 },
+]);
 
 function createBadRequest(message) {
   const error = new Error(message);
@@ -103,11 +116,88 @@ function formatDecimal(value) {
   return String(value);
 }
 
+// Filtros compartilhados pela listagem e pela impressão de DANFE em lote
+function buildInvoiceListWhere(query) {
+  const {
+    companyId,
+    from,
+    to,
+    type,
+    modelo,
+    totalsMismatch,
+    integrityFlagged,
+  } = query;
+
+  if (!companyId || typeof companyId !== 'string') {
+    throw createBadRequest('Parâmetro companyId é obrigatório');
+  }
+
+  let invoiceModelo;
+  if (modelo != null && modelo !== '') {
+    const normalized = String(modelo).trim();
+    if (!Object.values(INVOICE_MODELS).includes(normalized)) {
+      throw createBadRequest('Parâmetro modelo inválido');
+    }
+    invoiceModelo = normalized;
+  }
+
+  let invoiceType;
+  if (type != null) {
+    const normalized = String(type).toUpperCase();
+    if (!['IN', 'OUT'].includes(normalized)) {
+      throw createBadRequest('Parâmetro type inválido');
+    }
+    invoiceType = normalized;
+  }
+
+  const fromDate = parseDateParam(from, 'from');
+  const toDate = parseEndDateParam(to);
+
+  const where = {
+    companyId,
+    ...(invoiceType ? { type: invoiceType } : {}),
+    ...(invoiceModelo ? { modelo: invoiceModelo } : {}),
+    ...(String(totalsMismatch ?? '').toLowerCase() === 'true' ? { totalsMismatch: true } : {}),
+    ...(String(integrityFlagged ?? '').toLowerCase() === 'true' ? { integrityIssues: { not: Prisma.DbNull } } : {}),
+  };
+
+  if (query.search) {
+    const searchTerm = String(query.search).trim();
+    if (searchTerm.length) {
+      const like = searchTerm;
+      where.OR = [
+        { chave: { contains: like, mode: 'insensitive' } },
+        { numero: { contains: like, mode: 'insensitive' } },
+        { issuerCnpj: { contains: like.replace(/\D/g, '') } },
+        { recipientCnpj: { contains: like.replace(/\D/g, '') } },
+      ];
+    }
+  }
+
+  if (fromDate || toDate) {
+    where.emissao = {};
+    if (fromDate) {
+      where.emissao.gte = fromDate;
+    }
+    if (toDate) {
+      where.emissao.lte = toDate;
+    }
+  }
+
+  return where;
+}
+
 router.post('/upload-xml', (req, res, next) => {
-  uploadSingleZip(req, res, async (err) => {
+  uploadXmlFiles(req, res, async (err) => {
     if (err) {
       if (err.code === 'LIMIT_FILE_SIZE') {
-        return res.status(400).json({ error: 'Arquivo zip excede o tamanho máximo permitido' });
+        return res.status(400).json({ error: 'Arquivo excede o tamanho máximo permitido' });
+      }
+      if (err.code === 'LIMIT_FILE_COUNT') {
+        return res.status(400).json({ error: `Limite de ${MAX_XML_FILES} arquivos por envio excedido` });
+      }
+      if (err.status === 400) {
+        return res.status(400).json({ error: err.message });
       }
       return next(err);
     }
@@ -117,8 +207,9 @@ router.post('/upload-xml', (req, res, next) => {
       return res.status(400).json({ error: 'Parâmetro companyId é obrigatório' });
     }
 
-    if (!req.file) {
-      return res.status(400).json({ error: 'Arquivo .zip é obrigatório (campo "file")' });
+    const uploadedFiles = [...(req.files?.files ?? []), ...(req.files?.file ?? [])];
+    if (!uploadedFiles.length) {
+      return res.status(400).json({ error: 'Envie ao menos um arquivo .xml ou .zip (campo "files")' });
     }
 
     prisma.company.findUnique({ where: { id: companyId } })
@@ -127,41 +218,24 @@ router.post('/upload-xml', (req, res, next) => {
           return res.status(404).json({ error: 'Empresa não encontrada' });
         }
 
-        const summary = await processInvoicesFromZip({
+        // Processamento em segundo plano; o progresso é consultado em GET /uploads/:batchId
+        const batch = await enqueueUploadJob({
           companyId,
-          companyCnpj: company.cnpj,
-          zipBuffer: req.file.buffer,
+          files: uploadedFiles.map((file) => ({ name: file.originalname, buffer: file.buffer })),
+          actorId: req.user?.id ?? null,
           limits: {
             maxFiles: MAX_XML_FILES,
             maxFileSize: MAX_XML_FILE_SIZE,
           },
-          fileName: req.file.originalname ?? null,
-          actorId: req.user?.id ?? null,
           flags: {
             multiCompanyAccessKey: multiCompanyAccessKeyFlag,
             enableDecisionLogs: uploadDecisionLogsFlag,
             updateExisting: true, // sempre atualizar duplicatas com dados do XML
+            routeByCnpj: String(req.query.routeByCnpj ?? 'false').toLowerCase() === 'true',
           },
         });
 
-        console.info('[upload-xml] resumo', {
-          companyId,
-          inserted: summary.inserted,
-          updated: summary.updated,
-          duplicate: summary.duplicate,
-          failed: summary.failed,
-          cancelled: summary.cancelled,
-        });
-
-        summary.details.forEach((detail) => {
-          const payload = { companyId, file: detail.file, status: detail.status };
-          if (detail.reason) {
-            payload.reason = detail.reason;
-          }
-          console.info('[upload-xml] arquivo', payload);
-        });
-
-        return res.status(200).json(summary);
+        return res.status(202).json({ batchId: batch.id, status: batch.status });
       })
       .catch((error) => next(error));
   });
@@ -169,61 +243,11 @@ router.post('/upload-xml', (req, res, next) => {
 
 router.get('/', async (req, res, next) => {
   try {
-    const {
-      companyId,
-      from,
-      to,
-      type,
-      limit: limitParam,
-      cursor: cursorParam,
-    } = req.query;
-
-    if (!companyId || typeof companyId !== 'string') {
-      throw createBadRequest('Parâmetro companyId é obrigatório');
-    }
-
-    let invoiceType;
-    if (type != null) {
-      const normalized = String(type).toUpperCase();
-      if (!['IN', 'OUT'].includes(normalized)) {
-        throw createBadRequest('Parâmetro type inválido');
-      }
-      invoiceType = normalized;
-    }
-
+    const { companyId, limit: limitParam, cursor: cursorParam } = req.query;
+    const where = buildInvoiceListWhere(req.query);
     const pageSize = parseLimitParam(limitParam);
-    const fromDate = parseDateParam(from, 'from');
-    const toDate = parseEndDateParam(to);
     const cursorId = decodeCursor(cursorParam);
 
-    const where = {
-      companyId,
-      ...(invoiceType ? { type: invoiceType } : {}),
-    };
-
-    if (req.query.search) {
-      const searchTerm = String(req.query.search).trim();
-      if (searchTerm.length) {
-        const like = searchTerm;
-        where.OR = [
-          { chave: { contains: like, mode: 'insensitive' } },
-          { numero: { contains: like, mode: 'insensitive' } },
-          { issuerCnpj: { contains: like.replace(/\D/g, '') } },
-          { recipientCnpj: { contains: like.replace(/\D/g, '') } },
-        ];
-      }
-    }
-
-    if (fromDate || toDate) {
-      where.emissao = {};
-      if (fromDate) {
-        where.emissao.gte = fromDate;
-      }
-      if (toDate) {
-        where.emissao.lte = toDate;
-      }
-    }
-
     const queryArgs = {
       where,
       orderBy: { emissao: 'desc' },
@@ -231,12 +255,19 @@ router.get('/', async (req, res, next) => {
       select: {
         id: true,
         chave: true,
+        modelo: true,
         numero: true,
         type: true,
         emissao: true,
         issuerCnpj: true,
         recipientCnpj: true,
+        recipientName: true,
         totalNFe: true,
+        totalsMismatch: true,
+        signatureStatus: true,
+        integrityIssues: true,
+        grossWeight: true,
+        xmlDocumentId: true,
       },
     };
 
@@ -253,16 +284,39 @@ router.get('/', async (req, res, next) => {
       nextCursor = encodeCursor(nextItem.id);
     }
 
-    const items = invoices.map((invoice) => ({
-      id: invoice.id,
-      chave: invoice.chave,
-      numero: invoice.numero,
-      type: invoice.type,
-      emissao: invoice.emissao.toISOString(),
-      issuerCnpj: invoice.issuerCnpj,
-      recipientCnpj: invoice.recipientCnpj,
-      totalNFe: formatDecimal(invoice.totalNFe),
-    }));
+    const freightByInvoice = await buildInvoiceFreightMap(
+      companyId,
+      invoices.map((invoice) => invoice.id),
+    );
+    const correctionByChave = await findLatestCorrections(
+      companyId,
+      invoices.map((invoice) => invoice.chave),
+    );
+
+    const items = invoices.map((invoice) => {
+      const freight = freightByInvoice.get(invoice.id);
+      const freightPerSaca = freight ? computeFreightPerSaca(freight.freightValue, invoice.grossWeight) : null;
+      return {
+        id: invoice.id,
+        chave: invoice.chave,
+        modelo: invoice.modelo,
+        numero: invoice.numero,
+        type: invoice.type,
+        emissao: invoice.emissao.toISOString(),
+        issuerCnpj: invoice.issuerCnpj,
+        recipientCnpj: invoice.recipientCnpj,
+        recipientName: invoice.recipientName,
+        totalNFe: formatDecimal(invoice.totalNFe),
+        totalsMismatch: invoice.totalsMismatch,
+        signatureStatus: invoice.signatureStatus,
+        integrityIssues: Array.isArray(invoice.integrityIssues) ? invoice.integrityIssues : [],
+        hasXml: Boolean(invoice.xmlDocumentId),
+        freightValue: freight ? freight.freightValue.toFixed(2) : null,
+        freightPerSaca: freightPerSaca ? freightPerSaca.toFixed(2) : null,
+        cteCount: freight ? freight.ctes.length : 0,
+        hasCorrection: correctionByChave.has(invoice.chave),
+      };
+    });
 
     res.status(200).json({ items, nextCursor });
   } catch (error) {
@@ -379,6 +433,202 @@ router.get('/cancellations', async (req, res, next) => {
   }
 });
 
+// Faixas de numeração inutilizadas, para a conferência do setor fiscal
+router.get('/number-voidings', async (req, res, next) => {
+  try {
+    const {
+      companyId,
+      from,
+      to,
+      limit: limitParam,
+      cursor: cursorParam,
+    } = req.query;
+
+    if (!companyId || typeof companyId !== 'string') {
+      throw createBadRequest('Parâmetro companyId é obrigatório');
+    }
+
+    const pageSize = parseLimitParam(limitParam);
+    const fromDate = parseDateParam(from, 'from');
+    const toDate = parseEndDateParam(to);
+    const cursorId = decodeCursor(cursorParam);
+
+    const where = { companyId };
+    if (fromDate || toDate) {
+      where.receivedAt = {
+        ...(fromDate ? { gte: fromDate } : {}),
+        ...(toDate ? { lte: toDate } : {}),
+      };
+    }
+
+    const queryArgs = {
+      where,
+      orderBy: [
+        { receivedAt: 'desc' },
+        { createdAt: 'desc' },
+        { id: 'desc' },
+      ],
+      take: pageSize + 1,
+      select: {
+        id: true,
+        issuerCnpj: true,
+        modelo: true,
+        serie: true,
+        startNumber: true,
+        endNumber: true,
+        justification: true,
+        statusCode: true,
+        statusMessage: true,
+        protocolNumber: true,
+        receivedAt: true,
+        sourceFileName: true,
+        uploadBatchId: true,
+        createdAt: true,
+      },
+    };
+
+    if (cursorId) {
+      queryArgs.cursor = { id: cursorId };
+      queryArgs.skip = 1;
+    }
+
+    const voidings = await prisma.invoiceNumberVoiding.findMany(queryArgs);
+
+    let nextCursor = null;
+    if (voidings.length > pageSize) {
+      const nextItem = voidings.pop();
+      nextCursor = encodeCursor(nextItem.id);
+    }
+
+    const items = voidings.map((record) => ({
+      ...record,
+      receivedAt: record.receivedAt ? record.receivedAt.toISOString() : null,
+      createdAt: record.createdAt.toISOString(),
+    }));
+
+    res.status(200).json({ items, nextCursor });
+  } catch (error) {
+    if (error.status === 400) {
+      return res.status(400).json({ error: error.message });
+    }
+    return next(error);
+  }
+});
+
+// Exporta os XMLs originais do período (NF-e, CT-e, MDF-e, eventos e inutilizações) para auditoria
+router.get('/xml-export.zip', async (req, res, next) => {
+  try {
+    const { companyId, from, to } = req.query;
+
+    if (!companyId || typeof companyId !== 'string') {
+      throw createBadRequest('Parâmetro companyId é obrigatório');
+    }
+
+    const fromDate = parseDateParam(from, 'from');
+    const toDate = parseEndDateParam(to);
+
+    const { buffer, counts } = await buildXmlArchive(companyId, { from: fromDate, to: toDate });
+    if (!counts.nfe && !counts.cte && !counts.mdfe && !counts.eventos && !counts.inutilizacoes) {
+      return res.status(404).json({ error: 'Nenhum XML armazenado para o período informado' });
+    }
+
+    const period = [from, to].filter(Boolean).join('_a_') || 'completo';
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="xmls-${period}.zip"`);
+    res.status(200).send(buffer);
+  } catch (error) {
+    if (error.status === 400) {
+      return res.status(400).json({ error: error.message });
+    }
+    return next(error);
+  }
+});
+
+async function sendDanfePdf(res, { companyId, where, filename }) {
+  const invoices = await loadDanfeInvoices(companyId, where);
+  if (!invoices.length) {
+    return res.status(404).json({ error: 'Nenhuma nota encontrada para impressão' });
+  }
+
+  const downloadName = invoices.length === 1 ? `danfe-${invoices[0].chave}.pdf` : filename;
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="${downloadName}"`);
+  res.status(200);
+  return generateDanfePdf({ res, invoices });
+}
+
+// DANFE em lote para a listagem filtrada (mesmos filtros de GET /invoices) ou para ids selecionados
+router.get('/danfe.pdf', async (req, res, next) => {
+  try {
+    const where = buildInvoiceListWhere(req.query);
+    if (req.query.ids) {
+      const ids = String(req.query.ids).split(',').map((id) => id.trim()).filter(Boolean);
+      if (!ids.length) {
+        throw createBadRequest('Parâmetro ids inválido');
+      }
+      where.id = { in: ids };
+    }
+
+    const period = [req.query.from, req.query.to].filter(Boolean).join('_a_') || 'selecao';
+    await sendDanfePdf(res, { companyId: where.companyId, where, filename: `danfes-${period}.pdf` });
+  } catch (error) {
+    if (error.status === 400) {
+      return res.status(400).json({ error: error.message });
+    }
+    return next(error);
+  }
+});
+
+router.get('/:id/danfe.pdf', async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const { companyId } = req.query;
+
+    if (!companyId || typeof companyId !== 'string') {
+      throw createBadRequest('Parâmetro companyId é obrigatório');
+    }
+
+    await sendDanfePdf(res, { companyId, where: { id }, filename: `danfe-${id}.pdf` });
+  } catch (error) {
+    if (error.status === 400) {
+      return res.status(400).json({ error: error.message });
+    }
+    return next(error);
+  }
+});
+
+router.get('/:id/xml', async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const { companyId } = req.query;
+
+    if (!companyId || typeof companyId !== 'string') {
+      throw createBadRequest('Parâmetro companyId é obrigatório');
+    }
+
+    const invoice = await prisma.invoice.findFirst({
+      where: { id, companyId },
+      select: { chave: true, xmlDocument: { select: { content: true } } },
+    });
+    if (!invoice) {
+      return res.status(404).json({ error: 'Nota não encontrada' });
+    }
+    const xml = decompressXml(invoice.xmlDocument);
+    if (!xml) {
+      return res.status(404).json({ error: 'XML original não armazenado para esta nota' });
+    }
+
+    res.setHeader('Content-Type', 'application/xml; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${invoice.chave}.xml"`);
+    res.status(200).send(xml);
+  } catch (error) {
+    if (error.status === 400) {
+      return res.status(400).json({ error: error.message });
+    }
+    return next(error);
+  }
+});
+
 router.get('/:id/items', async (req, res, next) => {
   try {
     const { id } = req.params;
@@ -396,6 +646,7 @@ router.get('/:id/items', async (req, res, next) => {
       where: { id, companyId },
       select: {
         id: true,
+        chave: true,
         items: {
           orderBy: { id: 'asc' },
           select: {
@@ -405,12 +656,73 @@ router.get('/:id/items', async (req, res, next) => {
             unitPrice: true,
             gross: true,
             discount: true,
+            vFrete: true,
+            vSeg: true,
+            vOutro: true,
             icmsValue: true,
+            pICMS: true,
+            vFCP: true,
+            vFCPST: true,
+            vICMSSTRet: true,
+            vICMSUFDest: true,
+            vICMSUFRemet: true,
+            vFCPUFDest: true,
+            cClassTrib: true,
+            vIBS: true,
+            vCBS: true,
+            vIS: true,
             ipiValue: true,
             pisValue: true,
             cofinsValue: true,
           },
         },
+        totalNFe: true,
+        totalProd: true,
+        totalDesc: true,
+        totalFrete: true,
+        totalSeg: true,
+        totalOutro: true,
+        totalIPI: true,
+        totalST: true,
+        totalFCP: true,
+        totalPIS: true,
+        totalCOFINS: true,
+        totalsMismatch: true,
+        totalsMismatches: true,
+        signatureStatus: true,
+        integrityIssues: true,
+        freightMode: true,
+        carrierTaxId: true,
+        carrierName: true,
+        carrierUf: true,
+        volumeQty: true,
+        volumeSpecies: true,
+        netWeight: true,
+        grossWeight: true,
+        faturaNumero: true,
+        faturaValorOriginal: true,
+        faturaValorDesconto: true,
+        faturaValorLiquido: true,
+        changeValue: true,
+        installments: {
+          orderBy: [{ dueDate: 'asc' }, { numero: 'asc' }],
+          select: { id: true, numero: true, dueDate: true, amount: true },
+        },
+        payments: {
+          orderBy: { createdAt: 'asc' },
+          select: {
+            id: true,
+            indPag: true,
+            tPag: true,
+            description: true,
+            amount: true,
+            paidAt: true,
+            cardIntegration: true,
+            cardAcquirerCnpj: true,
+            cardBrand: true,
+            cardAuthorization: true,
+          },
+        },
       },
     });
 
@@ -425,13 +737,187 @@ router.get('/:id/items', async (req, res, next) => {
       unitPrice: formatDecimal(item.unitPrice),
       gross: formatDecimal(item.gross),
       discount: formatDecimal(item.discount),
+      vFrete: formatDecimal(item.vFrete),
+      vSeg: formatDecimal(item.vSeg),
+      vOutro: formatDecimal(item.vOutro),
       icmsValue: formatDecimal(item.icmsValue),
+      pICMS: formatDecimal(item.pICMS),
+      vFCP: formatDecimal(item.vFCP),
+      vFCPST: formatDecimal(item.vFCPST),
+      vICMSSTRet: formatDecimal(item.vICMSSTRet),
+      vICMSUFDest: formatDecimal(item.vICMSUFDest),
+      vICMSUFRemet: formatDecimal(item.vICMSUFRemet),
+      vFCPUFDest: formatDecimal(item.vFCPUFDest),
+      cClassTrib: item.cClassTrib,
+      vIBS: formatDecimal(item.vIBS),
+      vCBS: formatDecimal(item.vCBS),
+      vIS: formatDecimal(item.vIS),
       ipiValue: formatDecimal(item.ipiValue),
       pisValue: formatDecimal(item.pisValue),
       cofinsValue: formatDecimal(item.cofinsValue),
     }));
 
-    res.status(200).json({ invoiceId: invoice.id, items });
+    const fatura = invoice.faturaNumero || invoice.faturaValorOriginal || invoice.faturaValorLiquido
+      ? {
+          numero: invoice.faturaNumero,
+          valorOriginal: formatDecimal(invoice.faturaValorOriginal),
+          valorDesconto: formatDecimal(invoice.faturaValorDesconto),
+          valorLiquido: formatDecimal(invoice.faturaValorLiquido),
+        }
+      : null;
+
+    const installments = invoice.installments.map((installment) => ({
+      id: installment.id,
+      numero: installment.numero,
+      dueDate: installment.dueDate ? installment.dueDate.toISOString() : null,
+      amount: formatDecimal(installment.amount),
+    }));
+
+    const payments = invoice.payments.map((payment) => ({
+      id: payment.id,
+      indPag: payment.indPag,
+      tPag: payment.tPag,
+      label: resolvePaymentMethodLabel(payment.tPag, payment.description),
+      amount: formatDecimal(payment.amount),
+      paidAt: payment.paidAt ? payment.paidAt.toISOString() : null,
+      card: payment.cardIntegration || payment.cardBrand || payment.cardAuthorization || payment.cardAcquirerCnpj
+        ? {
+            integration: payment.cardIntegration,
+            acquirerCnpj: payment.cardAcquirerCnpj,
+            brand: payment.cardBrand,
+            authorization: payment.cardAuthorization,
+          }
+        : null,
+    }));
+
+    const freightByInvoice = await buildInvoiceFreightMap(companyId, [invoice.id]);
+    const freight = freightByInvoice.get(invoice.id);
+    const transport = {
+      freightMode: invoice.freightMode,
+      carrierTaxId: invoice.carrierTaxId,
+      carrierName: invoice.carrierName,
+      carrierUf: invoice.carrierUf,
+      volumeQty: formatDecimal(invoice.volumeQty),
+      volumeSpecies: invoice.volumeSpecies,
+      netWeight: formatDecimal(invoice.netWeight),
+      grossWeight: formatDecimal(invoice.grossWeight),
+      freightValue: freight ? freight.freightValue.toFixed(2) : null,
+      ctes: freight
+        ? freight.ctes.map((cte) => ({
+            id: cte.id,
+            chave: cte.chave,
+            numero: cte.numero,
+            allocated: cte.allocated.toFixed(2),
+          }))
+        : [],
+    };
+
+    const totals = {
+      vNF: formatDecimal(invoice.totalNFe),
+      vProd: formatDecimal(invoice.totalProd),
+      vDesc: formatDecimal(invoice.totalDesc),
+      vFrete: formatDecimal(invoice.totalFrete),
+      vSeg: formatDecimal(invoice.totalSeg),
+      vOutro: formatDecimal(invoice.totalOutro),
+      vIPI: formatDecimal(invoice.totalIPI),
+      vST: formatDecimal(invoice.totalST),
+      vFCP: formatDecimal(invoice.totalFCP),
+      vPIS: formatDecimal(invoice.totalPIS),
+      vCOFINS: formatDecimal(invoice.totalCOFINS),
+      mismatch: invoice.totalsMismatch,
+      mismatches: Array.isArray(invoice.totalsMismatches) ? invoice.totalsMismatches : [],
+    };
+
+    // CC-e vigente altera dados como CFOP e quantidades sem mudar o XML da nota
+    const correctionByChave = await findLatestCorrections(companyId, [invoice.chave]);
+
+    res.status(200).json({
+      invoiceId: invoice.id,
+      items,
+      totals,
+      transport,
+      fatura,
+      installments,
+      payments,
+      changeValue: formatDecimal(invoice.changeValue),
+      correction: correctionByChave.get(invoice.chave) ?? null,
+      integrity: {
+        signatureStatus: invoice.signatureStatus,
+        issues: Array.isArray(invoice.integrityIssues) ? invoice.integrityIssues : [],
+      },
+    });
+  } catch (error) {
+    if (error.status === 400) {
+      return res.status(400).json({ error: error.message });
+    }
+    return next(error);
+  }
+});
+
+router.get('/:id/chain', async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const { companyId } = req.query;
+
+    if (!companyId || typeof companyId !== 'string') {
+      throw createBadRequest('Parâmetro companyId é obrigatório');
+    }
+
+    const chain = await buildDocumentChain(companyId, id);
+    if (!chain) {
+      return res.status(404).json({ error: 'Nota não encontrada' });
+    }
+
+    const knownChaves = new Set(chain.invoices.map((invoice) => invoice.chave));
+    const invoices = chain.invoices.map((invoice) => ({
+      id: invoice.id,
+      chave: invoice.chave,
+      numero: invoice.numero,
+      emissao: invoice.emissao.toISOString(),
+      type: invoice.type,
+      finalidade: invoice.finalidade,
+      natOp: invoice.natOp,
+      totalNFe: formatDecimal(invoice.totalNFe),
+      role: invoice.role,
+    }));
+
+    res.status(200).json({
+      invoiceId: chain.rootId,
+      invoices,
+      links: chain.links,
+      // Chaves referenciadas que ainda não foram importadas
+      missingReferences: chain.links
+        .filter((link) => !link.toInvoiceId && !knownChaves.has(link.refChave))
+        .map((link) => link.refChave),
+    });
+  } catch (error) {
+    if (error.status === 400) {
+      return res.status(400).json({ error: error.message });
+    }
+    return next(error);
+  }
+});
+
+router.get('/:id/events', async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const { companyId } = req.query;
+
+    if (!companyId || typeof companyId !== 'string') {
+      throw createBadRequest('Parâmetro companyId é obrigatório');
+    }
+
+    const invoice = await prisma.invoice.findFirst({
+      where: { id, companyId },
+      select: { id: true, chave: true },
+    });
+    if (!invoice) {
+      return res.status(404).json({ error: 'Nota não encontrada' });
+    }
+
+    const events = await listInvoiceEvents(companyId, invoice.chave);
+
+    res.status(200).json({ invoiceId: invoice.id, chave: invoice.chave, events });
   } catch (error) {
     if (error.status === 400) {
       return res.status(400).json({ error: error.message });
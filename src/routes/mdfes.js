@@ -0,0 +1,213 @@
+const express = require('express');
+const { prisma } = require('../prisma');
+const { decompressXml } = require('../services/xmlDocumentService');
+
+const router = express.Router();
+
+function parseLimitParam(raw) {
+  const parsed = Number.parseInt(raw, 10);
+  if (Number.isNaN(parsed) || parsed <= 0 || parsed > 200) {
+    return 50;
+  }
+  return parsed;
+}
+
+function parseDateParam(raw, label) {
+  if (!raw) return null;
+  const trimmed = String(raw).trim();
+  if (!trimmed) return null;
+  const iso = /^\d{4}-\d{2}-\d{2}$/.test(trimmed) ? `${trimmed}T00:00:00.000Z` : trimmed;
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) {
+    const error = new Error(`Parâmetro ${label} inválido. Use o formato YYYY-MM-DD.`);
+    error.status = 400;
+    throw error;
+  }
+  return date;
+}
+
+function parseEndDateParam(raw) {
+  const start = parseDateParam(raw, 'to');
+  if (!start) return null;
+  const end = new Date(start.getTime());
+  end.setUTCHours(23, 59, 59, 999);
+  return end;
+}
+
+function encodeCursor(id) {
+  return Buffer.from(String(id)).toString('base64');
+}
+
+function decodeCursor(cursor) {
+  if (!cursor) return null;
+  try {
+    const decoded = Buffer.from(String(cursor), 'base64').toString('utf-8');
+    return decoded;
+  } catch {
+    return null;
+  }
+}
+
+function formatDecimal(value) {
+  if (value == null) return null;
+  if (typeof value === 'number') return value.toString();
+  if (typeof value.toString === 'function') return value.toString();
+  return String(value);
+}
+
+router.get('/', async (req, res, next) => {
+  try {
+    const {
+      companyId,
+      search,
+      from,
+      to,
+      limit: limitParam,
+      cursor: cursorParam,
+    } = req.query;
+
+    if (!companyId || typeof companyId !== 'string') {
+      const error = new Error('Parâmetro companyId é obrigatório');
+      error.status = 400;
+      throw error;
+    }
+
+    const pageSize = parseLimitParam(limitParam);
+    const fromDate = parseDateParam(from, 'from');
+    const toDate = parseEndDateParam(to);
+    const cursorId = decodeCursor(cursorParam);
+
+    const where = { companyId };
+
+    const andFilters = [];
+    if (fromDate) {
+      andFilters.push({ emissao: { gte: fromDate } });
+    }
+    if (toDate) {
+      andFilters.push({ emissao: { lte: toDate } });
+    }
+    if (search && typeof search === 'string') {
+      const term = search.trim();
+      if (term) {
+        andFilters.push({
+          OR: [
+            { chave: { contains: term } },
+            { numero: { contains: term } },
+            { vehiclePlate: { contains: term.replace(/[^0-9a-z]/gi, '').toUpperCase() } },
+            { driverName: { contains: term, mode: 'insensitive' } },
+            { documentLinks: { some: { chave: { contains: term } } } },
+          ],
+        });
+      }
+    }
+    if (andFilters.length) {
+      where.AND = andFilters;
+    }
+
+    const queryArgs = {
+      where,
+      orderBy: [{ emissao: 'desc' }, { id: 'desc' }],
+      take: pageSize + 1,
+      include: {
+        documentLinks: {
+          orderBy: [{ documentType: 'asc' }, { chave: 'asc' }],
+          select: {
+            chave: true,
+            documentType: true,
+            unloadCity: true,
+            invoice: { select: { id: true, numero: true } },
+            cte: { select: { id: true, numero: true, valorPrestacao: true } },
+          },
+        },
+      },
+    };
+
+    if (cursorId) {
+      queryArgs.cursor = { id: cursorId };
+      queryArgs.skip = 1;
+    }
+
+    const mdfes = await prisma.mdfe.findMany(queryArgs);
+
+    let nextCursor = null;
+    if (mdfes.length > pageSize) {
+      const nextItem = mdfes.pop();
+      nextCursor = encodeCursor(nextItem.id);
+    }
+
+    const items = mdfes.map((mdfe) => ({
+      id: mdfe.id,
+      chave: mdfe.chave,
+      numero: mdfe.numero,
+      serie: mdfe.serie,
+      emissao: mdfe.emissao.toISOString(),
+      tripStartAt: mdfe.tripStartAt ? mdfe.tripStartAt.toISOString() : null,
+      ufIni: mdfe.ufIni,
+      ufFim: mdfe.ufFim,
+      ufPercurso: mdfe.ufPercurso,
+      loadingCities: mdfe.loadingCities,
+      vehiclePlate: mdfe.vehiclePlate,
+      trailerPlates: mdfe.trailerPlates,
+      driverName: mdfe.driverName,
+      driverCpf: mdfe.driverCpf,
+      cargoValue: formatDecimal(mdfe.cargoValue),
+      cargoWeight: formatDecimal(mdfe.cargoWeight),
+      cargoUnit: mdfe.cargoUnit,
+      isCancelled: mdfe.isCancelled,
+      hasXml: Boolean(mdfe.xmlDocumentId),
+      documents: mdfe.documentLinks.map((link) => ({
+        chave: link.chave,
+        documentType: link.documentType,
+        unloadCity: link.unloadCity,
+        invoiceId: link.invoice?.id ?? null,
+        invoiceNumero: link.invoice?.numero ?? null,
+        cteId: link.cte?.id ?? null,
+        cteNumero: link.cte?.numero ?? null,
+        cteValue: formatDecimal(link.cte?.valorPrestacao),
+      })),
+    }));
+
+    res.status(200).json({ items, nextCursor });
+  } catch (error) {
+    if (error.status === 400) {
+      return res.status(400).json({ error: error.message });
+    }
+    return next(error);
+  }
+});
+
+router.get('/:id/xml', async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const { companyId } = req.query;
+
+    if (!companyId || typeof companyId !== 'string') {
+      const error = new Error('Parâmetro companyId é obrigatório');
+      error.status = 400;
+      throw error;
+    }
+
+    const mdfe = await prisma.mdfe.findFirst({
+      where: { id, companyId },
+      select: { chave: true, xmlDocument: { select: { content: true } } },
+    });
+    if (!mdfe) {
+      return res.status(404).json({ error: 'MDF-e não encontrado' });
+    }
+    const xml = decompressXml(mdfe.xmlDocument);
+    if (!xml) {
+      return res.status(404).json({ error: 'XML original não armazenado para este MDF-e' });
+    }
+
+    res.setHeader('Content-Type', 'application/xml; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${mdfe.chave}.xml"`);
+    res.status(200).send(xml);
+  } catch (error) {
+    if (error.status === 400) {
+      return res.status(400).json({ error: error.message });
+    }
+    return next(error);
+  }
+});
+
+module.exports = router;
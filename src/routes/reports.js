@@ -13,7 +13,10 @@ const {
 } = require('../services/salesByPeriodReportService');
 const { generateSalesByPeriodPdf } = require('../services/salesByPeriodReportPdf');
 const { buildUnconditionalDiscountReport } = require('../services/unconditionalDiscountReportService');
+const { findReturnOrigins } = require('../services/invoiceReferenceService');
 const { prisma } = require('../prisma');
+const { INVOICE_MODELS } = require('../constants/invoiceModels');
+const { summarizeDifalByUf, sumDifalTotals } = require('../utils/icmsDifal');
 
 const router = express.Router();
 
@@ -55,6 +58,11 @@ function parseStartDate(raw) {
   return parsed;
 }
 
+function parseIncludeNfce(raw) {
+  if (raw == null || raw === '') return true;
+  return String(raw).trim().toLowerCase() !== 'false';
+}
+
 router.get('/kardex-consolidado', async (req, res, next) => {
   try {
     const from = parseStartDate(req.query.from ?? null);
@@ -160,7 +168,8 @@ router.get('/vendas-por-periodo', async (req, res, next) => {
       throw error;
     }
 
-    const report = await buildSalesByPeriodReport({ from, to });
+    const includeNfce = parseIncludeNfce(req.query.includeNfce);
+    const report = await buildSalesByPeriodReport({ from, to, includeNfce });
     res.status(200).json({ report });
   } catch (error) {
     next(error);
@@ -177,7 +186,8 @@ router.get('/vendas-por-periodo.csv', async (req, res, next) => {
       throw error;
     }
 
-    const report = await buildSalesByPeriodReport({ from, to });
+    const includeNfce = parseIncludeNfce(req.query.includeNfce);
+    const report = await buildSalesByPeriodReport({ from, to, includeNfce });
     const csvContent = generateSalesByPeriodCsv(report);
     const fromLabel = report.filters.from.slice(0, 10);
     const toLabel = report.filters.to.slice(0, 10);
@@ -201,7 +211,8 @@ router.get('/vendas-por-periodo.pdf', async (req, res, next) => {
       throw error;
     }
 
-    const report = await buildSalesByPeriodReport({ from, to });
+    const includeNfce = parseIncludeNfce(req.query.includeNfce);
+    const report = await buildSalesByPeriodReport({ from, to, includeNfce });
     const fromLabel = report.filters.from.slice(0, 10);
     const toLabel = report.filters.to.slice(0, 10);
     const filename = `vendas-por-periodo-${fromLabel}-a-${toLabel}.pdf`;
@@ -623,6 +634,16 @@ router.get('/fiscal-close', async (req, res, next) => {
         vICMSDeson: true,
         vBCST: true,
         vST: true,
+        vFCP: true,
+        vFCPST: true,
+        vICMSSTRet: true,
+        vBCUFDest: true,
+        vICMSUFDest: true,
+        vICMSUFRemet: true,
+        vFCPUFDest: true,
+        vIBS: true,
+        vCBS: true,
+        vIS: true,
         vTotTrib: true,
         description: true,
         productMapping: {
@@ -640,14 +661,21 @@ router.get('/fiscal-close', async (req, res, next) => {
             naturezaOperacaoId: true,
             natOp: true,
             totalNFe: true,
+            recipientState: true,
           },
         },
       },
     });
 
+    const returnOrigins = await findReturnOrigins(
+      companyId,
+      Array.from(new Set(items.map((item) => item.invoice.id))),
+    );
+
     const rows = items.map((item) => {
       const invoice = item.invoice;
       const direction = invoice.type === 'IN' ? 'IN' : 'OUT';
+      const origin = returnOrigins.get(invoice.id);
       const naturezaKey = invoice.naturezaOperacaoId || invoice.natOp || 'sem-natureza';
       const natureza = invoice.naturezaOperacaoId
         ? naturezaLabel.get(invoice.naturezaOperacaoId) || 'Natureza sem descrição'
@@ -683,9 +711,28 @@ router.get('/fiscal-close', async (req, res, next) => {
         vICMSDeson: item.vICMSDeson != null ? Number(item.vICMSDeson) : null,
         vBCST: item.vBCST != null ? Number(item.vBCST) : null,
         vST: item.vST != null ? Number(item.vST) : null,
+        vFCP: item.vFCP != null ? Number(item.vFCP) : null,
+        vFCPST: item.vFCPST != null ? Number(item.vFCPST) : null,
+        vICMSSTRet: item.vICMSSTRet != null ? Number(item.vICMSSTRet) : null,
+        vICMSUFDest: item.vICMSUFDest != null ? Number(item.vICMSUFDest) : null,
+        vICMSUFRemet: item.vICMSUFRemet != null ? Number(item.vICMSUFRemet) : null,
+        vFCPUFDest: item.vFCPUFDest != null ? Number(item.vFCPUFDest) : null,
+        destUf: invoice.recipientState || null,
+        vPIS: item.pisValue != null ? Number(item.pisValue) : null,
+        vCOFINS: item.cofinsValue != null ? Number(item.cofinsValue) : null,
+        vIBS: item.vIBS != null ? Number(item.vIBS) : null,
+        vCBS: item.vCBS != null ? Number(item.vCBS) : null,
+        vIS: item.vIS != null ? Number(item.vIS) : null,
         vDesc: item.discount ? Number(item.discount) : 0,
         // Para evitar duplicar total da NF quando há vários itens, usamos o valor bruto do item aqui
         vNF: Number(item.gross ?? 0),
+        returnOf: origin
+          ? {
+              invoiceId: origin.id,
+              invoiceNumber: origin.numero || origin.id,
+              naturezaKey: origin.naturezaOperacaoId || origin.natOp || 'sem-natureza',
+            }
+          : null,
       };
     });
 
@@ -710,6 +757,17 @@ router.get('/fiscal-close', async (req, res, next) => {
             vICMSDeson: 0,
             vBCST: 0,
             vST: 0,
+            vFCP: 0,
+            vFCPST: 0,
+            vICMSSTRet: 0,
+            vICMSUFDest: 0,
+            vICMSUFRemet: 0,
+            vFCPUFDest: 0,
+            vPIS: 0,
+            vCOFINS: 0,
+            vIBS: 0,
+            vCBS: 0,
+            vIS: 0,
             vDesc: 0,
             vNF: 0,
           };
@@ -723,6 +781,17 @@ router.get('/fiscal-close', async (req, res, next) => {
         agg.vICMSDeson += row.vICMSDeson || 0;
         agg.vBCST += row.vBCST || 0;
         agg.vST += row.vST || 0;
+        agg.vFCP += row.vFCP || 0;
+        agg.vFCPST += row.vFCPST || 0;
+        agg.vICMSSTRet += row.vICMSSTRet || 0;
+        agg.vICMSUFDest += row.vICMSUFDest || 0;
+        agg.vICMSUFRemet += row.vICMSUFRemet || 0;
+        agg.vFCPUFDest += row.vFCPUFDest || 0;
+        agg.vPIS += row.vPIS || 0;
+        agg.vCOFINS += row.vCOFINS || 0;
+        agg.vIBS += row.vIBS || 0;
+        agg.vCBS += row.vCBS || 0;
+        agg.vIS += row.vIS || 0;
         agg.vDesc += row.vDesc || 0;
         agg.vNF += row.vNF || 0;
 
@@ -731,16 +800,111 @@ router.get('/fiscal-close', async (req, res, next) => {
       { entradas: {}, saidas: {} },
     );
 
+    // Devoluções vinculadas por NFref abatem a natureza da nota original (no sentido oposto)
+    const totalFields = [
+      'qty',
+      'total',
+      'vTotTrib',
+      'vBC',
+      'vICMS',
+      'vICMSDeson',
+      'vBCST',
+      'vST',
+      'vFCP',
+      'vFCPST',
+      'vICMSSTRet',
+      'vICMSUFDest',
+      'vICMSUFRemet',
+      'vFCPUFDest',
+      'vPIS',
+      'vCOFINS',
+      'vIBS',
+      'vCBS',
+      'vIS',
+      'vDesc',
+      'vNF',
+    ];
+    rows.forEach((row) => {
+      if (!row.returnOf) return;
+      const originSide = row.direction === 'IN' ? grouped.saidas : grouped.entradas;
+      const target = originSide[row.returnOf.naturezaKey];
+      if (!target) return;
+      if (!target.returnsByProduct) target.returnsByProduct = {};
+      const pk = row.productKey || row.product || 'Produto não mapeado';
+      if (!target.returnsByProduct[pk]) {
+        target.returnsByProduct[pk] = { product: row.product, sku: row.sku };
+        totalFields.forEach((field) => {
+          target.returnsByProduct[pk][field] = 0;
+        });
+      }
+      totalFields.forEach((field) => {
+        target.returnsByProduct[pk][field] += row[field] || 0;
+      });
+    });
+
+    [grouped.entradas, grouped.saidas].forEach((side) => {
+      Object.values(side).forEach((bucket) => {
+        if (!bucket.returnsByProduct) return;
+        const net = {};
+        Object.entries(bucket.totalsByProduct).forEach(([pk, totals]) => {
+          net[pk] = { ...totals };
+        });
+        Object.entries(bucket.returnsByProduct).forEach(([pk, returned]) => {
+          if (!net[pk]) {
+            net[pk] = { product: returned.product, sku: returned.sku };
+            totalFields.forEach((field) => {
+              net[pk][field] = 0;
+            });
+          }
+          totalFields.forEach((field) => {
+            net[pk][field] -= returned[field] || 0;
+          });
+        });
+        bucket.netTotalsByProduct = net;
+      });
+    });
+
+    // Transição da Reforma Tributária: tributos atuais e IBS/CBS/IS lado a lado por sentido
+    const regimeFields = ['vICMS', 'vPIS', 'vCOFINS', 'vIBS', 'vCBS', 'vIS'];
+    const regimeTotals = rows.reduce(
+      (acc, row) => {
+        const target = row.direction === 'IN' ? acc.entradas : acc.saidas;
+        regimeFields.forEach((field) => {
+          target[field] += row[field] || 0;
+        });
+        return acc;
+      },
+      {
+        entradas: Object.fromEntries(regimeFields.map((field) => [field, 0])),
+        saidas: Object.fromEntries(regimeFields.map((field) => [field, 0])),
+      },
+    );
+
+    const difalByUf = summarizeDifalByUf(
+      items
+        .filter((item) => item.invoice.type !== 'IN')
+        .map((item) => ({
+          uf: item.invoice.recipientState,
+          invoiceId: item.invoice.id,
+          vBCUFDest: item.vBCUFDest,
+          vICMSUFDest: item.vICMSUFDest,
+          vICMSUFRemet: item.vICMSUFRemet,
+          vFCPUFDest: item.vFCPUFDest,
+        })),
+    );
+
     res.status(200).json({
       filters: { companyId, from: from?.toISOString() ?? null, to: to?.toISOString() ?? null, naturezaIds },
       grouped,
+      regimeTotals,
+      difal: { byUf: difalByUf, totals: sumDifalTotals(difalByUf) },
     });
   } catch (error) {
     next(error);
   }
 });
 
-async function buildDreReport(companyId, from, to) {
+async function buildDreReport(companyId, from, to, { includeNfce = true } = {}) {
   const naturezasDre = await prisma.naturezaOperacao.findMany({
     where: { companyId, dreInclude: true },
     select: {
@@ -767,13 +931,18 @@ async function buildDreReport(companyId, from, to) {
       }
     : {};
 
+  const dreNaturezaIds = Array.from(dreMap.keys());
   const mappings = await prisma.invoiceItemProductMapping.findMany({
     where: {
       invoiceItem: {
         invoice: {
           companyId,
           ...(dateFilter ? { ...dateFilter } : {}),
-          naturezaOperacaoId: { in: Array.from(dreMap.keys()) },
+          OR: [
+            { naturezaOperacaoId: { in: dreNaturezaIds } },
+            { references: { some: { referencedInvoice: { naturezaOperacaoId: { in: dreNaturezaIds } } } } },
+          ],
+          ...(includeNfce ? {} : { modelo: { not: INVOICE_MODELS.NFCE } }),
         },
       },
     },
@@ -784,13 +953,18 @@ async function buildDreReport(companyId, from, to) {
           gross: true,
           cfopCode: true,
           qty: true,
-          invoice: { select: { naturezaOperacaoId: true } },
+          invoice: { select: { id: true, naturezaOperacaoId: true } },
         },
       },
       product: { select: { id: true, name: true, sku: true } },
     },
   });
 
+  const returnOrigins = await findReturnOrigins(
+    companyId,
+    Array.from(new Set(mappings.map((row) => row.invoiceItem.invoice.id))),
+  );
+
   const aggregates = {};
   const revenueQtyByProduct = {};
   const returnQtyByProduct = {};
@@ -798,7 +972,13 @@ async function buildDreReport(companyId, from, to) {
 
   mappings.forEach((row) => {
     const naturezaId = row.invoiceItem.invoice.naturezaOperacaoId;
-    const cfg = dreMap.get(naturezaId);
+    let cfg = dreMap.get(naturezaId);
+    // Devolução vinculada à venda original abate a mesma linha de receita, independente da natureza
+    const origin = returnOrigins.get(row.invoiceItem.invoice.id);
+    const originCfg = origin ? dreMap.get(origin.naturezaOperacaoId) : null;
+    if (originCfg?.category === 'REVENUE') {
+      cfg = { category: 'RETURN', label: originCfg.label };
+    }
     if (!cfg || !cfg.category) return;
     const category = cfg.category;
     if (!aggregates[category]) aggregates[category] = {};
@@ -965,6 +1145,29 @@ async function buildDreReport(companyId, from, to) {
     select: { emissao: true },
   });
 
+  // NFS-e tomadas entram como despesa, agrupadas pelo item da LC 116
+  const serviceWhere = { ...cteWhere, type: 'IN' };
+  const serviceGroups = await prisma.serviceInvoice.groupBy({
+    by: ['serviceCode'],
+    where: serviceWhere,
+    _sum: { totalValue: true },
+    _min: { emissao: true },
+    _max: { emissao: true },
+    orderBy: { serviceCode: 'asc' },
+  });
+  const serviceDeductionItems = serviceGroups
+    .map((group) => ({
+      id: `nfse-servicos-${group.serviceCode ?? 'sem-codigo'}`,
+      title: group.serviceCode
+        ? `Serviços tomados (NFS-e) · item ${group.serviceCode}`
+        : 'Serviços tomados (NFS-e) · sem código',
+      startDate: from?.toISOString() ?? group._min.emissao?.toISOString() ?? new Date().toISOString(),
+      endDate: to?.toISOString() ?? group._max.emissao?.toISOString() ?? new Date().toISOString(),
+      amount: Number(group._sum.totalValue ?? 0).toString(),
+    }))
+    .filter((item) => Number(item.amount) > 0);
+  const serviceDeductionTotal = serviceDeductionItems.reduce((sum, item) => sum + Number(item.amount), 0);
+
   let unconditionalDiscountReport = null;
   try {
     unconditionalDiscountReport = await buildUnconditionalDiscountReport({ companyId, from, to });
@@ -1024,16 +1227,17 @@ async function buildDreReport(companyId, from, to) {
   const freteDeductionTotal = freteDeductionItem ? freteValor : 0;
 
   return {
-    filters: { companyId, from: from?.toISOString() ?? null, to: to?.toISOString() ?? null },
+    filters: { companyId, from: from?.toISOString() ?? null, to: to?.toISOString() ?? null, includeNfce },
     revenue: formatCategory('REVENUE'),
     returns: formatCategory('RETURN'),
     cmv: cmvAdjustedGroup,
     deductions: {
-      total: manualDeductionsTotal + unconditionalDeductionTotal + freteDeductionTotal,
+      total: manualDeductionsTotal + unconditionalDeductionTotal + freteDeductionTotal + serviceDeductionTotal,
       items: [
         ...deducoes,
         ...(unconditionalDeductionItem ? [unconditionalDeductionItem] : []),
         ...(freteDeductionItem ? [freteDeductionItem] : []),
+        ...serviceDeductionItems,
       ],
     },
   };
@@ -1051,7 +1255,9 @@ router.get('/dre', async (req, res, next) => {
       throw error;
     }
 
-    const response = await buildDreReport(companyId, from, to);
+    const response = await buildDreReport(companyId, from, to, {
+      includeNfce: parseIncludeNfce(req.query.includeNfce),
+    });
 
     res.status(200).json(response);
   } catch (error) {
@@ -1069,7 +1275,9 @@ router.get('/dre.pdf', async (req, res, next) => {
       error.status = 400;
       throw error;
     }
-    const report = await buildDreReport(companyId, from, to);
+    const report = await buildDreReport(companyId, from, to, {
+      includeNfce: parseIncludeNfce(req.query.includeNfce),
+    });
 
     const company = await prisma.company.findUnique({
       where: { id: companyId },
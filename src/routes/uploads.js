@@ -0,0 +1,133 @@
+const express = require('express');
+const { prisma } = require('../prisma');
+const { formatUploadBatch } = require('../services/uploadJobService');
+const { rollbackUploadBatch } = require('../services/uploadRollbackService');
+const { settleRolledBackBatch } = require('../services/inboxWatcherService');
+
+const router = express.Router();
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+const BATCH_DETAIL_SELECT = {
+  id: true,
+  status: true,
+  fileName: true,
+  totalFiles: true,
+  processedFiles: true,
+  summary: true,
+  progress: true,
+  errorMessage: true,
+  createdAt: true,
+  startedAt: true,
+  finishedAt: true,
+};
+
+function createBadRequest(message) {
+  const error = new Error(message);
+  error.status = 400;
+  return error;
+}
+
+function requireCompanyId(query) {
+  const { companyId } = query;
+  if (!companyId || typeof companyId !== 'string') {
+    throw createBadRequest('Parâmetro companyId é obrigatório');
+  }
+  return companyId;
+}
+
+// Lotes recentes da empresa, para a tela de upload retomar o acompanhamento
+router.get('/', async (req, res, next) => {
+  try {
+    const companyId = requireCompanyId(req.query);
+    const parsedLimit = Number.parseInt(req.query.limit, 10);
+    const limit = Number.isNaN(parsedLimit) || parsedLimit <= 0 ? DEFAULT_LIMIT : Math.min(parsedLimit, MAX_LIMIT);
+
+    // A listagem lê só os contadores do resumo; os detalhes por arquivo ficam para GET /:batchId
+    const batches = await prisma.$queryRaw`
+      SELECT
+        "id",
+        "status",
+        "fileName",
+        "totalFiles",
+        "processedFiles",
+        jsonb_build_object(
+          'inserted', "summary"->'inserted',
+          'updated', "summary"->'updated',
+          'duplicate', "summary"->'duplicate',
+          'failed', "summary"->'failed',
+          'cancelled', "summary"->'cancelled'
+        ) AS "summary",
+        jsonb_build_object('counts', "progress"->'counts') AS "progress",
+        "errorMessage",
+        "createdAt",
+        "startedAt",
+        "finishedAt"
+      FROM "UploadBatch"
+      WHERE "companyId" = ${companyId}
+      ORDER BY "createdAt" DESC
+      LIMIT ${limit}
+    `;
+
+    res.status(200).json({ items: batches.map((batch) => formatUploadBatch(batch)) });
+  } catch (error) {
+    if (error.status === 400) {
+      return res.status(400).json({ error: error.message });
+    }
+    return next(error);
+  }
+});
+
+router.get('/:batchId', async (req, res, next) => {
+  try {
+    const companyId = requireCompanyId(req.query);
+
+    const batch = await prisma.uploadBatch.findFirst({
+      where: { id: req.params.batchId, companyId },
+      select: BATCH_DETAIL_SELECT,
+    });
+    if (!batch) {
+      return res.status(404).json({ error: 'Lote de importação não encontrado' });
+    }
+
+    res.status(200).json(formatUploadBatch(batch, { includeDetails: true }));
+  } catch (error) {
+    if (error.status === 400) {
+      return res.status(400).json({ error: error.message });
+    }
+    return next(error);
+  }
+});
+
+// Desfaz o lote inteiro; com dryRun=true apenas mostra o que seria removido e restaurado
+router.delete('/:batchId', async (req, res, next) => {
+  try {
+    const companyId = requireCompanyId(req.query);
+    const dryRun = req.query.dryRun === 'true' || req.query.dryRun === '1';
+    // O lote some no rollback; a reserva da pasta monitorada é lida antes para liberar os arquivos
+    const inboxBatch = dryRun
+      ? null
+      : await prisma.uploadBatch.findFirst({
+        where: { id: req.params.batchId, companyId },
+        select: { actorId: true, options: true },
+      });
+
+    const result = await rollbackUploadBatch({
+      companyId,
+      batchId: req.params.batchId,
+      dryRun,
+      actorId: req.user?.id ?? null,
+    });
+    await settleRolledBackBatch(inboxBatch);
+
+    res.status(200).json(result);
+  } catch (error) {
+    if (error.status === 400 || error.status === 404) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    return next(error);
+  }
+});
+
+module.exports = router;
@@ -1,14 +1,20 @@
 const app = require('./app');
 const { prisma } = require('./prisma');
+const { scheduleUploadJobs } = require('./services/uploadJobService');
+const { startInboxWatcher, stopInboxWatcher } = require('./services/inboxWatcherService');
 
 const port = process.env.PORT || 4002;
 
 const server = app.listen(port, () => {
   console.log(`Server listening on port ${port}`);
+  // Retoma lotes de upload que ficaram na fila ou foram interrompidos por um reinício
+  scheduleUploadJobs();
+  startInboxWatcher();
 });
 
 const shutdown = async (signal) => {
   console.log(`Received ${signal}, shutting down...`);
+  stopInboxWatcher();
   server.close(async () => {
     await prisma.$disconnect();
     process.exit(0);
@@ -0,0 +1,96 @@
+const { Prisma } = require('@prisma/client');
+const { prisma } = require('../prisma');
+
+const Decimal = Prisma.Decimal;
+const KG_PER_SACA = 60;
+
+const CTE_LINK_SELECT = Object.freeze({
+  id: true,
+  chave: true,
+  numero: true,
+  emissao: true,
+  valorPrestacao: true,
+  pesoBruto: true,
+  invoiceLinks: {
+    select: {
+      chaveNFe: true,
+      invoiceId: true,
+      invoice: { select: { id: true, numero: true, totalNFe: true, grossWeight: true } },
+    },
+  },
+});
+
+function toDecimal(value) {
+  if (value instanceof Decimal) return value;
+  if (value == null) return new Decimal(0);
+  return new Decimal(value);
+}
+
+// Rateio do frete entre as NF-e do CT-e: peso bruto, senão valor da nota, senão partes iguais
+function allocateCteFreight(cte) {
+  const links = cte.invoiceLinks ?? [];
+  const allocation = new Map();
+  if (!links.length) return allocation;
+
+  const total = toDecimal(cte.valorPrestacao);
+  const allHaveWeight = links.every((link) => link.invoice && toDecimal(link.invoice.grossWeight).gt(0));
+  const allHaveInvoice = links.every((link) => link.invoice && toDecimal(link.invoice.totalNFe).gt(0));
+
+  let weights;
+  if (allHaveWeight) {
+    weights = links.map((link) => toDecimal(link.invoice.grossWeight));
+  } else if (allHaveInvoice) {
+    weights = links.map((link) => toDecimal(link.invoice.totalNFe));
+  } else {
+    weights = links.map(() => new Decimal(1));
+  }
+
+  const weightSum = weights.reduce((acc, weight) => acc.add(weight), new Decimal(0));
+  links.forEach((link, index) => {
+    allocation.set(link.chaveNFe, total.mul(weights[index]).div(weightSum));
+  });
+  return allocation;
+}
+
+function computeFreightPerSaca(freightValue, weightKg) {
+  const weight = toDecimal(weightKg);
+  if (weight.lte(0)) return null;
+  return toDecimal(freightValue).div(weight.div(KG_PER_SACA));
+}
+
+async function buildInvoiceFreightMap(companyId, invoiceIds) {
+  const result = new Map();
+  if (!invoiceIds.length) return result;
+
+  const ctes = await prisma.cte.findMany({
+    where: {
+      companyId,
+      isCancelled: false,
+      invoiceLinks: { some: { invoiceId: { in: invoiceIds } } },
+    },
+    select: CTE_LINK_SELECT,
+  });
+
+  const wanted = new Set(invoiceIds);
+  ctes.forEach((cte) => {
+    const allocation = allocateCteFreight(cte);
+    cte.invoiceLinks.forEach((link) => {
+      if (!link.invoiceId || !wanted.has(link.invoiceId)) return;
+      const allocated = allocation.get(link.chaveNFe) ?? new Decimal(0);
+      const entry = result.get(link.invoiceId) ?? { freightValue: new Decimal(0), ctes: [] };
+      entry.freightValue = entry.freightValue.add(allocated);
+      entry.ctes.push({ id: cte.id, chave: cte.chave, numero: cte.numero, allocated });
+      result.set(link.invoiceId, entry);
+    });
+  });
+
+  return result;
+}
+
+module.exports = {
+  KG_PER_SACA,
+  CTE_LINK_SELECT,
+  allocateCteFreight,
+  computeFreightPerSaca,
+  buildInvoiceFreightMap,
+};
@@ -0,0 +1,499 @@
+const PDFDocument = require('pdfkit');
+const fs = require('fs');
+const path = require('path');
+const { drawCode128 } = require('../utils/code128');
+
+const FONT_PATHS = {
+  inter: path.resolve(__dirname, '../assets/fonts/InterVariable.ttf'),
+  mono: path.resolve(__dirname, '../assets/fonts/RobotoMono-Variable.ttf'),
+};
+
+const DEFAULT_MARGINS = {
+  top: 18,
+  bottom: 18,
+  left: 18,
+  right: 18,
+};
+
+const theme = {
+  text: '#000000',
+  label: '#333333',
+  border: '#000000',
+  watermark: '#DDDDDD',
+};
+
+const CONTENT_WIDTH = 559;
+const FIELD_HEIGHT = 20;
+const SECTION_LABEL_HEIGHT = 9;
+const PARTY_HEIGHT = 52;
+
+const CTE_TYPE_LABELS = {
+  0: 'Normal',
+  1: 'Complemento de valores',
+  2: 'Anulação',
+  3: 'Substituto',
+};
+
+const SERVICE_TYPE_LABELS = {
+  0: 'Normal',
+  1: 'Subcontratação',
+  2: 'Redespacho',
+  3: 'Redespacho intermediário',
+  4: 'Serviço vinculado a multimodal',
+};
+
+const MODAL_LABELS = {
+  '01': 'Rodoviário',
+  '02': 'Aéreo',
+  '03': 'Aquaviário',
+  '04': 'Ferroviário',
+  '05': 'Dutoviário',
+  '06': 'Multimodal',
+};
+
+const TOMADOR_LABELS = {
+  remetente: 'Remetente',
+  expedidor: 'Expedidor',
+  recebedor: 'Recebedor',
+  destinatario: 'Destinatário',
+  outros: 'Outros',
+};
+
+function registerFonts(doc) {
+  const fonts = {
+    regular: 'Helvetica',
+    bold: 'Helvetica-Bold',
+    mono: 'Courier',
+  };
+
+  if (fs.existsSync(FONT_PATHS.inter)) {
+    doc.registerFont('Inter-Regular', FONT_PATHS.inter);
+    doc.registerFont('Inter-SemiBold', FONT_PATHS.inter);
+    fonts.regular = 'Inter-Regular';
+    fonts.bold = 'Inter-SemiBold';
+  }
+  if (fs.existsSync(FONT_PATHS.mono)) {
+    doc.registerFont('RobotoMono-Regular', FONT_PATHS.mono);
+    fonts.mono = 'RobotoMono-Regular';
+  }
+  return fonts;
+}
+
+function formatNumber(value, fractionDigits = 2) {
+  if (value == null || value === '') return '';
+  const numeric = Number(value);
+  if (!Number.isFinite(numeric)) return String(value);
+  return numeric.toLocaleString('pt-BR', {
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  });
+}
+
+function formatDateTime(value) {
+  if (!value) return '';
+  const date = value instanceof Date ? value : new Date(value);
+  if (Number.isNaN(date.getTime())) return String(value);
+  return new Intl.DateTimeFormat('pt-BR', {
+    dateStyle: 'short',
+    timeStyle: 'medium',
+  }).format(date);
+}
+
+function formatTaxId(value) {
+  const digits = String(value ?? '').replace(/\D/g, '');
+  if (digits.length === 14) {
+    return digits.replace(/^(\d{2})(\d{3})(\d{3})(\d{4})(\d{2})$/, '$1.$2.$3/$4-$5');
+  }
+  if (digits.length === 11) {
+    return digits.replace(/^(\d{3})(\d{3})(\d{3})(\d{2})$/, '$1.$2.$3-$4');
+  }
+  return value ?? '';
+}
+
+function formatChave(chave) {
+  return String(chave ?? '').replace(/(\d{4})(?=\d)/g, '$1 ');
+}
+
+function joinParts(parts, separator = ' - ') {
+  return parts.filter((part) => part != null && String(part).trim() !== '').join(separator);
+}
+
+function drawField(doc, fonts, {
+  x,
+  y,
+  width,
+  height = FIELD_HEIGHT,
+  label,
+  value,
+  align = 'left',
+  font,
+  fontSize = 8,
+  multiline = false,
+}) {
+  doc.lineWidth(0.5).strokeColor(theme.border).rect(x, y, width, height).stroke();
+  doc
+    .font(fonts.regular)
+    .fontSize(5.5)
+    .fillColor(theme.label)
+    .text(label, x + 2, y + 1.5, { width: width - 4, height: 7, ellipsis: true });
+
+  if (value == null || value === '') return;
+  const valueSize = multiline ? 6.5 : fontSize;
+  doc
+    .font(multiline ? fonts.regular : (font ?? fonts.bold))
+    .fontSize(valueSize)
+    .fillColor(theme.text)
+    .text(String(value), x + 2, y + 9, {
+      width: width - 4,
+      height: multiline ? height - 10 : valueSize + 2,
+      align,
+      ellipsis: true,
+    });
+}
+
+function drawFieldRow(doc, fonts, y, fields) {
+  let cursorX = doc.page.margins.left;
+  fields.forEach((field) => {
+    drawField(doc, fonts, { ...field, x: cursorX, y });
+    cursorX += field.width;
+  });
+  return y + (fields[0]?.height ?? FIELD_HEIGHT);
+}
+
+function drawSectionLabel(doc, fonts, text, y) {
+  doc
+    .font(fonts.bold)
+    .fontSize(6.5)
+    .fillColor(theme.text)
+    .text(text, doc.page.margins.left, y + 1.5, { height: SECTION_LABEL_HEIGHT, lineBreak: false });
+  return y + SECTION_LABEL_HEIGHT;
+}
+
+function drawWatermark(doc, fonts, text) {
+  const centerX = doc.page.width / 2;
+  const centerY = doc.page.height / 2;
+  doc
+    .save()
+    .rotate(-35, { origin: [centerX, centerY] })
+    .font(fonts.bold)
+    .fontSize(44)
+    .fillColor(theme.watermark)
+    .text(text, centerX - 250, centerY - 25, { width: 500, align: 'center', lineBreak: false })
+    .restore();
+}
+
+function drawHeader(doc, dacte, fonts, y) {
+  const { left } = doc.page.margins;
+  const headerHeight = 112;
+
+  if (dacte.isCancelled) drawWatermark(doc, fonts, 'CANCELADO');
+  else if (dacte.isHomologation) drawWatermark(doc, fonts, 'SEM VALOR FISCAL');
+
+  // Emitente
+  doc.lineWidth(0.5).strokeColor(theme.border).rect(left, y, 225, headerHeight).stroke();
+  doc
+    .font(fonts.regular)
+    .fontSize(5.5)
+    .fillColor(theme.label)
+    .text('IDENTIFICAÇÃO DO EMITENTE', left + 2, y + 1.5, { width: 221, lineBreak: false });
+  doc
+    .font(fonts.bold)
+    .fontSize(10)
+    .fillColor(theme.text)
+    .text(dacte.issuer.name ?? formatTaxId(dacte.issuer.cnpj), left + 6, y + 16, {
+      width: 213,
+      height: 26,
+      align: 'center',
+      ellipsis: true,
+    });
+  const address = dacte.issuer.address ?? {};
+  const addressLines = [
+    joinParts([address.street, address.number, address.complement], ', '),
+    joinParts([address.district, address.zip ? `CEP ${address.zip}` : null]),
+    joinParts([address.city, address.uf]),
+    `CNPJ: ${formatTaxId(dacte.issuer.cnpj)}`,
+    dacte.issuer.stateRegistration ? `IE: ${dacte.issuer.stateRegistration}` : null,
+  ].filter(Boolean);
+  doc
+    .font(fonts.regular)
+    .fontSize(7)
+    .text(addressLines.join('\n'), left + 6, y + 46, { width: 213, height: headerHeight - 50, align: 'center', ellipsis: true });
+
+  // Identificação do DACTE
+  const boxX = left + 225;
+  doc.rect(boxX, y, 100, headerHeight).stroke();
+  doc
+    .font(fonts.bold)
+    .fontSize(13)
+    .text('DACTE', boxX, y + 5, { width: 100, align: 'center', lineBreak: false });
+  doc
+    .font(fonts.regular)
+    .fontSize(6.5)
+    .text('Documento Auxiliar do Conhecimento de Transporte Eletrônico', boxX + 6, y + 21, { width: 88, align: 'center', height: 26 });
+  doc
+    .font(fonts.bold)
+    .fontSize(8)
+    .text(`MODELO ${dacte.modelo ?? '57'}`, boxX, y + 52, { width: 100, align: 'center', lineBreak: false })
+    .text(`SÉRIE ${dacte.serie ?? ''}`, boxX, y + 63, { width: 100, align: 'center', lineBreak: false })
+    .text(`Nº ${dacte.numero ?? ''}`, boxX, y + 74, { width: 100, align: 'center', lineBreak: false });
+  doc
+    .font(fonts.regular)
+    .fontSize(6.5)
+    .text(`Emissão: ${formatDateTime(dacte.emissao)}`, boxX, y + 92, { width: 100, align: 'center', lineBreak: false });
+
+  // Chave de acesso
+  const keyX = left + 325;
+  const keyWidth = CONTENT_WIDTH - 325;
+  doc.rect(keyX, y, keyWidth, 44).stroke();
+  if (/^\d{44}$/.test(dacte.chave ?? '')) {
+    drawCode128(doc, dacte.chave, { x: keyX + 10, y: y + 5, width: keyWidth - 20, height: 34 });
+  }
+  drawField(doc, fonts, {
+    x: keyX,
+    y: y + 44,
+    width: keyWidth,
+    height: 22,
+    label: 'CHAVE DE ACESSO',
+    value: formatChave(dacte.chave),
+    font: fonts.mono,
+    align: 'center',
+  });
+  doc.rect(keyX, y + 66, keyWidth, headerHeight - 66).stroke();
+  doc
+    .font(fonts.regular)
+    .fontSize(7)
+    .fillColor(theme.text)
+    .text(
+      'Consulta de autenticidade no portal nacional do CT-e www.cte.fazenda.gov.br/portal ou no site da Sefaz Autorizadora',
+      keyX + 8,
+      y + 74,
+      { width: keyWidth - 16, height: headerHeight - 74, align: 'center' },
+    );
+
+  const protocol = dacte.protocol?.protocolNumber
+    ? joinParts([dacte.protocol.protocolNumber, formatDateTime(dacte.protocol.receivedAt)])
+    : null;
+
+  let cursorY = drawFieldRow(doc, fonts, y + headerHeight, [
+    { width: 110, label: 'TIPO DO CT-E', value: CTE_TYPE_LABELS[dacte.tpCTe] ?? dacte.tpCTe },
+    { width: 120, label: 'TIPO DO SERVIÇO', value: SERVICE_TYPE_LABELS[dacte.tpServ] ?? dacte.tpServ },
+    { width: 95, label: 'MODAL', value: MODAL_LABELS[dacte.modal] ?? dacte.modal },
+    { width: 234, label: 'PROTOCOLO DE AUTORIZAÇÃO DE USO', value: protocol, align: 'center' },
+  ]);
+  cursorY = drawFieldRow(doc, fonts, cursorY, [
+    { width: CONTENT_WIDTH, label: 'CFOP - NATUREZA DA PRESTAÇÃO', value: joinParts([dacte.cfop, dacte.natOp]) },
+  ]);
+  cursorY = drawFieldRow(doc, fonts, cursorY, [
+    {
+      width: CONTENT_WIDTH / 2,
+      label: 'INÍCIO DA PRESTAÇÃO',
+      value: joinParts([dacte.route.originCity, dacte.route.originUf]),
+    },
+    {
+      width: CONTENT_WIDTH / 2,
+      label: 'TÉRMINO DA PRESTAÇÃO',
+      value: joinParts([dacte.route.destinationCity, dacte.route.destinationUf]),
+    },
+  ]);
+  return cursorY + 4;
+}
+
+function drawParty(doc, fonts, { x, y, width, title, party }) {
+  doc.lineWidth(0.5).strokeColor(theme.border).rect(x, y, width, PARTY_HEIGHT).stroke();
+  doc
+    .font(fonts.regular)
+    .fontSize(5.5)
+    .fillColor(theme.label)
+    .text(title, x + 2, y + 1.5, { width: width - 4, lineBreak: false });
+  if (!party) return;
+
+  const address = party.address ?? {};
+  doc
+    .font(fonts.bold)
+    .fontSize(7.5)
+    .fillColor(theme.text)
+    .text(party.name ?? '', x + 4, y + 9, { width: width - 8, height: 10, ellipsis: true });
+  doc
+    .font(fonts.regular)
+    .fontSize(6.5)
+    .text(
+      [
+        joinParts([address.street, address.number, address.complement, address.district], ', '),
+        joinParts([address.city, address.uf, address.zip ? `CEP ${address.zip}` : null]),
+        joinParts([
+          party.taxId ? `CNPJ/CPF: ${formatTaxId(party.taxId)}` : null,
+          party.stateRegistration ? `IE: ${party.stateRegistration}` : null,
+        ], '   '),
+      ].join('\n'),
+      x + 4,
+      y + 20,
+      { width: width - 8, height: PARTY_HEIGHT - 21, ellipsis: true },
+    );
+}
+
+function drawParties(doc, dacte, fonts, y) {
+  const { left } = doc.page.margins;
+  const half = CONTENT_WIDTH / 2;
+  const { remetente, destinatario, expedidor, recebedor } = dacte.parties;
+
+  drawParty(doc, fonts, { x: left, y, width: half, title: 'REMETENTE', party: remetente });
+  drawParty(doc, fonts, { x: left + half, y, width: half, title: 'DESTINATÁRIO', party: destinatario });
+  let cursorY = y + PARTY_HEIGHT;
+  if (expedidor || recebedor) {
+    drawParty(doc, fonts, { x: left, y: cursorY, width: half, title: 'EXPEDIDOR', party: expedidor });
+    drawParty(doc, fonts, { x: left + half, y: cursorY, width: half, title: 'RECEBEDOR', party: recebedor });
+    cursorY += PARTY_HEIGHT;
+  }
+
+  const tomador = dacte.tomador;
+  const tomadorAddress = tomador?.address ?? {};
+  cursorY = drawFieldRow(doc, fonts, cursorY, [
+    { width: 209, label: 'TOMADOR DO SERVIÇO', value: tomador?.name },
+    { width: 80, label: 'PAPEL', value: TOMADOR_LABELS[tomador?.role] ?? null },
+    { width: 110, label: 'CNPJ / CPF', value: formatTaxId(tomador?.taxId), align: 'center' },
+    { width: 80, label: 'INSCRIÇÃO ESTADUAL', value: tomador?.stateRegistration },
+    { width: 80, label: 'MUNICÍPIO / UF', value: joinParts([tomadorAddress.city, tomadorAddress.uf]) },
+  ]);
+  return cursorY + 4;
+}
+
+function drawCargo(doc, dacte, fonts, y) {
+  const cargo = dacte.cargo;
+  let cursorY = drawSectionLabel(doc, fonts, 'INFORMAÇÕES DA CARGA', y);
+  cursorY = drawFieldRow(doc, fonts, cursorY, [
+    { width: 259, label: 'PRODUTO PREDOMINANTE', value: cargo.predominantProduct },
+    { width: 170, label: 'OUTRAS CARACTERÍSTICAS', value: cargo.otherCharacteristics },
+    { width: 130, label: 'VALOR TOTAL DA CARGA', value: formatNumber(cargo.value), align: 'right' },
+  ]);
+
+  // Até quatro quantidades (peso bruto, peso cubado, volumes...) por linha
+  const quantities = cargo.quantities.length ? cargo.quantities : [{ measure: 'PESO', quantity: null }];
+  const perRow = 4;
+  const width = CONTENT_WIDTH / perRow;
+  for (let index = 0; index < quantities.length; index += perRow) {
+    cursorY = drawFieldRow(doc, fonts, cursorY, quantities.slice(index, index + perRow).map((quantity) => ({
+      width,
+      label: (quantity.measure ?? 'QUANTIDADE').toUpperCase(),
+      value: formatNumber(quantity.quantity, 4),
+      align: 'right',
+    })));
+  }
+  return cursorY + 4;
+}
+
+function drawServiceValues(doc, dacte, fonts, y) {
+  let cursorY = drawSectionLabel(doc, fonts, 'COMPONENTES DO VALOR DA PRESTAÇÃO DO SERVIÇO', y);
+  const perRow = 4;
+  const width = CONTENT_WIDTH / perRow;
+  for (let index = 0; index < dacte.components.length; index += perRow) {
+    cursorY = drawFieldRow(doc, fonts, cursorY, dacte.components.slice(index, index + perRow).map((component) => ({
+      width,
+      label: (component.name ?? '').toUpperCase(),
+      value: formatNumber(component.value),
+      align: 'right',
+    })));
+  }
+  cursorY = drawFieldRow(doc, fonts, cursorY, [
+    { width: CONTENT_WIDTH / 2, label: 'VALOR TOTAL DO SERVIÇO', value: formatNumber(dacte.valorPrestacao), align: 'right' },
+    { width: CONTENT_WIDTH / 2, label: 'VALOR A RECEBER', value: formatNumber(dacte.valorReceber ?? dacte.valorPrestacao), align: 'right' },
+  ]);
+  return cursorY + 4;
+}
+
+function drawTax(doc, dacte, fonts, y) {
+  const icms = dacte.icms ?? {};
+  const width = CONTENT_WIDTH / 5;
+  let cursorY = drawSectionLabel(doc, fonts, 'INFORMAÇÕES RELATIVAS AO IMPOSTO', y);
+  cursorY = drawFieldRow(doc, fonts, cursorY, [
+    { width, label: 'SITUAÇÃO TRIBUTÁRIA', value: joinParts([icms.cst, icms.group]) },
+    { width, label: 'BASE DE CÁLCULO', value: formatNumber(icms.vBC), align: 'right' },
+    { width, label: 'ALÍQ. ICMS', value: formatNumber(icms.pICMS), align: 'right' },
+    { width, label: 'VALOR DO ICMS', value: formatNumber(icms.vICMS), align: 'right' },
+    { width, label: '% RED. BC', value: formatNumber(icms.pRedBC), align: 'right' },
+  ]);
+  return cursorY + 4;
+}
+
+function drawDocuments(doc, dacte, fonts, y) {
+  const { left } = doc.page.margins;
+  const bottomLimit = doc.page.height - doc.page.margins.bottom;
+  const rowHeight = 12;
+  const half = CONTENT_WIDTH / 2;
+
+  let cursorY = drawSectionLabel(doc, fonts, 'DOCUMENTOS ORIGINÁRIOS', y);
+  if (!dacte.documents.length) {
+    return drawFieldRow(doc, fonts, cursorY, [
+      { width: CONTENT_WIDTH, label: 'NF-E', value: 'Nenhum documento informado' },
+    ]) + 4;
+  }
+
+  dacte.documents.forEach((document, index) => {
+    const column = index % 2;
+    if (column === 0 && cursorY + rowHeight > bottomLimit) {
+      doc.addPage();
+      cursorY = drawSectionLabel(doc, fonts, 'DOCUMENTOS ORIGINÁRIOS (continuação)', doc.page.margins.top);
+    }
+    const cellX = left + column * half;
+    doc.lineWidth(0.5).strokeColor(theme.border).rect(cellX, cursorY, half, rowHeight).stroke();
+    doc
+      .font(fonts.mono)
+      .fontSize(6.5)
+      .fillColor(theme.text)
+      .text(
+        joinParts(['NF-e', formatChave(document.chave), document.numero ? `Nº ${document.numero}` : null], '  '),
+        cellX + 3,
+        cursorY + 3,
+        { width: half - 6, height: rowHeight - 3, ellipsis: true },
+      );
+    if (column === 1 || index === dacte.documents.length - 1) cursorY += rowHeight;
+  });
+  return cursorY + 4;
+}
+
+function drawObservations(doc, dacte, fonts, y) {
+  const bottomLimit = doc.page.height - doc.page.margins.bottom;
+  const height = 60;
+  let cursorY = y;
+  if (cursorY + SECTION_LABEL_HEIGHT + height > bottomLimit) {
+    doc.addPage();
+    cursorY = doc.page.margins.top;
+  }
+  cursorY = drawSectionLabel(doc, fonts, 'OBSERVAÇÕES', cursorY);
+  return drawFieldRow(doc, fonts, cursorY, [
+    { width: CONTENT_WIDTH, height, label: 'OBSERVAÇÕES GERAIS', value: dacte.observations, multiline: true },
+  ]);
+}
+
+function generateDactePdf({ res, dacte }) {
+  return new Promise((resolve, reject) => {
+    try {
+      const doc = new PDFDocument({
+        size: 'A4',
+        layout: 'portrait',
+        margins: DEFAULT_MARGINS,
+        info: { Title: `DACTE ${dacte.chave}` },
+      });
+
+      const fonts = registerFonts(doc);
+      doc.pipe(res);
+
+      let cursorY = drawHeader(doc, dacte, fonts, doc.page.margins.top);
+      cursorY = drawParties(doc, dacte, fonts, cursorY);
+      cursorY = drawCargo(doc, dacte, fonts, cursorY);
+      cursorY = drawServiceValues(doc, dacte, fonts, cursorY);
+      cursorY = drawTax(doc, dacte, fonts, cursorY);
+      cursorY = drawDocuments(doc, dacte, fonts, cursorY);
+      drawObservations(doc, dacte, fonts, cursorY);
+
+      doc.on('end', resolve);
+      doc.on('error', reject);
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+module.exports = {
+  generateDactePdf,
+};
@@ -0,0 +1,87 @@
+const { prisma } = require('../prisma');
+const { decompressXml } = require('./xmlDocumentService');
+const { parseDacteExtras } = require('../utils/xmlInvoiceParser');
+
+function readExtras(cte) {
+  const xml = decompressXml(cte.xmlDocument);
+  if (!xml) return null;
+  try {
+    return parseDacteExtras(xml.toString('utf-8'));
+  } catch (error) {
+    // XML corrompido não impede a impressão com os dados persistidos
+    return null;
+  }
+}
+
+function buildDacte(cte, extras) {
+  const { xmlDocument, invoiceLinks, ...rest } = cte;
+  const parties = extras?.parties ?? {};
+
+  return {
+    ...rest,
+    tpAmb: extras?.tpAmb ?? null,
+    isHomologation: extras?.tpAmb === '2',
+    tpCTe: extras?.tpCTe ?? null,
+    tpServ: extras?.tpServ ?? null,
+    modal: extras?.modal ?? null,
+    route: extras?.route ?? {
+      originCity: cte.emitMun,
+      originUf: cte.emitUf,
+      destinationCity: cte.destMun,
+      destinationUf: cte.destUf,
+    },
+    issuer: {
+      cnpj: cte.emitCnpj,
+      name: cte.emitNome,
+      stateRegistration: extras?.issuer?.stateRegistration ?? null,
+      address: extras?.issuer?.address ?? { city: cte.emitMun, uf: cte.emitUf },
+    },
+    parties: {
+      remetente: parties.remetente ?? null,
+      expedidor: parties.expedidor ?? null,
+      recebedor: parties.recebedor ?? null,
+      destinatario: parties.destinatario ?? {
+        taxId: cte.destCnpj,
+        name: cte.destNome,
+        stateRegistration: null,
+        address: { city: cte.destMun, uf: cte.destUf },
+      },
+    },
+    tomador: extras?.tomador ?? null,
+    cargo: extras?.cargo ?? {
+      value: null,
+      predominantProduct: null,
+      otherCharacteristics: null,
+      quantities: cte.pesoBruto != null
+        ? [{ unitCode: null, measure: cte.unidadePeso, quantity: cte.pesoBruto }]
+        : [],
+    },
+    components: extras?.components ?? [],
+    icms: extras?.icms ?? null,
+    protocol: extras?.protocol ?? (cte.protocolo ? { protocolNumber: cte.protocolo, receivedAt: null } : null),
+    observations: extras?.observations ?? null,
+    documents: invoiceLinks.map((link) => ({
+      chave: link.chaveNFe,
+      numero: link.invoice?.numero ?? null,
+    })),
+  };
+}
+
+async function loadDacte(companyId, cteId) {
+  const cte = await prisma.cte.findFirst({
+    where: { id: cteId, companyId },
+    include: {
+      xmlDocument: { select: { content: true } },
+      invoiceLinks: {
+        orderBy: { chaveNFe: 'asc' },
+        select: { chaveNFe: true, invoice: { select: { numero: true } } },
+      },
+    },
+  });
+  if (!cte) return null;
+  return buildDacte(cte, readExtras(cte));
+}
+
+module.exports = {
+  loadDacte,
+};
@@ -0,0 +1,655 @@
+const PDFDocument = require('pdfkit');
+const fs = require('fs');
+const path = require('path');
+const { drawCode128 } = require('../utils/code128');
+
+const FONT_PATHS = {
+  inter: path.resolve(__dirname, '../assets/fonts/InterVariable.ttf'),
+  mono: path.resolve(__dirname, '../assets/fonts/RobotoMono-Variable.ttf'),
+};
+
+const DEFAULT_MARGINS = {
+  top: 18,
+  bottom: 18,
+  left: 18,
+  right: 18,
+};
+
+const theme = {
+  text: '#000000',
+  label: '#333333',
+  border: '#000000',
+  rowDivider: '#BBBBBB',
+  watermark: '#DDDDDD',
+};
+
+const FIELD_HEIGHT = 20;
+const SECTION_LABEL_HEIGHT = 9;
+const ADDITIONAL_INFO_HEIGHT = 70;
+
+const FREIGHT_MODE_LABELS = {
+  0: '0 - Remetente (CIF)',
+  1: '1 - Destinatário (FOB)',
+  2: '2 - Terceiros',
+  3: '3 - Próprio remetente',
+  4: '4 - Próprio destinatário',
+  9: '9 - Sem frete',
+};
+
+function registerFonts(doc) {
+  const fonts = {
+    regular: 'Helvetica',
+    bold: 'Helvetica-Bold',
+    mono: 'Courier',
+  };
+
+  if (fs.existsSync(FONT_PATHS.inter)) {
+    doc.registerFont('Inter-Regular', FONT_PATHS.inter);
+    doc.registerFont('Inter-SemiBold', FONT_PATHS.inter);
+    fonts.regular = 'Inter-Regular';
+    fonts.bold = 'Inter-SemiBold';
+  }
+  if (fs.existsSync(FONT_PATHS.mono)) {
+    doc.registerFont('RobotoMono-Regular', FONT_PATHS.mono);
+    fonts.mono = 'RobotoMono-Regular';
+  }
+  return fonts;
+}
+
+function formatNumber(value, fractionDigits = 2) {
+  const numeric = value == null || value === '' ? 0 : Number(value);
+  if (!Number.isFinite(numeric)) return String(value);
+  return numeric.toLocaleString('pt-BR', {
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  });
+}
+
+function formatDate(value) {
+  if (!value) return '';
+  const date = value instanceof Date ? value : new Date(value);
+  if (Number.isNaN(date.getTime())) return String(value);
+  return new Intl.DateTimeFormat('pt-BR').format(date);
+}
+
+function formatTime(value) {
+  if (!value) return '';
+  const date = value instanceof Date ? value : new Date(value);
+  if (Number.isNaN(date.getTime())) return '';
+  return new Intl.DateTimeFormat('pt-BR', { timeStyle: 'medium' }).format(date);
+}
+
+function formatTaxId(value) {
+  const digits = String(value ?? '').replace(/\D/g, '');
+  if (digits.length === 14) {
+    return digits.replace(/^(\d{2})(\d{3})(\d{3})(\d{4})(\d{2})$/, '$1.$2.$3/$4-$5');
+  }
+  if (digits.length === 11) {
+    return digits.replace(/^(\d{3})(\d{3})(\d{3})(\d{2})$/, '$1.$2.$3-$4');
+  }
+  return value ?? '';
+}
+
+function formatChave(chave) {
+  return String(chave ?? '').replace(/(\d{4})(?=\d)/g, '$1 ');
+}
+
+function formatNumero(numero) {
+  const digits = String(numero ?? '').replace(/\D/g, '');
+  if (!digits) return '';
+  return digits.padStart(9, '0').replace(/^(\d{3})(\d{3})(\d{3})$/, '$1.$2.$3');
+}
+
+function joinParts(parts, separator = ' - ') {
+  return parts.filter((part) => part != null && String(part).trim() !== '').join(separator);
+}
+
+function currentPageIndex(doc) {
+  const range = doc.bufferedPageRange();
+  return range.start + range.count - 1;
+}
+
+function drawField(doc, fonts, {
+  x,
+  y,
+  width,
+  height = FIELD_HEIGHT,
+  label,
+  value,
+  align = 'left',
+  font,
+  fontSize = 8,
+  multiline = false,
+}) {
+  doc.lineWidth(0.5).strokeColor(theme.border).rect(x, y, width, height).stroke();
+  doc
+    .font(fonts.regular)
+    .fontSize(5.5)
+    .fillColor(theme.label)
+    .text(label, x + 2, y + 1.5, { width: width - 4, height: 7, ellipsis: true });
+
+  if (value == null || value === '') return;
+  const valueSize = multiline ? 6.5 : fontSize;
+  doc
+    .font(multiline ? fonts.regular : (font ?? fonts.bold))
+    .fontSize(valueSize)
+    .fillColor(theme.text)
+    .text(String(value), x + 2, y + 9, {
+      width: width - 4,
+      height: multiline ? height - 10 : valueSize + 2,
+      align,
+      ellipsis: true,
+    });
+}
+
+// Linha de campos com larguras fixas; a soma das larguras deve ocupar a largura útil
+function drawFieldRow(doc, fonts, y, fields) {
+  let cursorX = doc.page.margins.left;
+  fields.forEach((field) => {
+    drawField(doc, fonts, { ...field, x: cursorX, y });
+    cursorX += field.width;
+  });
+  return y + (fields[0]?.height ?? FIELD_HEIGHT);
+}
+
+function drawSectionLabel(doc, fonts, text, y) {
+  doc
+    .font(fonts.bold)
+    .fontSize(6.5)
+    .fillColor(theme.text)
+    .text(text, doc.page.margins.left, y + 1.5, { height: SECTION_LABEL_HEIGHT, lineBreak: false });
+  return y + SECTION_LABEL_HEIGHT;
+}
+
+function drawWatermark(doc, fonts) {
+  const centerX = doc.page.width / 2;
+  const centerY = doc.page.height / 2;
+  doc
+    .save()
+    .rotate(-35, { origin: [centerX, centerY] })
+    .font(fonts.bold)
+    .fontSize(44)
+    .fillColor(theme.watermark)
+    .text('SEM VALOR FISCAL', centerX - 250, centerY - 25, { width: 500, align: 'center', lineBreak: false })
+    .restore();
+}
+
+function drawReceiptStub(doc, danfe, fonts, y) {
+  const { left } = doc.page.margins;
+  const contentWidth = doc.page.width - left - doc.page.margins.right;
+  const stubWidth = contentWidth - 100;
+
+  drawField(doc, fonts, {
+    x: left,
+    y,
+    width: stubWidth,
+    height: 22,
+    label: `RECEBEMOS DE ${danfe.issuer.name ?? formatTaxId(danfe.issuer.cnpj)} OS PRODUTOS/SERVIÇOS CONSTANTES DA NOTA FISCAL INDICADA AO LADO`,
+    value: joinParts([
+      `Emissão: ${formatDate(danfe.emissao)}`,
+      `Valor total: R$ ${formatNumber(danfe.taxTotals.vNF)}`,
+      `Destinatário: ${danfe.recipient.name ?? formatTaxId(danfe.recipient.cnpj)}`,
+    ], '   '),
+    fontSize: 7,
+  });
+  drawField(doc, fonts, { x: left, y: y + 22, width: 110, height: 22, label: 'DATA DE RECEBIMENTO' });
+  drawField(doc, fonts, {
+    x: left + 110,
+    y: y + 22,
+    width: stubWidth - 110,
+    height: 22,
+    label: 'IDENTIFICAÇÃO E ASSINATURA DO RECEBEDOR',
+  });
+
+  const boxX = left + stubWidth;
+  doc.lineWidth(0.5).strokeColor(theme.border).rect(boxX, y, 100, 44).stroke();
+  doc
+    .font(fonts.bold)
+    .fontSize(11)
+    .fillColor(theme.text)
+    .text('NF-e', boxX, y + 5, { width: 100, align: 'center', lineBreak: false });
+  doc
+    .fontSize(8)
+    .text(`Nº ${formatNumero(danfe.numero)}`, boxX, y + 20, { width: 100, align: 'center', lineBreak: false })
+    .text(`SÉRIE ${danfe.serie ?? ''}`, boxX, y + 30, { width: 100, align: 'center', lineBreak: false });
+
+  const cutY = y + 50;
+  doc
+    .save()
+    .dash(3, { space: 2 })
+    .moveTo(left, cutY)
+    .lineTo(left + contentWidth, cutY)
+    .lineWidth(0.5)
+    .stroke()
+    .undash()
+    .restore();
+
+  return cutY + 6;
+}
+
+function drawIssuerBlock(doc, danfe, fonts, { x, y, width, height }) {
+  doc.lineWidth(0.5).strokeColor(theme.border).rect(x, y, width, height).stroke();
+  doc
+    .font(fonts.regular)
+    .fontSize(5.5)
+    .fillColor(theme.label)
+    .text('IDENTIFICAÇÃO DO EMITENTE', x + 2, y + 1.5, { width: width - 4, lineBreak: false });
+
+  doc
+    .font(fonts.bold)
+    .fontSize(10)
+    .fillColor(theme.text)
+    .text(danfe.issuer.name ?? formatTaxId(danfe.issuer.cnpj), x + 6, y + 16, {
+      width: width - 12,
+      height: 26,
+      align: 'center',
+      ellipsis: true,
+    });
+
+  const address = danfe.issuer.address;
+  if (!address) return;
+  const lines = [
+    joinParts([address.street, address.number, address.complement], ', '),
+    joinParts([address.district, address.zip ? `CEP ${address.zip}` : null]),
+    joinParts([address.city, address.uf]),
+    address.phone ? `Fone: ${address.phone}` : null,
+  ].filter(Boolean);
+  doc
+    .font(fonts.regular)
+    .fontSize(7)
+    .text(lines.join('\n'), x + 6, y + 46, { width: width - 12, height: height - 50, align: 'center', ellipsis: true });
+}
+
+function drawDanfeBlock(doc, danfe, fonts, context, { x, y, width, height }) {
+  doc.lineWidth(0.5).strokeColor(theme.border).rect(x, y, width, height).stroke();
+  doc
+    .font(fonts.bold)
+    .fontSize(13)
+    .fillColor(theme.text)
+    .text('DANFE', x, y + 5, { width, align: 'center', lineBreak: false });
+  doc
+    .font(fonts.regular)
+    .fontSize(6.5)
+    .text('Documento Auxiliar da Nota Fiscal Eletrônica', x + 6, y + 21, { width: width - 12, align: 'center', height: 18 });
+
+  doc
+    .fontSize(7)
+    .text('0 - ENTRADA', x + 8, y + 44, { lineBreak: false })
+    .text('1 - SAÍDA', x + 8, y + 53, { lineBreak: false });
+  doc.rect(x + width - 28, y + 43, 18, 18).stroke();
+  doc
+    .font(fonts.bold)
+    .fontSize(11)
+    .text(danfe.tpNF ?? '', x + width - 28, y + 46, { width: 18, align: 'center', lineBreak: false });
+
+  doc
+    .fontSize(8)
+    .text(`Nº ${formatNumero(danfe.numero)}`, x, y + 70, { width, align: 'center', lineBreak: false })
+    .text(`SÉRIE ${danfe.serie ?? ''}`, x, y + 81, { width, align: 'center', lineBreak: false });
+
+  // "FOLHA n/total" só é conhecida ao fim da nota; a posição é preenchida depois
+  context.pagePlaceholders.push({ pageIndex: currentPageIndex(doc), x, y: y + 94, width });
+}
+
+function drawKeyBlock(doc, danfe, fonts, { x, y, width, height }) {
+  doc.lineWidth(0.5).strokeColor(theme.border).rect(x, y, width, 44).stroke();
+  if (/^\d{44}$/.test(danfe.chave ?? '')) {
+    drawCode128(doc, danfe.chave, { x: x + 10, y: y + 5, width: width - 20, height: 34 });
+  }
+
+  drawField(doc, fonts, {
+    x,
+    y: y + 44,
+    width,
+    height: 22,
+    label: 'CHAVE DE ACESSO',
+    value: formatChave(danfe.chave),
+    font: fonts.mono,
+    fontSize: 8,
+    align: 'center',
+  });
+
+  doc.rect(x, y + 66, width, height - 66).stroke();
+  doc
+    .font(fonts.regular)
+    .fontSize(7)
+    .fillColor(theme.text)
+    .text(
+      'Consulta de autenticidade no portal nacional da NF-e www.nfe.fazenda.gov.br/portal ou no site da Sefaz Autorizadora',
+      x + 8,
+      y + 74,
+      { width: width - 16, height: height - 74, align: 'center' },
+    );
+}
+
+function drawHeader(doc, danfe, fonts, context, y) {
+  const { left } = doc.page.margins;
+  const headerHeight = 112;
+
+  if (danfe.isHomologation) drawWatermark(doc, fonts);
+
+  drawIssuerBlock(doc, danfe, fonts, { x: left, y, width: 225, height: headerHeight });
+  drawDanfeBlock(doc, danfe, fonts, context, { x: left + 225, y, width: 100, height: headerHeight });
+  drawKeyBlock(doc, danfe, fonts, { x: left + 325, y, width: 234, height: headerHeight });
+
+  const protocol = danfe.protocol?.protocolNumber
+    ? joinParts([
+      danfe.protocol.protocolNumber,
+      danfe.protocol.receivedAt ? `${formatDate(danfe.protocol.receivedAt)} ${formatTime(danfe.protocol.receivedAt)}` : null,
+    ])
+    : null;
+
+  let cursorY = drawFieldRow(doc, fonts, y + headerHeight, [
+    { width: 325, label: 'NATUREZA DA OPERAÇÃO', value: danfe.natOp },
+    { width: 234, label: 'PROTOCOLO DE AUTORIZAÇÃO DE USO', value: protocol, align: 'center' },
+  ]);
+  cursorY = drawFieldRow(doc, fonts, cursorY, [
+    { width: 186, label: 'INSCRIÇÃO ESTADUAL', value: danfe.issuer.stateRegistration },
+    { width: 186, label: 'INSC. ESTADUAL DO SUBST. TRIBUT.', value: danfe.issuer.stStateRegistration },
+    { width: 187, label: 'CNPJ / CPF', value: formatTaxId(danfe.issuer.cnpj) },
+  ]);
+
+  return cursorY + 4;
+}
+
+function drawRecipient(doc, danfe, fonts, y) {
+  const address = danfe.recipient.address ?? {};
+  let cursorY = drawSectionLabel(doc, fonts, 'DESTINATÁRIO / REMETENTE', y);
+  cursorY = drawFieldRow(doc, fonts, cursorY, [
+    { width: 359, label: 'NOME / RAZÃO SOCIAL', value: danfe.recipient.name },
+    { width: 120, label: 'CNPJ / CPF', value: formatTaxId(danfe.recipient.cnpj), align: 'center' },
+    { width: 80, label: 'DATA DA EMISSÃO', value: formatDate(danfe.emissao), align: 'center' },
+  ]);
+  cursorY = drawFieldRow(doc, fonts, cursorY, [
+    { width: 259, label: 'ENDEREÇO', value: joinParts([address.street, address.number, address.complement], ', ') },
+    { width: 140, label: 'BAIRRO / DISTRITO', value: address.district },
+    { width: 80, label: 'CEP', value: address.zip, align: 'center' },
+    { width: 80, label: 'DATA DA SAÍDA/ENTRADA', value: formatDate(danfe.entradaSaida), align: 'center' },
+  ]);
+  cursorY = drawFieldRow(doc, fonts, cursorY, [
+    { width: 219, label: 'MUNICÍPIO', value: address.city },
+    { width: 100, label: 'FONE / FAX', value: address.phone },
+    { width: 40, label: 'UF', value: address.uf, align: 'center' },
+    { width: 120, label: 'INSCRIÇÃO ESTADUAL', value: danfe.recipient.stateRegistration },
+    { width: 80, label: 'HORA DA SAÍDA/ENTRADA', value: formatTime(danfe.entradaSaida), align: 'center' },
+  ]);
+  return cursorY + 4;
+}
+
+function drawBilling(doc, danfe, fonts, y) {
+  const { left } = doc.page.margins;
+  const installments = danfe.installments ?? [];
+  if (!installments.length && !danfe.faturaNumero) return y;
+
+  let cursorY = drawSectionLabel(doc, fonts, 'FATURA / DUPLICATAS', y);
+
+  if (!installments.length) {
+    cursorY = drawFieldRow(doc, fonts, cursorY, [
+      {
+        width: 559,
+        label: 'FATURA',
+        value: joinParts([
+          `Nº ${danfe.faturaNumero}`,
+          `Valor original: R$ ${formatNumber(danfe.faturaValorOriginal)}`,
+          `Desconto: R$ ${formatNumber(danfe.faturaValorDesconto)}`,
+          `Valor líquido: R$ ${formatNumber(danfe.faturaValorLiquido)}`,
+        ], '   '),
+      },
+    ]);
+    return cursorY + 4;
+  }
+
+  const perRow = 6;
+  const cellWidth = 559 / perRow;
+  const cellHeight = 26;
+  installments.forEach((installment, index) => {
+    const column = index % perRow;
+    const rowY = cursorY + Math.floor(index / perRow) * cellHeight;
+    const cellX = left + column * cellWidth;
+    doc.lineWidth(0.5).strokeColor(theme.border).rect(cellX, rowY, cellWidth, cellHeight).stroke();
+    doc
+      .font(fonts.regular)
+      .fontSize(6.5)
+      .fillColor(theme.text)
+      .text(
+        [
+          `Núm.: ${installment.numero ?? index + 1}`,
+          `Venc.: ${formatDate(installment.dueDate)}`,
+          `Valor: R$ ${formatNumber(installment.amount)}`,
+        ].join('\n'),
+        cellX + 3,
+        rowY + 2,
+        { width: cellWidth - 6, height: cellHeight - 3 },
+      );
+  });
+
+  return cursorY + Math.ceil(installments.length / perRow) * cellHeight + 4;
+}
+
+function drawTaxTotals(doc, danfe, fonts, y) {
+  const totals = danfe.taxTotals;
+  const width = 559 / 6;
+  const money = (label, value) => ({ width, label, value: formatNumber(value), align: 'right' });
+
+  let cursorY = drawSectionLabel(doc, fonts, 'CÁLCULO DO IMPOSTO', y);
+  cursorY = drawFieldRow(doc, fonts, cursorY, [
+    money('BASE DE CÁLC. DO ICMS', totals.vBC),
+    money('VALOR DO ICMS', totals.vICMS),
+    money('BASE DE CÁLC. ICMS S.T.', totals.vBCST),
+    money('VALOR DO ICMS SUBST.', totals.vST),
+    money('V. APROX. TRIBUTOS', totals.vTotTrib),
+    money('V. TOTAL PRODUTOS', totals.vProd),
+  ]);
+  cursorY = drawFieldRow(doc, fonts, cursorY, [
+    money('VALOR DO FRETE', totals.vFrete),
+    money('VALOR DO SEGURO', totals.vSeg),
+    money('DESCONTO', totals.vDesc),
+    money('OUTRAS DESPESAS', totals.vOutro),
+    money('VALOR TOTAL IPI', totals.vIPI),
+    money('V. TOTAL DA NOTA', totals.vNF),
+  ]);
+  return cursorY + 4;
+}
+
+function drawTransport(doc, danfe, fonts, y) {
+  let cursorY = drawSectionLabel(doc, fonts, 'TRANSPORTADOR / VOLUMES TRANSPORTADOS', y);
+  cursorY = drawFieldRow(doc, fonts, cursorY, [
+    { width: 239, label: 'NOME / RAZÃO SOCIAL', value: danfe.carrierName },
+    { width: 140, label: 'FRETE POR CONTA', value: FREIGHT_MODE_LABELS[danfe.freightMode] ?? danfe.freightMode },
+    { width: 120, label: 'CNPJ / CPF', value: formatTaxId(danfe.carrierTaxId), align: 'center' },
+    { width: 60, label: 'UF', value: danfe.carrierUf, align: 'center' },
+  ]);
+  cursorY = drawFieldRow(doc, fonts, cursorY, [
+    { width: 100, label: 'QUANTIDADE', value: danfe.volumeQty != null ? formatNumber(danfe.volumeQty, 0) : null, align: 'right' },
+    { width: 219, label: 'ESPÉCIE', value: danfe.volumeSpecies },
+    { width: 120, label: 'PESO BRUTO', value: danfe.grossWeight != null ? formatNumber(danfe.grossWeight, 3) : null, align: 'right' },
+    { width: 120, label: 'PESO LÍQUIDO', value: danfe.netWeight != null ? formatNumber(danfe.netWeight, 3) : null, align: 'right' },
+  ]);
+  return cursorY + 4;
+}
+
+const ITEM_COLUMNS = [
+  { key: 'productCode', label: 'CÓDIGO', width: 45 },
+  { key: 'description', label: 'DESCRIÇÃO DO PRODUTO / SERVIÇO', width: 138, wrap: true },
+  { key: 'ncm', label: 'NCM/SH', width: 40, align: 'center' },
+  { key: 'cst', label: 'CST/CSOSN', width: 25, align: 'center' },
+  { key: 'cfopCode', label: 'CFOP', width: 25, align: 'center' },
+  { key: 'unit', label: 'UN', width: 22, align: 'center' },
+  { key: 'qty', label: 'QUANT.', width: 40, align: 'right', formatter: (value) => formatNumber(value, 4) },
+  { key: 'unitPrice', label: 'V. UNIT.', width: 45, align: 'right', formatter: (value) => formatNumber(value, 4) },
+  { key: 'gross', label: 'V. TOTAL', width: 45, align: 'right', formatter: formatNumber },
+  { key: 'vBC', label: 'BC ICMS', width: 40, align: 'right', formatter: formatNumber },
+  { key: 'vICMS', label: 'V. ICMS', width: 35, align: 'right', formatter: formatNumber },
+  { key: 'ipiValue', label: 'V. IPI', width: 30, align: 'right', formatter: formatNumber },
+  { key: 'pICMS', label: 'ALÍQ. ICMS', width: 25, align: 'right', formatter: formatNumber },
+];
+
+function toItemRow(item) {
+  return {
+    ...item,
+    cst: item.csosn ?? item.cst,
+    vICMS: item.vICMS ?? item.icmsValue,
+  };
+}
+
+function drawItemsHeader(doc, fonts, y) {
+  let cursorY = drawSectionLabel(doc, fonts, 'DADOS DOS PRODUTOS / SERVIÇOS', y);
+  let cursorX = doc.page.margins.left;
+  ITEM_COLUMNS.forEach((column) => {
+    doc.lineWidth(0.5).strokeColor(theme.border).rect(cursorX, cursorY, column.width, 14).stroke();
+    doc
+      .font(fonts.regular)
+      .fontSize(5)
+      .fillColor(theme.text)
+      .text(column.label, cursorX + 1, cursorY + 2, { width: column.width - 2, height: 12, align: 'center' });
+    cursorX += column.width;
+  });
+  cursorY += 14;
+  return cursorY;
+}
+
+function measureItemRow(doc, fonts, row) {
+  doc.font(fonts.regular).fontSize(6);
+  const heights = ITEM_COLUMNS.filter((column) => column.wrap).map((column) =>
+    doc.heightOfString(String(row[column.key] ?? ''), { width: column.width - 4 }),
+  );
+  return Math.max(10, ...heights.map((height) => height + 4));
+}
+
+function drawItemRow(doc, fonts, row, y, height) {
+  let cursorX = doc.page.margins.left;
+  doc.font(fonts.regular).fontSize(6).fillColor(theme.text);
+  ITEM_COLUMNS.forEach((column) => {
+    const raw = row[column.key];
+    const value = column.formatter ? column.formatter(raw) : (raw ?? '');
+    doc.text(String(value), cursorX + 2, y + 2, {
+      width: column.width - 4,
+      height: column.wrap ? height - 2 : 8,
+      align: column.align ?? 'left',
+      ellipsis: !column.wrap,
+    });
+    doc
+      .moveTo(cursorX, y)
+      .lineTo(cursorX, y + height)
+      .moveTo(cursorX + column.width, y)
+      .lineTo(cursorX + column.width, y + height)
+      .lineWidth(0.5)
+      .strokeColor(theme.border)
+      .stroke();
+    cursorX += column.width;
+  });
+  doc
+    .moveTo(doc.page.margins.left, y + height)
+    .lineTo(cursorX, y + height)
+    .lineWidth(0.3)
+    .strokeColor(theme.rowDivider)
+    .stroke();
+}
+
+function drawAdditionalInfo(doc, danfe, fonts, y) {
+  const cursorY = drawSectionLabel(doc, fonts, 'DADOS ADICIONAIS', y);
+  return drawFieldRow(doc, fonts, cursorY, [
+    {
+      width: 370,
+      height: ADDITIONAL_INFO_HEIGHT,
+      label: 'INFORMAÇÕES COMPLEMENTARES',
+      value: danfe.additionalInfo,
+      multiline: true,
+    },
+    {
+      width: 189,
+      height: ADDITIONAL_INFO_HEIGHT,
+      label: 'RESERVADO AO FISCO',
+      value: danfe.fiscoInfo,
+      multiline: true,
+    },
+  ]);
+}
+
+function startContinuationPage(doc, danfe, fonts, context) {
+  doc.addPage();
+  const cursorY = drawHeader(doc, danfe, fonts, context, doc.page.margins.top);
+  return drawItemsHeader(doc, fonts, cursorY);
+}
+
+function drawInvoice(doc, danfe, fonts) {
+  const context = { pagePlaceholders: [] };
+  const bottomLimit = () => doc.page.height - doc.page.margins.bottom;
+  const firstPageIndex = currentPageIndex(doc);
+
+  let cursorY = drawReceiptStub(doc, danfe, fonts, doc.page.margins.top);
+  cursorY = drawHeader(doc, danfe, fonts, context, cursorY);
+  cursorY = drawRecipient(doc, danfe, fonts, cursorY);
+  cursorY = drawBilling(doc, danfe, fonts, cursorY);
+  cursorY = drawTaxTotals(doc, danfe, fonts, cursorY);
+  cursorY = drawTransport(doc, danfe, fonts, cursorY);
+  cursorY = drawItemsHeader(doc, fonts, cursorY);
+
+  (danfe.items ?? []).map(toItemRow).forEach((row) => {
+    const rowHeight = measureItemRow(doc, fonts, row);
+    if (cursorY + rowHeight > bottomLimit()) {
+      cursorY = startContinuationPage(doc, danfe, fonts, context);
+    }
+    drawItemRow(doc, fonts, row, cursorY, rowHeight);
+    cursorY += rowHeight;
+  });
+
+  // Dados adicionais ficam ao pé da última folha da nota
+  const additionalHeight = SECTION_LABEL_HEIGHT + ADDITIONAL_INFO_HEIGHT;
+  if (cursorY + additionalHeight + 4 > bottomLimit()) {
+    doc.addPage();
+    drawHeader(doc, danfe, fonts, context, doc.page.margins.top);
+  }
+  drawAdditionalInfo(doc, danfe, fonts, bottomLimit() - additionalHeight);
+
+  const totalPages = currentPageIndex(doc) - firstPageIndex + 1;
+  context.pagePlaceholders.forEach((placeholder) => {
+    doc.switchToPage(placeholder.pageIndex);
+    doc
+      .font(fonts.bold)
+      .fontSize(8)
+      .fillColor(theme.text)
+      .text(
+        `FOLHA ${placeholder.pageIndex - firstPageIndex + 1}/${totalPages}`,
+        placeholder.x,
+        placeholder.y,
+        { width: placeholder.width, align: 'center', lineBreak: false },
+      );
+  });
+  doc.switchToPage(firstPageIndex + totalPages - 1);
+}
+
+// Gera um PDF com um DANFE por nota; cada nota começa em folha nova
+function generateDanfePdf({ res, invoices }) {
+  return new Promise((resolve, reject) => {
+    try {
+      const doc = new PDFDocument({
+        size: 'A4',
+        layout: 'portrait',
+        margins: DEFAULT_MARGINS,
+        bufferPages: true,
+        info: {
+          Title: invoices.length === 1 ? `DANFE ${invoices[0].chave}` : `DANFE (${invoices.length} notas)`,
+        },
+      });
+
+      const fonts = registerFonts(doc);
+      doc.pipe(res);
+
+      invoices.forEach((danfe, index) => {
+        if (index > 0) doc.addPage();
+        drawInvoice(doc, danfe, fonts);
+      });
+
+      doc.on('end', resolve);
+      doc.on('error', reject);
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+module.exports = {
+  generateDanfePdf,
+};
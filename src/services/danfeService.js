@@ -0,0 +1,190 @@
+const { prisma } = require('../prisma');
+const { decompressXml } = require('./xmlDocumentService');
+const { parseDanfeExtras } = require('../utils/xmlInvoiceParser');
+const { INVOICE_MODELS } = require('../constants/invoiceModels');
+
+const DANFE_MAX_INVOICES = parseInt(process.env.DANFE_MAX_INVOICES || '200', 10);
+
+const DANFE_INVOICE_SELECT = {
+  id: true,
+  chave: true,
+  modelo: true,
+  numero: true,
+  type: true,
+  emissao: true,
+  entradaSaida: true,
+  issuerCnpj: true,
+  recipientCnpj: true,
+  recipientName: true,
+  recipientCity: true,
+  recipientState: true,
+  natOp: true,
+  totalNFe: true,
+  totalProd: true,
+  totalDesc: true,
+  totalFrete: true,
+  totalSeg: true,
+  totalOutro: true,
+  totalIPI: true,
+  totalST: true,
+  faturaNumero: true,
+  faturaValorOriginal: true,
+  faturaValorDesconto: true,
+  faturaValorLiquido: true,
+  freightMode: true,
+  carrierTaxId: true,
+  carrierName: true,
+  carrierUf: true,
+  volumeQty: true,
+  volumeSpecies: true,
+  netWeight: true,
+  grossWeight: true,
+  company: { select: { name: true, cnpj: true } },
+  xmlDocument: { select: { content: true } },
+  installments: {
+    orderBy: [{ dueDate: 'asc' }, { numero: 'asc' }],
+    select: { numero: true, dueDate: true, amount: true },
+  },
+  items: {
+    orderBy: { id: 'asc' },
+    select: {
+      productCode: true,
+      description: true,
+      ncm: true,
+      cst: true,
+      csosn: true,
+      cfopCode: true,
+      unit: true,
+      qty: true,
+      unitPrice: true,
+      gross: true,
+      vBC: true,
+      vICMS: true,
+      icmsValue: true,
+      vBCST: true,
+      ipiValue: true,
+      pICMS: true,
+      vTotTrib: true,
+    },
+  },
+};
+
+function toNumber(value) {
+  if (value == null || value === '') return 0;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function round2(value) {
+  return Math.round(value * 100) / 100;
+}
+
+function sumItems(items, pick) {
+  return round2(items.reduce((acc, item) => acc + toNumber(pick(item)), 0));
+}
+
+function readExtras(invoice) {
+  const xml = decompressXml(invoice.xmlDocument);
+  if (!xml) return null;
+  try {
+    return parseDanfeExtras(xml.toString('utf-8'));
+  } catch (error) {
+    // XML corrompido não impede a impressão com os dados persistidos
+    return null;
+  }
+}
+
+async function loadPartnerNames(companyId, taxIds) {
+  if (!taxIds.length) return new Map();
+  const partners = await prisma.partner.findMany({
+    where: { companyId, cnpjCpf: { in: taxIds } },
+    select: { cnpjCpf: true, name: true },
+  });
+  return new Map(partners.map((partner) => [partner.cnpjCpf, partner.name]));
+}
+
+function buildDanfe(invoice, extras, partnerNames) {
+  const { company, xmlDocument, items, ...rest } = invoice;
+  const issuerName = extras?.issuer?.name
+    ?? (invoice.issuerCnpj === company.cnpj ? company.name : partnerNames.get(invoice.issuerCnpj))
+    ?? null;
+  const recipientAddress = extras?.recipient?.address ?? null;
+
+  return {
+    ...rest,
+    items,
+    serie: extras?.serie ?? null,
+    // tpNF do XML prevalece; sem XML, nota de saída da empresa é 1 e entrada de terceiros é 0
+    tpNF: extras?.tpNF ?? (invoice.type === 'OUT' ? '1' : '0'),
+    isHomologation: extras?.tpAmb === '2',
+    issuer: {
+      cnpj: invoice.issuerCnpj,
+      name: issuerName,
+      tradeName: extras?.issuer?.tradeName ?? null,
+      stateRegistration: extras?.issuer?.stateRegistration ?? null,
+      stStateRegistration: extras?.issuer?.stStateRegistration ?? null,
+      address: extras?.issuer?.address ?? null,
+    },
+    recipient: {
+      cnpj: invoice.recipientCnpj,
+      name: invoice.recipientName ?? partnerNames.get(invoice.recipientCnpj) ?? null,
+      stateRegistration: extras?.recipient?.stateRegistration ?? null,
+      address: {
+        ...(recipientAddress ?? {}),
+        city: recipientAddress?.city ?? invoice.recipientCity,
+        uf: recipientAddress?.uf ?? invoice.recipientState,
+      },
+    },
+    protocol: extras?.protocol ?? null,
+    taxTotals: {
+      vBC: sumItems(items, (item) => item.vBC),
+      vICMS: sumItems(items, (item) => item.vICMS ?? item.icmsValue),
+      vBCST: sumItems(items, (item) => item.vBCST),
+      vST: invoice.totalST,
+      vProd: invoice.totalProd ?? sumItems(items, (item) => item.gross),
+      vFrete: invoice.totalFrete,
+      vSeg: invoice.totalSeg,
+      vDesc: invoice.totalDesc,
+      vOutro: invoice.totalOutro,
+      vIPI: invoice.totalIPI ?? sumItems(items, (item) => item.ipiValue),
+      vTotTrib: sumItems(items, (item) => item.vTotTrib),
+      vNF: invoice.totalNFe,
+    },
+    additionalInfo: extras?.additionalInfo ?? null,
+    fiscoInfo: extras?.fiscoInfo ?? null,
+  };
+}
+
+// Carrega as notas já no formato de impressão; where segue os filtros da listagem.
+// NFC-e tem leiaute próprio (DANFE NFC-e) e fica de fora
+async function loadDanfeInvoices(companyId, where) {
+  const invoices = await prisma.invoice.findMany({
+    where: { ...where, companyId, modelo: INVOICE_MODELS.NFE },
+    orderBy: [{ emissao: 'asc' }, { numero: 'asc' }],
+    take: DANFE_MAX_INVOICES + 1,
+    select: DANFE_INVOICE_SELECT,
+  });
+
+  if (invoices.length > DANFE_MAX_INVOICES) {
+    const error = new Error(`Limite de ${DANFE_MAX_INVOICES} notas por impressão excedido; refine os filtros`);
+    error.status = 400;
+    throw error;
+  }
+
+  const extrasById = new Map(invoices.map((invoice) => [invoice.id, readExtras(invoice)]));
+  const missingNames = new Set();
+  invoices.forEach((invoice) => {
+    if (!extrasById.get(invoice.id)?.issuer?.name && invoice.issuerCnpj !== invoice.company.cnpj) {
+      missingNames.add(invoice.issuerCnpj);
+    }
+    if (!invoice.recipientName) missingNames.add(invoice.recipientCnpj);
+  });
+  const partnerNames = await loadPartnerNames(companyId, Array.from(missingNames));
+
+  return invoices.map((invoice) => buildDanfe(invoice, extrasById.get(invoice.id), partnerNames));
+}
+
+module.exports = {
+  DANFE_MAX_INVOICES,
+  loadDanfeInvoices,
+};
@@ -0,0 +1,375 @@
+const fs = require('fs/promises');
+const path = require('path');
+const { prisma } = require('../prisma');
+const { UPLOAD_BATCH_STATUS, enqueueUploadJob } = require('./uploadJobService');
+const { expandUploadFiles } = require('./invoiceUploadService');
+const { INGESTION_RULE_ACTIONS } = require('./ingestionRuleService');
+
+const INBOX_ACTOR = 'inbox';
+// As pastas monitoradas só podem ficar dentro desta raiz; sem ela a importação automática fica desativada
+const INBOX_ROOT = process.env.INBOX_ROOT ? path.resolve(process.env.INBOX_ROOT) : null;
+const INBOX_SCAN_INTERVAL_MS = parseInt(process.env.INBOX_SCAN_INTERVAL_MS || '60000', 10);
+// Arquivo modificado há menos tempo que isso pode ainda estar sendo copiado pelo ERP
+const INBOX_MIN_FILE_AGE_MS = parseInt(process.env.INBOX_MIN_FILE_AGE_MS || '5000', 10);
+const INBOX_FOLDERS = Object.freeze({
+  PROCESSING: 'processing',
+  DONE: 'done',
+  FAILED: 'failed',
+});
+const ACCEPTED_EXTENSIONS = ['.xml', '.zip'];
+
+const MAX_XML_FILES = parseInt(process.env.MAX_XML_FILES || '10000', 10);
+const MAX_XML_FILE_SIZE_MB = parseInt(process.env.MAX_XML_FILE_SIZE_MB || '5', 10);
+// Teto de bytes lidos por varredura; o que passar dele fica na pasta para a próxima
+const INBOX_MAX_BATCH_MB = parseInt(process.env.INBOX_MAX_BATCH_MB || '200', 10);
+const INBOX_UPLOAD_FLAGS = {
+  multiCompanyAccessKey: String(process.env.MULTI_COMPANY_ACCESS_KEY ?? 'false').toLowerCase() === 'true',
+  enableDecisionLogs: String(process.env.UPLOAD_DECISION_LOGS ?? 'false').toLowerCase() === 'true',
+  updateExisting: true,
+};
+
+const status = {
+  lastScanAt: null,
+  lastError: null,
+  companies: [],
+};
+
+let scanTimer = null;
+let isScanning = false;
+
+function createBadRequest(message) {
+  const error = new Error(message);
+  error.status = 400;
+  return error;
+}
+
+function isInsideDirectory(parent, child) {
+  const relative = path.relative(parent, child);
+  return Boolean(relative) && relative.split(path.sep)[0] !== '..' && !path.isAbsolute(relative);
+}
+
+// Caminho real da raiz, para que links simbólicos não levem a pasta para fora dela
+async function resolveInboxRoot() {
+  if (!INBOX_ROOT) return null;
+  return fs.realpath(INBOX_ROOT).catch(() => INBOX_ROOT);
+}
+
+// Valida a pasta informada para a empresa e devolve o caminho real que será monitorado
+async function resolveInboxPath(companyId, rawPath) {
+  const root = await resolveInboxRoot();
+  if (!root) {
+    throw createBadRequest('Importação automática desativada: configure INBOX_ROOT no servidor');
+  }
+  if (!path.isAbsolute(rawPath)) {
+    throw createBadRequest('Informe o caminho absoluto da pasta de entrada');
+  }
+  const realPath = await fs.realpath(rawPath).catch(() => null);
+  const stats = realPath ? await fs.stat(realPath).catch(() => null) : null;
+  if (!stats || !stats.isDirectory()) {
+    throw createBadRequest('Pasta de entrada não encontrada no servidor');
+  }
+  if (!isInsideDirectory(root, realPath)) {
+    throw createBadRequest(`A pasta de entrada deve ficar dentro de ${root}`);
+  }
+
+  // Pastas aninhadas também conflitam: a varredura de uma moveria os arquivos da outra
+  const others = await prisma.company.findMany({
+    where: { inboxPath: { not: null }, NOT: { id: companyId } },
+    select: { name: true, inboxPath: true },
+  });
+  const conflict = others.find((other) => other.inboxPath === realPath
+    || isInsideDirectory(other.inboxPath, realPath)
+    || isInsideDirectory(realPath, other.inboxPath));
+  if (conflict) {
+    throw createBadRequest(`Pasta de entrada já usada pela empresa ${conflict.name}`);
+  }
+  return realPath;
+}
+
+function isAcceptedFile(name) {
+  const extension = path.extname(name).toLowerCase();
+  return ACCEPTED_EXTENSIONS.includes(extension);
+}
+
+async function listFiles(directory) {
+  try {
+    const entries = await fs.readdir(directory, { withFileTypes: true });
+    return entries.filter((entry) => entry.isFile() && isAcceptedFile(entry.name)).map((entry) => entry.name);
+  } catch (error) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+// Move sem sobrescrever: um arquivo de mesmo nome já movido ganha sufixo com timestamp
+async function moveFile(fromPath, targetDirectory) {
+  await fs.mkdir(targetDirectory, { recursive: true });
+  const name = path.basename(fromPath);
+  let targetPath = path.join(targetDirectory, name);
+  try {
+    await fs.access(targetPath);
+    const extension = path.extname(name);
+    targetPath = path.join(targetDirectory, `${path.basename(name, extension)}-${Date.now()}${extension}`);
+  } catch {
+    // nome livre
+  }
+  await fs.rename(fromPath, targetPath);
+  return path.basename(targetPath);
+}
+
+// Nota descartada de propósito por regra IGNORE conta como processada, não como erro
+function isUsableDetail(detail) {
+  return detail.status !== 'failed' || detail.rule?.action === INGESTION_RULE_ACTIONS.IGNORE;
+}
+
+// Arquivo vai para failed/ quando nenhum XML dele foi aproveitado
+function resolveFailedFiles(batch, fileNames) {
+  if (batch.status === UPLOAD_BATCH_STATUS.FAILED) {
+    return new Set(fileNames);
+  }
+  const usable = new Set();
+  (batch.summary?.details ?? []).forEach((detail) => {
+    if (!isUsableDetail(detail)) return;
+    usable.add(detail.source ? detail.source.split('/')[0] : detail.file);
+  });
+  return new Set(fileNames.filter((name) => !usable.has(name)));
+}
+
+async function settleFinishedBatches(company) {
+  const batches = await prisma.uploadBatch.findMany({
+    where: {
+      companyId: company.id,
+      actorId: INBOX_ACTOR,
+      status: { in: [UPLOAD_BATCH_STATUS.COMPLETED, UPLOAD_BATCH_STATUS.FAILED] },
+      options: { path: ['inbox', 'settled'], equals: false },
+    },
+    select: { id: true, status: true, summary: true, options: true },
+  });
+
+  for (const batch of batches) {
+    const { inbox } = batch.options;
+    const failed = resolveFailedFiles(batch, inbox.files);
+    const processingDirectory = path.join(inbox.directory, INBOX_FOLDERS.PROCESSING);
+    for (const name of inbox.files) {
+      const target = failed.has(name) ? INBOX_FOLDERS.FAILED : INBOX_FOLDERS.DONE;
+      try {
+        await moveFile(path.join(processingDirectory, name), path.join(inbox.directory, target));
+      } catch (error) {
+        if (error.code !== 'ENOENT') throw error;
+      }
+    }
+    await prisma.uploadBatch.update({
+      where: { id: batch.id },
+      data: { options: { ...batch.options, inbox: { ...inbox, settled: true } } },
+    });
+  }
+}
+
+async function releaseFiles(fromDirectory, names, targetDirectory) {
+  for (const name of names) {
+    try {
+      await moveFile(path.join(fromDirectory, name), targetDirectory);
+    } catch (error) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+  }
+}
+
+// Arquivos em processing/ que nenhum lote pendente reservou (queda entre a reserva e a criação do lote)
+// voltam para a raiz e entram de novo na varredura
+async function releaseOrphanClaims(company) {
+  const processingDirectory = path.join(company.inboxPath, INBOX_FOLDERS.PROCESSING);
+  const names = await listFiles(processingDirectory);
+  if (!names.length) return;
+
+  const batches = await prisma.uploadBatch.findMany({
+    where: {
+      companyId: company.id,
+      actorId: INBOX_ACTOR,
+      options: { path: ['inbox', 'settled'], equals: false },
+    },
+    select: { options: true },
+  });
+  const claimed = new Set(batches.flatMap((batch) => batch.options.inbox.files));
+  const orphans = names.filter((name) => !claimed.has(name));
+  if (!orphans.length) return;
+
+  await releaseFiles(processingDirectory, orphans, company.inboxPath);
+  console.warn('[inbox] arquivos sem lote devolvidos à pasta', { companyId: company.id, files: orphans.length });
+}
+
+// Lote da pasta desfeito antes de ser assentado: os arquivos vão para failed/ e não são reimportados
+async function settleRolledBackBatch(batch) {
+  const inbox = batch?.options?.inbox;
+  if (batch?.actorId !== INBOX_ACTOR || !inbox || inbox.settled) return;
+  await releaseFiles(
+    path.join(inbox.directory, INBOX_FOLDERS.PROCESSING),
+    inbox.files,
+    path.join(inbox.directory, INBOX_FOLDERS.FAILED),
+  );
+}
+
+async function claimNewFiles(company) {
+  const directory = company.inboxPath;
+  const now = Date.now();
+  const names = await listFiles(directory);
+  const ready = [];
+  for (const name of names) {
+    const stats = await fs.stat(path.join(directory, name));
+    if (now - stats.mtimeMs >= INBOX_MIN_FILE_AGE_MS) {
+      ready.push({ name, size: stats.size, mtimeMs: stats.mtimeMs });
+    }
+  }
+  if (!ready.length) return null;
+  ready.sort((a, b) => a.mtimeMs - b.mtimeMs || a.name.localeCompare(b.name));
+
+  // Lê antes de mover: uma falha de leitura não deixa arquivos presos em processing/.
+  // O lote respeita o limite de XMLs e de bytes; o primeiro arquivo entra sempre para a fila não travar
+  const maxBytes = INBOX_MAX_BATCH_MB * 1024 * 1024;
+  const readyFiles = [];
+  let claimedBytes = 0;
+  let claimedXmls = 0;
+  for (const file of ready) {
+    if (readyFiles.length && claimedBytes + file.size > maxBytes) break;
+    const buffer = await fs.readFile(path.join(directory, file.name));
+    const xmlCount = expandUploadFiles([{ name: file.name, buffer }]).xmlEntries.length;
+    if (readyFiles.length && claimedXmls + xmlCount > MAX_XML_FILES) break;
+    readyFiles.push({ name: file.name, buffer });
+    claimedBytes += buffer.length;
+    claimedXmls += xmlCount;
+  }
+  if (readyFiles.length < ready.length) {
+    console.info('[inbox] arquivos deixados para a próxima varredura', {
+      companyId: company.id,
+      files: ready.length - readyFiles.length,
+    });
+  }
+
+  // Em processing/ o arquivo não é pego de novo na próxima varredura
+  const processingDirectory = path.join(directory, INBOX_FOLDERS.PROCESSING);
+  const files = [];
+  try {
+    for (const file of readyFiles) {
+      const claimedName = await moveFile(path.join(directory, file.name), processingDirectory);
+      files.push({ name: claimedName, buffer: file.buffer });
+    }
+  } catch (error) {
+    await releaseFiles(processingDirectory, files.map((file) => file.name), directory);
+    throw error;
+  }
+
+  let batch;
+  try {
+    batch = await enqueueUploadJob({
+      companyId: company.id,
+      files,
+      actorId: INBOX_ACTOR,
+      limits: {
+        maxFiles: MAX_XML_FILES,
+        maxFileSize: MAX_XML_FILE_SIZE_MB * 1024 * 1024,
+      },
+      flags: INBOX_UPLOAD_FLAGS,
+      inbox: { directory, files: files.map((file) => file.name), settled: false },
+    });
+  } catch (error) {
+    await releaseFiles(processingDirectory, files.map((file) => file.name), path.join(directory, INBOX_FOLDERS.FAILED));
+    throw error;
+  }
+  console.info('[inbox] lote criado', { companyId: company.id, batchId: batch.id, files: files.length });
+  return batch.id;
+}
+
+async function scanCompanyInbox(company) {
+  const companyStatus = {
+    companyId: company.id,
+    companyName: company.name,
+    inboxPath: company.inboxPath,
+    pendingFiles: 0,
+    processingFiles: 0,
+    lastBatchId: null,
+    error: null,
+  };
+  try {
+    await settleFinishedBatches(company);
+    await releaseOrphanClaims(company);
+    companyStatus.lastBatchId = await claimNewFiles(company);
+    const [pending, processing] = await Promise.all([
+      listFiles(company.inboxPath),
+      listFiles(path.join(company.inboxPath, INBOX_FOLDERS.PROCESSING)),
+    ]);
+    companyStatus.pendingFiles = pending.length;
+    companyStatus.processingFiles = processing.length;
+  } catch (error) {
+    console.error('[inbox] falha ao varrer pasta', { companyId: company.id, error: error.message });
+    companyStatus.error = error.message;
+  }
+  return companyStatus;
+}
+
+async function scanInboxes() {
+  if (isScanning) return;
+  isScanning = true;
+  try {
+    const root = await resolveInboxRoot();
+    const companies = root
+      ? await prisma.company.findMany({
+        where: { inboxPath: { not: null } },
+        select: { id: true, name: true, inboxPath: true },
+        orderBy: { name: 'asc' },
+      })
+      : [];
+    const results = [];
+    // Pastas gravadas antes da raiz configurada (ou fora dela) não são varridas
+    for (const company of companies.filter((item) => isInsideDirectory(root, item.inboxPath))) {
+      results.push(await scanCompanyInbox(company));
+    }
+    status.companies = results;
+    status.lastError = null;
+  } catch (error) {
+    console.error('[inbox] falha na varredura', error);
+    status.lastError = error.message;
+  } finally {
+    status.lastScanAt = new Date();
+    isScanning = false;
+  }
+}
+
+function startInboxWatcher() {
+  if (scanTimer || INBOX_SCAN_INTERVAL_MS <= 0 || !INBOX_ROOT) return;
+  const tick = async () => {
+    await scanInboxes();
+    if (!scanTimer) return;
+    scanTimer = setTimeout(tick, INBOX_SCAN_INTERVAL_MS);
+  };
+  scanTimer = setTimeout(tick, 0);
+}
+
+function stopInboxWatcher() {
+  if (scanTimer) {
+    clearTimeout(scanTimer);
+    scanTimer = null;
+  }
+}
+
+function getInboxStatus() {
+  return {
+    enabled: Boolean(scanTimer),
+    root: INBOX_ROOT,
+    intervalMs: INBOX_SCAN_INTERVAL_MS,
+    lastScanAt: status.lastScanAt ? status.lastScanAt.toISOString() : null,
+    lastError: status.lastError,
+    pendingFiles: status.companies.reduce((acc, company) => acc + company.pendingFiles + company.processingFiles, 0),
+    companies: status.companies,
+  };
+}
+
+module.exports = {
+  INBOX_ACTOR,
+  INBOX_FOLDERS,
+  resolveInboxPath,
+  scanInboxes,
+  settleRolledBackBatch,
+  startInboxWatcher,
+  stopInboxWatcher,
+  getInboxStatus,
+};
@@ -0,0 +1,213 @@
+const { prisma } = require('../prisma');
+const { sanitizeNatOp } = require('../utils/naturezaOperacao');
+
+const INGESTION_RULE_ACTIONS = Object.freeze({
+  IGNORE: 'IGNORE',
+  FLAG: 'FLAG',
+  SET_NATUREZA: 'SET_NATUREZA',
+});
+
+const INGESTION_RULE_SELECT = {
+  id: true,
+  name: true,
+  isActive: true,
+  priority: true,
+  cfopCodes: true,
+  series: true,
+  modelos: true,
+  natOpContains: true,
+  issuerCnpj: true,
+  recipientCnpj: true,
+  action: true,
+  naturezaOperacaoId: true,
+  naturezaOperacao: {
+    select: { id: true, natOp: true, descricao: true, cfopCode: true, cfopType: true },
+  },
+  createdAt: true,
+  updatedAt: true,
+};
+
+function createBadRequest(message) {
+  const error = new Error(message);
+  error.status = 400;
+  return error;
+}
+
+// Comparação de natOp sem acento e sem diferenciar maiúsculas
+function foldText(value) {
+  const sanitized = sanitizeNatOp(value);
+  if (!sanitized) return '';
+  return sanitized
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLocaleUpperCase('pt-BR');
+}
+
+function parseCodeList(input, label, pattern) {
+  if (input == null || input === '') return [];
+  const values = Array.isArray(input) ? input : String(input).split(/[\s,;]+/);
+  const codes = [...new Set(values.map((value) => String(value).trim()).filter(Boolean))];
+  const invalid = codes.find((code) => !pattern.test(code));
+  if (invalid) {
+    throw createBadRequest(`Valor inválido para ${label}: ${invalid}`);
+  }
+  return codes;
+}
+
+function parseOptionalCnpj(input, label) {
+  if (input == null || input === '') return null;
+  const digits = String(input).replace(/\D/g, '');
+  if (digits.length !== 11 && digits.length !== 14) {
+    throw createBadRequest(`${label} deve ter 11 ou 14 dígitos`);
+  }
+  return digits;
+}
+
+// Valida o corpo da requisição; em atualização parcial só os campos enviados entram no resultado
+function normalizeIngestionRuleInput(body = {}, { partial = false } = {}) {
+  const has = (field) => Object.prototype.hasOwnProperty.call(body, field);
+  const data = {};
+
+  if (!partial || has('name')) {
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name) {
+      throw createBadRequest('Nome da regra é obrigatório');
+    }
+    data.name = name;
+  }
+  if (has('isActive')) {
+    data.isActive = Boolean(body.isActive);
+  }
+  if (has('priority')) {
+    const priority = Number.parseInt(body.priority, 10);
+    if (Number.isNaN(priority)) {
+      throw createBadRequest('Prioridade deve ser um número inteiro');
+    }
+    data.priority = priority;
+  }
+  if (!partial || has('cfopCodes')) {
+    data.cfopCodes = parseCodeList(body.cfopCodes, 'CFOP', /^\d{4}$/);
+  }
+  if (!partial || has('series')) {
+    data.series = parseCodeList(body.series, 'série', /^\d{1,3}$/).map((serie) => String(Number(serie)));
+  }
+  if (!partial || has('modelos')) {
+    data.modelos = parseCodeList(body.modelos, 'modelo', /^(55|65)$/);
+  }
+  if (!partial || has('natOpContains')) {
+    data.natOpContains = sanitizeNatOp(body.natOpContains);
+  }
+  if (!partial || has('issuerCnpj')) {
+    data.issuerCnpj = parseOptionalCnpj(body.issuerCnpj, 'CNPJ do emitente');
+  }
+  if (!partial || has('recipientCnpj')) {
+    data.recipientCnpj = parseOptionalCnpj(body.recipientCnpj, 'CNPJ do destinatário');
+  }
+  if (!partial || has('action')) {
+    const action = typeof body.action === 'string' ? body.action.toUpperCase() : '';
+    if (!Object.values(INGESTION_RULE_ACTIONS).includes(action)) {
+      throw createBadRequest('Ação deve ser IGNORE, FLAG ou SET_NATUREZA');
+    }
+    data.action = action;
+  }
+  if (!partial || has('naturezaOperacaoId')) {
+    data.naturezaOperacaoId = typeof body.naturezaOperacaoId === 'string' && body.naturezaOperacaoId.trim()
+      ? body.naturezaOperacaoId.trim()
+      : null;
+  }
+  return data;
+}
+
+function hasAnyCondition(rule) {
+  return Boolean(
+    rule.cfopCodes.length
+      || rule.series.length
+      || rule.modelos.length
+      || rule.natOpContains
+      || rule.issuerCnpj
+      || rule.recipientCnpj,
+  );
+}
+
+// Checagens que dependem da regra completa (após mesclar com a existente)
+function assertIngestionRuleConsistent(rule) {
+  if (!hasAnyCondition(rule)) {
+    throw createBadRequest('Informe ao menos uma condição (CFOP, série, modelo, natureza ou CNPJ)');
+  }
+  if (rule.action === INGESTION_RULE_ACTIONS.SET_NATUREZA && !rule.naturezaOperacaoId) {
+    throw createBadRequest('Selecione a natureza de operação a aplicar');
+  }
+}
+
+function serializeIngestionRule(rule) {
+  return {
+    id: rule.id,
+    name: rule.name,
+    isActive: rule.isActive,
+    priority: rule.priority,
+    cfopCodes: rule.cfopCodes,
+    series: rule.series,
+    modelos: rule.modelos,
+    natOpContains: rule.natOpContains,
+    issuerCnpj: rule.issuerCnpj,
+    recipientCnpj: rule.recipientCnpj,
+    action: rule.action,
+    naturezaOperacao: rule.naturezaOperacao ?? null,
+    createdAt: rule.createdAt.toISOString(),
+    updatedAt: rule.updatedAt.toISOString(),
+  };
+}
+
+async function loadIngestionRules(companyId, { client = prisma } = {}) {
+  const rules = await client.ingestionRule.findMany({
+    where: { companyId, isActive: true },
+    orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+    select: INGESTION_RULE_SELECT,
+  });
+  // SET_NATUREZA cuja natureza foi removida não tem o que aplicar
+  return rules.filter((rule) => rule.action !== INGESTION_RULE_ACTIONS.SET_NATUREZA || rule.naturezaOperacao);
+}
+
+function ruleMatches(rule, invoiceData) {
+  if (!hasAnyCondition(rule)) return false;
+  if (rule.cfopCodes.length && !(invoiceData.items ?? []).some((item) => rule.cfopCodes.includes(item.cfopCode))) {
+    return false;
+  }
+  if (rule.series.length) {
+    const serie = invoiceData.serie != null ? String(Number(invoiceData.serie)) : null;
+    if (!serie || !rule.series.includes(serie)) return false;
+  }
+  if (rule.modelos.length && !rule.modelos.includes(invoiceData.modelo)) {
+    return false;
+  }
+  if (rule.natOpContains && !foldText(invoiceData.natOp).includes(foldText(rule.natOpContains))) {
+    return false;
+  }
+  if (rule.issuerCnpj && rule.issuerCnpj !== invoiceData.issuerCnpj) {
+    return false;
+  }
+  if (rule.recipientCnpj && rule.recipientCnpj !== invoiceData.recipientCnpj) {
+    return false;
+  }
+  return true;
+}
+
+// Primeira regra (menor prioridade) cujas condições batem com a nota
+function matchIngestionRule(rules, invoiceData) {
+  return rules.find((rule) => ruleMatches(rule, invoiceData)) ?? null;
+}
+
+function describeIngestionRule(rule) {
+  return { id: rule.id, name: rule.name, action: rule.action };
+}
+
+module.exports = {
+  INGESTION_RULE_ACTIONS,
+  INGESTION_RULE_SELECT,
+  normalizeIngestionRuleInput,
+  assertIngestionRuleConsistent,
+  serializeIngestionRule,
+  loadIngestionRules,
+  matchIngestionRule,
+  describeIngestionRule,
+};
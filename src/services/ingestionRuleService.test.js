@@ -0,0 +1,80 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+// Os testes não abrem conexão: o client do Prisma é trocado antes de carregar o serviço
+require.cache[require.resolve('../prisma')] = { exports: { prisma: {} } };
+const { INGESTION_RULE_ACTIONS, matchIngestionRule } = require('./ingestionRuleService');
+
+function rule(id, conditions = {}) {
+  return {
+    id,
+    cfopCodes: [],
+    series: [],
+    modelos: [],
+    natOpContains: null,
+    issuerCnpj: null,
+    recipientCnpj: null,
+    action: INGESTION_RULE_ACTIONS.FLAG,
+    ...conditions,
+  };
+}
+
+const invoiceData = {
+  modelo: '55',
+  serie: '891',
+  natOp: 'Remessa para conserto',
+  issuerCnpj: '11222333000181',
+  recipientCnpj: '30404512000184',
+  items: [{ cfopCode: '5102' }, { cfopCode: '5949' }],
+};
+
+const match = (rules, data = invoiceData) => matchIngestionRule(rules, data)?.id ?? null;
+
+test('casa quando todas as condições da regra batem', () => {
+  assert.equal(match([rule('r1', {
+    cfopCodes: ['5949'],
+    series: ['891'],
+    modelos: ['55'],
+    natOpContains: 'conserto',
+    issuerCnpj: '11222333000181',
+    recipientCnpj: '30404512000184',
+  })]), 'r1');
+});
+
+test('não casa se qualquer condição falhar', () => {
+  assert.equal(match([rule('cfop', { cfopCodes: ['6949'] })]), null);
+  assert.equal(match([rule('serie', { series: ['1'] })]), null);
+  assert.equal(match([rule('modelo', { modelos: ['65'] })]), null);
+  assert.equal(match([rule('natOp', { natOpContains: 'venda' })]), null);
+  assert.equal(match([rule('emitente', { issuerCnpj: '30404512000184' })]), null);
+  assert.equal(match([rule('destinatario', { cfopCodes: ['5949'], recipientCnpj: '11222333000181' })]), null);
+});
+
+test('regra sem condições nunca casa', () => {
+  assert.equal(match([rule('vazia')]), null);
+});
+
+test('compara a série sem zeros à esquerda', () => {
+  assert.equal(match([rule('r1', { series: ['891'] })], { ...invoiceData, serie: '0891' }), 'r1');
+  assert.equal(match([rule('r1', { series: ['1'] })], { ...invoiceData, serie: '001' }), 'r1');
+  assert.equal(match([rule('r1', { series: ['891'] })], { ...invoiceData, serie: null }), null);
+});
+
+test('compara a natureza sem acento e sem diferenciar maiúsculas', () => {
+  const data = { ...invoiceData, natOp: 'REMESSA P/ DEMONSTRAÇÃO' };
+  assert.equal(match([rule('r1', { natOpContains: 'demonstracao' })], data), 'r1');
+  assert.equal(match([rule('r1', { natOpContains: 'Demonstração' })], data), 'r1');
+});
+
+test('devolve a primeira regra que casa, na ordem recebida', () => {
+  const rules = [
+    rule('modelo65', { modelos: ['65'] }),
+    rule('cfop', { cfopCodes: ['5102'] }),
+    rule('serie', { series: ['891'] }),
+  ];
+  assert.equal(match(rules), 'cfop');
+});
+
+test('nota sem itens não casa regra por CFOP', () => {
+  assert.equal(match([rule('r1', { cfopCodes: ['5949'] })], { ...invoiceData, items: undefined }), null);
+});
@@ -0,0 +1,97 @@
+const { prisma } = require('../prisma');
+const { INVOICE_EVENT_TYPES, resolveInvoiceEventLabel } = require('../constants/invoiceEvents');
+
+function toIso(value) {
+  return value ? value.toISOString() : null;
+}
+
+function formatInvoiceEvent(event) {
+  return {
+    id: event.id,
+    eventType: event.eventType,
+    label: resolveInvoiceEventLabel(event.eventType, event.description),
+    eventSequence: event.eventSequence,
+    description: event.description,
+    statusCode: event.statusCode,
+    statusMessage: event.statusMessage,
+    protocolNumber: event.protocolNumber,
+    eventTimestamp: toIso(event.eventTimestamp),
+    receivedAt: toIso(event.receivedAt),
+    authorTaxId: event.authorTaxId,
+    correctionText: event.correctionText,
+    justification: event.justification,
+    payload: event.payload ?? null,
+    sourceFileName: event.sourceFileName,
+    hasXml: Boolean(event.xmlDocumentId),
+  };
+}
+
+function compareEvents(a, b) {
+  const left = a.eventTimestamp ?? '';
+  const right = b.eventTimestamp ?? '';
+  if (left !== right) return left < right ? -1 : 1;
+  return a.eventSequence - b.eventSequence;
+}
+
+// Linha do tempo da nota: eventos genéricos mais o cancelamento, que tem tabela própria
+async function listInvoiceEvents(companyId, chave) {
+  const [events, cancellation] = await Promise.all([
+    prisma.invoiceEvent.findMany({ where: { companyId, chave } }),
+    prisma.invoiceCancellation.findUnique({
+      where: { companyId_chave: { companyId, chave } },
+    }),
+  ]);
+
+  const timeline = events.map(formatInvoiceEvent);
+  if (cancellation) {
+    timeline.push(formatInvoiceEvent({
+      ...cancellation,
+      eventType: cancellation.eventType ?? INVOICE_EVENT_TYPES.CANCELAMENTO,
+      eventSequence: cancellation.eventSequence ?? 1,
+      description: null,
+      authorTaxId: null,
+      correctionText: null,
+      payload: null,
+    }));
+  }
+  return timeline.sort(compareEvents);
+}
+
+// Cada CC-e substitui a anterior: vale a de maior nSeqEvento por chave
+async function findLatestCorrections(companyId, chaves) {
+  const result = new Map();
+  if (!chaves.length) return result;
+
+  const corrections = await prisma.invoiceEvent.findMany({
+    where: {
+      companyId,
+      chave: { in: chaves },
+      eventType: INVOICE_EVENT_TYPES.CARTA_CORRECAO,
+    },
+    orderBy: { eventSequence: 'desc' },
+    select: {
+      chave: true,
+      eventSequence: true,
+      eventTimestamp: true,
+      protocolNumber: true,
+      correctionText: true,
+    },
+  });
+
+  corrections.forEach((correction) => {
+    if (result.has(correction.chave)) return;
+    result.set(correction.chave, {
+      sequence: correction.eventSequence,
+      eventTimestamp: toIso(correction.eventTimestamp),
+      protocolNumber: correction.protocolNumber,
+      text: correction.correctionText,
+    });
+  });
+
+  return result;
+}
+
+module.exports = {
+  listInvoiceEvents,
+  findLatestCorrections,
+};
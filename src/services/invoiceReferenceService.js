@@ -0,0 +1,116 @@
+const { prisma } = require('../prisma');
+const { INVOICE_PURPOSES } = require('../constants/invoiceModels');
+
+const CHAIN_INVOICE_SELECT = Object.freeze({
+  id: true,
+  chave: true,
+  numero: true,
+  emissao: true,
+  type: true,
+  finalidade: true,
+  natOp: true,
+  totalNFe: true,
+  references: { select: { refChave: true, refKind: true, referencedInvoiceId: true } },
+  referencedBy: { select: { invoiceId: true } },
+});
+
+const MAX_CHAIN_SIZE = 200;
+
+// Sem finNFe (notas antigas) tratamos como devolução a referência a nota de sentido oposto
+function isReturnOf(invoice, original) {
+  if (!original) return false;
+  if (invoice.finalidade === INVOICE_PURPOSES.DEVOLUCAO) return true;
+  if (invoice.finalidade && invoice.finalidade !== INVOICE_PURPOSES.DEVOLUCAO) return false;
+  return invoice.type !== original.type;
+}
+
+function resolveChainRole(invoice, hasReferences) {
+  switch (invoice.finalidade) {
+    case INVOICE_PURPOSES.DEVOLUCAO:
+      return 'RETURN';
+    case INVOICE_PURPOSES.COMPLEMENTAR:
+      return 'COMPLEMENT';
+    case INVOICE_PURPOSES.AJUSTE:
+      return 'ADJUSTMENT';
+    default:
+      return hasReferences ? 'RELATED' : 'ORIGINAL';
+  }
+}
+
+async function findReturnOrigins(companyId, invoiceIds) {
+  const origins = new Map();
+  if (!invoiceIds.length) return origins;
+
+  const references = await prisma.invoiceReference.findMany({
+    where: {
+      invoiceId: { in: invoiceIds },
+      invoice: { companyId },
+      referencedInvoiceId: { not: null },
+    },
+    select: {
+      invoice: { select: { id: true, type: true, finalidade: true } },
+      referencedInvoice: {
+        select: { id: true, numero: true, type: true, naturezaOperacaoId: true, natOp: true },
+      },
+    },
+  });
+
+  references.forEach(({ invoice, referencedInvoice }) => {
+    if (origins.has(invoice.id)) return;
+    if (isReturnOf(invoice, referencedInvoice)) {
+      origins.set(invoice.id, referencedInvoice);
+    }
+  });
+
+  return origins;
+}
+
+async function buildDocumentChain(companyId, invoiceId) {
+  const root = await prisma.invoice.findFirst({
+    where: { id: invoiceId, companyId },
+    select: CHAIN_INVOICE_SELECT,
+  });
+  if (!root) return null;
+
+  const nodes = new Map([[root.id, root]]);
+  const queue = [root];
+  while (queue.length && nodes.size < MAX_CHAIN_SIZE) {
+    const current = queue.shift();
+    const neighbourIds = [
+      ...current.references.map((ref) => ref.referencedInvoiceId).filter(Boolean),
+      ...current.referencedBy.map((ref) => ref.invoiceId),
+    ].filter((id) => !nodes.has(id));
+    if (!neighbourIds.length) continue;
+
+    const neighbours = await prisma.invoice.findMany({
+      where: { id: { in: neighbourIds }, companyId },
+      select: CHAIN_INVOICE_SELECT,
+    });
+    neighbours.forEach((invoice) => {
+      if (nodes.has(invoice.id)) return;
+      nodes.set(invoice.id, invoice);
+      queue.push(invoice);
+    });
+  }
+
+  const invoices = Array.from(nodes.values())
+    .sort((a, b) => a.emissao - b.emissao)
+    .map((invoice) => ({ ...invoice, role: resolveChainRole(invoice, invoice.references.length > 0) }));
+  const links = invoices.flatMap((invoice) =>
+    invoice.references.map((ref) => ({
+      fromInvoiceId: invoice.id,
+      toInvoiceId: ref.referencedInvoiceId,
+      refChave: ref.refChave,
+      refKind: ref.refKind,
+    })),
+  );
+
+  return { rootId: root.id, invoices, links };
+}
+
+module.exports = {
+  isReturnOf,
+  resolveChainRole,
+  findReturnOrigins,
+  buildDocumentChain,
+};
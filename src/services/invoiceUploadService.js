@@ -9,12 +9,30 @@ const {
   determinePrimaryCfop,
 } = require('../utils/naturezaOperacao');
 const { ensureNaturezaOperacao } = require('./naturezaOperacaoRegistry');
+const {
+  INGESTION_RULE_ACTIONS,
+  loadIngestionRules,
+  matchIngestionRule,
+  describeIngestionRule,
+} = require('./ingestionRuleService');
+const { storeXmlDocument, XML_DOCUMENT_KINDS } = require('./xmlDocumentService');
+const {
+  SNAPSHOT_ENTITIES,
+  SNAPSHOT_ACTIONS,
+  captureSnapshot,
+  captureInvoiceSnapshot,
+} = require('./uploadRollbackService');
+const { INVOICE_MODELS, ANONYMOUS_CONSUMER } = require('../constants/invoiceModels');
+const { resolveInvoiceEventLabel } = require('../constants/invoiceEvents');
+const { CTE_EVENT_TYPES, resolveCteEventLabel } = require('../constants/cteEvents');
+const { reconcileInvoiceTotals } = require('../utils/invoiceTotals');
 
 const DEFAULT_REASON_GENERIC = 'falha ao processar arquivo';
 const REASON_LAYOUT_UNSUPPORTED = 'layout não suportado';
 const REASON_XML_MALFORMED = 'XML malformado';
 const REASON_MISSING_INF = 'faltando infNFe/Id';
-const REASON_NFSE = 'NFS-e';
+const REASON_MISSING_INF_NFSE = 'faltando InfNfse';
+const REASON_NO_ROUTING_TARGET = 'nenhuma empresa cadastrada com o CNPJ do emitente, destinatário ou tomador';
 
 function sanitizeEntryName(entryName) {
   const normalized = path.posix.normalize(entryName);
@@ -24,6 +42,76 @@ function sanitizeEntryName(entryName) {
   return normalized;
 }
 
+const MAX_ZIP_DEPTH = parseInt(process.env.MAX_ZIP_DEPTH || '3', 10);
+
+// Expande os arquivos enviados (XML soltos e zips, inclusive zips dentro de zips) numa lista única de XMLs.
+// A leitura de cada XML fica adiada para o laço de processamento
+function expandUploadFiles(files, { maxDepth = MAX_ZIP_DEPTH } = {}) {
+  const xmlEntries = [];
+  const failures = [];
+
+  const visitZip = (buffer, source, depth) => {
+    let zip;
+    try {
+      zip = new AdmZip(buffer);
+    } catch (error) {
+      failures.push({
+        file: path.posix.basename(source),
+        source: depth > 1 ? path.posix.dirname(source) : null,
+        reason: 'não foi possível ler o arquivo zip',
+      });
+      return;
+    }
+
+    zip.getEntries().forEach((entry) => {
+      if (entry.isDirectory) return;
+      const sanitizedName = sanitizeEntryName(entry.entryName);
+      if (!sanitizedName) {
+        failures.push({ file: entry.entryName, source, reason: 'caminho inválido no zip' });
+        return;
+      }
+
+      const lowerName = sanitizedName.toLowerCase();
+      if (lowerName.endsWith('.zip')) {
+        if (depth >= maxDepth) {
+          failures.push({ file: path.posix.basename(sanitizedName), source, reason: `zip aninhado além de ${maxDepth} níveis` });
+          return;
+        }
+        let nested;
+        try {
+          nested = entry.getData();
+        } catch (error) {
+          failures.push({ file: path.posix.basename(sanitizedName), source, reason: DEFAULT_REASON_GENERIC });
+          return;
+        }
+        visitZip(nested, `${source}/${sanitizedName}`, depth + 1);
+        return;
+      }
+
+      if (!lowerName.endsWith('.xml')) return;
+      xmlEntries.push({
+        displayName: path.posix.basename(sanitizedName),
+        source,
+        getData: () => entry.getData(),
+      });
+    });
+  };
+
+  files.forEach((file) => {
+    const name = file.name || 'arquivo';
+    const extension = path.extname(name).toLowerCase();
+    if (extension === '.zip') {
+      visitZip(file.buffer, name, 1);
+    } else if (extension === '.xml') {
+      xmlEntries.push({ displayName: path.basename(name), source: null, getData: () => file.buffer });
+    } else {
+      failures.push({ file: name, source: null, reason: 'tipo de arquivo não suportado (use .xml ou .zip)' });
+    }
+  });
+
+  return { xmlEntries, failures };
+}
+
 const MULTI_COMPANY_ACCESS_KEY_ENABLED =
   String(process.env.MULTI_COMPANY_ACCESS_KEY ?? 'false').toLowerCase() === 'true';
 const DECISION_LOGS_ENABLED =
@@ -53,8 +141,22 @@ async function ensureCfops(codes) {
   )));
 }
 
+// Upsert pela chave única (empresa, documento): lotes paralelos não duplicam o parceiro
+function ensureAnonymousConsumerPartner(companyId) {
+  return prisma.partner.upsert({
+    where: { companyId_cnpjCpf: { companyId, cnpjCpf: ANONYMOUS_CONSUMER.taxId } },
+    update: {},
+    create: {
+      companyId,
+      cnpjCpf: ANONYMOUS_CONSUMER.taxId,
+      name: ANONYMOUS_CONSUMER.name,
+    },
+    select: { id: true },
+  });
+}
+
 async function persistCancellation(companyId, cancellationData, options = {}) {
-  const { uploadBatchId = null, sourceFileName = null } = options;
+  const { uploadBatchId = null, sourceFileName = null, xmlDocumentId = null } = options;
   if (!cancellationData || !cancellationData.chave) {
     return null;
   }
@@ -73,9 +175,35 @@ async function persistCancellation(companyId, cancellationData, options = {}) {
     justification: cancellationData.justification ?? null,
     uploadBatchId: uploadBatchValue,
     sourceFileName: sourceName,
+    ...(xmlDocumentId ? { xmlDocumentId } : {}),
   };
 
   return prisma.$transaction(async (tx) => {
+    // Guarda o cancelamento sobrescrito e a nota apagada para o lote poder ser desfeito
+    const previous = await tx.invoiceCancellation.findUnique({
+      where: { companyId_chave: { companyId, chave: cancellationData.chave } },
+    });
+    if (previous && previous.uploadBatchId !== uploadBatchValue) {
+      await captureSnapshot(tx, {
+        uploadBatchId: uploadBatchValue,
+        entity: SNAPSHOT_ENTITIES.INVOICE_CANCELLATION,
+        action: SNAPSHOT_ACTIONS.UPDATED,
+        entityId: previous.id,
+        data: previous,
+      });
+    }
+    const cancelledInvoice = await tx.invoice.findFirst({
+      where: { companyId, chave: cancellationData.chave },
+      select: { id: true },
+    });
+    if (cancelledInvoice) {
+      await captureInvoiceSnapshot(tx, {
+        uploadBatchId: uploadBatchValue,
+        invoiceId: cancelledInvoice.id,
+        action: SNAPSHOT_ACTIONS.DELETED,
+      });
+    }
+
     const record = await tx.invoiceCancellation.upsert({
       where: { companyId_chave: { companyId, chave: cancellationData.chave } },
       update: payload,
@@ -99,24 +227,353 @@ async function persistCancellation(companyId, cancellationData, options = {}) {
   });
 }
 
+// Faixa já registrada (mesmo emitente, modelo, série e números) é tratada como duplicada
+async function persistNumberVoiding(companyId, voidingData, options = {}) {
+  const { uploadBatchId = null, sourceFileName = null, xmlDocumentId = null } = options;
+  const where = {
+    companyId,
+    issuerCnpj: voidingData.issuerCnpj,
+    modelo: voidingData.modelo,
+    serie: voidingData.serie,
+    startNumber: voidingData.startNumber,
+    endNumber: voidingData.endNumber,
+  };
+
+  const existing = await prisma.invoiceNumberVoiding.findFirst({ where, select: { id: true } });
+  if (existing) {
+    return { status: 'duplicate', reason: 'inutilização já registrada' };
+  }
+
+  await prisma.invoiceNumberVoiding.create({
+    data: {
+      ...where,
+      cUF: voidingData.cUF ?? null,
+      ano: voidingData.ano ?? null,
+      justification: voidingData.justification ?? null,
+      statusCode: voidingData.statusCode ?? null,
+      statusMessage: voidingData.statusMessage ?? null,
+      protocolNumber: voidingData.protocolNumber ?? null,
+      receivedAt: voidingData.receivedAt ?? null,
+      uploadBatchId,
+      sourceFileName,
+      xmlDocumentId,
+    },
+  });
+  return { status: 'inserted' };
+}
+
+function describeNumberVoiding(voidingData) {
+  const range = voidingData.startNumber === voidingData.endNumber
+    ? `número ${voidingData.startNumber}`
+    : `números ${voidingData.startNumber} a ${voidingData.endNumber}`;
+  return `inutilização da série ${voidingData.serie}, ${range}`;
+}
+
+async function persistInvoiceEvent(companyId, eventData, options = {}) {
+  const { uploadBatchId = null, sourceFileName = null, xmlDocumentId = null } = options;
+  const where = {
+    companyId_chave_eventType_eventSequence: {
+      companyId,
+      chave: eventData.chave,
+      eventType: eventData.eventType,
+      eventSequence: eventData.eventSequence ?? 1,
+    },
+  };
+
+  const existing = await prisma.invoiceEvent.findUnique({ where, select: { id: true } });
+  if (existing) {
+    return { status: 'duplicate', reason: 'evento já registrado' };
+  }
+
+  await prisma.invoiceEvent.create({
+    data: {
+      companyId,
+      chave: eventData.chave,
+      eventType: eventData.eventType,
+      eventSequence: eventData.eventSequence ?? 1,
+      description: eventData.description ?? null,
+      statusCode: eventData.statusCode ?? null,
+      statusMessage: eventData.statusMessage ?? null,
+      protocolNumber: eventData.protocolNumber ?? null,
+      eventTimestamp: eventData.eventTimestamp ?? null,
+      receivedAt: eventData.receivedAt ?? null,
+      authorTaxId: eventData.authorTaxId ?? null,
+      correctionText: eventData.correctionText ?? null,
+      justification: eventData.justification ?? null,
+      payload: eventData.payload ?? Prisma.JsonNull,
+      uploadBatchId,
+      sourceFileName,
+      xmlDocumentId,
+    },
+  });
+  return { status: 'inserted' };
+}
+
+// Cancelamento marca o Cte já importado; se o CT-e vier depois, persistCte consulta o evento
+async function persistCteEvent(companyId, eventData, options = {}) {
+  const { uploadBatchId = null, sourceFileName = null, xmlDocumentId = null } = options;
+  const eventSequence = eventData.eventSequence ?? 1;
+
+  return prisma.$transaction(async (tx) => {
+    const existing = await tx.cteEvent.findUnique({
+      where: {
+        companyId_chave_eventType_eventSequence: {
+          companyId,
+          chave: eventData.chave,
+          eventType: eventData.eventType,
+          eventSequence,
+        },
+      },
+      select: { id: true },
+    });
+
+    if (!existing) {
+      await tx.cteEvent.create({
+        data: {
+          companyId,
+          chave: eventData.chave,
+          eventType: eventData.eventType,
+          eventSequence,
+          description: eventData.description ?? null,
+          statusCode: eventData.statusCode ?? null,
+          statusMessage: eventData.statusMessage ?? null,
+          protocolNumber: eventData.protocolNumber ?? null,
+          eventTimestamp: eventData.eventTimestamp ?? null,
+          receivedAt: eventData.receivedAt ?? null,
+          authorTaxId: eventData.authorTaxId ?? null,
+          correctionText: eventData.correctionText ?? null,
+          justification: eventData.justification ?? null,
+          payload: eventData.payload ?? Prisma.JsonNull,
+          uploadBatchId,
+          sourceFileName,
+          xmlDocumentId,
+        },
+      });
+    }
+
+    let cancelledCount = 0;
+    if (eventData.isCancellation) {
+      const updated = await tx.cte.updateMany({
+        where: { companyId, chave: eventData.chave, isCancelled: false },
+        data: { isCancelled: true },
+      });
+      cancelledCount = updated.count;
+    }
+
+    return existing
+      ? { status: 'duplicate', reason: 'evento já registrado', cancelledCount }
+      : { status: 'inserted', cancelledCount };
+  });
+}
+
+function decimalOrNull(value) {
+  return value != null ? new Prisma.Decimal(value) : null;
+}
+
+function buildInstallmentRows(installments = []) {
+  return installments.map((installment) => ({
+    numero: installment.numero ?? null,
+    dueDate: installment.dueDate ?? null,
+    amount: new Prisma.Decimal(installment.amount),
+  }));
+}
+
+function buildPaymentRows(payments = []) {
+  return payments.map((payment) => ({
+    indPag: payment.indPag ?? null,
+    tPag: payment.tPag,
+    description: payment.description ?? null,
+    amount: new Prisma.Decimal(payment.amount),
+    paidAt: payment.paidAt ?? null,
+    cardIntegration: payment.cardIntegration ?? null,
+    cardAcquirerCnpj: payment.cardAcquirerCnpj ?? null,
+    cardBrand: payment.cardBrand ?? null,
+    cardAuthorization: payment.cardAuthorization ?? null,
+  }));
+}
+
+function buildFaturaFields(invoiceData) {
+  const fatura = invoiceData.fatura || {};
+  return {
+    faturaNumero: fatura.numero ?? null,
+    faturaValorOriginal: fatura.valorOriginal != null ? new Prisma.Decimal(fatura.valorOriginal) : null,
+    faturaValorDesconto: fatura.valorDesconto != null ? new Prisma.Decimal(fatura.valorDesconto) : null,
+    faturaValorLiquido: fatura.valorLiquido != null ? new Prisma.Decimal(fatura.valorLiquido) : null,
+    changeValue: invoiceData.changeValue != null ? new Prisma.Decimal(invoiceData.changeValue) : null,
+  };
+}
+
+function buildTotalsFields(invoiceData) {
+  const totals = invoiceData.totals || {};
+  const mismatches = invoiceData.totalsMismatches ?? [];
+  return {
+    totalProd: decimalOrNull(totals.vProd),
+    totalDesc: decimalOrNull(totals.vDesc),
+    totalFrete: decimalOrNull(totals.vFrete),
+    totalSeg: decimalOrNull(totals.vSeg),
+    totalOutro: decimalOrNull(totals.vOutro),
+    totalIPI: decimalOrNull(totals.vIPI),
+    totalST: decimalOrNull(totals.vST),
+    totalFCP: decimalOrNull(totals.vFCP),
+    totalPIS: decimalOrNull(totals.vPIS),
+    totalCOFINS: decimalOrNull(totals.vCOFINS),
+    totalsMismatch: mismatches.length > 0,
+    totalsMismatches: mismatches.length ? mismatches : Prisma.DbNull,
+  };
+}
+
+const ICMS_DETAIL_FIELDS = Object.freeze([
+  'pICMS',
+  'pRedBC',
+  'pMVAST',
+  'vFCP',
+  'vFCPST',
+  'vICMSSTRet',
+  'vBCUFDest',
+  'pFCPUFDest',
+  'pICMSUFDest',
+  'pICMSInter',
+  'vFCPUFDest',
+  'vICMSUFDest',
+  'vICMSUFRemet',
+]);
+
+function buildIcmsDetailFields(item) {
+  return Object.fromEntries(ICMS_DETAIL_FIELDS.map((field) => [field, decimalOrNull(item[field])]));
+}
+
+const IBS_CBS_DECIMAL_FIELDS = Object.freeze([
+  'vBCIBSCBS',
+  'pIBSUF',
+  'vIBSUF',
+  'pIBSMun',
+  'vIBSMun',
+  'vIBS',
+  'pCBS',
+  'vCBS',
+  'vBCIS',
+  'pIS',
+  'vIS',
+]);
+
+function buildIbsCbsFields(item) {
+  return {
+    cstIBSCBS: item.cstIBSCBS ?? null,
+    cClassTrib: item.cClassTrib ?? null,
+    cstIS: item.cstIS ?? null,
+    cClassTribIS: item.cClassTribIS ?? null,
+    ...Object.fromEntries(IBS_CBS_DECIMAL_FIELDS.map((field) => [field, decimalOrNull(item[field])])),
+  };
+}
+
+const TAX_DETAIL_DECIMAL_FIELDS = Object.freeze(['vBCPIS', 'pPIS', 'vBCCOFINS', 'pCOFINS', 'vBCIPI', 'pIPI']);
+
+// CST, base e alíquota de PIS, COFINS e IPI do item, usados na escrituração do SPED
+function buildTaxDetailFields(item) {
+  return {
+    cstPIS: item.cstPIS ?? null,
+    cstCOFINS: item.cstCOFINS ?? null,
+    cstIPI: item.cstIPI ?? null,
+    cEnqIPI: item.cEnqIPI ?? null,
+    ...Object.fromEntries(TAX_DETAIL_DECIMAL_FIELDS.map((field) => [field, decimalOrNull(item[field])])),
+  };
+}
+
+function buildIntegrityFields(documentData) {
+  const integrity = documentData.integrity ?? null;
+  return {
+    signatureStatus: integrity?.signatureStatus ?? null,
+    integrityIssues: integrity?.issues?.length ? integrity.issues : Prisma.DbNull,
+  };
+}
+
+function buildTransportFields(invoiceData) {
+  const transport = invoiceData.transport || {};
+  return {
+    freightMode: transport.freightMode ?? null,
+    carrierTaxId: transport.carrierTaxId ?? null,
+    carrierName: transport.carrierName ?? null,
+    carrierUf: transport.carrierUf ?? null,
+    volumeQty: transport.volumeQty != null ? new Prisma.Decimal(transport.volumeQty) : null,
+    volumeSpecies: transport.volumeSpecies ?? null,
+    netWeight: transport.netWeight != null ? new Prisma.Decimal(transport.netWeight) : null,
+    grossWeight: transport.grossWeight != null ? new Prisma.Decimal(transport.grossWeight) : null,
+  };
+}
+
+// CT-e importado antes da NF-e fica com o vínculo pendente até a nota chegar
+async function attachPendingCteLinks(companyId, invoiceId, chave) {
+  await prisma.cteInvoiceLink.updateMany({
+    where: { chaveNFe: chave, invoiceId: null, cte: { companyId } },
+    data: { invoiceId },
+  });
+  await prisma.mdfeDocumentLink.updateMany({
+    where: { chave, invoiceId: null, mdfe: { companyId } },
+    data: { invoiceId },
+  });
+}
+
+async function buildReferenceRows(companyId, references = []) {
+  if (!references.length) return [];
+  const referenced = await prisma.invoice.findMany({
+    where: { companyId, chave: { in: references.map((ref) => ref.chave) } },
+    select: { id: true, chave: true },
+  });
+  const idByChave = new Map(referenced.map((invoice) => [invoice.chave, invoice.id]));
+  return references.map((ref) => ({
+    refChave: ref.chave,
+    refKind: ref.kind,
+    referencedInvoice: idByChave.has(ref.chave) ? { connect: { id: idByChave.get(ref.chave) } } : undefined,
+  }));
+}
+
+// Mesma ideia para NFref: a devolução pode chegar antes da nota original
+async function attachPendingReferences(companyId, invoiceId, chave) {
+  await prisma.invoiceReference.updateMany({
+    where: { refChave: chave, referencedInvoiceId: null, invoice: { companyId } },
+    data: { referencedInvoiceId: invoiceId },
+  });
+}
+
 async function persistInvoice(companyId, invoiceData, options = {}) {
   const {
     uploadBatchId = null,
     sourceFileName = null,
+    xmlDocumentId = null,
     allowCrossCompany = false,
     updateExisting = false,
     onCrossCompanyDuplicate = null,
+    ingestionRule = null,
   } = options;
 
   const existing = await prisma.invoice.findFirst({
     where: { companyId, chave: invoiceData.chave },
-    select: { id: true, numero: true },
+    select: { id: true, numero: true, xmlDocumentId: true, partnerId: true },
   });
   if (existing) {
+    const headerPatch = {};
     if (invoiceData.numero && (!existing.numero || existing.numero !== invoiceData.numero)) {
+      headerPatch.numero = String(invoiceData.numero);
+    }
+    // Notas importadas antes do armazenamento do XML recebem o arquivo na reimportação
+    if (xmlDocumentId && !existing.xmlDocumentId) {
+      headerPatch.xmlDocumentId = xmlDocumentId;
+    }
+    // NFC-e importadas antes do vínculo com o parceiro do consumidor não identificado
+    if (invoiceData.isAnonymousConsumer && !existing.partnerId) {
+      headerPatch.partnerId = (await ensureAnonymousConsumerPartner(companyId)).id;
+    }
+    if (Object.keys(headerPatch).length || updateExisting) {
+      await captureInvoiceSnapshot(prisma, {
+        uploadBatchId,
+        invoiceId: existing.id,
+        action: SNAPSHOT_ACTIONS.UPDATED,
+      });
+    }
+    if (Object.keys(headerPatch).length) {
       await prisma.invoice.update({
         where: { id: existing.id },
-        data: { numero: String(invoiceData.numero) },
+        data: headerPatch,
         select: { id: true },
       });
     }
@@ -157,13 +614,23 @@ async function persistInvoice(companyId, invoiceData, options = {}) {
     return { status: 'failed', reason: 'natureza da operação ausente' };
   }
 
-  const naturezaResult = await ensureNaturezaOperacao({
-    companyId,
-    cfopCode: primaryCfop,
-    invoiceType: invoiceData.type,
-    isSelfIssuedEntrada: invoiceData.isSelfIssuedEntrada,
-    natOp: natOpSanitized,
-  });
+  // Regra SET_NATUREZA substitui a natureza que viria do natOp do XML
+  const forcedNatureza = ingestionRule?.action === INGESTION_RULE_ACTIONS.SET_NATUREZA
+    ? ingestionRule.naturezaOperacao
+    : null;
+  const naturezaResult = forcedNatureza
+    ? {
+      natureza: forcedNatureza,
+      natOpSanitized: sanitizeNatOp(forcedNatureza.natOp),
+      descricao: forcedNatureza.descricao,
+    }
+    : await ensureNaturezaOperacao({
+      companyId,
+      cfopCode: primaryCfop,
+      invoiceType: invoiceData.type,
+      isSelfIssuedEntrada: invoiceData.isSelfIssuedEntrada,
+      natOp: natOpSanitized,
+    });
 
   const natureza = naturezaResult.natureza;
   if (!natureza) {
@@ -173,13 +640,18 @@ async function persistInvoice(companyId, invoiceData, options = {}) {
   const naturezaDescricao = naturezaResult.descricao ?? natOpSanitized;
   const invoiceNatOpValue = naturezaResult.natOpSanitized ?? natOpSanitized;
 
+  const partner = invoiceData.isAnonymousConsumer ? await ensureAnonymousConsumerPartner(companyId) : null;
+
   try {
     const invoiceNumber = invoiceData.numero ? String(invoiceData.numero).trim() : null;
-    await prisma.invoice.create({
+    const referenceRows = await buildReferenceRows(companyId, invoiceData.references);
+    const created = await prisma.invoice.create({
       data: {
         company: { connect: { id: companyId } },
         chave: invoiceData.chave,
         globalInvoiceKey: invoiceData.chave,
+        modelo: invoiceData.modelo ?? INVOICE_MODELS.NFE,
+        finalidade: invoiceData.finalidade ?? null,
         numero: invoiceNumber,
     emissao: invoiceData.emissao,
     entradaSaida: invoiceData.entradaSaida,
@@ -189,13 +661,23 @@ async function persistInvoice(companyId, invoiceData, options = {}) {
     recipientName: invoiceData.recipientName ?? null,
     recipientCity: invoiceData.recipientCity ?? null,
     recipientState: invoiceData.recipientState ?? null,
+    partner: partner ? { connect: { id: partner.id } } : undefined,
     isSelfIssuedEntrada: invoiceData.isSelfIssuedEntrada,
     cfop: primaryCfop,
     naturezaOperacao: { connect: { id: natureza.id } },
         natOp: invoiceNatOpValue,
         totalNFe: new Prisma.Decimal(invoiceData.totalNFe),
+        ...buildTotalsFields(invoiceData),
+        ...buildFaturaFields(invoiceData),
+        ...buildTransportFields(invoiceData),
         uploadBatch: uploadBatchId ? { connect: { id: uploadBatchId } } : undefined,
         sourceFileName,
+        xmlDocument: xmlDocumentId ? { connect: { id: xmlDocumentId } } : undefined,
+        ingestionRule: ingestionRule ? { connect: { id: ingestionRule.id } } : undefined,
+        ...buildIntegrityFields(invoiceData),
+        installments: { create: buildInstallmentRows(invoiceData.installments) },
+        payments: { create: buildPaymentRows(invoiceData.payments) },
+        references: { create: referenceRows },
         items: {
           create: invoiceData.items.map((item) => {
             return {
@@ -203,6 +685,7 @@ async function persistInvoice(companyId, invoiceData, options = {}) {
               cfopDescription: naturezaDescricao,
               cfopComposite: buildCfopCompositeFromNatOp(item.cfopCode, naturezaDescricao),
               ncm: item.ncm ?? null,
+              icmsOrigin: item.icmsOrigin ?? null,
               cst: item.cst ?? null,
               csosn: item.csosn ?? null,
               productCode: item.productCode ?? null,
@@ -212,6 +695,9 @@ async function persistInvoice(companyId, invoiceData, options = {}) {
               unitPrice: new Prisma.Decimal(item.unitPrice),
               gross: new Prisma.Decimal(item.gross),
               discount: new Prisma.Decimal(item.discount ?? '0'),
+              vFrete: decimalOrNull(item.vFrete),
+              vSeg: decimalOrNull(item.vSeg),
+              vOutro: decimalOrNull(item.vOutro),
               icmsValue: item.icmsValue != null ? new Prisma.Decimal(item.icmsValue) : null,
               ipiValue: item.ipiValue != null ? new Prisma.Decimal(item.ipiValue) : null,
               pisValue: item.pisValue != null ? new Prisma.Decimal(item.pisValue) : null,
@@ -221,6 +707,9 @@ async function persistInvoice(companyId, invoiceData, options = {}) {
               vICMSDeson: item.vICMSDeson != null ? new Prisma.Decimal(item.vICMSDeson) : null,
               vBCST: item.vBCST != null ? new Prisma.Decimal(item.vBCST) : null,
               vST: item.vST != null ? new Prisma.Decimal(item.vST) : null,
+              ...buildIcmsDetailFields(item),
+              ...buildIbsCbsFields(item),
+              ...buildTaxDetailFields(item),
               vTotTrib: item.vTotTrib != null
                 ? new Prisma.Decimal(item.vTotTrib)
                 : item.icmsValue != null || item.ipiValue != null || item.pisValue != null || item.cofinsValue != null
@@ -234,8 +723,12 @@ async function persistInvoice(companyId, invoiceData, options = {}) {
           }),
         },
       },
+      select: { id: true },
     });
 
+    await attachPendingCteLinks(companyId, created.id, invoiceData.chave);
+    await attachPendingReferences(companyId, created.id, invoiceData.chave);
+
     return {
       status: 'inserted',
       crossCompanyDuplicate: crossCompanyRecord ? crossCompanyRecord.companyId : null,
@@ -252,14 +745,18 @@ async function persistCte(companyId, cteData, options = {}) {
   const {
     uploadBatchId = null,
     sourceFileName = null,
+    xmlDocumentId = null,
     allowCrossCompany = false,
   } = options;
 
   const existing = await prisma.cte.findFirst({
     where: { companyId, chave: cteData.chave },
-    select: { id: true },
+    select: { id: true, xmlDocumentId: true },
   });
   if (existing) {
+    if (xmlDocumentId && !existing.xmlDocumentId) {
+      await prisma.cte.update({ where: { id: existing.id }, data: { xmlDocumentId }, select: { id: true } });
+    }
     return { status: 'duplicate', reason: 'chave já existente' };
   }
 
@@ -277,7 +774,24 @@ async function persistCte(companyId, cteData, options = {}) {
     await ensureCfops([cteData.cfop]);
   }
 
-  await prisma.cte.create({
+  const nfeKeys = cteData.nfeKeys ?? [];
+  const linkedInvoices = nfeKeys.length
+    ? await prisma.invoice.findMany({
+        where: { companyId, chave: { in: nfeKeys } },
+        select: { id: true, chave: true },
+      })
+    : [];
+  const invoiceIdByChave = new Map(linkedInvoices.map((invoice) => [invoice.chave, invoice.id]));
+
+  // Evento de cancelamento pode ter chegado em um lote anterior ao do próprio CT-e
+  const cancellationEvent = cteData.isCancelled
+    ? null
+    : await prisma.cteEvent.findFirst({
+        where: { companyId, chave: cteData.chave, eventType: CTE_EVENT_TYPES.CANCELAMENTO },
+        select: { id: true },
+      });
+
+  const created = await prisma.cte.create({
     data: {
       company: { connect: { id: companyId } },
       chave: cteData.chave,
@@ -302,15 +816,174 @@ async function persistCte(companyId, cteData, options = {}) {
       protocolo: cteData.protocolo ?? null,
       protocoloMsg: cteData.protocoloMsg ?? null,
       protocoloStatus: cteData.protocoloStatus ?? null,
-      isCancelled: Boolean(cteData.isCancelled),
+      isCancelled: Boolean(cteData.isCancelled || cancellationEvent),
+      ...buildIntegrityFields(cteData),
+      uploadBatch: uploadBatchId ? { connect: { id: uploadBatchId } } : undefined,
+      sourceFileName,
+      xmlDocument: xmlDocumentId ? { connect: { id: xmlDocumentId } } : undefined,
+      invoiceLinks: {
+        create: nfeKeys.map((chaveNFe) => ({
+          chaveNFe,
+          invoice: invoiceIdByChave.has(chaveNFe) ? { connect: { id: invoiceIdByChave.get(chaveNFe) } } : undefined,
+        })),
+      },
+    },
+    select: { id: true },
+  });
+
+  // MDF-e importado antes do CT-e fica com o vínculo pendente até o CT-e chegar
+  await prisma.mdfeDocumentLink.updateMany({
+    where: { chave: cteData.chave, cteId: null, mdfe: { companyId } },
+    data: { cteId: created.id },
+  });
+
+  return { status: 'inserted' };
+}
+
+async function persistMdfe(companyId, mdfeData, options = {}) {
+  const { uploadBatchId = null, sourceFileName = null, xmlDocumentId = null } = options;
+
+  const existing = await prisma.mdfe.findFirst({
+    where: { companyId, chave: mdfeData.chave },
+    select: { id: true, xmlDocumentId: true },
+  });
+  if (existing) {
+    if (xmlDocumentId && !existing.xmlDocumentId) {
+      await prisma.mdfe.update({ where: { id: existing.id }, data: { xmlDocumentId }, select: { id: true } });
+    }
+    return { status: 'duplicate', reason: 'chave já existente' };
+  }
+
+  const documents = mdfeData.documents ?? [];
+  const keys = documents.map((doc) => doc.chave);
+  const [linkedInvoices, linkedCtes] = keys.length
+    ? await Promise.all([
+        prisma.invoice.findMany({ where: { companyId, chave: { in: keys } }, select: { id: true, chave: true } }),
+        prisma.cte.findMany({ where: { companyId, chave: { in: keys } }, select: { id: true, chave: true } }),
+      ])
+    : [[], []];
+  const invoiceIdByChave = new Map(linkedInvoices.map((invoice) => [invoice.chave, invoice.id]));
+  const cteIdByChave = new Map(linkedCtes.map((cte) => [cte.chave, cte.id]));
+
+  await prisma.mdfe.create({
+    data: {
+      company: { connect: { id: companyId } },
+      chave: mdfeData.chave,
+      serie: mdfeData.serie ?? null,
+      numero: mdfeData.numero ?? null,
+      emissao: mdfeData.emissao,
+      modal: mdfeData.modal ?? null,
+      emitCnpj: mdfeData.emitCnpj ?? null,
+      emitNome: mdfeData.emitNome ?? null,
+      ufIni: mdfeData.ufIni ?? null,
+      ufFim: mdfeData.ufFim ?? null,
+      ufPercurso: mdfeData.ufPercurso ?? [],
+      loadingCities: mdfeData.loadingCities ?? [],
+      vehiclePlate: mdfeData.vehiclePlate ?? null,
+      vehicleUf: mdfeData.vehicleUf ?? null,
+      trailerPlates: mdfeData.trailerPlates ?? [],
+      driverName: mdfeData.driverName ?? null,
+      driverCpf: mdfeData.driverCpf ?? null,
+      cargoValue: decimalOrNull(mdfeData.cargoValue),
+      cargoWeight: decimalOrNull(mdfeData.cargoWeight),
+      cargoUnit: mdfeData.cargoUnit ?? null,
+      tripStartAt: mdfeData.tripStartAt ?? null,
+      protocolo: mdfeData.protocolo ?? null,
+      protocoloStatus: mdfeData.protocoloStatus ?? null,
+      isCancelled: Boolean(mdfeData.isCancelled),
       uploadBatch: uploadBatchId ? { connect: { id: uploadBatchId } } : undefined,
       sourceFileName,
+      xmlDocument: xmlDocumentId ? { connect: { id: xmlDocumentId } } : undefined,
+      documentLinks: {
+        create: documents.map((doc) => ({
+          chave: doc.chave,
+          documentType: doc.documentType,
+          unloadCity: doc.unloadCity ?? null,
+          invoice: invoiceIdByChave.has(doc.chave) ? { connect: { id: invoiceIdByChave.get(doc.chave) } } : undefined,
+          cte: cteIdByChave.has(doc.chave) ? { connect: { id: cteIdByChave.get(doc.chave) } } : undefined,
+        })),
+      },
     },
   });
 
   return { status: 'inserted' };
 }
 
+function deriveServiceInvoiceDirection(nfseData, companyCnpj) {
+  const normalizedCompany = normalizeTaxId(companyCnpj);
+  if (!normalizedCompany) return { error: REASON_LAYOUT_UNSUPPORTED };
+  if (normalizeTaxId(nfseData.takerCnpj) === normalizedCompany) return { type: 'IN' };
+  if (normalizeTaxId(nfseData.providerCnpj) === normalizedCompany) return { type: 'OUT' };
+  return { error: 'NFS-e não pertence à empresa (prestador/tomador)' };
+}
+
+async function persistServiceInvoice(companyId, nfseData, options = {}) {
+  const {
+    type,
+    uploadBatchId = null,
+    sourceFileName = null,
+  } = options;
+
+  const existing = await prisma.serviceInvoice.findFirst({
+    where: { companyId, providerCnpj: nfseData.providerCnpj, numero: nfseData.numero },
+    select: { id: true, isCancelled: true, uploadBatchId: true },
+  });
+  if (existing) {
+    if (nfseData.isCancelled && !existing.isCancelled) {
+      if (existing.uploadBatchId !== uploadBatchId) {
+        await captureSnapshot(prisma, {
+          uploadBatchId,
+          entity: SNAPSHOT_ENTITIES.SERVICE_INVOICE,
+          action: SNAPSHOT_ACTIONS.UPDATED,
+          entityId: existing.id,
+          data: { isCancelled: false },
+        });
+      }
+      await prisma.serviceInvoice.update({ where: { id: existing.id }, data: { isCancelled: true } });
+      return { status: 'cancelled' };
+    }
+    return { status: 'duplicate', reason: 'NFS-e já existente' };
+  }
+
+  await prisma.serviceInvoice.create({
+    data: {
+      company: { connect: { id: companyId } },
+      type,
+      numero: nfseData.numero,
+      codigoVerificacao: nfseData.codigoVerificacao ?? null,
+      emissao: nfseData.emissao,
+      competencia: nfseData.competencia ?? null,
+      providerCnpj: nfseData.providerCnpj,
+      providerName: nfseData.providerName ?? null,
+      providerMunicipio: nfseData.providerMunicipio ?? null,
+      takerCnpj: nfseData.takerCnpj ?? null,
+      takerName: nfseData.takerName ?? null,
+      serviceCode: nfseData.serviceCode ?? null,
+      municipalServiceCode: nfseData.municipalServiceCode ?? null,
+      description: nfseData.description ?? null,
+      servicesValue: new Prisma.Decimal(nfseData.servicesValue),
+      deductionsValue: decimalOrNull(nfseData.deductionsValue),
+      issBase: decimalOrNull(nfseData.issBase),
+      issRate: decimalOrNull(nfseData.issRate),
+      issValue: decimalOrNull(nfseData.issValue),
+      issWithheld: Boolean(nfseData.issWithheld),
+      issWithheldValue: decimalOrNull(nfseData.issWithheldValue),
+      pisValue: decimalOrNull(nfseData.pisValue),
+      cofinsValue: decimalOrNull(nfseData.cofinsValue),
+      irValue: decimalOrNull(nfseData.irValue),
+      csllValue: decimalOrNull(nfseData.csllValue),
+      inssValue: decimalOrNull(nfseData.inssValue),
+      netValue: decimalOrNull(nfseData.netValue),
+      totalValue: new Prisma.Decimal(nfseData.totalValue),
+      isCancelled: Boolean(nfseData.isCancelled),
+      uploadBatch: uploadBatchId ? { connect: { id: uploadBatchId } } : undefined,
+      sourceFileName,
+    },
+  });
+
+  return { status: nfseData.isCancelled ? 'cancelled' : 'inserted' };
+}
+
 async function updateExistingInvoice(companyId, invoiceData) {
   const existing = await prisma.invoice.findFirst({
     where: { companyId, chave: invoiceData.chave },
@@ -343,6 +1016,27 @@ async function updateExistingInvoice(companyId, invoiceData) {
     });
   }
 
+  // Duplicatas, pagamentos e referências são regravados por completo a cada reimportação
+  const referenceRows = await buildReferenceRows(companyId, invoiceData.references);
+  await prisma.$transaction([
+    prisma.invoiceInstallment.deleteMany({ where: { invoiceId: existing.id } }),
+    prisma.invoicePayment.deleteMany({ where: { invoiceId: existing.id } }),
+    prisma.invoiceReference.deleteMany({ where: { invoiceId: existing.id } }),
+    prisma.invoice.update({
+      where: { id: existing.id },
+      data: {
+        finalidade: invoiceData.finalidade ?? null,
+        references: { create: referenceRows },
+        ...buildIntegrityFields(invoiceData),
+        ...buildTotalsFields(invoiceData),
+        ...buildFaturaFields(invoiceData),
+        ...buildTransportFields(invoiceData),
+        installments: { create: buildInstallmentRows(invoiceData.installments) },
+        payments: { create: buildPaymentRows(invoiceData.payments) },
+      },
+    }),
+  ]);
+
   for (let idx = 0; idx < count; idx += 1) {
     const parsed = invoiceData.items[idx];
     const existingItem = existing.items[idx];
@@ -359,11 +1053,18 @@ async function updateExistingInvoice(companyId, invoiceData) {
     await prisma.invoiceItem.update({
       where: { id: existingItem.id },
       data: {
+        icmsOrigin: parsed.icmsOrigin ?? null,
         vBC: parsed.vBC != null ? new Prisma.Decimal(parsed.vBC) : null,
         vICMS: parsed.icmsValue != null ? new Prisma.Decimal(parsed.icmsValue) : null,
         vICMSDeson: parsed.vICMSDeson != null ? new Prisma.Decimal(parsed.vICMSDeson) : null,
         vBCST: parsed.vBCST != null ? new Prisma.Decimal(parsed.vBCST) : null,
         vST: parsed.vST != null ? new Prisma.Decimal(parsed.vST) : null,
+        ...buildIcmsDetailFields(parsed),
+        ...buildIbsCbsFields(parsed),
+        ...buildTaxDetailFields(parsed),
+        vFrete: decimalOrNull(parsed.vFrete),
+        vSeg: decimalOrNull(parsed.vSeg),
+        vOutro: decimalOrNull(parsed.vOutro),
         vTotTrib: vTotTrib != null ? new Prisma.Decimal(vTotTrib) : null,
         icmsValue: parsed.icmsValue != null ? new Prisma.Decimal(parsed.icmsValue) : null,
         ipiValue: parsed.ipiValue != null ? new Prisma.Decimal(parsed.ipiValue) : null,
@@ -439,6 +1140,8 @@ function resolveParseFailureReason(error) {
         return REASON_XML_MALFORMED;
       case 'MISSING_INF_NFE':
         return REASON_MISSING_INF;
+      case 'MISSING_INF_NFSE':
+        return REASON_MISSING_INF_NFSE;
       case 'LAYOUT_UNSUPPORTED':
       default:
         return REASON_LAYOUT_UNSUPPORTED;
@@ -447,19 +1150,146 @@ function resolveParseFailureReason(error) {
   return DEFAULT_REASON_GENERIC;
 }
 
-async function processInvoicesFromZip({
+const PROGRESS_REPORT_INTERVAL = 25;
+const UPLOAD_DETAIL_STATUSES = ['inserted', 'updated', 'duplicate', 'failed', 'cancelled'];
+
+// Chaves em memória do lote ficam separadas por empresa: a mesma nota pode entrar em duas empresas do grupo
+// Divergências de chave, CNPJ/CPF ou assinatura acompanham o detalhe do arquivo no resumo
+function integrityDetail(documentData) {
+  return documentData.integrity?.issues?.length ? { integrity: documentData.integrity } : {};
+}
+
+function scopedKey(companyId, chave) {
+  return `${companyId}:${chave}`;
+}
+
+// CNPJ do emitente embutido na chave de acesso (posições 7 a 20)
+function chaveIssuerCnpj(chave) {
+  return typeof chave === 'string' && /^\d{44}$/.test(chave) ? chave.slice(6, 20) : null;
+}
+
+async function loadRoutingCompanies() {
+  const companies = await prisma.company.findMany({ select: { id: true, name: true, cnpj: true } });
+  const byCnpj = new Map();
+  const byId = new Map();
+  companies.forEach((company) => {
+    const digits = normalizeTaxId(company.cnpj);
+    if (digits) byCnpj.set(digits, company);
+    byId.set(company.id, company);
+  });
+  return { byCnpj, byId };
+}
+
+// Empresas cadastradas que participam do documento; eventos e cancelamentos vão também para quem já tem a chave
+async function resolveRoutingTargets(analysis, routing) {
+  const taxIds = [];
+  const invoiceKeys = [];
+  const cteKeys = [];
+  const { data } = analysis;
+
+  if (analysis.kind === 'NFSE') {
+    data.forEach((nfse) => taxIds.push(nfse.providerCnpj, nfse.takerCnpj));
+  } else if (analysis.kind === 'NUMBER_VOIDING') {
+    taxIds.push(data.issuerCnpj);
+  } else if (analysis.kind === 'CANCELLATION' || analysis.kind === 'EVENT') {
+    taxIds.push(chaveIssuerCnpj(data.chave), data.authorTaxId);
+    invoiceKeys.push(data.chave);
+  } else if (analysis.kind === 'CTE_EVENT') {
+    taxIds.push(chaveIssuerCnpj(data.chave), data.authorTaxId);
+    cteKeys.push(data.chave);
+  } else if (analysis.kind === 'MDFE') {
+    taxIds.push(data.emitCnpj);
+    (data.documents ?? []).forEach((doc) => {
+      (doc.documentType === 'CTE' ? cteKeys : invoiceKeys).push(doc.chave);
+    });
+  } else if (analysis.kind === 'CTE') {
+    taxIds.push(data.emitCnpj, data.tomaCnpj, data.remCnpj, data.destCnpj, data.expedCnpj, data.recebCnpj);
+  } else {
+    taxIds.push(data.issuerCnpj, data.recipientCnpj);
+  }
+
+  const targets = new Map();
+  taxIds.forEach((taxId) => {
+    const company = routing.byCnpj.get(normalizeTaxId(taxId));
+    if (company) targets.set(company.id, company);
+  });
+
+  const [invoiceHolders, cteHolders] = await Promise.all([
+    invoiceKeys.length
+      ? prisma.invoice.findMany({ where: { chave: { in: invoiceKeys.filter(Boolean) } }, select: { companyId: true } })
+      : [],
+    cteKeys.length
+      ? prisma.cte.findMany({ where: { chave: { in: cteKeys.filter(Boolean) } }, select: { companyId: true } })
+      : [],
+  ]);
+  [...invoiceHolders, ...cteHolders].forEach(({ companyId }) => {
+    const company = routing.byId.get(companyId);
+    if (company) targets.set(company.id, company);
+  });
+
+  return [...targets.values()];
+}
+
+function annotateDetailCompanies(result, detailCompanies) {
+  detailCompanies.forEach(({ start, company }, index) => {
+    if (!company) return;
+    const end = detailCompanies[index + 1]?.start ?? result.details.length;
+    for (let position = start; position < end; position += 1) {
+      result.details[position].companyId = company.id;
+      result.details[position].company = company.name;
+    }
+  });
+  detailCompanies.length = 0;
+}
+
+function summarizeDetailsByCompany(details) {
+  const byCompany = new Map();
+  details.forEach((detail) => {
+    if (!detail.companyId) return;
+    if (!byCompany.has(detail.companyId)) {
+      const counts = Object.fromEntries(UPLOAD_DETAIL_STATUSES.map((status) => [status, 0]));
+      byCompany.set(detail.companyId, { companyId: detail.companyId, companyName: detail.company, ...counts });
+    }
+    const entry = byCompany.get(detail.companyId);
+    if (UPLOAD_DETAIL_STATUSES.includes(detail.status)) {
+      entry[detail.status] += 1;
+    }
+  });
+  return [...byCompany.values()];
+}
+
+// Anota o zip de origem nos detalhes dos XMLs já processados e descarta as marcas aplicadas
+function annotateDetailSources(result, detailSources) {
+  detailSources.forEach(({ start, source }, index) => {
+    if (!source) return;
+    const end = detailSources[index + 1]?.start ?? result.details.length;
+    for (let position = start; position < end; position += 1) {
+      result.details[position].source = source;
+    }
+  });
+  detailSources.length = 0;
+}
+
+// Processa os arquivos de um lote já criado. resumeFrom/initialResult retomam um lote interrompido
+// a partir do último progresso gravado. onProgress é chamado a cada XML concluído: com o parcial completo
+// (result) a cada PROGRESS_REPORT_INTERVAL XMLs e, entre eles, só com contadores e detalhes novos (pending)
+async function processUploadedFiles({
   companyId,
   companyCnpj,
-  zipBuffer,
+  files,
   limits,
-  fileName,
-  actorId,
   flags = {},
+  uploadBatchId = null,
+  resumeFrom = 0,
+  initialResult = null,
+  onProgress = null,
 }) {
   const maxFiles = limits?.maxFiles ?? 10000;
   const maxFileSize = limits?.maxFileSize ?? 5 * 1024 * 1024;
   const allowCrossCompany = Boolean(flags.multiCompanyAccessKey ?? MULTI_COMPANY_ACCESS_KEY_ENABLED);
   const enableDecisionLogs = Boolean(flags.enableDecisionLogs ?? DECISION_LOGS_ENABLED);
+  // Modo multiempresa: cada documento vai para as empresas cujo CNPJ participa dele
+  const routing = flags.routeByCnpj ? await loadRoutingCompanies() : null;
 
   const result = {
     inserted: 0,
@@ -467,13 +1297,25 @@ async function processInvoicesFromZip({
     duplicate: 0,
     failed: 0,
     cancelled: 0,
-    details: [],
+    ...(initialResult ?? {}),
+    details: [...(initialResult?.details ?? [])],
   };
 
-  const warnings = [];
+  const warnings = [...(initialResult?.warnings ?? [])];
+  // Detalhes e avisos já gravados no summary; o restante segue no progresso por XML
+  let flushedDetails = result.details.length;
+  let flushedWarnings = warnings.length;
 
   const cancellationKeys = new Set();
   const insertedInvoices = new Map();
+  const ingestionRulesByCompany = new Map();
+
+  async function getIngestionRules(targetCompanyId) {
+    if (!ingestionRulesByCompany.has(targetCompanyId)) {
+      ingestionRulesByCompany.set(targetCompanyId, await loadIngestionRules(targetCompanyId));
+    }
+    return ingestionRulesByCompany.get(targetCompanyId);
+  }
 
   function registerCancellationDetail(chave, reason, fileName, options = {}) {
     const { increment = true, recordDetail = true } = options;
@@ -507,42 +1349,54 @@ async function processInvoicesFromZip({
     }
   }
 
-  let uploadBatch = null;
-  if (allowCrossCompany) {
-    uploadBatch = await prisma.uploadBatch.create({
-      data: {
-        companyId,
-        fileName: fileName ?? null,
-        actorId: actorId ?? null,
-      },
-      select: { id: true },
-    });
-  }
+  const uploadBatch = uploadBatchId ? { id: uploadBatchId } : null;
 
-  let processedFiles = 0;
+  let processedFiles = resumeFrom;
   const updateExisting = flags.updateExisting === false ? false : true;
 
-  let zip;
-  try {
-    zip = new AdmZip(zipBuffer);
-  } catch (error) {
-    throw Object.assign(new Error('Não foi possível ler o arquivo zip'), { status: 400 });
+  const { xmlEntries, failures } = expandUploadFiles(files);
+  if (!resumeFrom) {
+    failures.forEach((failure) => {
+      result.failed += 1;
+      result.details.push({
+        file: failure.file,
+        status: 'failed',
+        reason: failure.reason,
+        ...(failure.source ? { source: failure.source } : {}),
+      });
+    });
   }
 
-  const entries = zip.getEntries();
-
-  for (const entry of entries) {
-    const sanitizedName = sanitizeEntryName(entry.entryName);
-    const displayName = path.posix.basename(entry.entryName);
-
-    if (!sanitizedName) {
-      result.failed += 1;
-      result.details.push({ file: entry.entryName, status: 'failed', reason: 'caminho inválido no zip' });
-      continue;
+  // Início dos detalhes de cada XML, para anotar depois o zip de origem e a empresa de destino
+  const detailSources = [];
+  const detailCompanies = [];
+
+  for (let index = resumeFrom; index < xmlEntries.length; index += 1) {
+    const entry = xmlEntries[index];
+    const { displayName } = entry;
+    // Progresso gravado a cada XML concluído: a retomada começa exatamente no próximo, sem reprocessar nada
+    if (onProgress && index > resumeFrom) {
+      annotateDetailSources(result, detailSources);
+      annotateDetailCompanies(result, detailCompanies);
+      if (index % PROGRESS_REPORT_INTERVAL === 0) {
+        await onProgress({ processed: index, total: xmlEntries.length, result: { ...result, warnings } });
+        flushedDetails = result.details.length;
+        flushedWarnings = warnings.length;
+      } else {
+        await onProgress({
+          processed: index,
+          total: xmlEntries.length,
+          pending: {
+            counts: Object.fromEntries(UPLOAD_DETAIL_STATUSES.map((status) => [status, result[status]])),
+            details: result.details.slice(flushedDetails),
+            warnings: warnings.slice(flushedWarnings),
+          },
+        });
+      }
     }
-
-    if (entry.isDirectory || !sanitizedName.toLowerCase().endsWith('.xml')) {
-      continue;
+    detailSources.push({ start: result.details.length, source: entry.source });
+    if (routing) {
+      detailCompanies.push({ start: result.details.length, company: null });
     }
 
     processedFiles += 1;
@@ -582,243 +1436,524 @@ async function processInvoicesFromZip({
       continue;
     }
 
-    if (analysis.kind === 'NFSE') {
+    const targets = routing
+      ? await resolveRoutingTargets(analysis, routing)
+      : [{ id: companyId, cnpj: companyCnpj }];
+    if (!targets.length) {
       result.failed += 1;
-      result.details.push({ file: displayName, status: 'failed', reason: analysis.data.reason || REASON_NFSE });
+      result.details.push({ file: displayName, status: 'failed', reason: REASON_NO_ROUTING_TARGET });
       continue;
     }
 
-    if (analysis.kind === 'CANCELLATION') {
-      const cancellation = analysis.data;
-      if (!cancellation?.chave) {
-        result.failed += 1;
-        result.details.push({ file: displayName, status: 'failed', reason: 'chave do cancelamento ausente' });
+    // Nota entre empresas do grupo entra em cada uma delas; companyId/companyCnpj passam a ser os do destino
+    for (const target of targets) {
+      const companyId = target.id;
+      const companyCnpj = target.cnpj;
+      if (routing) {
+        detailCompanies.push({ start: result.details.length, company: target });
+      }
+
+      if (analysis.kind === 'NFSE') {
+        for (const nfseData of analysis.data) {
+          const direction = deriveServiceInvoiceDirection(nfseData, companyCnpj);
+          if (direction.error) {
+            result.failed += 1;
+            result.details.push({ file: displayName, status: 'failed', reason: direction.error, type: 'NFSE' });
+            continue;
+          }
+          try {
+            const persistResult = await persistServiceInvoice(companyId, nfseData, {
+              type: direction.type,
+              uploadBatchId: uploadBatch?.id ?? null,
+              sourceFileName: displayName,
+            });
+            if (persistResult.status === 'inserted') {
+              result.inserted += 1;
+              result.details.push({ file: displayName, status: 'inserted', type: 'NFSE' });
+            } else if (persistResult.status === 'cancelled') {
+              result.cancelled += 1;
+              result.details.push({ file: displayName, status: 'cancelled', reason: `NFS-e ${nfseData.numero} cancelada`, type: 'NFSE' });
+            } else {
+              result.duplicate += 1;
+              result.details.push({ file: displayName, status: 'duplicate', reason: persistResult.reason, type: 'NFSE' });
+            }
+          } catch (error) {
+            result.failed += 1;
+            result.details.push({
+              file: displayName,
+              status: 'failed',
+              reason: error.message || DEFAULT_REASON_GENERIC,
+              type: 'NFSE',
+            });
+          }
+        }
         continue;
       }
-      if (!cancellation.isApproved) {
-        result.failed += 1;
-        result.details.push({
-          file: displayName,
-          status: 'failed',
-          reason: cancellation.statusMessage || 'cancelamento não homologado',
-        });
+
+      if (analysis.kind === 'NUMBER_VOIDING') {
+        const voidingData = analysis.data;
+        if (!voidingData.issuerCnpj || voidingData.serie == null || voidingData.startNumber == null
+          || voidingData.endNumber < voidingData.startNumber) {
+          result.failed += 1;
+          result.details.push({ file: displayName, status: 'failed', reason: 'faixa de inutilização incompleta', type: 'NUMBER_VOIDING' });
+          continue;
+        }
+        if (!voidingData.isApproved) {
+          result.failed += 1;
+          result.details.push({
+            file: displayName,
+            status: 'failed',
+            reason: voidingData.statusMessage || 'inutilização não homologada',
+            type: 'NUMBER_VOIDING',
+          });
+          continue;
+        }
+        try {
+          const xmlDocument = await storeXmlDocument(companyId, {
+            kind: XML_DOCUMENT_KINDS.NUMBER_VOIDING,
+            content: buffer,
+            fileName: displayName,
+          });
+          const persistResult = await persistNumberVoiding(companyId, voidingData, {
+            uploadBatchId: uploadBatch?.id ?? null,
+            sourceFileName: displayName,
+            xmlDocumentId: xmlDocument.id,
+          });
+          if (persistResult.status === 'inserted') {
+            result.inserted += 1;
+            result.details.push({
+              file: displayName,
+              status: 'inserted',
+              reason: describeNumberVoiding(voidingData),
+              type: 'NUMBER_VOIDING',
+            });
+          } else {
+            result.duplicate += 1;
+            result.details.push({ file: displayName, status: 'duplicate', reason: persistResult.reason, type: 'NUMBER_VOIDING' });
+          }
+        } catch (error) {
+          result.failed += 1;
+          result.details.push({
+            file: displayName,
+            status: 'failed',
+            reason: error.message || DEFAULT_REASON_GENERIC,
+            type: 'NUMBER_VOIDING',
+          });
+        }
         continue;
       }
-      const alreadyCancelled = cancellationKeys.has(cancellation.chave);
-      cancellationKeys.add(cancellation.chave);
-      try {
-        await persistCancellation(companyId, cancellation, {
-          uploadBatchId: uploadBatch?.id ?? null,
-          sourceFileName: displayName,
-        });
-      } catch (error) {
-        result.failed += 1;
-        result.details.push({
-          file: displayName,
-          status: 'failed',
-          reason: error.message || DEFAULT_REASON_GENERIC,
-        });
+
+      if (analysis.kind === 'CANCELLATION') {
+        const cancellation = analysis.data;
+        if (!cancellation?.chave) {
+          result.failed += 1;
+          result.details.push({ file: displayName, status: 'failed', reason: 'chave do cancelamento ausente' });
+          continue;
+        }
+        if (!cancellation.isApproved) {
+          result.failed += 1;
+          result.details.push({
+            file: displayName,
+            status: 'failed',
+            reason: cancellation.statusMessage || 'cancelamento não homologado',
+          });
+          continue;
+        }
+        const alreadyCancelled = cancellationKeys.has(scopedKey(companyId, cancellation.chave));
+        cancellationKeys.add(scopedKey(companyId, cancellation.chave));
+        try {
+          const xmlDocument = await storeXmlDocument(companyId, {
+            kind: XML_DOCUMENT_KINDS.CANCELLATION,
+            content: buffer,
+            fileName: displayName,
+          });
+          await persistCancellation(companyId, cancellation, {
+            uploadBatchId: uploadBatch?.id ?? null,
+            sourceFileName: displayName,
+            xmlDocumentId: xmlDocument.id,
+          });
+        } catch (error) {
+          result.failed += 1;
+          result.details.push({
+            file: displayName,
+            status: 'failed',
+            reason: error.message || DEFAULT_REASON_GENERIC,
+          });
+          continue;
+        }
+        registerCancellationDetail(
+          scopedKey(companyId, cancellation.chave),
+          cancellation.statusMessage || 'nota fiscal cancelada',
+          displayName,
+          { increment: !alreadyCancelled, recordDetail: !alreadyCancelled },
+        );
         continue;
       }
-      registerCancellationDetail(
-        cancellation.chave,
-        cancellation.statusMessage || 'nota fiscal cancelada',
-        displayName,
-        { increment: !alreadyCancelled, recordDetail: !alreadyCancelled },
-      );
-      continue;
-    }
 
-    if (analysis.kind === 'CTE') {
-      const cteData = analysis.data;
-      try {
-        const persistResult = await persistCte(companyId, cteData, {
-          uploadBatchId: uploadBatch?.id ?? null,
-          sourceFileName: displayName,
-          allowCrossCompany,
-        });
-        if (persistResult.status === 'inserted') {
-          result.inserted += 1;
-          result.details.push({ file: displayName, status: 'inserted', type: 'CTE' });
-        } else if (persistResult.status === 'duplicate') {
-          result.duplicate += 1;
-          result.details.push({ file: displayName, status: 'duplicate', reason: persistResult.reason || 'chave já existente', type: 'CTE' });
-        } else {
+      if (analysis.kind === 'EVENT') {
+        const eventData = analysis.data;
+        if (!eventData.isApproved) {
+          result.failed += 1;
+          result.details.push({
+            file: displayName,
+            status: 'failed',
+            reason: eventData.statusMessage || 'evento não homologado',
+            type: 'EVENT',
+          });
+          continue;
+        }
+        try {
+          const xmlDocument = await storeXmlDocument(companyId, {
+            kind: XML_DOCUMENT_KINDS.EVENT,
+            content: buffer,
+            fileName: displayName,
+          });
+          const persistResult = await persistInvoiceEvent(companyId, eventData, {
+            uploadBatchId: uploadBatch?.id ?? null,
+            sourceFileName: displayName,
+            xmlDocumentId: xmlDocument.id,
+          });
+          const eventLabel = resolveInvoiceEventLabel(eventData.eventType, eventData.description);
+          if (persistResult.status === 'inserted') {
+            result.inserted += 1;
+            result.details.push({ file: displayName, status: 'inserted', reason: eventLabel, type: 'EVENT' });
+          } else {
+            result.duplicate += 1;
+            result.details.push({ file: displayName, status: 'duplicate', reason: persistResult.reason, type: 'EVENT' });
+          }
+        } catch (error) {
           result.failed += 1;
-          result.details.push({ file: displayName, status: 'failed', reason: persistResult.reason || DEFAULT_REASON_GENERIC, type: 'CTE' });
+          result.details.push({
+            file: displayName,
+            status: 'failed',
+            reason: error.message || DEFAULT_REASON_GENERIC,
+            type: 'EVENT',
+          });
         }
-      } catch (error) {
+        continue;
+      }
+
+      if (analysis.kind === 'MDFE') {
+        try {
+          const xmlDocument = await storeXmlDocument(companyId, {
+            kind: XML_DOCUMENT_KINDS.MDFE,
+            content: buffer,
+            fileName: displayName,
+          });
+          const persistResult = await persistMdfe(companyId, analysis.data, {
+            uploadBatchId: uploadBatch?.id ?? null,
+            sourceFileName: displayName,
+            xmlDocumentId: xmlDocument.id,
+          });
+          if (persistResult.status === 'inserted') {
+            result.inserted += 1;
+            result.details.push({ file: displayName, status: 'inserted', type: 'MDFE' });
+          } else {
+            result.duplicate += 1;
+            result.details.push({ file: displayName, status: 'duplicate', reason: persistResult.reason, type: 'MDFE' });
+          }
+        } catch (error) {
+          result.failed += 1;
+          result.details.push({
+            file: displayName,
+            status: 'failed',
+            reason: error.message || DEFAULT_REASON_GENERIC,
+            type: 'MDFE',
+          });
+        }
+        continue;
+      }
+
+      if (analysis.kind === 'CTE_EVENT') {
+        const eventData = analysis.data;
+        if (!eventData.isApproved) {
+          result.failed += 1;
+          result.details.push({
+            file: displayName,
+            status: 'failed',
+            reason: eventData.statusMessage || 'evento do CT-e não homologado',
+            type: 'CTE',
+          });
+          continue;
+        }
+        try {
+          const xmlDocument = await storeXmlDocument(companyId, {
+            kind: XML_DOCUMENT_KINDS.EVENT,
+            content: buffer,
+            fileName: displayName,
+          });
+          const persistResult = await persistCteEvent(companyId, eventData, {
+            uploadBatchId: uploadBatch?.id ?? null,
+            sourceFileName: displayName,
+            xmlDocumentId: xmlDocument.id,
+          });
+          if (persistResult.status === 'duplicate') {
+            result.duplicate += 1;
+            result.details.push({ file: displayName, status: 'duplicate', reason: persistResult.reason, type: 'CTE' });
+          } else if (eventData.isCancellation) {
+            result.cancelled += 1;
+            result.details.push({
+              file: displayName,
+              status: 'cancelled',
+              reason: persistResult.cancelledCount
+                ? 'CT-e cancelado'
+                : 'cancelamento registrado; CT-e ainda não importado',
+              type: 'CTE',
+            });
+          } else {
+            result.inserted += 1;
+            result.details.push({
+              file: displayName,
+              status: 'inserted',
+              reason: `${resolveCteEventLabel(eventData.eventType, eventData.description)} do CT-e`,
+              type: 'CTE',
+            });
+          }
+        } catch (error) {
+          result.failed += 1;
+          result.details.push({
+            file: displayName,
+            status: 'failed',
+            reason: error.message || DEFAULT_REASON_GENERIC,
+            type: 'CTE',
+          });
+        }
+        continue;
+      }
+
+      if (analysis.kind === 'CTE') {
+        const cteData = analysis.data;
+        try {
+          const xmlDocument = await storeXmlDocument(companyId, {
+            kind: XML_DOCUMENT_KINDS.CTE,
+            content: buffer,
+            fileName: displayName,
+          });
+          const persistResult = await persistCte(companyId, cteData, {
+            uploadBatchId: uploadBatch?.id ?? null,
+            sourceFileName: displayName,
+            xmlDocumentId: xmlDocument.id,
+            allowCrossCompany,
+          });
+          if (persistResult.status === 'inserted') {
+            result.inserted += 1;
+            result.details.push({ file: displayName, status: 'inserted', type: 'CTE', ...integrityDetail(analysis.data) });
+          } else if (persistResult.status === 'duplicate') {
+            result.duplicate += 1;
+            result.details.push({
+              file: displayName,
+              status: 'duplicate',
+              reason: persistResult.reason || 'chave já existente',
+              type: 'CTE',
+              ...integrityDetail(analysis.data),
+            });
+          } else {
+            result.failed += 1;
+            result.details.push({ file: displayName, status: 'failed', reason: persistResult.reason || DEFAULT_REASON_GENERIC, type: 'CTE' });
+          }
+        } catch (error) {
+          result.failed += 1;
+          result.details.push({
+            file: displayName,
+            status: 'failed',
+            reason: error.message || DEFAULT_REASON_GENERIC,
+          });
+        }
+        continue;
+      }
+
+      const { protocol, isCancelled, ...invoiceData } = analysis.data;
+
+      const ingestionRule = matchIngestionRule(await getIngestionRules(companyId), invoiceData);
+      const documentDetail = {
+        ...(ingestionRule ? { rule: describeIngestionRule(ingestionRule) } : {}),
+        ...integrityDetail(invoiceData),
+      };
+      if (ingestionRule?.action === INGESTION_RULE_ACTIONS.IGNORE) {
         result.failed += 1;
         result.details.push({
           file: displayName,
           status: 'failed',
-          reason: error.message || DEFAULT_REASON_GENERIC,
+          reason: `nota ignorada pela regra "${ingestionRule.name}"`,
+          ...documentDetail,
         });
+        continue;
       }
-      continue;
-    }
 
-    const { protocol, isCancelled, ignored: isIgnored, ignoreReason, ...invoiceData } = analysis.data;
+      if (isCancelled) {
+        const alreadyCancelled = cancellationKeys.has(scopedKey(companyId, invoiceData.chave));
+        cancellationKeys.add(scopedKey(companyId, invoiceData.chave));
+        try {
+          const xmlDocument = await storeXmlDocument(companyId, {
+            kind: XML_DOCUMENT_KINDS.NFE,
+            content: buffer,
+            fileName: displayName,
+          });
+          await persistCancellation(companyId, {
+            chave: invoiceData.chave,
+            statusCode: protocol?.statusCode ?? null,
+            statusMessage: protocol?.statusMessage ?? null,
+            protocolNumber: protocol?.protocolNumber ?? null,
+            receivedAt: protocol?.receivedAt ?? null,
+          }, {
+            uploadBatchId: uploadBatch?.id ?? null,
+            sourceFileName: displayName,
+            xmlDocumentId: xmlDocument.id,
+          });
+        } catch (error) {
+          result.failed += 1;
+          result.details.push({
+            file: displayName,
+            status: 'failed',
+            reason: error.message || DEFAULT_REASON_GENERIC,
+          });
+          continue;
+        }
+        registerCancellationDetail(
+          scopedKey(companyId, invoiceData.chave),
+          protocol?.statusMessage || 'nota fiscal cancelada',
+          displayName,
+          { increment: !alreadyCancelled, recordDetail: true },
+        );
+        continue;
+      }
 
-    if (isIgnored) {
-      result.failed += 1;
-      result.details.push({
-        file: displayName,
-        status: 'failed',
-        reason: ignoreReason || 'nota fiscal ignorada pelos critérios configurados',
+      if (cancellationKeys.has(scopedKey(companyId, invoiceData.chave))) {
+        registerCancellationDetail(
+          scopedKey(companyId, invoiceData.chave),
+          'nota fiscal cancelada (evento no mesmo upload)',
+          displayName,
+          { increment: false, recordDetail: true },
+        );
+        continue;
+      }
+
+      const existingCancellation = await prisma.invoiceCancellation.findUnique({
+        where: { companyId_chave: { companyId, chave: invoiceData.chave } },
+        select: { statusMessage: true },
       });
-      continue;
-    }
+      if (existingCancellation) {
+        cancellationKeys.add(scopedKey(companyId, invoiceData.chave));
+        registerCancellationDetail(
+          scopedKey(companyId, invoiceData.chave),
+          existingCancellation.statusMessage || 'nota fiscal cancelada',
+          displayName,
+          { increment: false, recordDetail: true },
+        );
+        continue;
+      }
 
-    if (isCancelled) {
-      const alreadyCancelled = cancellationKeys.has(invoiceData.chave);
-      cancellationKeys.add(invoiceData.chave);
-      try {
-        await persistCancellation(companyId, {
+      const direction = deriveInvoiceDirection(invoiceData, companyCnpj);
+      if (enableDecisionLogs) {
+        logClassificationDecision({
+          companyId,
           chave: invoiceData.chave,
-          statusCode: protocol?.statusCode ?? null,
-          statusMessage: protocol?.statusMessage ?? null,
-          protocolNumber: protocol?.protocolNumber ?? null,
-          receivedAt: protocol?.receivedAt ?? null,
-        }, {
-          uploadBatchId: uploadBatch?.id ?? null,
-          sourceFileName: displayName,
+          derivedType: direction.type,
+          isSelfIssuedEntrada: direction.isSelfIssuedEntrada,
+          issuerCnpj: invoiceData.issuerCnpj,
+          recipientCnpj: invoiceData.recipientCnpj,
+          tpNF: invoiceData.tpNF,
         });
-      } catch (error) {
+      }
+      if (direction.error) {
         result.failed += 1;
-        result.details.push({
-          file: displayName,
-          status: 'failed',
-          reason: error.message || DEFAULT_REASON_GENERIC,
-        });
+        result.details.push({ file: displayName, status: 'failed', reason: direction.error });
         continue;
       }
-      registerCancellationDetail(
-        invoiceData.chave,
-        protocol?.statusMessage || 'nota fiscal cancelada',
-        displayName,
-        { increment: !alreadyCancelled, recordDetail: true },
-      );
-      continue;
-    }
 
-    if (cancellationKeys.has(invoiceData.chave)) {
-      registerCancellationDetail(
-        invoiceData.chave,
-        'nota fiscal cancelada (evento no mesmo upload)',
-        displayName,
-        { increment: false, recordDetail: true },
-      );
-      continue;
-    }
-
-    const existingCancellation = await prisma.invoiceCancellation.findUnique({
-      where: { companyId_chave: { companyId, chave: invoiceData.chave } },
-      select: { statusMessage: true },
-    });
-    if (existingCancellation) {
-      cancellationKeys.add(invoiceData.chave);
-      registerCancellationDetail(
-        invoiceData.chave,
-        existingCancellation.statusMessage || 'nota fiscal cancelada',
-        displayName,
-        { increment: false, recordDetail: true },
-      );
-      continue;
-    }
+      const totalsMismatches = reconcileInvoiceTotals(invoiceData);
+      const totalsWarning = totalsMismatches.length
+        ? `totais divergentes dos itens: ${totalsMismatches.map((m) => m.field).join(', ')}`
+        : null;
 
-    const direction = deriveInvoiceDirection(invoiceData, companyCnpj);
-    if (enableDecisionLogs) {
-      logClassificationDecision({
-        companyId,
-        chave: invoiceData.chave,
-        derivedType: direction.type,
+      const invoiceForPersistence = {
+        ...invoiceData,
+        totalsMismatches,
+        type: direction.type,
         isSelfIssuedEntrada: direction.isSelfIssuedEntrada,
-        issuerCnpj: invoiceData.issuerCnpj,
-        recipientCnpj: invoiceData.recipientCnpj,
-        tpNF: invoiceData.tpNF,
-      });
-    }
-    if (direction.error) {
-      result.failed += 1;
-      result.details.push({ file: displayName, status: 'failed', reason: direction.error });
-      continue;
-    }
+      };
 
-    const invoiceForPersistence = {
-      ...invoiceData,
-      type: direction.type,
-      isSelfIssuedEntrada: direction.isSelfIssuedEntrada,
-    };
-
-    try {
-      const persistenceOutcome = await persistInvoice(companyId, invoiceForPersistence, {
-        uploadBatchId: uploadBatch?.id ?? null,
-        sourceFileName: displayName,
-        allowCrossCompany,
-        updateExisting,
-        onCrossCompanyDuplicate: (existing) => {
-          warnings.push({
-            chave: invoiceData.chave,
-            existingCompanyId: existing.companyId,
+      try {
+        const xmlDocument = await storeXmlDocument(companyId, {
+          kind: XML_DOCUMENT_KINDS.NFE,
+          content: buffer,
+          fileName: displayName,
+        });
+        const persistenceOutcome = await persistInvoice(companyId, invoiceForPersistence, {
+          uploadBatchId: uploadBatch?.id ?? null,
+          sourceFileName: displayName,
+          xmlDocumentId: xmlDocument.id,
+          allowCrossCompany,
+          updateExisting,
+          ingestionRule,
+          onCrossCompanyDuplicate: (existing) => {
+            warnings.push({
+              chave: invoiceData.chave,
+              existingCompanyId: existing.companyId,
+            });
+          },
+        });
+        if (persistenceOutcome.status === 'inserted') {
+          result.inserted += 1;
+          const detail = { file: displayName, status: 'inserted', ...documentDetail };
+          if (invoiceData.modelo === INVOICE_MODELS.NFCE) {
+            detail.type = 'NFCE';
+          }
+          const detailWarnings = [];
+          if (persistenceOutcome.crossCompanyDuplicate) {
+            detailWarnings.push(`chave também encontrada em companyId=${persistenceOutcome.crossCompanyDuplicate}`);
+          }
+          if (totalsWarning) {
+            detailWarnings.push(totalsWarning);
+          }
+          if (detailWarnings.length) {
+            detail.warning = detailWarnings.join('; ');
+          }
+          const detailIndex = result.details.length;
+          result.details.push(detail);
+          insertedInvoices.set(scopedKey(companyId, invoiceData.chave), { detailIndex });
+        } else if (persistenceOutcome.status === 'updated') {
+          result.updated = (result.updated || 0) + 1;
+          result.details.push({
+            file: displayName,
+            status: 'updated',
+            reason: persistenceOutcome.reason,
+            updatedItems: persistenceOutcome.updatedItems ?? 0,
+            ...(totalsWarning ? { warning: totalsWarning } : {}),
+            ...documentDetail,
           });
-        },
-      });
-      if (persistenceOutcome.status === 'inserted') {
-        result.inserted += 1;
-        const detail = { file: displayName, status: 'inserted' };
-        if (persistenceOutcome.crossCompanyDuplicate) {
-          detail.warning = `chave também encontrada em companyId=${persistenceOutcome.crossCompanyDuplicate}`;
+        } else if (persistenceOutcome.status === 'duplicate') {
+          result.duplicate += 1;
+          result.details.push({ file: displayName, status: 'duplicate', reason: persistenceOutcome.reason, ...documentDetail });
+        } else {
+          result.failed += 1;
+          result.details.push({ file: displayName, status: 'failed', reason: persistenceOutcome.reason || DEFAULT_REASON_GENERIC });
         }
-        const detailIndex = result.details.length;
-        result.details.push(detail);
-        insertedInvoices.set(invoiceData.chave, { detailIndex });
-      } else if (persistenceOutcome.status === 'updated') {
-        result.updated = (result.updated || 0) + 1;
+      } catch (error) {
+        result.failed += 1;
         result.details.push({
           file: displayName,
-          status: 'updated',
-          reason: persistenceOutcome.reason,
-          updatedItems: persistenceOutcome.updatedItems ?? 0,
+          status: 'failed',
+          reason: error.message || DEFAULT_REASON_GENERIC,
         });
-      } else if (persistenceOutcome.status === 'duplicate') {
-        result.duplicate += 1;
-        result.details.push({ file: displayName, status: 'duplicate', reason: persistenceOutcome.reason });
-      } else {
-        result.failed += 1;
-        result.details.push({ file: displayName, status: 'failed', reason: persistenceOutcome.reason || DEFAULT_REASON_GENERIC });
       }
-    } catch (error) {
-      result.failed += 1;
-      result.details.push({
-        file: displayName,
-        status: 'failed',
-        reason: error.message || DEFAULT_REASON_GENERIC,
-      });
     }
   }
 
-  if (allowCrossCompany && uploadBatch?.id) {
-    const summaryPayload = {
-      inserted: result.inserted,
-      updated: result.updated,
-      duplicate: result.duplicate,
-      failed: result.failed,
-      cancelled: result.cancelled,
-      warnings,
-    };
-    await prisma.uploadBatch.update({
-      where: { id: uploadBatch.id },
-      data: { summary: summaryPayload },
-    });
-    if (warnings.length) {
-      result.warnings = warnings;
-    }
+  annotateDetailSources(result, detailSources);
+  annotateDetailCompanies(result, detailCompanies);
+  if (warnings.length) {
+    result.warnings = warnings;
+  }
+  if (routing) {
+    result.byCompany = summarizeDetailsByCompany(result.details);
   }
+  result.totalFiles = xmlEntries.length;
 
   return result;
 }
 
 module.exports = {
-  processInvoicesFromZip,
+  expandUploadFiles,
+  processUploadedFiles,
 };
@@ -10,6 +10,7 @@ const {
   INITIAL_STOCK_SC,
   INITIAL_COST_PER_SC,
 } = require('../constants/kardexConsolidated');
+const { INVOICE_MODELS } = require('../constants/invoiceModels');
 
 const Decimal = Prisma.Decimal;
 const BLOCKED_CNPJ_SET = new Set(
@@ -432,7 +433,7 @@ function describeMovementStatus(status) {
   }
 }
 
-async function buildConsolidatedKardexReport({ from, until }) {
+async function buildConsolidatedKardexReport({ from, until, includeNfce = true }) {
   const companies = await resolveTargetCompanies();
   const companyIds = companies.map((company) => company.id);
   const companyInfo = new Map(companies.map((company) => [company.id, company]));
@@ -467,6 +468,7 @@ async function buildConsolidatedKardexReport({ from, until }) {
       invoice: {
         companyId: { in: companyIds },
         emissao: { gte: queryStartDateUtc, lte: untilDate },
+        ...(includeNfce ? {} : { modelo: { not: INVOICE_MODELS.NFCE } }),
       },
       cfopCode: { notIn: ['5905', '5906'] },
     },
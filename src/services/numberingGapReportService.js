@@ -0,0 +1,218 @@
+const { prisma } = require('../prisma');
+
+// Situação de cada faixa de números sem nota emitida na série
+const NUMBERING_GAP_STATUS = Object.freeze({
+  CANCELLED: 'CANCELLED',
+  VOIDED: 'VOIDED',
+  MISSING: 'MISSING',
+});
+
+function normalizeCnpj(value) {
+  if (!value) return '';
+  return String(value).replace(/\D/g, '');
+}
+
+// modelo, série e número saem da chave (posições 21-22, 23-25 e 26-34)
+function parseAccessKey(chave) {
+  if (!/^\d{44}$/.test(chave ?? '')) return null;
+  return {
+    issuerTaxId: chave.slice(6, 20),
+    modelo: chave.slice(20, 22),
+    serie: Number(chave.slice(22, 25)),
+    numero: Number(chave.slice(25, 34)),
+  };
+}
+
+function seriesKey(modelo, serie) {
+  return `${modelo}-${serie}`;
+}
+
+function ensureSeries(seriesMap, modelo, serie) {
+  const key = seriesKey(modelo, serie);
+  if (!seriesMap.has(key)) {
+    seriesMap.set(key, {
+      modelo,
+      serie,
+      issued: new Map(),
+      explanations: [],
+    });
+  }
+  return seriesMap.get(key);
+}
+
+// Quebra a lacuna [start, end] nas faixas explicadas (ordenadas) e no que sobra como MISSING
+function classifyGap(start, end, explanations) {
+  const gaps = [];
+  let cursor = start;
+  explanations
+    .filter((explanation) => explanation.end >= start && explanation.start <= end)
+    .forEach((explanation) => {
+      const from = Math.max(explanation.start, cursor);
+      const to = Math.min(explanation.end, end);
+      if (to < from) return;
+      if (from > cursor) {
+        gaps.push({ start: cursor, end: from - 1, status: NUMBERING_GAP_STATUS.MISSING });
+      }
+      gaps.push({ ...explanation.detail, start: from, end: to, status: explanation.status });
+      cursor = to + 1;
+    });
+  if (cursor <= end) {
+    gaps.push({ start: cursor, end, status: NUMBERING_GAP_STATUS.MISSING });
+  }
+  return gaps.map((gap) => ({ ...gap, count: gap.end - gap.start + 1 }));
+}
+
+function summarizeSeries(series) {
+  const issuedNumbers = [...series.issued.keys()].sort((a, b) => a - b);
+  const explanations = [...series.explanations].sort((a, b) => a.start - b.start);
+  const bounds = [
+    ...issuedNumbers,
+    ...explanations.flatMap((explanation) => [explanation.start, explanation.end]),
+  ];
+  const firstNumber = bounds.reduce((min, value) => Math.min(min, value));
+  const lastNumber = bounds.reduce((max, value) => Math.max(max, value));
+
+  // Lacunas entre notas emitidas consecutivas, incluindo as pontas cobertas só por cancelamentos
+  const gaps = [];
+  let expected = firstNumber;
+  [...issuedNumbers, lastNumber + 1].forEach((numero) => {
+    if (numero > expected) {
+      gaps.push(...classifyGap(expected, numero - 1, explanations));
+    }
+    expected = Math.max(expected, numero + 1);
+  });
+
+  const countBy = (status) => gaps
+    .filter((gap) => gap.status === status)
+    .reduce((sum, gap) => sum + gap.count, 0);
+  const lastIssued = issuedNumbers.length ? series.issued.get(issuedNumbers[issuedNumbers.length - 1]) : null;
+
+  return {
+    modelo: series.modelo,
+    serie: series.serie,
+    firstNumber,
+    lastNumber,
+    issuedCount: issuedNumbers.length,
+    cancelledCount: countBy(NUMBERING_GAP_STATUS.CANCELLED),
+    voidedCount: countBy(NUMBERING_GAP_STATUS.VOIDED),
+    missingCount: countBy(NUMBERING_GAP_STATUS.MISSING),
+    lastEmission: lastIssued?.emissao ? lastIssued.emissao.toISOString() : null,
+    gaps,
+  };
+}
+
+async function buildNumberingGapReport({ companyId }) {
+  if (!companyId || typeof companyId !== 'string') {
+    const error = new Error('companyId é obrigatório.');
+    error.status = 400;
+    throw error;
+  }
+
+  const company = await prisma.company.findUnique({
+    where: { id: companyId },
+    select: { id: true, name: true, cnpj: true },
+  });
+
+  if (!company) {
+    const error = new Error('Empresa não encontrada.');
+    error.status = 404;
+    throw error;
+  }
+
+  const companyCnpjDigits = normalizeCnpj(company.cnpj);
+  if (companyCnpjDigits.length !== 14) {
+    const error = new Error('CNPJ da empresa inválido para conferir a numeração.');
+    error.status = 400;
+    throw error;
+  }
+
+  const [invoices, cancellations, voidings] = await Promise.all([
+    prisma.invoice.findMany({
+      where: { companyId, issuerCnpj: companyCnpjDigits },
+      select: { id: true, chave: true, emissao: true },
+    }),
+    prisma.invoiceCancellation.findMany({
+      where: { companyId },
+      select: { chave: true, eventTimestamp: true, justification: true, protocolNumber: true },
+    }),
+    prisma.invoiceNumberVoiding.findMany({
+      where: { companyId, issuerCnpj: companyCnpjDigits },
+      select: {
+        modelo: true,
+        serie: true,
+        startNumber: true,
+        endNumber: true,
+        justification: true,
+        protocolNumber: true,
+        receivedAt: true,
+      },
+    }),
+  ]);
+
+  const seriesMap = new Map();
+  invoices.forEach((invoice) => {
+    const key = parseAccessKey(invoice.chave);
+    if (!key || key.issuerTaxId !== companyCnpjDigits) return;
+    const series = ensureSeries(seriesMap, key.modelo, key.serie);
+    series.issued.set(key.numero, invoice);
+  });
+
+  // Nota cancelada é apagada na importação do evento; o número só fica registrado no cancelamento
+  cancellations.forEach((cancellation) => {
+    const key = parseAccessKey(cancellation.chave);
+    if (!key || key.issuerTaxId !== companyCnpjDigits) return;
+    const series = ensureSeries(seriesMap, key.modelo, key.serie);
+    if (series.issued.has(key.numero)) return;
+    series.explanations.push({
+      start: key.numero,
+      end: key.numero,
+      status: NUMBERING_GAP_STATUS.CANCELLED,
+      detail: {
+        chave: cancellation.chave,
+        justification: cancellation.justification ?? null,
+        protocolNumber: cancellation.protocolNumber ?? null,
+        eventTimestamp: cancellation.eventTimestamp ? cancellation.eventTimestamp.toISOString() : null,
+      },
+    });
+  });
+
+  voidings.forEach((voiding) => {
+    const series = ensureSeries(seriesMap, voiding.modelo, voiding.serie);
+    series.explanations.push({
+      start: voiding.startNumber,
+      end: voiding.endNumber,
+      status: NUMBERING_GAP_STATUS.VOIDED,
+      detail: {
+        justification: voiding.justification ?? null,
+        protocolNumber: voiding.protocolNumber ?? null,
+        eventTimestamp: voiding.receivedAt ? voiding.receivedAt.toISOString() : null,
+      },
+    });
+  });
+
+  const series = [...seriesMap.values()]
+    .map(summarizeSeries)
+    .sort((a, b) => a.modelo.localeCompare(b.modelo) || a.serie - b.serie);
+
+  return {
+    generatedAt: new Date().toISOString(),
+    company: {
+      id: company.id,
+      name: company.name,
+      cnpj: company.cnpj ?? null,
+    },
+    totals: {
+      seriesCount: series.length,
+      issuedCount: series.reduce((sum, entry) => sum + entry.issuedCount, 0),
+      cancelledCount: series.reduce((sum, entry) => sum + entry.cancelledCount, 0),
+      voidedCount: series.reduce((sum, entry) => sum + entry.voidedCount, 0),
+      missingCount: series.reduce((sum, entry) => sum + entry.missingCount, 0),
+    },
+    series,
+  };
+}
+
+module.exports = {
+  NUMBERING_GAP_STATUS,
+  buildNumberingGapReport,
+};
@@ -0,0 +1,124 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+// Os testes não abrem conexão: o client do Prisma é trocado antes de carregar o serviço
+const prisma = {};
+require.cache[require.resolve('../prisma')] = { exports: { prisma } };
+const { NUMBERING_GAP_STATUS, buildNumberingGapReport } = require('./numberingGapReportService');
+
+const companyCnpj = '11222333000181';
+
+// Chave com UF 35, emissão 01/2025 e tipo de emissão normal; o DV não é conferido pelo relatório
+function accessKey({ numero, serie = 1, modelo = '55', cnpj = companyCnpj }) {
+  return `352501${cnpj}${modelo}${String(serie).padStart(3, '0')}${String(numero).padStart(9, '0')}1000000010`;
+}
+
+function useDocuments({ invoices = [], cancellations = [], voidings = [] }) {
+  prisma.company = { findUnique: async () => ({ id: 'company-1', name: 'Empresa', cnpj: companyCnpj }) };
+  prisma.invoice = { findMany: async () => invoices };
+  prisma.invoiceCancellation = { findMany: async () => cancellations };
+  prisma.invoiceNumberVoiding = { findMany: async () => voidings };
+}
+
+function invoice(numero, options = {}) {
+  return { id: `invoice-${numero}`, chave: accessKey({ numero, ...options }), emissao: new Date('2025-01-10T12:00:00Z') };
+}
+
+function voiding(startNumber, endNumber, serie = 1) {
+  return {
+    modelo: '55',
+    serie,
+    startNumber,
+    endNumber,
+    justification: 'Falha no sistema emissor',
+    protocolNumber: '135250000000001',
+    receivedAt: new Date('2025-01-20T12:00:00Z'),
+  };
+}
+
+test('classifica as lacunas entre notas emitidas', async () => {
+  useDocuments({
+    invoices: [invoice(1), invoice(2), invoice(5), invoice(9)],
+    cancellations: [{ chave: accessKey({ numero: 3 }), justification: 'Erro de digitação', protocolNumber: '1', eventTimestamp: null }],
+    voidings: [voiding(6, 7)],
+  });
+
+  const report = await buildNumberingGapReport({ companyId: 'company-1' });
+  const [series] = report.series;
+
+  assert.deepEqual(
+    series.gaps.map(({ start, end, status, count }) => ({ start, end, status, count })),
+    [
+      { start: 3, end: 3, status: NUMBERING_GAP_STATUS.CANCELLED, count: 1 },
+      { start: 4, end: 4, status: NUMBERING_GAP_STATUS.MISSING, count: 1 },
+      { start: 6, end: 7, status: NUMBERING_GAP_STATUS.VOIDED, count: 2 },
+      { start: 8, end: 8, status: NUMBERING_GAP_STATUS.MISSING, count: 1 },
+    ],
+  );
+  assert.equal(series.gaps[0].justification, 'Erro de digitação');
+  assert.deepEqual(
+    [series.firstNumber, series.lastNumber, series.issuedCount, series.cancelledCount, series.voidedCount, series.missingCount],
+    [1, 9, 4, 1, 2, 2],
+  );
+  assert.equal(series.lastEmission, '2025-01-10T12:00:00.000Z');
+});
+
+test('inclui as pontas cobertas só por cancelamento ou inutilização', async () => {
+  useDocuments({
+    invoices: [invoice(5)],
+    cancellations: [{ chave: accessKey({ numero: 3 }), justification: null, protocolNumber: null, eventTimestamp: null }],
+    voidings: [voiding(8, 10)],
+  });
+
+  const [series] = (await buildNumberingGapReport({ companyId: 'company-1' })).series;
+
+  assert.deepEqual(
+    series.gaps.map(({ start, end, status }) => [start, end, status]),
+    [
+      [3, 3, NUMBERING_GAP_STATUS.CANCELLED],
+      [4, 4, NUMBERING_GAP_STATUS.MISSING],
+      [6, 7, NUMBERING_GAP_STATUS.MISSING],
+      [8, 10, NUMBERING_GAP_STATUS.VOIDED],
+    ],
+  );
+  assert.deepEqual([series.firstNumber, series.lastNumber], [3, 10]);
+});
+
+test('ignora cancelamento de nota ainda presente e de outro emitente', async () => {
+  useDocuments({
+    invoices: [invoice(1), invoice(2), invoice(3)],
+    cancellations: [
+      { chave: accessKey({ numero: 2 }), justification: null, protocolNumber: null, eventTimestamp: null },
+      { chave: accessKey({ numero: 7, cnpj: '30404512000184' }), justification: null, protocolNumber: null, eventTimestamp: null },
+    ],
+  });
+
+  const report = await buildNumberingGapReport({ companyId: 'company-1' });
+
+  assert.equal(report.series.length, 1);
+  assert.deepEqual(report.series[0].gaps, []);
+  assert.equal(report.totals.cancelledCount, 0);
+});
+
+test('separa as séries por modelo e número de série', async () => {
+  useDocuments({
+    invoices: [invoice(1), invoice(3), invoice(1, { serie: 2 }), invoice(4, { modelo: '65' })],
+    voidings: [voiding(2, 2, 2)],
+  });
+
+  const report = await buildNumberingGapReport({ companyId: 'company-1' });
+
+  assert.deepEqual(report.series.map(({ modelo, serie }) => `${modelo}-${serie}`), ['55-1', '55-2', '65-1']);
+  assert.deepEqual(report.series.map(({ missingCount, voidedCount }) => [missingCount, voidedCount]), [[1, 0], [0, 1], [0, 0]]);
+  assert.deepEqual(
+    [report.totals.seriesCount, report.totals.issuedCount, report.totals.missingCount, report.totals.voidedCount],
+    [3, 4, 1, 1],
+  );
+});
+
+test('recusa empresa sem CNPJ válido', async () => {
+  useDocuments({});
+  prisma.company = { findUnique: async () => ({ id: 'company-1', name: 'Empresa', cnpj: null }) };
+
+  await assert.rejects(buildNumberingGapReport({ companyId: 'company-1' }), { status: 400 });
+});
@@ -99,14 +99,14 @@ function buildProductRow(bucket) {
   };
 }
 
-async function buildSalesByPeriodReport({ from, to }) {
+async function buildSalesByPeriodReport({ from, to, includeNfce = true }) {
   const { start, end } = validatePeriod({ from, to });
   const inclusiveStart = new Date(start);
   inclusiveStart.setUTCHours(0, 0, 0, 0);
   const inclusiveEnd = new Date(end);
   inclusiveEnd.setUTCHours(23, 59, 59, 999);
 
-  const baseReport = await buildConsolidatedKardexReport({ until: inclusiveEnd });
+  const baseReport = await buildConsolidatedKardexReport({ until: inclusiveEnd, includeNfce });
   const finishedSales = Array.isArray(baseReport?.finishedSales)
     ? baseReport.finishedSales
     : [];
@@ -170,6 +170,7 @@ async function buildSalesByPeriodReport({ from, to }) {
     filters: {
       from: inclusiveStart.toISOString(),
       to: inclusiveEnd.toISOString(),
+      includeNfce,
     },
     products,
     totals: {
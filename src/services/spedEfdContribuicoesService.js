@@ -0,0 +1,776 @@
+const { prisma } = require('../prisma');
+const { INVOICE_MODELS, INVOICE_PURPOSES } = require('../constants/invoiceModels');
+const {
+  parseSpedPeriod,
+  toDecimal,
+  sumDecimals,
+  formatSpedDate,
+  formatSpedDecimal,
+  spedText,
+  onlyDigits,
+  createSpedWriter,
+} = require('../utils/spedFormat');
+const {
+  SPED_INVOICE_SELECT,
+  loadSpedCompany,
+  createInvoiceExtrasReader,
+  toEntryCfop,
+  resolveCompanyRegistration,
+  createParticipantRegistry,
+  createItemRegistry,
+} = require('./spedRegistryService');
+
+// COD_VER do 0000: leiaute vigente para fatos geradores a partir de 01/2019
+const LAYOUT_VERSION = '006';
+const LAYOUT_START_YEAR = 2019;
+
+// IND_ATIV do 0000
+const ACTIVITIES = Object.freeze({
+  0: 'Industrial ou equiparado',
+  1: 'Prestador de serviços',
+  2: 'Comércio',
+  3: 'Financeira',
+  4: 'Imobiliária',
+  9: 'Outros',
+});
+
+// Regime não cumulativo com alíquotas básicas (Leis 10.637/2002 e 10.833/2003)
+const BASIC_RATES = Object.freeze({
+  pis: toDecimal('1.65'),
+  cofins: toDecimal('7.6'),
+});
+
+// CST de PIS/COFINS (tabela 4.3.3 e 4.3.4)
+const CONTRIBUTION_CST = Object.freeze({
+  BASIC_RATE: '01',
+  DIFFERENTIATED_RATE: '02',
+  UNIT_RATE: '03',
+  CREDIT: '50',
+  NO_CREDIT: '70',
+  OTHER_ENTRIES: '98',
+});
+
+// Saídas com receita fora da incidência vão para os M400/M800
+const NON_TAXED_REVENUE_CST = Object.freeze(['04', '05', '06', '07', '08', '09']);
+
+// CST do fornecedor sem direito a crédito -> CST da entrada
+// (04 monofásico, 05 ST, 06 alíquota zero, 07 isenta, 08 sem incidência, 09 suspensão)
+const NO_CREDIT_ENTRY_CST = Object.freeze({
+  '04': '70',
+  '05': '75',
+  '06': '73',
+  '07': '71',
+  '08': '74',
+  '09': '72',
+});
+
+// NAT_BC_CRED (tabela 4.3.7) pelos três últimos dígitos do CFOP de entrada
+const CREDIT_NATURES = Object.freeze({
+  102: '01',
+  113: '01',
+  117: '01',
+  118: '01',
+  121: '01',
+  403: '01',
+  652: '01',
+  101: '02',
+  111: '02',
+  116: '02',
+  120: '02',
+  122: '02',
+  124: '02',
+  125: '02',
+  401: '02',
+  651: '02',
+  201: '12',
+  202: '12',
+  410: '12',
+  411: '12',
+});
+
+// COD_CRED 101: alíquota básica, vinculado exclusivamente a receita tributada no mercado interno
+const CREDIT_CODE = '101';
+
+// COD_CONT do M210/M610
+const CONTRIBUTION_CODES = Object.freeze({
+  BASIC_RATE: '01',
+  DIFFERENTIATED_RATE: '02',
+});
+
+// Código de receita do DARF (M205/M605) para PIS e COFINS não cumulativos
+const REVENUE_CODES = Object.freeze({
+  pis: '691201',
+  cofins: '585601',
+});
+
+// AAAAMM em que o ICMS passou a ser excluído da base do crédito
+const ICMS_CREDIT_DEDUCTION_START = 202305;
+
+const ITEM_ISSUES_LIMIT = 200;
+
+function createBadRequest(message) {
+  const error = new Error(message);
+  error.status = 400;
+  return error;
+}
+
+function parseAccessKey(chave) {
+  if (!/^\d{44}$/.test(chave ?? '')) return null;
+  return {
+    serie: String(Number(chave.slice(22, 25))),
+    numero: String(Number(chave.slice(25, 34))),
+  };
+}
+
+function formatRate(value) {
+  return value == null ? '' : formatSpedDecimal(value, 4);
+}
+
+function toAmount(value) {
+  return Number(toDecimal(value).toFixed(2));
+}
+
+function percentOf(base, rate) {
+  return toDecimal(base).mul(toDecimal(rate)).div(100).toDecimalPlaces(2);
+}
+
+// IND_PGTO: 0 = à vista, 1 = a prazo, 2 = outros (sem pagamento informado)
+function resolvePaymentIndicator(invoice) {
+  if (invoice.installments.length || invoice.payments.some((payment) => payment.indPag === '1')) return '1';
+  if (invoice.payments.some((payment) => payment.tPag !== '90')) return '0';
+  return '2';
+}
+
+// CST_ICMS do SPED = origem + CST; CSOSN não existe no leiaute e entra como 90
+function resolveIcmsCst(origin, cst, csosn) {
+  const code = cst ? cst.padStart(2, '0').slice(-2) : csosn ? '90' : null;
+  return code ? `${origin ?? '0'}${code}` : '';
+}
+
+function addToGroup(groups, key, seed, values) {
+  if (!groups.has(key)) groups.set(key, { ...seed, totals: {} });
+  const group = groups.get(key);
+  Object.entries(values).forEach(([field, value]) => {
+    group.totals[field] = (group.totals[field] ?? toDecimal(0)).add(toDecimal(value));
+  });
+}
+
+function itemRevenue(item) {
+  return toDecimal(item.gross).sub(toDecimal(item.discount));
+}
+
+// Lei 14.592/2023: o ICMS destacado sai da base do crédito a partir de 05/2023
+function deductsIcmsFromCredit(period) {
+  return period.year * 100 + period.month >= ICMS_CREDIT_DEDUCTION_START;
+}
+
+// Base do crédito na aquisição: custo do item, sem o ICMS destacado nos períodos em que a lei exige
+function itemCreditBase(item, period) {
+  const base = sumDecimals([item.gross, item.vFrete, item.vSeg, item.vOutro, item.vST, item.ipiValue])
+    .sub(toDecimal(item.discount));
+  return deductsIcmsFromCredit(period) ? base.sub(toDecimal(item.icmsValue ?? item.vICMS)) : base;
+}
+
+// Entrada de terceiros: o CST do XML é o do fornecedor; o crédito depende dele e da finalidade (CFOP)
+function resolveEntryContribution(supplierCst, cfop) {
+  const nature = CREDIT_NATURES[cfop.slice(1)] ?? null;
+  if (NO_CREDIT_ENTRY_CST[supplierCst]) {
+    return { cst: NO_CREDIT_ENTRY_CST[supplierCst], nature: null };
+  }
+  if (nature) return { cst: CONTRIBUTION_CST.CREDIT, nature };
+  if (cfop[1] === '9') return { cst: CONTRIBUTION_CST.OTHER_ENTRIES, nature: null };
+  return { cst: CONTRIBUTION_CST.NO_CREDIT, nature: null };
+}
+
+// PIS/COFINS de cada item: saídas próprias usam o que veio no XML; entradas recebem o CST de crédito
+function resolveItemContribution(item, { isOwnIssued, isEntry, cfop, period }) {
+  const isOwnEntryCst = isOwnIssued && Number(item.cstPIS) >= 50;
+  if (!isEntry || isOwnEntryCst) {
+    return {
+      nature: isOwnEntryCst ? CREDIT_NATURES[cfop.slice(1)] ?? null : null,
+      pis: { cst: item.cstPIS, base: item.vBCPIS, rate: item.pPIS, value: item.pisValue },
+      cofins: { cst: item.cstCOFINS, base: item.vBCCOFINS, rate: item.pCOFINS, value: item.cofinsValue },
+    };
+  }
+
+  const pisEntry = resolveEntryContribution(item.cstPIS, cfop);
+  const cofinsEntry = resolveEntryContribution(item.cstCOFINS ?? item.cstPIS, cfop);
+  const base = itemCreditBase(item, period);
+  const build = (entry, rate) => (entry.cst === CONTRIBUTION_CST.CREDIT
+    ? { cst: entry.cst, base, rate, value: percentOf(base, rate) }
+    : { cst: entry.cst, base: null, rate: null, value: null });
+  return {
+    nature: pisEntry.nature ?? cofinsEntry.nature,
+    pis: build(pisEntry, BASIC_RATES.pis),
+    cofins: build(cofinsEntry, BASIC_RATES.cofins),
+  };
+}
+
+// Pendências do item para o resumo de validação
+function describeItemIssues(item, contribution, isEntry) {
+  const issues = [];
+  if (!item.cstPIS) issues.push('CST do PIS ausente');
+  if (!item.cstCOFINS) issues.push('CST da COFINS ausente');
+  if (isEntry) return issues;
+  const taxed = [CONTRIBUTION_CST.BASIC_RATE, CONTRIBUTION_CST.DIFFERENTIATED_RATE];
+  if (taxed.includes(contribution.pis.cst) && contribution.pis.rate == null) issues.push('alíquota do PIS ausente');
+  if (taxed.includes(contribution.cofins.cst) && contribution.cofins.rate == null) {
+    issues.push('alíquota da COFINS ausente');
+  }
+  if (contribution.pis.cst === CONTRIBUTION_CST.UNIT_RATE || contribution.cofins.cst === CONTRIBUTION_CST.UNIT_RATE) {
+    issues.push('tributação por unidade de medida não suportada');
+  }
+  return issues;
+}
+
+function contributionFields(tax) {
+  return [
+    tax.cst ?? '',
+    tax.base != null ? formatSpedDecimal(tax.base) : '',
+    formatRate(tax.rate),
+    '',
+    '',
+    formatSpedDecimal(tax.value ?? 0),
+  ];
+}
+
+// Consolida débitos (M210), créditos (M105) e receitas não tributadas (M400) de um tributo
+function createContributionLedger() {
+  const debits = new Map();
+  const credits = new Map();
+  const nonTaxed = new Map();
+
+  const add = (tax, { revenue, nature }) => {
+    if ([CONTRIBUTION_CST.BASIC_RATE, CONTRIBUTION_CST.DIFFERENTIATED_RATE].includes(tax.cst) && tax.rate != null) {
+      const rate = toDecimal(tax.rate);
+      const code = tax.cst === CONTRIBUTION_CST.BASIC_RATE && (rate.eq(BASIC_RATES.pis) || rate.eq(BASIC_RATES.cofins))
+        ? CONTRIBUTION_CODES.BASIC_RATE
+        : CONTRIBUTION_CODES.DIFFERENTIATED_RATE;
+      addToGroup(debits, `${code}|${rate.toFixed(4)}`, { code, rate }, { revenue, base: tax.base });
+    } else if (tax.cst === CONTRIBUTION_CST.CREDIT && nature) {
+      addToGroup(credits, nature, { nature }, { base: tax.base });
+    } else if (NON_TAXED_REVENUE_CST.includes(tax.cst)) {
+      addToGroup(nonTaxed, tax.cst, { cst: tax.cst }, { revenue });
+    }
+  };
+
+  // Crédito do mês abate o débito; o que sobra fica como saldo a utilizar
+  const settle = (creditRate) => {
+    const debitRows = [...debits.values()].map((group) => ({
+      ...group,
+      contribution: percentOf(group.totals.base, group.rate),
+    }));
+    const creditRows = [...credits.values()].sort((a, b) => a.nature.localeCompare(b.nature));
+    const creditBase = sumDecimals(creditRows.map((group) => group.totals.base));
+    const credit = percentOf(creditBase, creditRate);
+    const debit = sumDecimals(debitRows.map((row) => row.contribution));
+    const creditUsed = credit.gt(debit) ? debit : credit;
+    return {
+      debitRows,
+      creditRows,
+      creditBase,
+      credit,
+      debit,
+      creditUsed,
+      creditBalance: credit.sub(creditUsed),
+      due: debit.sub(creditUsed),
+      nonTaxedRows: [...nonTaxed.values()].sort((a, b) => a.cst.localeCompare(b.cst)),
+    };
+  };
+
+  return { add, settle };
+}
+
+// Bloco M de um tributo: crédito (M100/M105), contribuição (M200/M205/M210) e receitas não tributadas (M400)
+function writeContributionBlock(writer, { registers, settlement, rate, revenueCode, creditCst }) {
+  if (settlement.creditRows.length) {
+    writer.add(registers.credit, [
+      CREDIT_CODE,
+      '0',
+      formatSpedDecimal(settlement.creditBase),
+      formatRate(rate),
+      '',
+      '',
+      formatSpedDecimal(settlement.credit),
+      formatSpedDecimal(0),
+      formatSpedDecimal(0),
+      formatSpedDecimal(0),
+      formatSpedDecimal(settlement.credit),
+      settlement.creditUsed.eq(settlement.credit) ? '0' : '1',
+      formatSpedDecimal(settlement.creditUsed),
+      formatSpedDecimal(settlement.creditBalance),
+    ]);
+    settlement.creditRows.forEach((group) => {
+      writer.add(registers.creditDetail, [
+        group.nature,
+        creditCst,
+        formatSpedDecimal(group.totals.base),
+        formatSpedDecimal(0),
+        formatSpedDecimal(group.totals.base),
+        formatSpedDecimal(group.totals.base),
+        '',
+        '',
+        '',
+      ]);
+    });
+  }
+
+  writer.add(registers.contribution, [
+    formatSpedDecimal(settlement.debit),
+    formatSpedDecimal(settlement.creditUsed),
+    formatSpedDecimal(0),
+    formatSpedDecimal(settlement.due),
+    formatSpedDecimal(0),
+    formatSpedDecimal(0),
+    formatSpedDecimal(settlement.due),
+    formatSpedDecimal(0),
+    formatSpedDecimal(0),
+    formatSpedDecimal(0),
+    formatSpedDecimal(0),
+    formatSpedDecimal(settlement.due),
+  ]);
+  if (settlement.due.gt(0)) {
+    writer.add(registers.revenueCode, ['08', revenueCode, formatSpedDecimal(settlement.due)]);
+  }
+  settlement.debitRows.forEach((row) => {
+    writer.add(registers.contributionDetail, [
+      row.code,
+      formatSpedDecimal(row.totals.revenue),
+      formatSpedDecimal(row.totals.base),
+      formatSpedDecimal(0),
+      formatSpedDecimal(0),
+      formatSpedDecimal(row.totals.base),
+      formatRate(row.rate),
+      '',
+      '',
+      formatSpedDecimal(row.contribution),
+      formatSpedDecimal(0),
+      formatSpedDecimal(0),
+      formatSpedDecimal(0),
+      formatSpedDecimal(0),
+      formatSpedDecimal(row.contribution),
+    ]);
+  });
+  settlement.nonTaxedRows.forEach((row) => {
+    writer.add(registers.nonTaxed, [row.cst, formatSpedDecimal(row.totals.revenue), '', '']);
+  });
+}
+
+function loadPeriodDocuments(companyId, companyCnpj, period) {
+  const emissao = { gte: period.start, lte: period.end };
+  return Promise.all([
+    prisma.invoice.findMany({
+      where: { companyId, emissao },
+      orderBy: [{ emissao: 'asc' }, { chave: 'asc' }],
+      select: SPED_INVOICE_SELECT,
+    }),
+    prisma.serviceInvoice.findMany({
+      where: { companyId, emissao, type: 'OUT', providerCnpj: companyCnpj, isCancelled: false },
+      orderBy: [{ emissao: 'asc' }, { numero: 'asc' }],
+      select: {
+        id: true,
+        numero: true,
+        codigoVerificacao: true,
+        emissao: true,
+        competencia: true,
+        takerCnpj: true,
+        takerName: true,
+        serviceCode: true,
+        municipalServiceCode: true,
+        description: true,
+        servicesValue: true,
+        issValue: true,
+        pisValue: true,
+        cofinsValue: true,
+      },
+    }),
+  ]);
+}
+
+async function buildEfdContribuicoes({ companyId, period: rawPeriod, activity = '2' }) {
+  const period = parseSpedPeriod(rawPeriod);
+  if (!ACTIVITIES[activity]) {
+    throw createBadRequest(`Indicador de atividade inválido. Use ${Object.keys(ACTIVITIES).join(', ')}.`);
+  }
+  if (period.year < LAYOUT_START_YEAR) {
+    throw createBadRequest(`Períodos anteriores a ${LAYOUT_START_YEAR} não são suportados.`);
+  }
+
+  const errors = [];
+  const warnings = [];
+  const { company, companyCnpj } = await loadSpedCompany(companyId);
+  const [invoices, serviceInvoices] = await loadPeriodDocuments(companyId, companyCnpj, period);
+
+  const readInvoiceExtras = createInvoiceExtrasReader();
+  const participants = createParticipantRegistry();
+  const items = createItemRegistry();
+  const pisLedger = createContributionLedger();
+  const cofinsLedger = createContributionLedger();
+  const c100Entries = [];
+  const a100Entries = [];
+  const itemIssues = [];
+  const counters = { unrelatedInvoices: 0, itemsWithIssues: 0 };
+
+  // Bloco C: NF-e (C100/C170) e NFC-e (C100/C175) em que a empresa é emitente ou destinatária
+  for (const invoice of invoices) {
+    const isOwnIssued = invoice.issuerCnpj === companyCnpj;
+    if (!isOwnIssued && invoice.recipientCnpj !== companyCnpj) {
+      counters.unrelatedInvoices += 1;
+      continue;
+    }
+    const key = parseAccessKey(invoice.chave);
+    const isConsumerInvoice = invoice.modelo === INVOICE_MODELS.NFCE;
+    const isEntry = invoice.type === 'IN';
+    const counterpartyTaxId = isOwnIssued ? invoice.recipientCnpj : invoice.issuerCnpj;
+    const codPart = isConsumerInvoice
+      ? ''
+      : participants.register(counterpartyTaxId, {
+        xmlDocumentId: invoice.xmlDocumentId,
+        role: isOwnIssued ? 'recipient' : 'issuer',
+        fallbackName: isOwnIssued ? invoice.recipientName : null,
+      });
+
+    const c170 = [];
+    const c175 = new Map();
+    const documentTotals = { pis: toDecimal(0), cofins: toDecimal(0) };
+    invoice.items.forEach((item, index) => {
+      const cfop = isOwnIssued ? onlyDigits(item.cfopCode) : toEntryCfop(item.cfopCode);
+      const contribution = resolveItemContribution(item, { isOwnIssued, isEntry, cfop, period });
+      const revenue = itemRevenue(item);
+      pisLedger.add(contribution.pis, { revenue, nature: contribution.nature });
+      cofinsLedger.add(contribution.cofins, { revenue, nature: contribution.nature });
+      documentTotals.pis = documentTotals.pis.add(toDecimal(contribution.pis.value));
+      documentTotals.cofins = documentTotals.cofins.add(toDecimal(contribution.cofins.value));
+
+      const issues = describeItemIssues(item, contribution, isEntry);
+      if (issues.length) {
+        counters.itemsWithIssues += 1;
+        if (itemIssues.length < ITEM_ISSUES_LIMIT) {
+          itemIssues.push({
+            invoiceId: invoice.id,
+            chave: invoice.chave,
+            numero: invoice.numero ?? key?.numero ?? null,
+            emissao: invoice.emissao.toISOString(),
+            itemNumber: index + 1,
+            description: item.description ?? null,
+            cfop,
+            issues,
+          });
+        }
+      }
+
+      if (isConsumerInvoice) {
+        addToGroup(
+          c175,
+          [cfop, contribution.pis.cst, formatRate(contribution.pis.rate), contribution.cofins.cst, formatRate(contribution.cofins.rate)].join('|'),
+          { cfop, pis: contribution.pis, cofins: contribution.cofins },
+          {
+            operation: item.gross,
+            discount: item.discount,
+            pisBase: contribution.pis.base,
+            pisValue: contribution.pis.value,
+            cofinsBase: contribution.cofins.base,
+            cofinsValue: contribution.cofins.value,
+          },
+        );
+        return;
+      }
+
+      const itemRef = items.register(item, { supplierTaxId: isOwnIssued ? null : counterpartyTaxId });
+      c170.push([
+        String(index + 1),
+        itemRef.code,
+        spedText(item.description, 255),
+        formatSpedDecimal(item.qty, 5),
+        itemRef.unit,
+        formatSpedDecimal(item.gross),
+        formatSpedDecimal(item.discount),
+        '0',
+        resolveIcmsCst(item.icmsOrigin, item.cst, item.csosn),
+        cfop,
+        '',
+        formatSpedDecimal(item.vBC ?? 0),
+        formatSpedDecimal(item.pICMS),
+        formatSpedDecimal(item.icmsValue ?? item.vICMS ?? 0),
+        formatSpedDecimal(item.vBCST ?? 0),
+        '',
+        formatSpedDecimal(item.vST ?? 0),
+        '',
+        '',
+        '',
+        '',
+        '',
+        formatSpedDecimal(item.ipiValue ?? 0),
+        ...contributionFields(contribution.pis),
+        ...contributionFields(contribution.cofins),
+        '',
+      ]);
+    });
+
+    c100Entries.push({
+      fields: [
+        isEntry ? '0' : '1',
+        isOwnIssued ? '0' : '1',
+        codPart,
+        invoice.modelo,
+        invoice.finalidade === INVOICE_PURPOSES.COMPLEMENTAR ? '06' : '00',
+        key?.serie ?? '',
+        invoice.numero ?? key?.numero ?? '',
+        invoice.chave,
+        formatSpedDate(invoice.emissao),
+        isConsumerInvoice ? '' : formatSpedDate(invoice.entradaSaida),
+        formatSpedDecimal(invoice.totalNFe),
+        resolvePaymentIndicator(invoice),
+        formatSpedDecimal(invoice.totalDesc ?? 0),
+        formatSpedDecimal(0),
+        formatSpedDecimal(invoice.totalProd ?? 0),
+        isConsumerInvoice ? '' : invoice.freightMode ?? '9',
+        formatSpedDecimal(invoice.totalFrete ?? 0),
+        formatSpedDecimal(invoice.totalSeg ?? 0),
+        formatSpedDecimal(invoice.totalOutro ?? 0),
+        formatSpedDecimal(sumDecimals(invoice.items.map((item) => item.vBC))),
+        formatSpedDecimal(sumDecimals(invoice.items.map((item) => item.icmsValue ?? item.vICMS))),
+        isConsumerInvoice ? '' : formatSpedDecimal(sumDecimals(invoice.items.map((item) => item.vBCST))),
+        isConsumerInvoice ? '' : formatSpedDecimal(invoice.totalST ?? 0),
+        isConsumerInvoice ? '' : formatSpedDecimal(invoice.totalIPI ?? 0),
+        formatSpedDecimal(documentTotals.pis),
+        formatSpedDecimal(documentTotals.cofins),
+        '',
+        '',
+      ],
+      c170,
+      c175: [...c175.values()].map((group) => [
+        group.cfop,
+        formatSpedDecimal(group.totals.operation),
+        formatSpedDecimal(group.totals.discount),
+        ...contributionFields({ ...group.pis, base: group.totals.pisBase, value: group.totals.pisValue }),
+        ...contributionFields({ ...group.cofins, base: group.totals.cofinsBase, value: group.totals.cofinsValue }),
+        '',
+        '',
+      ]),
+    });
+  }
+
+  // Bloco A: NFS-e prestadas. A NFS-e não traz CST; a receita entra como tributada à alíquota básica.
+  // Serviços tomados só geram crédito quando são insumo e ficam para ajuste no PVA.
+  serviceInvoices.forEach((service) => {
+    const revenue = toDecimal(service.servicesValue);
+    const pis = { cst: CONTRIBUTION_CST.BASIC_RATE, base: revenue, rate: BASIC_RATES.pis, value: percentOf(revenue, BASIC_RATES.pis) };
+    const cofins = { cst: CONTRIBUTION_CST.BASIC_RATE, base: revenue, rate: BASIC_RATES.cofins, value: percentOf(revenue, BASIC_RATES.cofins) };
+    pisLedger.add(pis, { revenue });
+    cofinsLedger.add(cofins, { revenue });
+
+    const takerTaxId = onlyDigits(service.takerCnpj);
+    const codPart = takerTaxId ? participants.register(takerTaxId, { fallbackName: service.takerName }) : '';
+    const serviceCode = items.registerService(
+      `SERV-${service.serviceCode ?? service.municipalServiceCode ?? 'GERAL'}`,
+      service.description ?? 'Prestação de serviço',
+    );
+    a100Entries.push({
+      fields: [
+        '1',
+        '0',
+        codPart,
+        '00',
+        '',
+        '',
+        service.numero,
+        service.codigoVerificacao ?? '',
+        formatSpedDate(service.emissao),
+        formatSpedDate(service.competencia),
+        formatSpedDecimal(revenue),
+        '0',
+        formatSpedDecimal(0),
+        formatSpedDecimal(pis.base),
+        formatSpedDecimal(pis.value),
+        formatSpedDecimal(cofins.base),
+        formatSpedDecimal(cofins.value),
+        formatSpedDecimal(service.pisValue ?? 0),
+        formatSpedDecimal(service.cofinsValue ?? 0),
+        formatSpedDecimal(service.issValue ?? 0),
+      ],
+      a170: [
+        '1',
+        serviceCode,
+        spedText(service.description, 255),
+        formatSpedDecimal(revenue),
+        formatSpedDecimal(0),
+        '',
+        '',
+        ...[pis, cofins].flatMap((tax) => [
+          tax.cst,
+          formatSpedDecimal(tax.base),
+          formatRate(tax.rate),
+          formatSpedDecimal(tax.value),
+        ]),
+        '',
+        '',
+      ],
+    });
+  });
+
+  const registration = await resolveCompanyRegistration({ invoices, companyCnpj, readInvoiceExtras, errors });
+  const participantRows = await participants.buildRows({ companyId, readInvoiceExtras, errors });
+  items.validate({ errors, warnings });
+
+  if (counters.itemsWithIssues) {
+    errors.push(`${counters.itemsWithIssues} item(ns) sem CST ou alíquota de PIS/COFINS. Reimporte os XMLs ou corrija no PVA.`);
+  }
+  if (counters.unrelatedInvoices) {
+    warnings.push(`${counters.unrelatedInvoices} nota(s) do período sem a empresa como emitente ou destinatária foram ignoradas.`);
+  }
+  if (a100Entries.length) {
+    warnings.push('NFS-e prestadas foram escrituradas com CST 01 (alíquota básica); ajuste no PVA as receitas com outro tratamento.');
+  }
+  warnings.push('Créditos das entradas calculados à alíquota básica sobre o custo sem ICMS, pelo CFOP (revenda, insumo e devoluções).');
+  warnings.push('Registro 0100 (contabilista) não é gerado; complete-o no PVA.');
+
+  const pisSettlement = pisLedger.settle(BASIC_RATES.pis);
+  const cofinsSettlement = cofinsLedger.settle(BASIC_RATES.cofins);
+  if (pisSettlement.nonTaxedRows.length || cofinsSettlement.nonTaxedRows.length) {
+    warnings.push('Receitas não tributadas (M400/M800) saem sem o detalhamento por natureza (M410/M810); informe-o no PVA.');
+  }
+
+  const writer = createSpedWriter();
+  writer.add('0000', [
+    LAYOUT_VERSION,
+    '0',
+    '',
+    '',
+    formatSpedDate(period.start),
+    formatSpedDate(period.end),
+    spedText(company.name, 100),
+    companyCnpj,
+    registration?.address?.uf ?? '',
+    registration?.address?.cityCode ?? '',
+    '',
+    '00',
+    activity,
+  ]);
+  writer.openBlock('0', true);
+  writer.add('0110', ['1', '1', '1', '']);
+  writer.add('0140', [
+    '',
+    spedText(company.name, 100),
+    companyCnpj,
+    registration?.address?.uf ?? '',
+    onlyDigits(registration?.stateRegistration),
+    registration?.address?.cityCode ?? '',
+    '',
+    '',
+  ]);
+  participantRows.forEach((row) => writer.add('0150', row));
+  items.writeRecords(writer);
+  writer.closeBlock('0');
+
+  writer.openBlock('A', a100Entries.length > 0);
+  if (a100Entries.length) {
+    writer.add('A010', [companyCnpj]);
+    a100Entries.forEach((entry) => {
+      writer.add('A100', entry.fields);
+      writer.add('A170', entry.a170);
+    });
+  }
+  writer.closeBlock('A');
+
+  writer.openBlock('C', c100Entries.length > 0);
+  if (c100Entries.length) {
+    writer.add('C010', [companyCnpj, '2']);
+    c100Entries.forEach((entry) => {
+      writer.add('C100', entry.fields);
+      entry.c170.forEach((row) => writer.add('C170', row));
+      entry.c175.forEach((row) => writer.add('C175', row));
+    });
+  }
+  writer.closeBlock('C');
+
+  ['D', 'F', 'I'].forEach((block) => {
+    writer.openBlock(block, false);
+    writer.closeBlock(block);
+  });
+
+  writer.openBlock('M', true);
+  writeContributionBlock(writer, {
+    registers: {
+      credit: 'M100',
+      creditDetail: 'M105',
+      contribution: 'M200',
+      revenueCode: 'M205',
+      contributionDetail: 'M210',
+      nonTaxed: 'M400',
+    },
+    settlement: pisSettlement,
+    rate: BASIC_RATES.pis,
+    revenueCode: REVENUE_CODES.pis,
+    creditCst: CONTRIBUTION_CST.CREDIT,
+  });
+  writeContributionBlock(writer, {
+    registers: {
+      credit: 'M500',
+      creditDetail: 'M505',
+      contribution: 'M600',
+      revenueCode: 'M605',
+      contributionDetail: 'M610',
+      nonTaxed: 'M800',
+    },
+    settlement: cofinsSettlement,
+    rate: BASIC_RATES.cofins,
+    revenueCode: REVENUE_CODES.cofins,
+    creditCst: CONTRIBUTION_CST.CREDIT,
+  });
+  writer.closeBlock('M');
+
+  ['P', '1'].forEach((block) => {
+    writer.openBlock(block, false);
+    writer.closeBlock(block);
+  });
+
+  const content = writer.finish();
+  const summarizeSettlement = (settlement) => ({
+    debit: toAmount(settlement.debit),
+    creditBase: toAmount(settlement.creditBase),
+    credit: toAmount(settlement.credit),
+    creditUsed: toAmount(settlement.creditUsed),
+    creditBalance: toAmount(settlement.creditBalance),
+    due: toAmount(settlement.due),
+  });
+
+  return {
+    generatedAt: new Date().toISOString(),
+    company: {
+      id: company.id,
+      name: company.name,
+      cnpj: company.cnpj ?? null,
+    },
+    period: period.label,
+    fileName: `efd-contribuicoes-${companyCnpj}-${period.label}.txt`,
+    validation: {
+      errors,
+      warnings,
+      items: itemIssues,
+      itemsWithIssues: counters.itemsWithIssues,
+    },
+    summary: {
+      layoutVersion: LAYOUT_VERSION,
+      activity,
+      documents: {
+        invoices: c100Entries.length,
+        serviceInvoices: a100Entries.length,
+        participants: participantRows.length,
+        items: items.items.size,
+      },
+      registers: Object.fromEntries(writer.counts),
+      pis: summarizeSettlement(pisSettlement),
+      cofins: summarizeSettlement(cofinsSettlement),
+    },
+    content,
+  };
+}
+
+module.exports = {
+  buildEfdContribuicoes,
+  resolveEntryContribution,
+  resolveItemContribution,
+  contributionFields,
+  createContributionLedger,
+};
@@ -0,0 +1,121 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+// Os testes não abrem conexão: o client do Prisma é trocado antes de carregar o serviço
+require.cache[require.resolve('../prisma')] = { exports: { prisma: {} } };
+const {
+  resolveEntryContribution,
+  resolveItemContribution,
+  createContributionLedger,
+} = require('./spedEfdContribuicoesService');
+
+const PIS_RATE = '1.65';
+const period = { year: 2025, month: 1 };
+
+const entryItem = {
+  cstPIS: '01',
+  cstCOFINS: '01',
+  gross: '100.00',
+  discount: '10.00',
+  vFrete: '5.00',
+  ipiValue: '5.00',
+  icmsValue: '18.00',
+};
+
+test('dá crédito à compra para revenda e industrialização', () => {
+  assert.deepEqual(resolveEntryContribution('01', '1102'), { cst: '50', nature: '01' });
+  assert.deepEqual(resolveEntryContribution('01', '2101'), { cst: '50', nature: '02' });
+  assert.deepEqual(resolveEntryContribution('01', '1201'), { cst: '50', nature: '12' });
+});
+
+test('converte o CST do fornecedor sem crédito no CST de entrada correspondente', () => {
+  assert.deepEqual(resolveEntryContribution('04', '1102'), { cst: '70', nature: null });
+  assert.deepEqual(resolveEntryContribution('05', '1102'), { cst: '75', nature: null });
+  assert.deepEqual(resolveEntryContribution('06', '1102'), { cst: '73', nature: null });
+  assert.deepEqual(resolveEntryContribution('09', '1102'), { cst: '72', nature: null });
+});
+
+test('separa outras entradas e entradas sem direito a crédito pelo CFOP', () => {
+  assert.deepEqual(resolveEntryContribution('01', '1910'), { cst: '98', nature: null });
+  assert.deepEqual(resolveEntryContribution('01', '1556'), { cst: '70', nature: null });
+  assert.deepEqual(resolveEntryContribution(undefined, '1102'), { cst: '50', nature: '01' });
+});
+
+test('calcula o crédito da entrada sobre o custo sem o ICMS', () => {
+  const contribution = resolveItemContribution(entryItem, { isOwnIssued: false, isEntry: true, cfop: '1102', period });
+
+  assert.equal(contribution.nature, '01');
+  assert.equal(contribution.pis.cst, '50');
+  assert.equal(contribution.pis.base.toFixed(2), '82.00');
+  assert.equal(contribution.pis.value.toFixed(2), '1.35');
+  assert.equal(contribution.cofins.value.toFixed(2), '6.23');
+});
+
+test('mantém o ICMS na base do crédito antes de 05/2023', () => {
+  const before = resolveItemContribution(entryItem, {
+    isOwnIssued: false,
+    isEntry: true,
+    cfop: '1102',
+    period: { year: 2023, month: 4 },
+  });
+  const from = resolveItemContribution(entryItem, {
+    isOwnIssued: false,
+    isEntry: true,
+    cfop: '1102',
+    period: { year: 2023, month: 5 },
+  });
+
+  assert.equal(before.pis.base.toFixed(2), '100.00');
+  assert.equal(before.pis.value.toFixed(2), '1.65');
+  assert.equal(before.cofins.value.toFixed(2), '7.60');
+  assert.equal(from.pis.base.toFixed(2), '82.00');
+});
+
+test('mantém o PIS/COFINS do XML nas saídas próprias', () => {
+  const item = { cstPIS: '01', vBCPIS: '100', pPIS: PIS_RATE, pisValue: '1.65', cstCOFINS: '06' };
+  const contribution = resolveItemContribution(item, { isOwnIssued: true, isEntry: false, cfop: '5102', period });
+
+  assert.equal(contribution.nature, null);
+  assert.deepEqual(contribution.pis, { cst: '01', base: '100', rate: PIS_RATE, value: '1.65' });
+  assert.equal(contribution.cofins.cst, '06');
+});
+
+test('abate o crédito do débito e guarda o saldo', () => {
+  const ledger = createContributionLedger();
+  ledger.add({ cst: '01', base: '1000', rate: PIS_RATE }, { revenue: '1000' });
+  ledger.add({ cst: '02', base: '200', rate: '2.10' }, { revenue: '200' });
+  ledger.add({ cst: '50', base: '500' }, { revenue: null, nature: '02' });
+  ledger.add({ cst: '50', base: '300' }, { revenue: null, nature: '01' });
+  ledger.add({ cst: '06', base: null }, { revenue: '80' });
+  ledger.add({ cst: '06', base: null }, { revenue: '20' });
+
+  const settlement = ledger.settle(PIS_RATE);
+
+  assert.deepEqual(settlement.debitRows.map((row) => [row.code, row.contribution.toFixed(2)]), [
+    ['01', '16.50'],
+    ['02', '4.20'],
+  ]);
+  assert.deepEqual(settlement.creditRows.map((row) => row.nature), ['01', '02']);
+  assert.equal(settlement.creditBase.toFixed(2), '800.00');
+  assert.equal(settlement.credit.toFixed(2), '13.20');
+  assert.equal(settlement.debit.toFixed(2), '20.70');
+  assert.equal(settlement.creditUsed.toFixed(2), '13.20');
+  assert.equal(settlement.creditBalance.toFixed(2), '0.00');
+  assert.equal(settlement.due.toFixed(2), '7.50');
+  assert.deepEqual(settlement.nonTaxedRows.map((row) => [row.cst, row.totals.revenue.toFixed(2)]), [['06', '100.00']]);
+});
+
+test('limita o crédito usado ao débito do mês', () => {
+  const ledger = createContributionLedger();
+  ledger.add({ cst: '01', base: '100', rate: PIS_RATE }, { revenue: '100' });
+  ledger.add({ cst: '50', base: '1000' }, { revenue: null, nature: '01' });
+  // Crédito sem natureza (CFOP fora da tabela) não entra no M105
+  ledger.add({ cst: '50', base: '999' }, { revenue: null, nature: null });
+
+  const settlement = ledger.settle(PIS_RATE);
+
+  assert.equal(settlement.credit.toFixed(2), '16.50');
+  assert.equal(settlement.creditUsed.toFixed(2), '1.65');
+  assert.equal(settlement.creditBalance.toFixed(2), '14.85');
+  assert.equal(settlement.due.toFixed(2), '0.00');
+});
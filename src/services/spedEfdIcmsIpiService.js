@@ -0,0 +1,710 @@
+const { prisma } = require('../prisma');
+const { parseDacteExtras } = require('../utils/xmlInvoiceParser');
+const { INVOICE_MODELS, INVOICE_PURPOSES } = require('../constants/invoiceModels');
+const {
+  parseSpedPeriod,
+  toDecimal,
+  sumDecimals,
+  formatSpedDate,
+  formatSpedDecimal,
+  spedText,
+  onlyDigits,
+  createSpedWriter,
+} = require('../utils/spedFormat');
+const {
+  SPED_INVOICE_SELECT,
+  loadSpedCompany,
+  readXmlExtras,
+  createInvoiceExtrasReader,
+  toEntryCfop,
+  resolveCompanyRegistration,
+  createParticipantRegistry,
+  createItemRegistry,
+} = require('./spedRegistryService');
+const { resolveItemContribution, contributionFields } = require('./spedEfdContribuicoesService');
+
+// Versão do leiaute (COD_VER do 0000) por ano de referência do arquivo
+const LAYOUT_VERSIONS = Object.freeze({
+  2020: '014',
+  2021: '015',
+  2022: '016',
+  2023: '017',
+  2024: '018',
+  2025: '019',
+});
+
+const PROFILES = Object.freeze(['A', 'B', 'C']);
+
+// IND_ATIV do 0000: 0 = industrial ou equiparado, 1 = outros
+const ACTIVITIES = Object.freeze(['0', '1']);
+const INDUSTRIAL_ACTIVITY = '0';
+
+// COD_SIT da tabela 4.1.2
+const DOCUMENT_SITUATIONS = Object.freeze({
+  REGULAR: '00',
+  CANCELLED: '02',
+  VOIDED: '05',
+  COMPLEMENTARY: '06',
+});
+
+// Finalidades de entrada (três últimos dígitos do CFOP) com direito ao crédito do ICMS no E110:
+// compra para industrialização ou revenda, devoluções de venda e fretes dessas operações.
+// Uso e consumo (x407/x556), ativo (x406/x551, crédito pelo CIAP) e demais entradas ficam de fora
+const ICMS_CREDIT_CFOPS = Object.freeze([
+  '101', '102', '111', '113', '116', '117', '118', '120', '121', '122', '124', '125',
+  '201', '202', '203', '204', '410', '411',
+  '351', '352', '353', '354', '355', '356',
+  '401', '403', '651', '652',
+]);
+
+const C100_FIELD_COUNT = 28;
+const VOIDING_RANGE_LIMIT = 10000;
+const ITEM_ISSUES_LIMIT = 200;
+
+// IND_FRT do D100 (tabela antiga, diferente do modFrete da NF-e) pelo papel do tomador
+const CTE_FREIGHT_INDICATOR = Object.freeze({
+  remetente: '0',
+  destinatario: '1',
+});
+
+function createBadRequest(message) {
+  const error = new Error(message);
+  error.status = 400;
+  return error;
+}
+
+function parseAccessKey(chave) {
+  if (!/^\d{44}$/.test(chave ?? '')) return null;
+  return {
+    yearMonth: chave.slice(2, 6),
+    issuerTaxId: chave.slice(6, 20),
+    modelo: chave.slice(20, 22),
+    serie: String(Number(chave.slice(22, 25))),
+    numero: String(Number(chave.slice(25, 34))),
+  };
+}
+
+function formatRate(value) {
+  return value == null ? '' : formatSpedDecimal(value);
+}
+
+function toAmount(value) {
+  return Number(toDecimal(value).toFixed(2));
+}
+
+function resolveLayoutVersion(year, warnings) {
+  if (LAYOUT_VERSIONS[year]) return LAYOUT_VERSIONS[year];
+  const years = Object.keys(LAYOUT_VERSIONS).map(Number);
+  const latest = Math.max(...years);
+  if (year > latest) {
+    warnings.push(`Versão do leiaute para ${year} não cadastrada; usando ${LAYOUT_VERSIONS[latest]}. Confira no PVA.`);
+    return LAYOUT_VERSIONS[latest];
+  }
+  throw createBadRequest(`Períodos anteriores a ${Math.min(...years)} não são suportados.`);
+}
+
+// IND_PGTO: 0 = à vista, 1 = a prazo, 2 = outros (sem pagamento informado)
+function resolvePaymentIndicator(invoice) {
+  if (invoice.installments.length || invoice.payments.some((payment) => payment.indPag === '1')) return '1';
+  if (invoice.payments.some((payment) => payment.tPag !== '90')) return '0';
+  return '2';
+}
+
+// CST_ICMS do SPED = origem + CST (tabela A + tabela B). CSOSN não existe no leiaute e entra como 90.
+function resolveIcmsCst(origin, cst, csosn) {
+  const code = cst ? cst.padStart(2, '0').slice(-2) : csosn ? '90' : null;
+  return code ? `${origin ?? '0'}${code}` : null;
+}
+
+// Documento cancelado ou inutilizado informa só a identificação; os demais campos do C100 ficam vazios
+function padFields(fields) {
+  return [...fields, ...Array(C100_FIELD_COUNT - fields.length).fill('')];
+}
+
+function itemOperationValue(item) {
+  return sumDecimals([item.gross, item.vFrete, item.vSeg, item.vOutro, item.vST, item.vFCPST, item.ipiValue])
+    .sub(toDecimal(item.discount));
+}
+
+function itemIcmsValue(item) {
+  return toDecimal(item.icmsValue ?? item.vICMS);
+}
+
+// Saídas sempre debitam; entradas só creditam quando a finalidade (CFOP) dá direito ao crédito
+function isIcmsCreditable(indOper, cfop) {
+  return indOper === '1' || ICMS_CREDIT_CFOPS.includes(cfop.slice(1));
+}
+
+// Parte da base que deixou de ser tributada pela redução (pRedBC), usada no VL_RED_BC
+function itemReducedBase(item) {
+  const rate = toDecimal(item.pRedBC);
+  if (rate.lte(0) || rate.gte(100)) return toDecimal(0);
+  const base = toDecimal(item.vBC);
+  return base.div(toDecimal(1).sub(rate.div(100))).sub(base);
+}
+
+// CST_IPI da entrada: o XML traz o CST de saída do fornecedor (50 a 55, 99), que vira o de entrada (00 a 05, 49)
+function resolveEntryIpiCst(supplierCst) {
+  const code = Number(supplierCst);
+  return code >= 50 ? String(code - 50).padStart(2, '0') : supplierCst;
+}
+
+// Campos do IPI no C170 (IND_APUR a VL_IPI), exigidos só de contribuintes do IPI (industrial ou equiparado)
+function ipiFields(item, { indOper, activity }) {
+  if (activity !== INDUSTRIAL_ACTIVITY || !item.cstIPI) return ['', '', '', '', '', ''];
+  return [
+    '0',
+    indOper === '0' ? resolveEntryIpiCst(item.cstIPI) : item.cstIPI,
+    item.cEnqIPI ?? '',
+    formatSpedDecimal(item.vBCIPI ?? 0),
+    formatRate(item.pIPI),
+    formatSpedDecimal(item.ipiValue ?? 0),
+  ];
+}
+
+function addToGroup(groups, key, seed, values) {
+  if (!groups.has(key)) groups.set(key, { ...seed, totals: {} });
+  const group = groups.get(key);
+  Object.entries(values).forEach(([field, value]) => {
+    group.totals[field] = (group.totals[field] ?? toDecimal(0)).add(toDecimal(value));
+  });
+}
+
+// AAMM da chave de acesso, usado para achar os cancelamentos das notas emitidas no período
+function toKeyYearMonth(period) {
+  return `${String(period.year).slice(2)}${String(period.month).padStart(2, '0')}`;
+}
+
+function loadPeriodDocuments(companyId, companyCnpj, period) {
+  const emissao = { gte: period.start, lte: period.end };
+  return Promise.all([
+    prisma.invoice.findMany({
+      where: { companyId, emissao },
+      orderBy: [{ emissao: 'asc' }, { chave: 'asc' }],
+      select: SPED_INVOICE_SELECT,
+    }),
+    // AAMM e CNPJ do emitente ficam juntos na chave (posições 3 a 20); o parseAccessKey confirma a posição
+    prisma.invoiceCancellation.findMany({
+      where: { companyId, chave: { contains: `${toKeyYearMonth(period)}${companyCnpj}` } },
+      select: { chave: true },
+    }),
+    prisma.invoiceNumberVoiding.findMany({
+      where: { companyId, issuerCnpj: companyCnpj, receivedAt: { gte: period.start, lte: period.end } },
+      orderBy: [{ modelo: 'asc' }, { serie: 'asc' }, { startNumber: 'asc' }],
+      select: { modelo: true, serie: true, startNumber: true, endNumber: true },
+    }),
+    prisma.cte.findMany({
+      where: { companyId, emissao, isCancelled: false },
+      orderBy: [{ emissao: 'asc' }, { chave: 'asc' }],
+      select: {
+        id: true,
+        chave: true,
+        modelo: true,
+        serie: true,
+        numero: true,
+        emissao: true,
+        cfop: true,
+        emitCnpj: true,
+        emitNome: true,
+        valorPrestacao: true,
+        xmlDocument: { select: { content: true } },
+      },
+    }),
+  ]);
+}
+
+async function buildEfdIcmsIpi({
+  companyId,
+  period: rawPeriod,
+  profile = 'A',
+  activity = '1',
+  previousCreditBalance = 0,
+}) {
+  const period = parseSpedPeriod(rawPeriod);
+  if (!PROFILES.includes(profile)) {
+    throw createBadRequest('Perfil inválido. Use A, B ou C.');
+  }
+  if (!ACTIVITIES.includes(activity)) {
+    throw createBadRequest('Indicador de atividade inválido. Use 0 (industrial) ou 1 (outros).');
+  }
+  const previousCredit = toDecimal(previousCreditBalance);
+  if (previousCredit.isNegative()) {
+    throw createBadRequest('Saldo credor anterior não pode ser negativo.');
+  }
+
+  const errors = [];
+  const warnings = [];
+  const layoutVersion = resolveLayoutVersion(period.year, warnings);
+  const { company, companyCnpj } = await loadSpedCompany(companyId);
+  const [invoices, cancellations, voidings, ctes] = await loadPeriodDocuments(companyId, companyCnpj, period);
+
+  const readInvoiceExtras = createInvoiceExtrasReader();
+  const participants = createParticipantRegistry();
+  const items = createItemRegistry();
+  const c100Entries = [];
+  const d100Entries = [];
+  const itemIssues = [];
+  const counters = {
+    unrelatedInvoices: 0,
+    missingOrigin: 0,
+    missingCst: 0,
+    unreadableCtes: 0,
+    nonCreditableItems: 0,
+    itemsWithIssues: 0,
+    ctesWithoutRoute: 0,
+    voidingsTooLarge: 0,
+  };
+  const apuracao = { debits: toDecimal(0), credits: toDecimal(0), excludedCredits: toDecimal(0) };
+  let cteRegistration = null;
+
+  // Bloco C: NF-e e NFC-e em que a empresa é emitente ou destinatária
+  for (const invoice of invoices) {
+    const isOwnIssued = invoice.issuerCnpj === companyCnpj;
+    if (!isOwnIssued && invoice.recipientCnpj !== companyCnpj) {
+      counters.unrelatedInvoices += 1;
+      continue;
+    }
+    const key = parseAccessKey(invoice.chave);
+    const isConsumerInvoice = invoice.modelo === INVOICE_MODELS.NFCE;
+    const indOper = invoice.type === 'IN' ? '0' : '1';
+    const counterpartyTaxId = isOwnIssued ? invoice.recipientCnpj : invoice.issuerCnpj;
+    const codPart = isConsumerInvoice
+      ? ''
+      : participants.register(counterpartyTaxId, {
+        xmlDocumentId: invoice.xmlDocumentId,
+        role: isOwnIssued ? 'recipient' : 'issuer',
+        fallbackName: isOwnIssued ? invoice.recipientName : null,
+      });
+
+    const analytic = new Map();
+    const c170 = [];
+    const totals = { base: toDecimal(0), icms: toDecimal(0) };
+    invoice.items.forEach((item, index) => {
+      const cst = resolveIcmsCst(item.icmsOrigin, item.cst, item.csosn);
+      if (!cst) counters.missingCst += 1;
+      if (!item.icmsOrigin && cst) counters.missingOrigin += 1;
+      const cfop = isOwnIssued ? onlyDigits(item.cfopCode) : toEntryCfop(item.cfopCode);
+
+      // Entrada sem direito a crédito é escriturada sem base e sem ICMS, como pede o guia prático
+      const isCreditable = isIcmsCreditable(indOper, cfop);
+      const base = isCreditable ? toDecimal(item.vBC) : toDecimal(0);
+      const icms = isCreditable ? itemIcmsValue(item) : toDecimal(0);
+      const rate = isCreditable ? item.pICMS : null;
+      if (!isCreditable && itemIcmsValue(item).gt(0)) {
+        counters.nonCreditableItems += 1;
+        apuracao.excludedCredits = apuracao.excludedCredits.add(itemIcmsValue(item));
+      }
+      totals.base = totals.base.add(base);
+      totals.icms = totals.icms.add(icms);
+
+      addToGroup(
+        analytic,
+        `${cst}|${cfop}|${formatRate(rate)}`,
+        { cst: cst ?? '', cfop, rate },
+        {
+          operation: itemOperationValue(item),
+          base,
+          icms,
+          stBase: item.vBCST,
+          st: item.vST,
+          reducedBase: isCreditable ? itemReducedBase(item) : 0,
+          ipi: item.ipiValue,
+        },
+      );
+
+      // C170 só para documentos de terceiros; os próprios são conhecidos pelo fisco pelo XML
+      if (isOwnIssued || isConsumerInvoice) return;
+      const itemRef = items.register(item, { supplierTaxId: counterpartyTaxId });
+
+      // PIS/COFINS com o CST de entrada da EFD-Contribuições; sem o CST do fornecedor os campos ficam
+      // vazios e o item vai para a pré-validação
+      const contribution = resolveItemContribution(item, { isOwnIssued, isEntry: indOper === '0', cfop, period });
+      const issues = [];
+      if (!item.cstPIS) issues.push('CST do PIS ausente');
+      if (!item.cstCOFINS) issues.push('CST da COFINS ausente');
+      if (activity === INDUSTRIAL_ACTIVITY && !item.cstIPI) issues.push('CST do IPI ausente');
+      if (issues.length) {
+        counters.itemsWithIssues += 1;
+        if (itemIssues.length < ITEM_ISSUES_LIMIT) {
+          itemIssues.push({
+            invoiceId: invoice.id,
+            chave: invoice.chave,
+            numero: invoice.numero ?? key?.numero ?? null,
+            emissao: invoice.emissao.toISOString(),
+            itemNumber: index + 1,
+            description: item.description ?? null,
+            cfop,
+            issues,
+          });
+        }
+      }
+      const pisFields = item.cstPIS ? contributionFields(contribution.pis) : ['', '', '', '', '', ''];
+      const cofinsFields = item.cstCOFINS ? contributionFields(contribution.cofins) : ['', '', '', '', '', ''];
+      c170.push([
+        String(index + 1),
+        itemRef.code,
+        spedText(item.description, 255),
+        formatSpedDecimal(item.qty, 5),
+        itemRef.unit,
+        formatSpedDecimal(item.gross),
+        formatSpedDecimal(item.discount),
+        '0',
+        cst ?? '',
+        cfop,
+        '',
+        formatSpedDecimal(base),
+        formatRate(rate),
+        formatSpedDecimal(icms),
+        formatSpedDecimal(item.vBCST ?? 0),
+        '',
+        formatSpedDecimal(item.vST ?? 0),
+        ...ipiFields(item, { indOper, activity }),
+        ...pisFields,
+        ...cofinsFields,
+        '',
+        '',
+      ]);
+    });
+
+    totals.stBase = sumDecimals(invoice.items.map((item) => item.vBCST));
+    totals.st = invoice.totalST ?? sumDecimals(invoice.items.map((item) => item.vST));
+    totals.ipi = invoice.totalIPI ?? sumDecimals(invoice.items.map((item) => item.ipiValue));
+    if (indOper === '1') apuracao.debits = apuracao.debits.add(totals.icms);
+    else apuracao.credits = apuracao.credits.add(totals.icms);
+
+    // NFC-e não informa participante, data de saída, frete nem ST/IPI/PIS/COFINS no C100
+    const consumerBlank = (value) => (isConsumerInvoice ? '' : value);
+    c100Entries.push({
+      fields: [
+        indOper,
+        isOwnIssued ? '0' : '1',
+        codPart,
+        invoice.modelo,
+        invoice.finalidade === INVOICE_PURPOSES.COMPLEMENTAR
+          ? DOCUMENT_SITUATIONS.COMPLEMENTARY
+          : DOCUMENT_SITUATIONS.REGULAR,
+        key?.serie ?? '',
+        invoice.numero ?? key?.numero ?? '',
+        invoice.chave,
+        formatSpedDate(invoice.emissao),
+        consumerBlank(formatSpedDate(invoice.entradaSaida)),
+        formatSpedDecimal(invoice.totalNFe),
+        resolvePaymentIndicator(invoice),
+        formatSpedDecimal(invoice.totalDesc ?? 0),
+        formatSpedDecimal(0),
+        formatSpedDecimal(invoice.totalProd ?? 0),
+        consumerBlank(invoice.freightMode ?? '9'),
+        consumerBlank(formatSpedDecimal(invoice.totalFrete ?? 0)),
+        consumerBlank(formatSpedDecimal(invoice.totalSeg ?? 0)),
+        consumerBlank(formatSpedDecimal(invoice.totalOutro ?? 0)),
+        formatSpedDecimal(totals.base),
+        formatSpedDecimal(totals.icms),
+        consumerBlank(formatSpedDecimal(totals.stBase)),
+        consumerBlank(formatSpedDecimal(totals.st)),
+        consumerBlank(formatSpedDecimal(totals.ipi)),
+        consumerBlank(formatSpedDecimal(invoice.totalPIS ?? 0)),
+        consumerBlank(formatSpedDecimal(invoice.totalCOFINS ?? 0)),
+        '',
+        '',
+      ],
+      c170,
+      c190: [...analytic.values()].map((group) => [
+        group.cst,
+        group.cfop,
+        formatRate(group.rate),
+        formatSpedDecimal(group.totals.operation),
+        formatSpedDecimal(group.totals.base),
+        formatSpedDecimal(group.totals.icms),
+        formatSpedDecimal(group.totals.stBase),
+        formatSpedDecimal(group.totals.st),
+        formatSpedDecimal(group.totals.reducedBase),
+        formatSpedDecimal(group.totals.ipi),
+        '',
+      ]),
+    });
+  }
+
+  // Notas próprias canceladas são apagadas na importação; o C100 sai só com a chave (COD_SIT 02).
+  // O tipo da operação não fica registrado no evento e é informado como saída.
+  const periodYearMonth = toKeyYearMonth(period);
+  const invoiceKeys = new Set(invoices.map((invoice) => invoice.chave));
+  cancellations.forEach((cancellation) => {
+    const key = parseAccessKey(cancellation.chave);
+    if (!key || key.issuerTaxId !== companyCnpj || key.yearMonth !== periodYearMonth) return;
+    if (invoiceKeys.has(cancellation.chave)) return;
+    c100Entries.push({
+      fields: padFields(['1', '0', '', key.modelo, DOCUMENT_SITUATIONS.CANCELLED, key.serie, key.numero, cancellation.chave]),
+      c170: [],
+      c190: [],
+    });
+  });
+
+  // Inutilizações homologadas no período: um C100 por número, sem chave (COD_SIT 05)
+  voidings.forEach((voiding) => {
+    const count = voiding.endNumber - voiding.startNumber + 1;
+    if (count > VOIDING_RANGE_LIMIT) {
+      counters.voidingsTooLarge += 1;
+      return;
+    }
+    for (let numero = voiding.startNumber; numero <= voiding.endNumber; numero += 1) {
+      c100Entries.push({
+        fields: padFields(['1', '0', '', voiding.modelo, DOCUMENT_SITUATIONS.VOIDED, String(voiding.serie), String(numero)]),
+        c170: [],
+        c190: [],
+      });
+    }
+  });
+
+  // Bloco D: CT-e em que a empresa é a transportadora emitente ou o tomador do serviço
+  ctes.forEach((cte) => {
+    const extras = readXmlExtras(cte.xmlDocument, parseDacteExtras);
+    if (!extras) {
+      counters.unreadableCtes += 1;
+      return;
+    }
+    const tomador = extras.tomador;
+    const isIssuer = onlyDigits(cte.emitCnpj) === companyCnpj;
+    if (!isIssuer && tomador?.taxId !== companyCnpj) return;
+
+    const codPart = isIssuer
+      ? participants.register(tomador?.taxId, {
+        details: tomador ? {
+          name: tomador.name,
+          stateRegistration: tomador.stateRegistration,
+          address: tomador.address,
+        } : null,
+      })
+      : participants.register(onlyDigits(cte.emitCnpj), {
+        details: {
+          name: cte.emitNome,
+          stateRegistration: extras.issuer?.stateRegistration,
+          address: extras.issuer?.address,
+        },
+      });
+    if (!cteRegistration) {
+      cteRegistration = isIssuer
+        ? extras.issuer
+        : { stateRegistration: tomador.stateRegistration, address: tomador.address };
+    }
+    if (!extras.route?.originCityCode || !extras.route?.destinationCityCode) counters.ctesWithoutRoute += 1;
+
+    const icms = extras.icms ?? {};
+    const cfop = isIssuer ? onlyDigits(cte.cfop) : toEntryCfop(cte.cfop);
+    const isCreditable = isIcmsCreditable(isIssuer ? '1' : '0', cfop);
+    const base = isCreditable ? toDecimal(icms.vBC) : toDecimal(0);
+    const icmsValue = isCreditable ? toDecimal(icms.vICMS) : toDecimal(0);
+    if (!isCreditable && toDecimal(icms.vICMS).gt(0)) {
+      counters.nonCreditableItems += 1;
+      apuracao.excludedCredits = apuracao.excludedCredits.add(toDecimal(icms.vICMS));
+    }
+    const cst = `0${icms.cst && icms.cst !== 'SN' ? icms.cst.padStart(2, '0').slice(-2) : '90'}`;
+    if (isIssuer) apuracao.debits = apuracao.debits.add(icmsValue);
+    else apuracao.credits = apuracao.credits.add(icmsValue);
+
+    d100Entries.push({
+      fields: [
+        isIssuer ? '1' : '0',
+        isIssuer ? '0' : '1',
+        codPart,
+        cte.modelo ?? '57',
+        DOCUMENT_SITUATIONS.REGULAR,
+        cte.serie ?? '',
+        '',
+        cte.numero ?? '',
+        cte.chave,
+        formatSpedDate(cte.emissao),
+        formatSpedDate(cte.emissao),
+        extras.tpCTe ?? '0',
+        '',
+        formatSpedDecimal(cte.valorPrestacao),
+        formatSpedDecimal(0),
+        CTE_FREIGHT_INDICATOR[tomador?.role] ?? '2',
+        formatSpedDecimal(cte.valorPrestacao),
+        formatSpedDecimal(base),
+        formatSpedDecimal(icmsValue),
+        formatSpedDecimal(base.gt(0) ? 0 : cte.valorPrestacao),
+        '',
+        '',
+        extras.route?.originCityCode ?? '',
+        extras.route?.destinationCityCode ?? '',
+      ],
+      d190: [
+        cst,
+        cfop,
+        isCreditable ? formatRate(icms.pICMS) : '',
+        formatSpedDecimal(cte.valorPrestacao),
+        formatSpedDecimal(base),
+        formatSpedDecimal(icmsValue),
+        formatSpedDecimal(0),
+        '',
+      ],
+    });
+  });
+
+  const registration = await resolveCompanyRegistration({
+    invoices,
+    companyCnpj,
+    readInvoiceExtras,
+    fallback: cteRegistration,
+    errors,
+  });
+  const participantRows = await participants.buildRows({ companyId, readInvoiceExtras, errors });
+  items.validate({ errors, warnings });
+
+  if (counters.missingCst) {
+    errors.push(`${counters.missingCst} item(ns) sem CST/CSOSN de ICMS.`);
+  }
+  if (counters.itemsWithIssues) {
+    errors.push(`${counters.itemsWithIssues} item(ns) de terceiros sem CST de PIS/COFINS${activity === INDUSTRIAL_ACTIVITY ? '/IPI' : ''} no XML. Reimporte os XMLs ou complete no PVA.`);
+  }
+  if (counters.missingOrigin) {
+    warnings.push(`${counters.missingOrigin} item(ns) sem origem da mercadoria; CST_ICMS gerado com origem 0. Reimporte os XMLs para completar.`);
+  }
+  if (counters.unrelatedInvoices) {
+    warnings.push(`${counters.unrelatedInvoices} nota(s) do período sem a empresa como emitente ou destinatária foram ignoradas.`);
+  }
+  if (counters.unreadableCtes) {
+    errors.push(`${counters.unreadableCtes} CT-e sem XML legível; não entraram no bloco D.`);
+  }
+  if (counters.ctesWithoutRoute) {
+    errors.push(`${counters.ctesWithoutRoute} CT-e sem código do município de origem ou destino da prestação.`);
+  }
+  if (counters.voidingsTooLarge) {
+    errors.push(`${counters.voidingsTooLarge} inutilização(ões) com mais de ${VOIDING_RANGE_LIMIT} números não foram detalhadas no C100.`);
+  }
+  warnings.push('Registros 0005 (dados complementares) e 0100 (contabilista) não são gerados; complete-os no PVA.');
+
+  // Apuração do ICMS próprio (E110) sem ajustes: débitos das saídas contra créditos das entradas
+  const balance = apuracao.debits.sub(apuracao.credits).sub(previousCredit);
+  const balanceDue = balance.gt(0) ? balance : toDecimal(0);
+  const creditToCarry = balance.lt(0) ? balance.neg() : toDecimal(0);
+  if (balanceDue.gt(0)) {
+    warnings.push('Há ICMS a recolher: informe as obrigações (E116) no PVA.');
+  }
+  if (counters.nonCreditableItems) {
+    warnings.push(
+      `${counters.nonCreditableItems} item(ns) de entrada com CFOP sem direito a crédito (uso e consumo, ativo, outras) `
+      + `foram escriturados sem ICMS; ${formatSpedDecimal(apuracao.excludedCredits)} de ICMS destacado ficou fora do E110. `
+      + 'Créditos de ativo imobilizado devem ser lançados pelo CIAP (bloco G) no PVA.',
+    );
+  }
+
+  const writer = createSpedWriter();
+  writer.add('0000', [
+    layoutVersion,
+    '0',
+    formatSpedDate(period.start),
+    formatSpedDate(period.end),
+    spedText(company.name, 100),
+    companyCnpj,
+    '',
+    registration?.address?.uf ?? '',
+    onlyDigits(registration?.stateRegistration),
+    registration?.address?.cityCode ?? '',
+    '',
+    '',
+    profile,
+    activity,
+  ]);
+  writer.openBlock('0', true);
+  participantRows.forEach((row) => writer.add('0150', row));
+  // CEST fica vazio: não vem no cadastro de produtos
+  items.writeRecords(writer, ['']);
+  writer.closeBlock('0');
+
+  writer.openBlock('B', false);
+  writer.closeBlock('B');
+
+  writer.openBlock('C', c100Entries.length > 0);
+  c100Entries.forEach((entry) => {
+    writer.add('C100', entry.fields);
+    entry.c170.forEach((row) => writer.add('C170', row));
+    entry.c190.forEach((row) => writer.add('C190', row));
+  });
+  writer.closeBlock('C');
+
+  writer.openBlock('D', d100Entries.length > 0);
+  d100Entries.forEach((entry) => {
+    writer.add('D100', entry.fields);
+    writer.add('D190', entry.d190);
+  });
+  writer.closeBlock('D');
+
+  writer.openBlock('E', true);
+  writer.add('E100', [formatSpedDate(period.start), formatSpedDate(period.end)]);
+  writer.add('E110', [
+    formatSpedDecimal(apuracao.debits),
+    formatSpedDecimal(0),
+    formatSpedDecimal(0),
+    formatSpedDecimal(0),
+    formatSpedDecimal(apuracao.credits),
+    formatSpedDecimal(0),
+    formatSpedDecimal(0),
+    formatSpedDecimal(0),
+    formatSpedDecimal(previousCredit),
+    formatSpedDecimal(balanceDue),
+    formatSpedDecimal(0),
+    formatSpedDecimal(balanceDue),
+    formatSpedDecimal(creditToCarry),
+    formatSpedDecimal(0),
+  ]);
+  writer.closeBlock('E');
+
+  ['G', 'H', 'K'].forEach((block) => {
+    writer.openBlock(block, false);
+    writer.closeBlock(block);
+  });
+
+  writer.openBlock('1', true);
+  writer.add('1010', Array(13).fill('N'));
+  writer.closeBlock('1');
+
+  const content = writer.finish();
+  const countSituations = (...situations) => c100Entries
+    .filter((entry) => situations.includes(entry.fields[4]))
+    .length;
+
+  return {
+    generatedAt: new Date().toISOString(),
+    company: {
+      id: company.id,
+      name: company.name,
+      cnpj: company.cnpj ?? null,
+    },
+    period: period.label,
+    fileName: `efd-icms-ipi-${companyCnpj}-${period.label}.txt`,
+    validation: {
+      errors,
+      warnings,
+      items: itemIssues,
+      itemsWithIssues: counters.itemsWithIssues,
+    },
+    summary: {
+      layoutVersion,
+      profile,
+      activity,
+      documents: {
+        invoices: countSituations(DOCUMENT_SITUATIONS.REGULAR, DOCUMENT_SITUATIONS.COMPLEMENTARY),
+        cancelled: countSituations(DOCUMENT_SITUATIONS.CANCELLED),
+        voided: countSituations(DOCUMENT_SITUATIONS.VOIDED),
+        ctes: d100Entries.length,
+        participants: participantRows.length,
+        items: items.items.size,
+      },
+      registers: Object.fromEntries(writer.counts),
+      apuracao: {
+        debits: toAmount(apuracao.debits),
+        credits: toAmount(apuracao.credits),
+        excludedCredits: toAmount(apuracao.excludedCredits),
+        previousCreditBalance: toAmount(previousCredit),
+        balanceDue: toAmount(balanceDue),
+        creditToCarry: toAmount(creditToCarry),
+      },
+    },
+    content,
+  };
+}
+
+module.exports = {
+  buildEfdIcmsIpi,
+};
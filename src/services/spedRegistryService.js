@@ -0,0 +1,359 @@
+const { prisma } = require('../prisma');
+const { decompressXml } = require('./xmlDocumentService');
+const { parseDanfeExtras } = require('../utils/xmlInvoiceParser');
+const { ANONYMOUS_CONSUMER } = require('../constants/invoiceModels');
+const { spedText, onlyDigits, formatSpedDecimal } = require('../utils/spedFormat');
+
+// Cadastros comuns aos arquivos do SPED (0150 participantes, 0190 unidades, 0200 itens e 0220 conversões),
+// montados a partir dos documentos do período e dos dados do XML que não ficam persistidos
+
+const BRAZIL_COUNTRY_CODE = '01058';
+
+// TIPO_ITEM do 0200 a partir do tipo do produto cadastrado
+const SPED_ITEM_TYPES = Object.freeze({
+  RAW: '01',
+  FINISHED: '04',
+  SERVICE: '09',
+  OTHER: '99',
+});
+
+// Campos das notas do período usados na escrituração (C100/C170 e cadastros)
+const SPED_INVOICE_SELECT = Object.freeze({
+  id: true,
+  chave: true,
+  modelo: true,
+  finalidade: true,
+  numero: true,
+  emissao: true,
+  entradaSaida: true,
+  type: true,
+  issuerCnpj: true,
+  recipientCnpj: true,
+  recipientName: true,
+  isSelfIssuedEntrada: true,
+  totalNFe: true,
+  totalProd: true,
+  totalDesc: true,
+  totalFrete: true,
+  totalSeg: true,
+  totalOutro: true,
+  totalIPI: true,
+  totalST: true,
+  totalPIS: true,
+  totalCOFINS: true,
+  freightMode: true,
+  xmlDocumentId: true,
+  installments: { select: { id: true } },
+  payments: { select: { indPag: true, tPag: true } },
+  items: {
+    orderBy: { id: 'asc' },
+    select: {
+      id: true,
+      cfopCode: true,
+      ncm: true,
+      icmsOrigin: true,
+      cst: true,
+      csosn: true,
+      productCode: true,
+      description: true,
+      unit: true,
+      qty: true,
+      gross: true,
+      discount: true,
+      vFrete: true,
+      vSeg: true,
+      vOutro: true,
+      icmsValue: true,
+      ipiValue: true,
+      pisValue: true,
+      cofinsValue: true,
+      cstPIS: true,
+      vBCPIS: true,
+      pPIS: true,
+      cstCOFINS: true,
+      vBCCOFINS: true,
+      pCOFINS: true,
+      cstIPI: true,
+      vBCIPI: true,
+      pIPI: true,
+      cEnqIPI: true,
+      vBC: true,
+      vICMS: true,
+      vBCST: true,
+      vST: true,
+      pICMS: true,
+      pRedBC: true,
+      vFCPST: true,
+      productMapping: {
+        select: {
+          conversionFactor: true,
+          product: { select: { id: true, sku: true, name: true, unit: true, ncm: true, type: true } },
+        },
+      },
+    },
+  },
+});
+
+function createBadRequest(message) {
+  const error = new Error(message);
+  error.status = 400;
+  return error;
+}
+
+async function loadSpedCompany(companyId) {
+  if (!companyId || typeof companyId !== 'string') {
+    throw createBadRequest('companyId é obrigatório.');
+  }
+  const company = await prisma.company.findUnique({
+    where: { id: companyId },
+    select: { id: true, name: true, cnpj: true },
+  });
+  if (!company) {
+    const error = new Error('Empresa não encontrada.');
+    error.status = 404;
+    throw error;
+  }
+  const companyCnpj = onlyDigits(company.cnpj);
+  if (companyCnpj.length !== 14) {
+    throw createBadRequest('CNPJ da empresa inválido para gerar o SPED.');
+  }
+  return { company, companyCnpj };
+}
+
+function readXmlExtras(document, parser) {
+  const xml = decompressXml(document);
+  if (!xml) return null;
+  try {
+    return parser(xml.toString('utf-8'));
+  } catch (error) {
+    // XML corrompido: os dados do cadastro ficam faltando e aparecem na pré-validação
+    return null;
+  }
+}
+
+// Extras da NF-e (IE, endereço, código do município) lidos uma vez por documento
+function createInvoiceExtrasReader() {
+  const cache = new Map();
+  return async (xmlDocumentId) => {
+    if (!xmlDocumentId) return null;
+    if (!cache.has(xmlDocumentId)) {
+      const document = await prisma.xmlDocument.findUnique({
+        where: { id: xmlDocumentId },
+        select: { content: true },
+      });
+      cache.set(xmlDocumentId, readXmlExtras(document, parseDanfeExtras));
+    }
+    return cache.get(xmlDocumentId);
+  };
+}
+
+// Entrada escriturada pelo destinatário usa o CFOP espelhado (5xxx -> 1xxx, 6xxx -> 2xxx, 7xxx -> 3xxx)
+function toEntryCfop(cfop) {
+  const code = onlyDigits(cfop);
+  const mirror = { 5: '1', 6: '2', 7: '3' }[code[0]];
+  return mirror ? `${mirror}${code.slice(1)}` : code;
+}
+
+function normalizeUnit(unit) {
+  return spedText(unit || 'UN', 6).toUpperCase();
+}
+
+// Cadastro da empresa (UF, IE, município) vem do próprio XML: emitente das notas próprias,
+// destinatário das demais ou, sem notas no período, o fallback (ex.: CT-e)
+async function resolveCompanyRegistration({ invoices, companyCnpj, readInvoiceExtras, fallback = null, errors }) {
+  const source = invoices.find((invoice) => invoice.issuerCnpj === companyCnpj && invoice.xmlDocumentId)
+    ?? invoices.find((invoice) => invoice.recipientCnpj === companyCnpj && invoice.xmlDocumentId);
+  let registration = fallback;
+  if (source) {
+    const extras = await readInvoiceExtras(source.xmlDocumentId);
+    registration = source.issuerCnpj === companyCnpj
+      ? { stateRegistration: extras?.issuer?.stateRegistration, address: extras?.issuer?.address }
+      : { stateRegistration: extras?.recipient?.stateRegistration, address: extras?.recipient?.address };
+  }
+  if (!registration?.address?.uf || !registration?.address?.cityCode) {
+    errors.push('UF e código do município da empresa não encontrados nos XMLs do período.');
+  }
+  if (!registration?.stateRegistration) {
+    errors.push('Inscrição estadual da empresa não encontrada nos XMLs do período.');
+  }
+  return registration;
+}
+
+// source: { xmlDocumentId, role: 'issuer' | 'recipient', fallbackName } ou { details: { name, stateRegistration, address } }
+function createParticipantRegistry() {
+  const participants = new Map();
+
+  const register = (taxId, source) => {
+    if (!taxId || taxId === ANONYMOUS_CONSUMER.taxId) return '';
+    const existing = participants.get(taxId);
+    if (!existing || (!existing.details && source.details)) {
+      participants.set(taxId, { taxId, ...existing, ...source });
+    }
+    return taxId;
+  };
+
+  // Nome do cadastro de parceiros; IE e endereço do XML do primeiro documento do participante
+  const buildRows = async ({ companyId, readInvoiceExtras, errors }) => {
+    const partnerRows = participants.size
+      ? await prisma.partner.findMany({
+        where: { companyId, cnpjCpf: { in: [...participants.keys()] } },
+        select: { cnpjCpf: true, name: true },
+      })
+      : [];
+    const partnerNames = new Map(partnerRows.map((partner) => [partner.cnpjCpf, partner.name]));
+
+    const rows = [];
+    for (const participant of [...participants.values()].sort((a, b) => a.taxId.localeCompare(b.taxId))) {
+      let details = participant.details ?? null;
+      if (!details && participant.xmlDocumentId) {
+        const extras = await readInvoiceExtras(participant.xmlDocumentId);
+        details = participant.role === 'issuer'
+          ? extras?.issuer ?? null
+          : extras?.recipient ? { ...extras.recipient, name: participant.fallbackName } : null;
+      }
+      const address = details?.address ?? {};
+      const name = partnerNames.get(participant.taxId) ?? details?.name ?? participant.fallbackName;
+      const countryCode = address.countryCode ? onlyDigits(address.countryCode).padStart(5, '0') : BRAZIL_COUNTRY_CODE;
+      const isBrazilian = countryCode === BRAZIL_COUNTRY_CODE;
+
+      if (!name) errors.push(`Participante ${participant.taxId} sem nome.`);
+      if (isBrazilian && !address.cityCode) errors.push(`Participante ${participant.taxId} sem código do município.`);
+      if (!address.street) errors.push(`Participante ${participant.taxId} sem endereço.`);
+
+      rows.push([
+        participant.taxId,
+        spedText(name, 100),
+        countryCode,
+        participant.taxId.length === 14 ? participant.taxId : '',
+        participant.taxId.length === 11 ? participant.taxId : '',
+        onlyDigits(details?.stateRegistration),
+        isBrazilian ? address.cityCode ?? '' : '',
+        '',
+        spedText(address.street, 60),
+        spedText(address.number, 10),
+        spedText(address.complement, 60),
+        spedText(address.district, 60),
+      ]);
+    }
+    return rows;
+  };
+
+  return { register, buildRows, participants };
+}
+
+// Itens do 0200: produto vinculado usa o SKU; sem vínculo, o código do emitente (prefixado pelo CNPJ
+// do fornecedor nas entradas, para não colidir entre fornecedores)
+function createItemRegistry() {
+  const items = new Map();
+  const units = new Set();
+  let unmappedCount = 0;
+
+  const register = (item, { supplierTaxId = null } = {}) => {
+    const product = item.productMapping?.product;
+    const ownCode = item.productCode ?? item.id;
+    const entry = product
+      ? {
+        code: spedText(product.sku || product.id, 60),
+        description: product.name,
+        unit: normalizeUnit(product.unit ?? item.unit),
+        type: SPED_ITEM_TYPES[product.type] ?? SPED_ITEM_TYPES.OTHER,
+        ncm: onlyDigits(product.ncm ?? item.ncm),
+      }
+      : {
+        code: spedText(supplierTaxId ? `${supplierTaxId}-${ownCode}` : ownCode, 60),
+        description: item.description,
+        unit: normalizeUnit(item.unit),
+        type: SPED_ITEM_TYPES.OTHER,
+        ncm: onlyDigits(item.ncm),
+      };
+    if (!product) unmappedCount += 1;
+    if (!items.has(entry.code)) items.set(entry.code, { ...entry, conversions: new Map() });
+    units.add(entry.unit);
+
+    // Unidade do documento diferente da unidade de controle exige o 0220 com o fator
+    const documentUnit = normalizeUnit(item.unit);
+    units.add(documentUnit);
+    if (documentUnit !== entry.unit) {
+      const registered = items.get(entry.code);
+      const factor = item.productMapping?.conversionFactor;
+      if (factor != null) {
+        registered.conversions.set(documentUnit, factor);
+      } else if (!registered.conversions.has(documentUnit)) {
+        registered.conversions.set(documentUnit, null);
+      }
+    }
+    return { code: entry.code, unit: documentUnit };
+  };
+
+  // Serviços (bloco A) não têm NCM nem unidade no documento
+  const registerService = (code, description) => {
+    const serviceCode = spedText(code, 60);
+    units.add('UN');
+    if (!items.has(serviceCode)) {
+      items.set(serviceCode, {
+        code: serviceCode,
+        description,
+        unit: 'UN',
+        type: SPED_ITEM_TYPES.SERVICE,
+        ncm: '',
+        conversions: new Map(),
+      });
+    }
+    return serviceCode;
+  };
+
+  const validate = ({ errors, warnings }) => {
+    items.forEach((item) => {
+      if (!item.ncm && ![SPED_ITEM_TYPES.OTHER, SPED_ITEM_TYPES.SERVICE].includes(item.type)) {
+        warnings.push(`Item ${item.code} (${item.description ?? 'sem descrição'}) sem NCM.`);
+      }
+      item.conversions.forEach((factor, unit) => {
+        if (factor == null) {
+          errors.push(`Item ${item.code} recebido em ${unit} e controlado em ${item.unit} sem fator de conversão (0220).`);
+        }
+      });
+    });
+    if (unmappedCount) {
+      warnings.push(`${unmappedCount} item(ns) sem produto vinculado; o 0200 usa o código do emitente com TIPO_ITEM 99.`);
+    }
+  };
+
+  // 0200 com os campos comuns; cada arquivo acrescenta os campos finais do seu leiaute
+  const writeRecords = (writer, trailingFields = []) => {
+    [...units].sort().forEach((unit) => writer.add('0190', [unit, unit]));
+    [...items.values()].sort((a, b) => a.code.localeCompare(b.code)).forEach((item) => {
+      writer.add('0200', [
+        item.code,
+        spedText(item.description, 255),
+        '',
+        '',
+        item.unit,
+        item.type,
+        item.ncm,
+        '',
+        item.ncm.slice(0, 2),
+        '',
+        '',
+        ...trailingFields,
+      ]);
+      item.conversions.forEach((factor, unit) => {
+        if (factor != null) writer.add('0220', [unit, formatSpedDecimal(factor, 6), '']);
+      });
+    });
+  };
+
+  return { register, registerService, validate, writeRecords, items };
+}
+
+module.exports = {
+  SPED_ITEM_TYPES,
+  SPED_INVOICE_SELECT,
+  loadSpedCompany,
+  readXmlExtras,
+  createInvoiceExtrasReader,
+  toEntryCfop,
+  normalizeUnit,
+  resolveCompanyRegistration,
+  createParticipantRegistry,
+  createItemRegistry,
+};
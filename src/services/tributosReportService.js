@@ -1,5 +1,6 @@
 const { Prisma } = require('@prisma/client');
 const { prisma } = require('../prisma');
+const { summarizeDifalByUf, sumDifalTotals } = require('../utils/icmsDifal');
 
 const Decimal = Prisma.Decimal;
 
@@ -200,6 +201,72 @@ async function fetchInvoiceItems({ companyId, cfops, type, from, to }) {
   });
 }
 
+async function fetchDifalItems({ companyId, from, to }) {
+  const where = {
+    OR: [{ vICMSUFDest: { not: null } }, { vFCPUFDest: { not: null } }],
+    invoice: {
+      companyId,
+      type: 'OUT',
+    },
+  };
+
+  if (from || to) {
+    where.invoice.emissao = {};
+    if (from) {
+      where.invoice.emissao.gte = startOfDay(from);
+    }
+    if (to) {
+      where.invoice.emissao.lte = endOfDay(to);
+    }
+  }
+
+  return prisma.invoiceItem.findMany({
+    where,
+    select: {
+      invoiceId: true,
+      vBCUFDest: true,
+      vICMSUFDest: true,
+      vICMSUFRemet: true,
+      vFCPUFDest: true,
+      invoice: { select: { recipientState: true } },
+    },
+  });
+}
+
+function buildDifalSection(items) {
+  const byUf = summarizeDifalByUf(
+    items.map((item) => ({
+      uf: item.invoice?.recipientState ?? null,
+      invoiceId: item.invoiceId,
+      vBCUFDest: item.vBCUFDest,
+      vICMSUFDest: item.vICMSUFDest,
+      vICMSUFRemet: item.vICMSUFRemet,
+      vFCPUFDest: item.vFCPUFDest,
+    })),
+  );
+  const totals = sumDifalTotals(byUf);
+
+  return {
+    byUf: byUf.map((row) => ({
+      uf: row.uf,
+      invoiceCount: row.invoiceCount,
+      itemCount: row.itemCount,
+      baseValue: formatMoney(row.vBCUFDest),
+      icmsUfDest: formatMoney(row.vICMSUFDest),
+      icmsUfRemet: formatMoney(row.vICMSUFRemet),
+      fcpUfDest: formatMoney(row.vFCPUFDest),
+      totalDestino: formatMoney(row.totalDestino),
+    })),
+    totals: {
+      baseValue: formatMoney(totals.vBCUFDest),
+      icmsUfDest: formatMoney(totals.vICMSUFDest),
+      icmsUfRemet: formatMoney(totals.vICMSUFRemet),
+      fcpUfDest: formatMoney(totals.vFCPUFDest),
+      totalDestino: formatMoney(totals.totalDestino),
+    },
+  };
+}
+
 function resolveProductIdentity(item) {
   const fallbackName = item.description?.trim()
     || item.productMapping?.product?.name?.trim()
@@ -549,7 +616,7 @@ async function buildTributosReport({ from, to }) {
 
   const company = await resolveTargetCompany();
 
-  const [tributo1Items, tributo2Items, funruralItems] = await Promise.all([
+  const [tributo1Items, tributo2Items, funruralItems, difalItems] = await Promise.all([
     fetchInvoiceItems({
       companyId: company.id,
       cfops: ['5401'],
@@ -571,6 +638,11 @@ async function buildTributosReport({ from, to }) {
       from: fromDate,
       to: toDate,
     }),
+    fetchDifalItems({
+      companyId: company.id,
+      from: fromDate,
+      to: toDate,
+    }),
   ]);
 
   const companyDigits = normalizeDigits(company.cnpj);
@@ -578,6 +650,7 @@ async function buildTributosReport({ from, to }) {
   const tributo1 = buildSalesSection(tributo1Items, TRIBUTO_1_RATES, { includeSt: true });
   const tributo2 = buildSalesSection(tributo2Items, TRIBUTO_2_RATES, { includeSt: false });
   const tributo3 = buildFunruralSection(funruralItems, companyDigits);
+  const difal = buildDifalSection(difalItems);
 
   const totalSalesTax = toDecimal(tributo1.totals.finalTax ?? 0).add(toDecimal(tributo2.totals.finalTax ?? 0));
   const totalFunrural = toDecimal(tributo3.totals.funrural ?? 0);
@@ -593,8 +666,10 @@ async function buildTributosReport({ from, to }) {
     tributo1,
     tributo2,
     tributo3,
+    difal,
     overall: {
       totalSalesTax: formatMoney(totalSalesTax),
+      totalDifal: difal.totals.totalDestino,
       totalFunrural: formatMoney(totalFunrural),
       totalDiscountIcms: formatMoney(totalDiscount),
       grandTotalTax: formatMoney(totalSalesTax.add(totalFunrural)),
@@ -733,6 +808,38 @@ function buildFunruralCsvSection(title, section) {
   return rows;
 }
 
+function buildDifalCsvSection(title, section) {
+  const rows = [
+    [title],
+    ['UF destino', 'Notas', 'Base (vBCUFDest)', 'ICMS UF destino', 'FCP UF destino', 'ICMS UF remetente', 'Total destino'],
+  ];
+
+  section.byUf.forEach((row) => {
+    rows.push([
+      row.uf,
+      row.invoiceCount,
+      row.baseValue,
+      row.icmsUfDest,
+      row.fcpUfDest,
+      row.icmsUfRemet,
+      row.totalDestino,
+    ]);
+  });
+
+  rows.push([
+    'Totais',
+    '',
+    section.totals.baseValue,
+    section.totals.icmsUfDest,
+    section.totals.fcpUfDest,
+    section.totals.icmsUfRemet,
+    section.totals.totalDestino,
+  ]);
+
+  rows.push([]);
+  return rows;
+}
+
 function generateTributosCsv(report) {
   const rows = [
     ['Relatório de Tributos — OLG Indústria e Comércio'],
@@ -752,12 +859,15 @@ function generateTributosCsv(report) {
     ...buildFunruralCsvSection('Tributo 3 — FUNRURAL (CFOP 1.101)', report.tributo3),
   );
 
+  rows.push(...buildDifalCsvSection('DIFAL — ICMS devido à UF de destino (ICMSUFDest)', report.difal));
+
   rows.push(
     [],
     ['Resumo geral'],
     ['Tributos sobre vendas', report.overall.totalSalesTax],
     ['Desconto de ICMS aplicado', report.overall.totalDiscountIcms],
     ['FUNRURAL (compras)', report.overall.totalFunrural],
+    ['DIFAL (UF de destino)', report.overall.totalDifal],
     ['Total geral de tributos', report.overall.grandTotalTax],
   );
 
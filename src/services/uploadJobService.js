@@ -0,0 +1,221 @@
+const { Prisma } = require('@prisma/client');
+const { prisma } = require('../prisma');
+const { processUploadedFiles } = require('./invoiceUploadService');
+
+const UPLOAD_BATCH_STATUS = Object.freeze({
+  QUEUED: 'QUEUED',
+  RUNNING: 'RUNNING',
+  COMPLETED: 'COMPLETED',
+  FAILED: 'FAILED',
+});
+
+const ACTIVE_STATUSES = [UPLOAD_BATCH_STATUS.QUEUED, UPLOAD_BATCH_STATUS.RUNNING];
+
+let isDraining = false;
+let wakeRequested = false;
+
+function summarizeCounts(result) {
+  return {
+    inserted: result.inserted ?? 0,
+    updated: result.updated ?? 0,
+    duplicate: result.duplicate ?? 0,
+    failed: result.failed ?? 0,
+    cancelled: result.cancelled ?? 0,
+  };
+}
+
+// Parcial gravado no summary mais o que o progresso por XML acumulou depois dele
+function mergeProgress(summary, progress) {
+  if (!progress) return summary;
+  return {
+    ...(summary ?? {}),
+    ...progress.counts,
+    details: [...(summary?.details ?? []), ...(progress.details ?? [])],
+    warnings: [...(summary?.warnings ?? []), ...(progress.warnings ?? [])],
+  };
+}
+
+function logSummary(batch, result) {
+  console.info('[upload-xml] resumo', { companyId: batch.companyId, batchId: batch.id, ...summarizeCounts(result) });
+  result.details.forEach((detail) => {
+    const payload = { companyId: batch.companyId, file: detail.file, status: detail.status };
+    if (detail.source) {
+      payload.source = detail.source;
+    }
+    if (detail.company) {
+      payload.company = detail.company;
+    }
+    if (detail.reason) {
+      payload.reason = detail.reason;
+    }
+    console.info('[upload-xml] arquivo', payload);
+  });
+}
+
+async function runUploadJob(batchId) {
+  const batch = await prisma.uploadBatch.findUnique({
+    where: { id: batchId },
+    include: {
+      company: { select: { cnpj: true } },
+      files: { orderBy: { position: 'asc' } },
+    },
+  });
+  if (!batch) return;
+
+  // Lote RUNNING encontrado na fila foi interrompido (reinício do servidor): retoma do último progresso
+  const isResume = batch.status === UPLOAD_BATCH_STATUS.RUNNING && batch.processedFiles > 0;
+  const options = batch.options ?? {};
+  // O progresso pendente entra no summary antes de retomar, para as próximas gravações partirem dele
+  const initialResult = isResume ? mergeProgress(batch.summary, batch.progress) : null;
+
+  await prisma.uploadBatch.update({
+    where: { id: batch.id },
+    data: {
+      status: UPLOAD_BATCH_STATUS.RUNNING,
+      startedAt: batch.startedAt ?? new Date(),
+      ...(isResume && batch.progress ? { summary: initialResult, progress: Prisma.DbNull } : {}),
+    },
+  });
+
+  try {
+    const result = await processUploadedFiles({
+      companyId: batch.companyId,
+      companyCnpj: batch.company.cnpj,
+      files: batch.files.map((file) => ({ name: file.name, buffer: Buffer.from(file.content) })),
+      limits: options.limits,
+      flags: options.flags,
+      uploadBatchId: batch.id,
+      resumeFrom: isResume ? batch.processedFiles : 0,
+      initialResult,
+      onProgress: async ({ processed, total, result: partial, pending }) => {
+        await prisma.uploadBatch.update({
+          where: { id: batch.id },
+          data: partial
+            ? { processedFiles: processed, totalFiles: total, summary: partial, progress: Prisma.DbNull }
+            : { processedFiles: processed, totalFiles: total, progress: pending },
+        });
+      },
+    });
+
+    await prisma.$transaction([
+      prisma.uploadBatch.update({
+        where: { id: batch.id },
+        data: {
+          status: UPLOAD_BATCH_STATUS.COMPLETED,
+          processedFiles: result.totalFiles,
+          totalFiles: result.totalFiles,
+          summary: result,
+          progress: Prisma.DbNull,
+          finishedAt: new Date(),
+        },
+      }),
+      prisma.uploadBatchFile.deleteMany({ where: { uploadBatchId: batch.id } }),
+    ]);
+    logSummary(batch, result);
+  } catch (error) {
+    console.error('[upload-xml] lote falhou', { batchId: batch.id, error: error.message });
+    await prisma.$transaction([
+      prisma.uploadBatch.update({
+        where: { id: batch.id },
+        data: {
+          status: UPLOAD_BATCH_STATUS.FAILED,
+          errorMessage: error.message || 'falha ao processar lote',
+          finishedAt: new Date(),
+        },
+      }),
+      prisma.uploadBatchFile.deleteMany({ where: { uploadBatchId: batch.id } }),
+    ]);
+  }
+}
+
+// Um lote por vez, do mais antigo para o mais novo
+async function drainQueue() {
+  for (;;) {
+    const next = await prisma.uploadBatch.findFirst({
+      where: { status: { in: ACTIVE_STATUSES } },
+      orderBy: { createdAt: 'asc' },
+      select: { id: true },
+    });
+    if (!next) return;
+    await runUploadJob(next.id);
+  }
+}
+
+function scheduleUploadJobs() {
+  wakeRequested = true;
+  if (isDraining) return;
+  isDraining = true;
+  setImmediate(async () => {
+    try {
+      while (wakeRequested) {
+        wakeRequested = false;
+        await drainQueue();
+      }
+    } catch (error) {
+      console.error('[upload-xml] falha na fila de lotes', error);
+    } finally {
+      isDraining = false;
+    }
+  });
+}
+
+// inbox: pasta de origem quando o lote vem do monitoramento de diretório
+async function enqueueUploadJob({ companyId, files, actorId = null, limits, flags, inbox = null }) {
+  const batch = await prisma.uploadBatch.create({
+    data: {
+      companyId,
+      fileName: files.map((file) => file.name).filter(Boolean).join(', ').slice(0, 500) || null,
+      actorId,
+      status: UPLOAD_BATCH_STATUS.QUEUED,
+      options: { limits, flags, ...(inbox ? { inbox } : {}) },
+      files: {
+        create: files.map((file, position) => ({
+          position,
+          name: file.name,
+          size: file.buffer.length,
+          content: file.buffer,
+        })),
+      },
+    },
+    select: { id: true, status: true, createdAt: true },
+  });
+
+  scheduleUploadJobs();
+  return batch;
+}
+
+function formatUploadBatch(batch, { includeDetails = false } = {}) {
+  // Lote em andamento ou interrompido: o progresso por XML está à frente do summary
+  const summary = mergeProgress(batch.summary, batch.progress) ?? {};
+  const isFinished = !ACTIVE_STATUSES.includes(batch.status);
+  return {
+    batchId: batch.id,
+    status: batch.status,
+    fileName: batch.fileName,
+    totalFiles: batch.totalFiles,
+    processedFiles: batch.processedFiles,
+    progress: batch.totalFiles ? Math.min(batch.processedFiles / batch.totalFiles, 1) : (isFinished ? 1 : 0),
+    counts: summarizeCounts(summary),
+    error: batch.errorMessage,
+    createdAt: batch.createdAt.toISOString(),
+    startedAt: batch.startedAt ? batch.startedAt.toISOString() : null,
+    finishedAt: batch.finishedAt ? batch.finishedAt.toISOString() : null,
+    ...(includeDetails && isFinished
+      ? {
+          summary: {
+            ...summarizeCounts(summary),
+            details: summary.details ?? [],
+            warnings: summary.warnings ?? [],
+            byCompany: summary.byCompany ?? [],
+          },
+        }
+      : {}),
+  };
+}
+
+module.exports = {
+  UPLOAD_BATCH_STATUS,
+  enqueueUploadJob,
+  scheduleUploadJobs,
+  formatUploadBatch,
+};
@@ -0,0 +1,445 @@
+const { Prisma } = require('@prisma/client');
+const { prisma } = require('../prisma');
+const { CTE_EVENT_TYPES } = require('../constants/cteEvents');
+
+const SNAPSHOT_ENTITIES = Object.freeze({
+  INVOICE: 'INVOICE',
+  INVOICE_CANCELLATION: 'INVOICE_CANCELLATION',
+  SERVICE_INVOICE: 'SERVICE_INVOICE',
+});
+
+const SNAPSHOT_ACTIONS = Object.freeze({
+  UPDATED: 'UPDATED',
+  DELETED: 'DELETED',
+});
+
+const ACTIVE_BATCH_STATUSES = ['QUEUED', 'RUNNING'];
+const ROLLBACK_TIMEOUT_MS = 120000;
+
+function createError(message, status) {
+  const error = new Error(message);
+  error.status = status;
+  return error;
+}
+
+// Decimal vira string e DateTime vira ISO; o Prisma aceita os dois de volta na restauração
+function toSnapshotData(value) {
+  return JSON.parse(JSON.stringify(value));
+}
+
+function omitKeys(source, keys) {
+  const copy = { ...source };
+  keys.forEach((key) => {
+    delete copy[key];
+  });
+  return copy;
+}
+
+async function captureSnapshot(client, { uploadBatchId, entity, action, entityId, data }) {
+  if (!uploadBatchId || !entityId) return;
+  // Vale o estado de antes do lote: uma segunda alteração no mesmo lote não sobrescreve
+  await client.uploadBatchSnapshot.createMany({
+    data: [{ uploadBatchId, entity, action, entityId, data: toSnapshotData(data) }],
+    skipDuplicates: true,
+  });
+}
+
+async function loadInvoiceState(client, invoiceId) {
+  return client.invoice.findUnique({
+    where: { id: invoiceId },
+    include: {
+      items: { include: { productMapping: true }, orderBy: { createdAt: 'asc' } },
+      installments: true,
+      payments: true,
+      references: true,
+      cteLinks: { select: { id: true } },
+      mdfeLinks: { select: { id: true } },
+      referencedBy: { select: { id: true } },
+    },
+  });
+}
+
+// Notas inseridas pelo próprio lote não precisam de snapshot: são apagadas ao desfazer
+async function captureInvoiceSnapshot(client, { uploadBatchId, invoiceId, action }) {
+  if (!uploadBatchId || !invoiceId) return;
+  const state = await loadInvoiceState(client, invoiceId);
+  if (!state || state.uploadBatchId === uploadBatchId) return;
+  await captureSnapshot(client, {
+    uploadBatchId,
+    entity: SNAPSHOT_ENTITIES.INVOICE,
+    action,
+    entityId: invoiceId,
+    data: state,
+  });
+}
+
+function invoiceHeaderData(state) {
+  const header = omitKeys(state, [
+    'items',
+    'installments',
+    'payments',
+    'references',
+    'cteLinks',
+    'mdfeLinks',
+    'referencedBy',
+    'updatedAt',
+  ]);
+  header.totalsMismatches = header.totalsMismatches ?? Prisma.DbNull;
+  header.integrityIssues = header.integrityIssues ?? Prisma.DbNull;
+  return header;
+}
+
+function invoiceChildRows(rows = []) {
+  return rows.map((row) => omitKeys(row, ['invoiceId']));
+}
+
+// A nota referenciada pode ter saído do banco depois do snapshot
+async function invoiceReferenceRows(tx, references = []) {
+  const referencedIds = references.map((row) => row.referencedInvoiceId).filter(Boolean);
+  const existing = referencedIds.length
+    ? await tx.invoice.findMany({ where: { id: { in: referencedIds } }, select: { id: true } })
+    : [];
+  const known = new Set(existing.map((invoice) => invoice.id));
+  return invoiceChildRows(references).map((row) => ({
+    ...row,
+    referencedInvoiceId: known.has(row.referencedInvoiceId) ? row.referencedInvoiceId : null,
+  }));
+}
+
+async function restoreUpdatedInvoice(tx, state) {
+  const current = await tx.invoice.findUnique({ where: { id: state.id }, select: { id: true } });
+  if (!current) return false;
+
+  await tx.invoiceInstallment.deleteMany({ where: { invoiceId: state.id } });
+  await tx.invoicePayment.deleteMany({ where: { invoiceId: state.id } });
+  await tx.invoiceReference.deleteMany({ where: { invoiceId: state.id } });
+  await tx.invoice.update({
+    where: { id: state.id },
+    data: {
+      ...omitKeys(invoiceHeaderData(state), ['id', 'companyId', 'naturezaOperacaoId', 'ingestionRuleId', 'partnerId', 'uploadBatchId', 'createdAt']),
+      installments: { create: invoiceChildRows(state.installments) },
+      payments: { create: invoiceChildRows(state.payments) },
+      references: { create: await invoiceReferenceRows(tx, state.references) },
+    },
+  });
+
+  // A reimportação só altera itens existentes (por posição), então basta regravar cada um
+  for (const item of state.items) {
+    await tx.invoiceItem.updateMany({
+      where: { id: item.id, invoiceId: state.id },
+      data: omitKeys(item, ['id', 'invoiceId', 'productMapping', 'createdAt', 'updatedAt']),
+    });
+  }
+  return true;
+}
+
+async function restoreDeletedInvoice(tx, state) {
+  const current = await tx.invoice.findFirst({
+    where: { companyId: state.companyId, chave: state.chave },
+    select: { id: true },
+  });
+  if (current) return false;
+
+  const productIds = state.items.map((item) => item.productMapping?.productId).filter(Boolean);
+  const [products, natureza, ingestionRule] = await Promise.all([
+    productIds.length
+      ? tx.product.findMany({ where: { id: { in: productIds } }, select: { id: true } })
+      : [],
+    state.naturezaOperacaoId
+      ? tx.naturezaOperacao.findUnique({ where: { id: state.naturezaOperacaoId }, select: { id: true } })
+      : null,
+    state.ingestionRuleId
+      ? tx.ingestionRule.findUnique({ where: { id: state.ingestionRuleId }, select: { id: true } })
+      : null,
+  ]);
+  const knownProducts = new Set(products.map((product) => product.id));
+
+  await tx.invoice.create({
+    data: {
+      ...invoiceHeaderData(state),
+      naturezaOperacaoId: natureza ? natureza.id : null,
+      ingestionRuleId: ingestionRule ? ingestionRule.id : null,
+      items: {
+        create: state.items.map((item) => ({
+          ...omitKeys(item, ['invoiceId', 'productMapping', 'updatedAt']),
+          ...(item.productMapping && knownProducts.has(item.productMapping.productId)
+            ? { productMapping: { create: omitKeys(item.productMapping, ['invoiceItemId', 'updatedAt']) } }
+            : {}),
+        })),
+      },
+      installments: { create: invoiceChildRows(state.installments) },
+      payments: { create: invoiceChildRows(state.payments) },
+      references: { create: await invoiceReferenceRows(tx, state.references) },
+    },
+    select: { id: true },
+  });
+
+  // Vínculos de CT-e, MDF-e e referências de outras notas voltam a apontar para a nota restaurada
+  const relink = (rows) => ({ id: { in: rows.map((row) => row.id) }, invoiceId: null });
+  await tx.cteInvoiceLink.updateMany({ where: relink(state.cteLinks), data: { invoiceId: state.id } });
+  await tx.mdfeDocumentLink.updateMany({ where: relink(state.mdfeLinks), data: { invoiceId: state.id } });
+  await tx.invoiceReference.updateMany({
+    where: { id: { in: state.referencedBy.map((row) => row.id) }, referencedInvoiceId: null },
+    data: { referencedInvoiceId: state.id },
+  });
+  return true;
+}
+
+async function findBatch(companyId, batchId) {
+  const batch = await prisma.uploadBatch.findFirst({
+    where: { id: batchId, companyId },
+    select: { id: true, companyId: true, status: true, fileName: true, createdAt: true },
+  });
+  if (!batch) {
+    throw createError('Lote de importação não encontrado', 404);
+  }
+  if (ACTIVE_BATCH_STATUSES.includes(batch.status)) {
+    throw createError('Lote ainda em processamento; aguarde o término para desfazer.', 400);
+  }
+  return batch;
+}
+
+// CT-e cancelados apenas por eventos deste lote voltam a ficar ativos. Com roteamento por CNPJ o lote
+// grava eventos de outras empresas, então a checagem é feita por empresa do CT-e
+async function findCtesToReactivate(client, batchId) {
+  const cancellations = await client.cteEvent.findMany({
+    where: { uploadBatchId: batchId, eventType: CTE_EVENT_TYPES.CANCELAMENTO },
+    select: { companyId: true, chave: true },
+  });
+  const toKey = (row) => `${row.companyId}|${row.chave}`;
+  const chaves = [...new Set(cancellations.map((event) => event.chave))];
+  if (!chaves.length) return [];
+
+  const remaining = await client.cteEvent.findMany({
+    where: {
+      chave: { in: chaves },
+      eventType: CTE_EVENT_TYPES.CANCELAMENTO,
+      NOT: { uploadBatchId: batchId },
+    },
+    select: { companyId: true, chave: true },
+  });
+  const stillCancelled = new Set(remaining.map(toKey));
+  const candidates = new Set(cancellations.map(toKey).filter((key) => !stillCancelled.has(key)));
+  if (!candidates.size) return [];
+
+  const ctes = await client.cte.findMany({
+    where: {
+      chave: { in: chaves },
+      isCancelled: true,
+      NOT: { uploadBatchId: batchId },
+    },
+    select: { id: true, companyId: true, chave: true },
+  });
+  return ctes.filter((cte) => candidates.has(toKey(cte))).map((cte) => cte.id);
+}
+
+async function buildRollbackPlan(client, batch) {
+  const where = { uploadBatchId: batch.id };
+  const [
+    invoices,
+    cancellations,
+    snapshots,
+    ctes,
+    mdfes,
+    serviceInvoices,
+    invoiceEvents,
+    cteEvents,
+    numberVoidings,
+    ctesToReactivate,
+  ] = await Promise.all([
+    client.invoice.findMany({ where, select: { id: true } }),
+    client.invoiceCancellation.findMany({ where, select: { id: true } }),
+    client.uploadBatchSnapshot.findMany({ where, select: { entity: true, action: true, entityId: true } }),
+    client.cte.count({ where }),
+    client.mdfe.count({ where }),
+    client.serviceInvoice.count({ where }),
+    client.invoiceEvent.count({ where }),
+    client.cteEvent.count({ where }),
+    client.invoiceNumberVoiding.count({ where }),
+    findCtesToReactivate(client, batch.id),
+  ]);
+
+  const snapshotIds = (entity) => snapshots.filter((snapshot) => snapshot.entity === entity).map((snapshot) => snapshot.entityId);
+  const restoredCancellationIds = new Set(snapshotIds(SNAPSHOT_ENTITIES.INVOICE_CANCELLATION));
+  const touchedIds = [
+    ...invoices.map((invoice) => invoice.id),
+    ...cancellations.map((cancellation) => cancellation.id),
+    ...snapshots.map((snapshot) => snapshot.entityId),
+  ];
+
+  // Lotes posteriores que alteraram os mesmos registros precisam ser desfeitos antes
+  const laterSnapshots = touchedIds.length
+    ? await client.uploadBatchSnapshot.findMany({
+        where: {
+          entityId: { in: touchedIds },
+          uploadBatchId: { not: batch.id },
+          uploadBatch: { createdAt: { gt: batch.createdAt } },
+        },
+        select: { uploadBatchId: true },
+      })
+    : [];
+
+  const invoiceSnapshots = snapshots.filter((snapshot) => snapshot.entity === SNAPSHOT_ENTITIES.INVOICE);
+
+  return {
+    invoiceIds: invoices.map((invoice) => invoice.id),
+    ctesToReactivate,
+    blockingBatches: [...new Set(laterSnapshots.map((snapshot) => snapshot.uploadBatchId))],
+    remove: {
+      invoices: invoices.length,
+      cancellations: cancellations.filter((cancellation) => !restoredCancellationIds.has(cancellation.id)).length,
+      invoiceEvents,
+      ctes,
+      cteEvents,
+      numberVoidings,
+      mdfes,
+      serviceInvoices,
+    },
+    restore: {
+      updatedInvoices: invoiceSnapshots.filter((snapshot) => snapshot.action === SNAPSHOT_ACTIONS.UPDATED).length,
+      deletedInvoices: invoiceSnapshots.filter((snapshot) => snapshot.action === SNAPSHOT_ACTIONS.DELETED).length,
+      cancellations: restoredCancellationIds.size,
+      serviceInvoices: snapshotIds(SNAPSHOT_ENTITIES.SERVICE_INVOICE).length,
+      reactivatedCtes: ctesToReactivate.length,
+    },
+  };
+}
+
+async function collectXmlDocumentIds(tx, batchId, invoiceSnapshotIds) {
+  const where = { uploadBatchId: batchId, xmlDocumentId: { not: null } };
+  const select = { xmlDocumentId: true };
+  const groups = await Promise.all([
+    tx.invoice.findMany({ where, select }),
+    tx.invoiceCancellation.findMany({ where, select }),
+    tx.invoiceEvent.findMany({ where, select }),
+    tx.cte.findMany({ where, select }),
+    tx.cteEvent.findMany({ where, select }),
+    tx.invoiceNumberVoiding.findMany({ where, select }),
+    tx.mdfe.findMany({ where, select }),
+    invoiceSnapshotIds.length
+      ? tx.invoice.findMany({ where: { id: { in: invoiceSnapshotIds }, xmlDocumentId: { not: null } }, select })
+      : [],
+  ]);
+  return [...new Set(groups.flat().map((row) => row.xmlDocumentId))];
+}
+
+// XMLs arquivados pelo lote que ficaram sem nenhum documento apontando para eles, inclusive os
+// gravados em outras empresas pelo roteamento por CNPJ
+async function deleteOrphanXmlDocuments(tx, batch, candidateIds) {
+  if (!candidateIds.length) return 0;
+  const orphans = await tx.xmlDocument.findMany({
+    where: {
+      id: { in: candidateIds },
+      createdAt: { gte: batch.createdAt },
+      invoices: { none: {} },
+      ctes: { none: {} },
+      mdfes: { none: {} },
+      cancellations: { none: {} },
+      events: { none: {} },
+      cteEvents: { none: {} },
+      numberVoidings: { none: {} },
+    },
+    select: { id: true },
+  });
+  if (!orphans.length) return 0;
+  const deleted = await tx.xmlDocument.deleteMany({ where: { id: { in: orphans.map((doc) => doc.id) } } });
+  return deleted.count;
+}
+
+async function executeRollback(tx, batch, plan) {
+  const where = { uploadBatchId: batch.id };
+  const snapshots = await tx.uploadBatchSnapshot.findMany({ where, orderBy: { createdAt: 'asc' } });
+  const invoiceSnapshots = snapshots.filter((snapshot) => snapshot.entity === SNAPSHOT_ENTITIES.INVOICE);
+  const xmlDocumentIds = await collectXmlDocumentIds(
+    tx,
+    batch.id,
+    invoiceSnapshots.map((snapshot) => snapshot.entityId),
+  );
+
+  await tx.invoiceEvent.deleteMany({ where });
+  await tx.cteEvent.deleteMany({ where });
+  await tx.invoiceNumberVoiding.deleteMany({ where });
+  if (plan.ctesToReactivate.length) {
+    await tx.cte.updateMany({ where: { id: { in: plan.ctesToReactivate } }, data: { isCancelled: false } });
+  }
+  await tx.mdfe.deleteMany({ where });
+  await tx.cte.deleteMany({ where });
+  await tx.serviceInvoice.deleteMany({ where });
+  await tx.invoice.deleteMany({ where });
+
+  const restoredCancellationIds = new Set();
+  for (const snapshot of snapshots) {
+    if (snapshot.entity === SNAPSHOT_ENTITIES.INVOICE_CANCELLATION) {
+      await tx.invoiceCancellation.updateMany({
+        where: { id: snapshot.entityId },
+        data: omitKeys(snapshot.data, ['id', 'companyId', 'chave', 'createdAt', 'updatedAt']),
+      });
+      restoredCancellationIds.add(snapshot.entityId);
+    } else if (snapshot.entity === SNAPSHOT_ENTITIES.SERVICE_INVOICE) {
+      await tx.serviceInvoice.updateMany({ where: { id: snapshot.entityId }, data: snapshot.data });
+    }
+  }
+  await tx.invoiceCancellation.deleteMany({
+    where: { uploadBatchId: batch.id, id: { notIn: [...restoredCancellationIds] } },
+  });
+
+  let skippedInvoices = 0;
+  for (const snapshot of invoiceSnapshots) {
+    const restored = snapshot.action === SNAPSHOT_ACTIONS.DELETED
+      ? await restoreDeletedInvoice(tx, snapshot.data)
+      : await restoreUpdatedInvoice(tx, snapshot.data);
+    if (!restored) skippedInvoices += 1;
+  }
+
+  const removedXmlDocuments = await deleteOrphanXmlDocuments(tx, batch, xmlDocumentIds);
+  await tx.uploadBatch.delete({ where: { id: batch.id } });
+
+  return { skippedInvoices, removedXmlDocuments };
+}
+
+async function rollbackUploadBatch({ companyId, batchId, dryRun = false, actorId = null }) {
+  const batch = await findBatch(companyId, batchId);
+  const plan = await buildRollbackPlan(prisma, batch);
+  const preview = {
+    batchId: batch.id,
+    fileName: batch.fileName,
+    dryRun,
+    blockingBatches: plan.blockingBatches,
+    remove: plan.remove,
+    restore: plan.restore,
+  };
+  if (dryRun) return preview;
+
+  if (plan.blockingBatches.length) {
+    throw createError(
+      `Lotes posteriores alteraram os mesmos registros; desfaça-os antes: ${plan.blockingBatches.join(', ')}`,
+      400,
+    );
+  }
+
+  const outcome = await prisma.$transaction(
+    (tx) => executeRollback(tx, batch, plan),
+    { timeout: ROLLBACK_TIMEOUT_MS },
+  );
+
+  console.info('[upload-rollback]', {
+    companyId,
+    batchId: batch.id,
+    actorId,
+    remove: plan.remove,
+    restore: plan.restore,
+    ...outcome,
+  });
+
+  return { ...preview, ...outcome };
+}
+
+module.exports = {
+  SNAPSHOT_ENTITIES,
+  SNAPSHOT_ACTIONS,
+  captureSnapshot,
+  captureInvoiceSnapshot,
+  rollbackUploadBatch,
+  findCtesToReactivate,
+  deleteOrphanXmlDocuments,
+};
@@ -0,0 +1,79 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { CTE_EVENT_TYPES } = require('../constants/cteEvents');
+
+// Os testes não abrem conexão: o client do Prisma é trocado antes de carregar o serviço
+require.cache[require.resolve('../prisma')] = { exports: { prisma: {} } };
+const { findCtesToReactivate, deleteOrphanXmlDocuments } = require('./uploadRollbackService');
+
+// Filtro mínimo do Prisma para os campos usados pelo rollback (igualdade, in, not, NOT e relações vazias)
+function matches(row, where = {}) {
+  return Object.entries(where).every(([field, condition]) => {
+    if (field === 'NOT') return !matches(row, condition);
+    if (condition && typeof condition === 'object' && !(condition instanceof Date)) {
+      if ('in' in condition) return condition.in.includes(row[field]);
+      if ('not' in condition) return row[field] !== condition.not;
+      if ('gte' in condition) return row[field] >= condition.gte;
+      if ('none' in condition) return !(row[field] ?? []).length;
+    }
+    return row[field] === condition;
+  });
+}
+
+function createTable(rows) {
+  return {
+    rows,
+    findMany: async ({ where }) => rows.filter((row) => matches(row, where)),
+    deleteMany: async ({ where }) => {
+      const removed = rows.filter((row) => matches(row, where));
+      removed.forEach((row) => rows.splice(rows.indexOf(row), 1));
+      return { count: removed.length };
+    },
+  };
+}
+
+// Lote da empresa A que, pelo roteamento por CNPJ, cancelou um CT-e da empresa B
+const batch = { id: 'batch-1', companyId: 'company-a', createdAt: new Date('2025-03-10T00:00:00Z') };
+const chave = '35250311222333000181570010000001231000001234';
+
+test('reativa o CT-e de outra empresa cancelado apenas pelo lote roteado', async () => {
+  const client = {
+    cteEvent: createTable([
+      { companyId: 'company-b', chave, eventType: CTE_EVENT_TYPES.CANCELAMENTO, uploadBatchId: batch.id },
+    ]),
+    cte: createTable([
+      { id: 'cte-b', companyId: 'company-b', chave, isCancelled: true, uploadBatchId: 'batch-0' },
+    ]),
+  };
+
+  assert.deepEqual(await findCtesToReactivate(client, batch.id), ['cte-b']);
+});
+
+test('mantém cancelado o CT-e com outro evento de cancelamento na mesma empresa', async () => {
+  const client = {
+    cteEvent: createTable([
+      { companyId: 'company-b', chave, eventType: CTE_EVENT_TYPES.CANCELAMENTO, uploadBatchId: batch.id },
+      { companyId: 'company-b', chave, eventType: CTE_EVENT_TYPES.CANCELAMENTO, uploadBatchId: 'batch-0' },
+      { companyId: 'company-c', chave, eventType: CTE_EVENT_TYPES.CANCELAMENTO, uploadBatchId: 'batch-0' },
+    ]),
+    cte: createTable([
+      { id: 'cte-b', companyId: 'company-b', chave, isCancelled: true, uploadBatchId: 'batch-0' },
+      { id: 'cte-c', companyId: 'company-c', chave, isCancelled: true, uploadBatchId: 'batch-0' },
+    ]),
+  };
+
+  assert.deepEqual(await findCtesToReactivate(client, batch.id), []);
+});
+
+test('remove os XMLs órfãos do lote gravados em outra empresa', async () => {
+  const xmlDocument = createTable([
+    { id: 'xml-a', companyId: 'company-a', createdAt: batch.createdAt },
+    { id: 'xml-b', companyId: 'company-b', createdAt: batch.createdAt },
+    { id: 'xml-linked', companyId: 'company-b', createdAt: batch.createdAt, invoices: [{ id: 'invoice-1' }] },
+  ]);
+
+  const removed = await deleteOrphanXmlDocuments({ xmlDocument }, batch, ['xml-a', 'xml-b', 'xml-linked']);
+
+  assert.equal(removed, 2);
+  assert.deepEqual(xmlDocument.rows.map((row) => row.id), ['xml-linked']);
+});
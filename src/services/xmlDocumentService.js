@@ -0,0 +1,173 @@
+const crypto = require('crypto');
+const zlib = require('zlib');
+const AdmZip = require('adm-zip');
+const { prisma } = require('../prisma');
+
+const XML_DOCUMENT_KINDS = Object.freeze({
+  NFE: 'NFE',
+  CTE: 'CTE',
+  MDFE: 'MDFE',
+  CANCELLATION: 'CANCELLATION',
+  EVENT: 'EVENT',
+  NUMBER_VOIDING: 'NUMBER_VOIDING',
+});
+
+const ARCHIVE_BATCH_SIZE = 200;
+const XML_EXPORT_MAX_DOCUMENTS = parseInt(process.env.XML_EXPORT_MAX_DOCUMENTS || '5000', 10);
+
+function hashXml(content) {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+// Mesmo arquivo reenviado aponta para o registro já gravado
+async function storeXmlDocument(companyId, { kind, content, fileName = null }) {
+  const buffer = Buffer.isBuffer(content) ? content : Buffer.from(String(content), 'utf-8');
+  const sha256 = hashXml(buffer);
+  const compressed = zlib.gzipSync(buffer);
+
+  return prisma.xmlDocument.upsert({
+    where: { companyId_sha256: { companyId, sha256 } },
+    update: {},
+    create: {
+      companyId,
+      sha256,
+      kind,
+      fileName,
+      size: buffer.length,
+      compressedSize: compressed.length,
+      content: compressed,
+    },
+    select: { id: true, sha256: true },
+  });
+}
+
+function decompressXml(document) {
+  if (!document?.content) return null;
+  return zlib.gunzipSync(Buffer.from(document.content));
+}
+
+function buildPeriodFilter(field, from, to) {
+  if (!from && !to) return {};
+  return {
+    [field]: {
+      ...(from ? { gte: from } : {}),
+      ...(to ? { lte: to } : {}),
+    },
+  };
+}
+
+async function addDocumentsToArchive(zip, folder, fetchPage, resolveName = (row) => row.chave) {
+  let cursor = null;
+  let added = 0;
+  for (;;) {
+    const rows = await fetchPage(cursor);
+    rows.forEach((row) => {
+      const xml = decompressXml(row.xmlDocument);
+      if (!xml) return;
+      zip.addFile(`${folder}/${resolveName(row)}.xml`, xml);
+      added += 1;
+    });
+    if (rows.length < ARCHIVE_BATCH_SIZE) break;
+    cursor = rows[rows.length - 1].id;
+  }
+  return added;
+}
+
+function pageArgs(cursor, extraSelect = {}) {
+  return {
+    orderBy: { id: 'asc' },
+    take: ARCHIVE_BATCH_SIZE,
+    ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    select: { id: true, chave: true, xmlDocument: { select: { content: true } }, ...extraSelect },
+  };
+}
+
+// Cada fonte vira uma pasta do zip; eventos de NF-e, CT-e e cancelamentos dividem eventos/
+const byEvent = (row) => `${row.chave}-${row.eventType}-${row.eventSequence}`;
+const ARCHIVE_SOURCES = [
+  { key: 'nfe', folder: 'nfe', model: 'invoice', dateField: 'emissao' },
+  { key: 'cte', folder: 'cte', model: 'cte', dateField: 'emissao' },
+  { key: 'mdfe', folder: 'mdfe', model: 'mdfe', dateField: 'emissao' },
+  { key: 'eventos', folder: 'eventos', model: 'invoiceCancellation', dateField: 'eventTimestamp' },
+  // Demais eventos (CC-e, manifestação...) podem ter várias ocorrências por chave
+  {
+    key: 'eventos',
+    folder: 'eventos',
+    model: 'invoiceEvent',
+    dateField: 'eventTimestamp',
+    extraSelect: { eventType: true, eventSequence: true },
+    resolveName: byEvent,
+  },
+  {
+    key: 'eventos',
+    folder: 'eventos',
+    model: 'cteEvent',
+    dateField: 'eventTimestamp',
+    extraSelect: { eventType: true, eventSequence: true },
+    resolveName: byEvent,
+  },
+  // Inutilização não tem chave; o nome do arquivo identifica a faixa
+  {
+    key: 'inutilizacoes',
+    folder: 'inutilizacoes',
+    model: 'invoiceNumberVoiding',
+    dateField: 'receivedAt',
+    select: {
+      id: true,
+      issuerCnpj: true,
+      modelo: true,
+      serie: true,
+      startNumber: true,
+      endNumber: true,
+      xmlDocument: { select: { content: true } },
+    },
+    resolveName: (row) => `${row.issuerCnpj}-${row.modelo}-${row.serie}-${row.startNumber}-${row.endNumber}`,
+  },
+];
+
+function sourceWhere(source, companyId, from, to) {
+  return { companyId, xmlDocumentId: { not: null }, ...buildPeriodFilter(source.dateField, from, to) };
+}
+
+// Zip com NF-e, CT-e, MDF-e, eventos e inutilizações do período (pastas nfe/, cte/, mdfe/, eventos/, inutilizacoes/).
+// O zip é montado em memória, então o total de XMLs é conferido antes de carregar qualquer conteúdo
+async function buildXmlArchive(companyId, { from = null, to = null } = {}) {
+  const totals = await Promise.all(
+    ARCHIVE_SOURCES.map((source) => prisma[source.model].count({ where: sourceWhere(source, companyId, from, to) })),
+  );
+  const total = totals.reduce((sum, count) => sum + count, 0);
+  if (total > XML_EXPORT_MAX_DOCUMENTS) {
+    const error = new Error(
+      `Limite de ${XML_EXPORT_MAX_DOCUMENTS} XMLs por exportação excedido (${total} no período); reduza o período`,
+    );
+    error.status = 400;
+    throw error;
+  }
+
+  const zip = new AdmZip();
+  const counts = { nfe: 0, cte: 0, mdfe: 0, eventos: 0, inutilizacoes: 0 };
+  for (const source of ARCHIVE_SOURCES) {
+    counts[source.key] += await addDocumentsToArchive(
+      zip,
+      source.folder,
+      (cursor) =>
+        prisma[source.model].findMany({
+          where: sourceWhere(source, companyId, from, to),
+          ...pageArgs(cursor, source.extraSelect),
+          ...(source.select ? { select: source.select } : {}),
+        }),
+      source.resolveName,
+    );
+  }
+
+  return { buffer: zip.toBuffer(), counts };
+}
+
+module.exports = {
+  XML_DOCUMENT_KINDS,
+  hashXml,
+  storeXmlDocument,
+  decompressXml,
+  buildXmlArchive,
+  XML_EXPORT_MAX_DOCUMENTS,
+};
@@ -0,0 +1,70 @@
+// Larguras (barra/espaço alternados, começando por barra) dos símbolos 0..106 do Code-128
+const PATTERNS = Object.freeze([
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112',
+]);
+
+const START_B = 104;
+const START_C = 105;
+const STOP = 106;
+
+function toSymbols(value) {
+  const text = String(value ?? '');
+  // Chave de acesso (44 dígitos) usa o conjunto C: dois dígitos por símbolo
+  if (/^\d+$/.test(text) && text.length % 2 === 0) {
+    const symbols = [START_C];
+    for (let index = 0; index < text.length; index += 2) {
+      symbols.push(Number(text.slice(index, index + 2)));
+    }
+    return symbols;
+  }
+
+  const symbols = [START_B];
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    if (code < 32 || code > 127) {
+      throw new Error(`Caractere não suportado no Code-128: ${char}`);
+    }
+    symbols.push(code - 32);
+  }
+  return symbols;
+}
+
+// Retorna as larguras em módulos (barra, espaço, barra...) incluindo dígito verificador e stop
+function encodeCode128(value) {
+  const symbols = toSymbols(value);
+  const checksum = symbols.reduce((sum, symbol, index) => sum + symbol * (index === 0 ? 1 : index), 0) % 103;
+  return [...symbols, checksum, STOP]
+    .flatMap((symbol) => PATTERNS[symbol].split('').map(Number));
+}
+
+function drawCode128(doc, value, { x, y, width, height, color = '#000000' }) {
+  const modules = encodeCode128(value);
+  const totalModules = modules.reduce((sum, size) => sum + size, 0);
+  const moduleWidth = width / totalModules;
+
+  let cursorX = x;
+  doc.save().fillColor(color);
+  modules.forEach((size, index) => {
+    const barWidth = size * moduleWidth;
+    if (index % 2 === 0) {
+      doc.rect(cursorX, y, barWidth, height).fill();
+    }
+    cursorX += barWidth;
+  });
+  doc.restore();
+}
+
+module.exports = {
+  encodeCode128,
+  drawCode128,
+};
@@ -0,0 +1,175 @@
+const { SIGNATURE_STATUS, verifyXmlSignature } = require('./xmlSignature');
+
+// Validações offline de integridade: chave de acesso, dígitos de CNPJ/CPF e assinatura digital.
+// Cada problema vira { code, message }; o documento é importado mesmo assim, apenas sinalizado.
+
+const INTEGRITY_ISSUE_CODES = Object.freeze({
+  ACCESS_KEY_FORMAT: 'ACCESS_KEY_FORMAT',
+  ACCESS_KEY_CHECK_DIGIT: 'ACCESS_KEY_CHECK_DIGIT',
+  ACCESS_KEY_MISMATCH: 'ACCESS_KEY_MISMATCH',
+  TAX_ID_CHECK_DIGIT: 'TAX_ID_CHECK_DIGIT',
+  SIGNATURE_INVALID: 'SIGNATURE_INVALID',
+  SIGNATURE_MISSING: 'SIGNATURE_MISSING',
+  CERTIFICATE_EXPIRED: 'CERTIFICATE_EXPIRED',
+});
+
+// Posições da chave de 44 dígitos (layout comum a NF-e, NFC-e, CT-e e MDF-e)
+const ACCESS_KEY_FIELDS = [
+  { field: 'cUF', label: 'UF', start: 0, length: 2 },
+  { field: 'yearMonth', label: 'ano/mês de emissão', start: 2, length: 4 },
+  { field: 'issuerTaxId', label: 'CNPJ/CPF do emitente', start: 6, length: 14 },
+  { field: 'modelo', label: 'modelo', start: 20, length: 2 },
+  { field: 'serie', label: 'série', start: 22, length: 3 },
+  { field: 'numero', label: 'número', start: 25, length: 9 },
+  { field: 'tpEmis', label: 'tipo de emissão', start: 34, length: 1 },
+  { field: 'codigo', label: 'código numérico', start: 35, length: 8 },
+  { field: 'dv', label: 'dígito verificador', start: 43, length: 1 },
+];
+
+function issue(code, message) {
+  return { code, message };
+}
+
+function computeAccessKeyDigit(first43) {
+  let weight = 2;
+  let sum = 0;
+  for (let index = first43.length - 1; index >= 0; index -= 1) {
+    sum += Number(first43[index]) * weight;
+    weight = weight === 9 ? 2 : weight + 1;
+  }
+  const rest = sum % 11;
+  return rest < 2 ? 0 : 11 - rest;
+}
+
+function isValidCnpj(digits) {
+  if (!/^\d{14}$/.test(digits) || /^(\d)\1{13}$/.test(digits)) return false;
+  const digitFor = (base) => {
+    let weight = base.length - 7;
+    let sum = 0;
+    for (const char of base) {
+      sum += Number(char) * weight;
+      weight = weight === 2 ? 9 : weight - 1;
+    }
+    const rest = sum % 11;
+    return rest < 2 ? 0 : 11 - rest;
+  };
+  const first = digitFor(digits.slice(0, 12));
+  const second = digitFor(digits.slice(0, 12) + first);
+  return digits.endsWith(`${first}${second}`);
+}
+
+function isValidCpf(digits) {
+  if (!/^\d{11}$/.test(digits) || /^(\d)\1{10}$/.test(digits)) return false;
+  const digitFor = (base) => {
+    let sum = 0;
+    for (let index = 0; index < base.length; index += 1) {
+      sum += Number(base[index]) * (base.length + 1 - index);
+    }
+    const rest = (sum * 10) % 11;
+    return rest === 10 ? 0 : rest;
+  };
+  const first = digitFor(digits.slice(0, 9));
+  const second = digitFor(digits.slice(0, 9) + first);
+  return digits.endsWith(`${first}${second}`);
+}
+
+function isValidTaxId(digits) {
+  if (!digits) return false;
+  return digits.length === 14 ? isValidCnpj(digits) : isValidCpf(digits);
+}
+
+function padDigits(value, length) {
+  if (value == null || value === '') return null;
+  const digits = String(value).replace(/\D/g, '');
+  return digits ? digits.padStart(length, '0').slice(-length) : null;
+}
+
+// AAMM a partir do texto de dhEmi/dEmi, sem conversão de fuso
+function yearMonthFromEmission(rawEmission) {
+  const match = /^(\d{4})-(\d{2})/.exec(String(rawEmission ?? '').trim());
+  return match ? `${match[1].slice(2)}${match[2]}` : null;
+}
+
+// expected: valores declarados no XML para comparar com a chave (campos ausentes são ignorados)
+function validateAccessKey(chave, expected = {}) {
+  if (!/^\d{44}$/.test(chave ?? '')) {
+    return [issue(INTEGRITY_ISSUE_CODES.ACCESS_KEY_FORMAT, 'chave de acesso não tem 44 dígitos')];
+  }
+
+  const issues = [];
+  const digit = computeAccessKeyDigit(chave.slice(0, 43));
+  if (String(digit) !== chave[43]) {
+    issues.push(issue(
+      INTEGRITY_ISSUE_CODES.ACCESS_KEY_CHECK_DIGIT,
+      `dígito verificador da chave inválido (esperado ${digit})`,
+    ));
+  }
+
+  const declared = {
+    cUF: padDigits(expected.cUF, 2),
+    yearMonth: yearMonthFromEmission(expected.emission),
+    issuerTaxId: padDigits(expected.issuerTaxId, 14),
+    modelo: padDigits(expected.modelo, 2),
+    serie: padDigits(expected.serie, 3),
+    numero: padDigits(expected.numero, 9),
+    tpEmis: padDigits(expected.tpEmis, 1),
+    codigo: padDigits(expected.codigo, 8),
+    dv: padDigits(expected.dv, 1),
+  };
+  const mismatched = ACCESS_KEY_FIELDS.filter(({ field, start, length }) => (
+    declared[field] != null && declared[field] !== chave.slice(start, start + length)
+  ));
+  if (mismatched.length) {
+    issues.push(issue(
+      INTEGRITY_ISSUE_CODES.ACCESS_KEY_MISMATCH,
+      `chave de acesso diverge do XML em: ${mismatched.map(({ label }) => label).join(', ')}`,
+    ));
+  }
+
+  if (expected.alternateKey && expected.alternateKey !== chave) {
+    issues.push(issue(
+      INTEGRITY_ISSUE_CODES.ACCESS_KEY_MISMATCH,
+      'chave do protocolo diverge do Id do documento',
+    ));
+  }
+  return issues;
+}
+
+// parties: [{ label, taxId }]; taxId nulo (ex.: consumidor não identificado) é ignorado
+function validateTaxIds(parties) {
+  return parties
+    .filter(({ taxId }) => taxId && !isValidTaxId(taxId))
+    .map(({ label, taxId }) => issue(
+      INTEGRITY_ISSUE_CODES.TAX_ID_CHECK_DIGIT,
+      `${taxId.length === 14 ? 'CNPJ' : 'CPF'} do ${label} com dígito verificador inválido`,
+    ));
+}
+
+function validateSignature(xmlContent, { referenceId, emission }) {
+  const signature = verifyXmlSignature(xmlContent, { referenceId });
+  const issues = [];
+  if (signature.status === SIGNATURE_STATUS.MISSING) {
+    issues.push(issue(INTEGRITY_ISSUE_CODES.SIGNATURE_MISSING, signature.reason));
+  } else if (signature.status === SIGNATURE_STATUS.INVALID) {
+    issues.push(issue(INTEGRITY_ISSUE_CODES.SIGNATURE_INVALID, `assinatura inválida: ${signature.reason}`));
+  }
+  const certificate = signature.certificate;
+  if (certificate && emission instanceof Date && !Number.isNaN(emission.getTime())) {
+    if (emission < new Date(certificate.validFrom) || emission > new Date(certificate.validTo)) {
+      issues.push(issue(
+        INTEGRITY_ISSUE_CODES.CERTIFICATE_EXPIRED,
+        'emissão fora do período de validade do certificado',
+      ));
+    }
+  }
+  return { status: signature.status, certificate: certificate ?? null, issues };
+}
+
+module.exports = {
+  INTEGRITY_ISSUE_CODES,
+  computeAccessKeyDigit,
+  isValidTaxId,
+  validateAccessKey,
+  validateTaxIds,
+  validateSignature,
+};
@@ -0,0 +1,72 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const {
+  INTEGRITY_ISSUE_CODES,
+  computeAccessKeyDigit,
+  isValidTaxId,
+  validateAccessKey,
+} = require('./documentIntegrity');
+
+// Chave da NF-e de exemplo em documentos/
+const chave = '11250130404512000184550010000008431529700922';
+
+test('calcula o dígito verificador da chave pelo módulo 11', () => {
+  assert.equal(computeAccessKeyDigit(chave.slice(0, 43)), 2);
+  // Resto 0 ou 1 resulta em dígito 0
+  assert.equal(computeAccessKeyDigit('0'.repeat(43)), 0);
+});
+
+test('valida CNPJ e CPF pelos dígitos verificadores', () => {
+  assert.equal(isValidTaxId('30404512000184'), true);
+  assert.equal(isValidTaxId('11222333000181'), true);
+  assert.equal(isValidTaxId('52998224725'), true);
+  assert.equal(isValidTaxId('30404512000185'), false);
+  assert.equal(isValidTaxId('52998224724'), false);
+  assert.equal(isValidTaxId('11111111111111'), false);
+  assert.equal(isValidTaxId('00000000000'), false);
+  assert.equal(isValidTaxId(null), false);
+});
+
+test('aceita a chave coerente com os dados do XML', () => {
+  assert.deepEqual(validateAccessKey(chave, {
+    cUF: '11',
+    emission: '2025-01-06T15:39:58-03:00',
+    issuerTaxId: '30404512000184',
+    modelo: '55',
+    serie: '1',
+    numero: '843',
+    tpEmis: '1',
+    codigo: '52970092',
+    dv: '2',
+    alternateKey: chave,
+  }), []);
+});
+
+test('rejeita chave fora do formato sem outras verificações', () => {
+  const issues = validateAccessKey(chave.slice(0, 43), { numero: '999' });
+  assert.deepEqual(issues.map(({ code }) => code), [INTEGRITY_ISSUE_CODES.ACCESS_KEY_FORMAT]);
+});
+
+test('aponta dígito verificador errado', () => {
+  const [issue] = validateAccessKey(`${chave.slice(0, 43)}3`);
+  assert.equal(issue.code, INTEGRITY_ISSUE_CODES.ACCESS_KEY_CHECK_DIGIT);
+  assert.match(issue.message, /esperado 2/);
+});
+
+test('lista os campos que divergem do XML', () => {
+  const issues = validateAccessKey(chave, {
+    cUF: '35',
+    emission: '2025-02-01T10:00:00-03:00',
+    numero: '843',
+  });
+  assert.equal(issues.length, 1);
+  assert.equal(issues[0].code, INTEGRITY_ISSUE_CODES.ACCESS_KEY_MISMATCH);
+  assert.equal(issues[0].message, 'chave de acesso diverge do XML em: UF, ano/mês de emissão');
+});
+
+test('aponta chave do protocolo diferente do Id', () => {
+  const other = `${chave.slice(0, 42)}10`;
+  const issues = validateAccessKey(chave, { alternateKey: other });
+  assert.deepEqual(issues.map(({ code }) => code), [INTEGRITY_ISSUE_CODES.ACCESS_KEY_MISMATCH]);
+  assert.equal(issues[0].message, 'chave do protocolo diverge do Id do documento');
+});
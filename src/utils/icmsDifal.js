@@ -0,0 +1,67 @@
+// Campos do grupo ICMSUFDest somados por UF de destino
+const DIFAL_FIELDS = Object.freeze(['vBCUFDest', 'vICMSUFDest', 'vICMSUFRemet', 'vFCPUFDest']);
+
+function toNumber(value) {
+  if (value == null || value === '') return 0;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function round2(value) {
+  return Math.round(value * 100) / 100;
+}
+
+function hasDifal(item) {
+  return item.vICMSUFDest != null || item.vFCPUFDest != null || item.vICMSUFRemet != null;
+}
+
+// entries: [{ uf, invoiceId, vBCUFDest, vICMSUFDest, vICMSUFRemet, vFCPUFDest }]
+// O valor devido à UF de destino é vICMSUFDest + vFCPUFDest
+function summarizeDifalByUf(entries = []) {
+  const byUf = new Map();
+
+  entries.forEach((entry) => {
+    if (!hasDifal(entry)) return;
+    const uf = entry.uf ? String(entry.uf).trim().toUpperCase() : 'SEM_UF';
+    if (!byUf.has(uf)) {
+      byUf.set(uf, { uf, invoiceIds: new Set(), itemCount: 0, vBCUFDest: 0, vICMSUFDest: 0, vICMSUFRemet: 0, vFCPUFDest: 0 });
+    }
+    const agg = byUf.get(uf);
+    if (entry.invoiceId) agg.invoiceIds.add(entry.invoiceId);
+    agg.itemCount += 1;
+    DIFAL_FIELDS.forEach((field) => {
+      agg[field] += toNumber(entry[field]);
+    });
+  });
+
+  return Array.from(byUf.values())
+    .map(({ invoiceIds, ...agg }) => ({
+      ...agg,
+      invoiceCount: invoiceIds.size,
+      vBCUFDest: round2(agg.vBCUFDest),
+      vICMSUFDest: round2(agg.vICMSUFDest),
+      vICMSUFRemet: round2(agg.vICMSUFRemet),
+      vFCPUFDest: round2(agg.vFCPUFDest),
+      totalDestino: round2(agg.vICMSUFDest + agg.vFCPUFDest),
+    }))
+    .sort((a, b) => a.uf.localeCompare(b.uf));
+}
+
+function sumDifalTotals(byUf = []) {
+  return byUf.reduce(
+    (acc, row) => {
+      DIFAL_FIELDS.forEach((field) => {
+        acc[field] = round2(acc[field] + row[field]);
+      });
+      acc.totalDestino = round2(acc.totalDestino + row.totalDestino);
+      return acc;
+    },
+    { vBCUFDest: 0, vICMSUFDest: 0, vICMSUFRemet: 0, vFCPUFDest: 0, totalDestino: 0 },
+  );
+}
+
+module.exports = {
+  DIFAL_FIELDS,
+  summarizeDifalByUf,
+  sumDifalTotals,
+};
@@ -0,0 +1,63 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { summarizeDifalByUf, sumDifalTotals } = require('./icmsDifal');
+
+const entries = [
+  { uf: 'sp', invoiceId: 'invoice-1', vBCUFDest: '100.00', vICMSUFDest: '18.00', vICMSUFRemet: '0', vFCPUFDest: '2.00' },
+  { uf: 'SP', invoiceId: 'invoice-1', vBCUFDest: '50.00', vICMSUFDest: '9.00', vICMSUFRemet: '0', vFCPUFDest: '1.00' },
+  { uf: 'SP', invoiceId: 'invoice-2', vBCUFDest: '10.10', vICMSUFDest: '1.82', vICMSUFRemet: null, vFCPUFDest: null },
+  { uf: ' ba ', invoiceId: 'invoice-3', vBCUFDest: '200.00', vICMSUFDest: '16.00', vICMSUFRemet: '4.00', vFCPUFDest: null },
+  { uf: null, invoiceId: 'invoice-4', vBCUFDest: '10.00', vICMSUFDest: '1.00' },
+  // Item sem grupo ICMSUFDest não entra no resumo
+  { uf: 'RJ', invoiceId: 'invoice-5', vBCUFDest: null, vICMSUFDest: null, vICMSUFRemet: null, vFCPUFDest: null },
+];
+
+test('agrupa o DIFAL por UF de destino e conta as notas distintas', () => {
+  assert.deepEqual(summarizeDifalByUf(entries), [
+    {
+      uf: 'BA',
+      itemCount: 1,
+      invoiceCount: 1,
+      vBCUFDest: 200,
+      vICMSUFDest: 16,
+      vICMSUFRemet: 4,
+      vFCPUFDest: 0,
+      totalDestino: 16,
+    },
+    {
+      uf: 'SEM_UF',
+      itemCount: 1,
+      invoiceCount: 1,
+      vBCUFDest: 10,
+      vICMSUFDest: 1,
+      vICMSUFRemet: 0,
+      vFCPUFDest: 0,
+      totalDestino: 1,
+    },
+    {
+      uf: 'SP',
+      itemCount: 3,
+      invoiceCount: 2,
+      vBCUFDest: 160.1,
+      vICMSUFDest: 28.82,
+      vICMSUFRemet: 0,
+      vFCPUFDest: 3,
+      totalDestino: 31.82,
+    },
+  ]);
+});
+
+test('soma os totais das UFs', () => {
+  assert.deepEqual(sumDifalTotals(summarizeDifalByUf(entries)), {
+    vBCUFDest: 370.1,
+    vICMSUFDest: 45.82,
+    vICMSUFRemet: 4,
+    vFCPUFDest: 3,
+    totalDestino: 48.82,
+  });
+});
+
+test('devolve lista vazia sem itens com DIFAL', () => {
+  assert.deepEqual(summarizeDifalByUf(), []);
+  assert.deepEqual(sumDifalTotals([]), { vBCUFDest: 0, vICMSUFDest: 0, vICMSUFRemet: 0, vFCPUFDest: 0, totalDestino: 0 });
+});
@@ -0,0 +1,71 @@
+// Tolerância de arredondamento entre a soma dos itens e o grupo ICMSTot
+const TOTALS_TOLERANCE = 0.01;
+
+// Campo do ICMSTot -> campo equivalente no item
+const ITEM_SUM_FIELDS = Object.freeze({
+  vProd: 'gross',
+  vDesc: 'discount',
+  vFrete: 'vFrete',
+  vSeg: 'vSeg',
+  vOutro: 'vOutro',
+  vIPI: 'ipiValue',
+  vST: 'vST',
+  vPIS: 'pisValue',
+  vCOFINS: 'cofinsValue',
+});
+
+function toNumber(value) {
+  if (value == null || value === '') return 0;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function round2(value) {
+  return Math.round(value * 100) / 100;
+}
+
+// Compara em centavos: 100.01 - 100 em ponto flutuante passa de 0.01
+function exceedsTolerance(header, computed) {
+  return Math.abs(round2(header - computed)) > TOTALS_TOLERANCE;
+}
+
+function reconcileInvoiceTotals({ totals, items = [], totalNFe }) {
+  const mismatches = [];
+  if (!totals) return mismatches;
+
+  Object.entries(ITEM_SUM_FIELDS).forEach(([field, itemField]) => {
+    if (totals[field] == null) return;
+    const header = toNumber(totals[field]);
+    const itemsSum = items.reduce((sum, item) => sum + toNumber(item[itemField]), 0);
+    if (exceedsTolerance(header, itemsSum)) {
+      mismatches.push({ field, header: round2(header), items: round2(itemsSum), diff: round2(header - itemsSum) });
+    }
+  });
+
+  // vNF = vProd - vDesc - vICMSDeson + vST + vFCPST + vFrete + vSeg + vOutro + vII + vIPI + vIPIDevol
+  if (totals.vProd != null && totalNFe != null) {
+    const expected =
+      toNumber(totals.vProd)
+      - toNumber(totals.vDesc)
+      - toNumber(totals.vICMSDeson)
+      + toNumber(totals.vST)
+      + toNumber(totals.vFCPST)
+      + toNumber(totals.vFrete)
+      + toNumber(totals.vSeg)
+      + toNumber(totals.vOutro)
+      + toNumber(totals.vII)
+      + toNumber(totals.vIPI)
+      + toNumber(totals.vIPIDevol);
+    const header = toNumber(totalNFe);
+    if (exceedsTolerance(header, expected)) {
+      mismatches.push({ field: 'vNF', header: round2(header), items: round2(expected), diff: round2(header - expected) });
+    }
+  }
+
+  return mismatches;
+}
+
+module.exports = {
+  TOTALS_TOLERANCE,
+  reconcileInvoiceTotals,
+};
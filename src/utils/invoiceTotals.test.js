@@ -0,0 +1,46 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { reconcileInvoiceTotals } = require('./invoiceTotals');
+
+const items = [
+  { gross: '60.00', discount: '5.00', vFrete: '3.00', ipiValue: '3.00' },
+  { gross: '40.00', discount: null, vFrete: '2.00', ipiValue: '2.00' },
+];
+
+test('não aponta divergência quando itens e ICMSTot batem', () => {
+  const totals = { vProd: '100.00', vDesc: '5.00', vFrete: '5.00', vIPI: '5.00', vST: '0.00' };
+  assert.deepEqual(reconcileInvoiceTotals({ totals, items, totalNFe: '105.00' }), []);
+});
+
+test('tolera diferença de um centavo de arredondamento', () => {
+  const totals = { vProd: '100.01', vFrete: '4.99' };
+  assert.deepEqual(reconcileInvoiceTotals({ totals, items }), []);
+});
+
+test('lista os campos em que a soma dos itens diverge do ICMSTot', () => {
+  const totals = { vProd: '110.00', vDesc: '5.00', vIPI: '4.00' };
+  assert.deepEqual(reconcileInvoiceTotals({ totals, items }), [
+    { field: 'vProd', header: 110, items: 100, diff: 10 },
+    { field: 'vIPI', header: 4, items: 5, diff: -1 },
+  ]);
+});
+
+test('confere o vNF pela fórmula do ICMSTot', () => {
+  const totals = {
+    vProd: '100.00',
+    vDesc: '5.00',
+    vICMSDeson: '2.00',
+    vFrete: '5.00',
+    vIPI: '5.00',
+    vFCPST: '1.50',
+  };
+
+  assert.deepEqual(reconcileInvoiceTotals({ totals, items, totalNFe: '104.50' }), []);
+  assert.deepEqual(reconcileInvoiceTotals({ totals, items, totalNFe: '110.00' }), [
+    { field: 'vNF', header: 110, items: 104.5, diff: 5.5 },
+  ]);
+});
+
+test('ignora notas sem ICMSTot', () => {
+  assert.deepEqual(reconcileInvoiceTotals({ totals: null, items, totalNFe: '1.00' }), []);
+});
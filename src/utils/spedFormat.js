@@ -0,0 +1,122 @@
+const { Prisma } = require('@prisma/client');
+
+const Decimal = Prisma.Decimal;
+
+// Formatação comum aos arquivos do SPED (EFD ICMS/IPI e EFD-Contribuições): campos separados por "|",
+// datas DDMMAAAA, decimais com vírgula, linhas terminadas em CRLF e arquivo em ISO-8859-1
+
+function createBadRequest(message) {
+  const error = new Error(message);
+  error.status = 400;
+  return error;
+}
+
+// period=YYYY-MM vira o intervalo do mês em UTC, como nos demais filtros de data
+function parseSpedPeriod(raw) {
+  const match = /^(\d{4})-(\d{2})$/.exec(String(raw ?? '').trim());
+  const month = match ? Number(match[2]) : 0;
+  if (!match || month < 1 || month > 12) {
+    throw createBadRequest('Parâmetro "period" inválido. Use o formato YYYY-MM.');
+  }
+  const year = Number(match[1]);
+  return {
+    label: `${match[1]}-${match[2]}`,
+    year,
+    month,
+    start: new Date(Date.UTC(year, month - 1, 1)),
+    end: new Date(Date.UTC(year, month, 1) - 1),
+  };
+}
+
+function toDecimal(value) {
+  if (value instanceof Decimal) return value;
+  if (value == null || value === '') return new Decimal(0);
+  try {
+    return new Decimal(value);
+  } catch (error) {
+    return new Decimal(0);
+  }
+}
+
+function sumDecimals(values) {
+  return values.reduce((sum, value) => sum.add(toDecimal(value)), new Decimal(0));
+}
+
+function formatSpedDate(date) {
+  if (!date) return '';
+  const iso = (date instanceof Date ? date : new Date(date)).toISOString();
+  return `${iso.slice(8, 10)}${iso.slice(5, 7)}${iso.slice(0, 4)}`;
+}
+
+// null/undefined ficam vazios (campo não informado); zero é escrito como 0,00
+function formatSpedDecimal(value, fractionDigits = 2) {
+  if (value == null || value === '') return '';
+  return toDecimal(value).toFixed(fractionDigits).replace('.', ',');
+}
+
+function spedText(value, maxLength = null) {
+  if (value == null) return '';
+  const text = String(value).replace(/[|\r\n\t]+/g, ' ').replace(/\s+/g, ' ').trim();
+  return maxLength ? text.slice(0, maxLength) : text;
+}
+
+function onlyDigits(value) {
+  return value == null ? '' : String(value).replace(/\D/g, '');
+}
+
+// Acumula as linhas, fecha cada bloco com o X990 e monta o bloco 9 com a contagem por registro
+function createSpedWriter() {
+  const lines = [];
+  const counts = new Map();
+  let blockStart = 0;
+
+  const add = (register, fields = []) => {
+    lines.push(`|${[register, ...fields].map((field) => spedText(field)).join('|')}|`);
+    counts.set(register, (counts.get(register) ?? 0) + 1);
+  };
+
+  // O bloco começa onde o anterior terminou, assim o 0000 entra na contagem do 0990
+  const openBlock = (block, hasData) => {
+    add(`${block}001`, [hasData ? '0' : '1']);
+  };
+
+  const closeBlock = (block) => {
+    add(`${block}990`, [String(lines.length - blockStart + 1)]);
+    blockStart = lines.length;
+  };
+
+  const finish = () => {
+    const registers = [...counts.keys(), '9001', '9900', '9990', '9999'];
+    const blockNineStart = lines.length;
+    add('9001', ['0']);
+    registers.forEach((register) => {
+      const quantity = register === '9900'
+        ? registers.length
+        : counts.get(register) ?? 1;
+      add('9900', [register, String(quantity)]);
+    });
+    // 9990 conta as linhas do bloco 9 incluindo ele mesmo e o 9999
+    add('9990', [String(lines.length - blockNineStart + 2)]);
+    add('9999', [String(lines.length + 1)]);
+    return `${lines.join('\r\n')}\r\n`;
+  };
+
+  return { add, openBlock, closeBlock, finish, counts };
+}
+
+// Caracteres fora do Latin-1 (emojis, aspas tipográficas raras) não existem no leiaute
+function toSpedBuffer(content) {
+  return Buffer.from(content.replace(/[^\u0000-\u00ff]/g, '?'), 'latin1');
+}
+
+module.exports = {
+  parseSpedPeriod,
+  toDecimal,
+  sumDecimals,
+  formatSpedDate,
+  formatSpedDecimal,
+  spedText,
+  onlyDigits,
+  createSpedWriter,
+  toSpedBuffer,
+};
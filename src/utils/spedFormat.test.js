@@ -0,0 +1,82 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const {
+  parseSpedPeriod,
+  formatSpedDate,
+  formatSpedDecimal,
+  spedText,
+  createSpedWriter,
+  toSpedBuffer,
+} = require('./spedFormat');
+
+// Arquivo mínimo: 0000, bloco 0 com um registro, bloco C vazio e o bloco 9 gerado no finish
+function buildSample() {
+  const writer = createSpedWriter();
+  writer.add('0000', ['019', '0']);
+  writer.openBlock('0', true);
+  writer.add('0150', ['P1', 'Fornecedor']);
+  writer.add('0150', ['P2', 'Cliente']);
+  writer.closeBlock('0');
+  writer.openBlock('C', false);
+  writer.closeBlock('C');
+  return writer.finish().split('\r\n');
+}
+
+test('fecha cada bloco com a quantidade de linhas no X990', () => {
+  const lines = buildSample();
+
+  // 0000, 0001, 2x 0150 e o próprio 0990
+  assert.equal(lines[4], '|0990|5|');
+  assert.equal(lines[5], '|C001|1|');
+  assert.equal(lines[6], '|C990|2|');
+});
+
+test('monta o bloco 9 com a contagem de cada registro', () => {
+  const lines = buildSample();
+  const blockNine = lines.slice(7, -1);
+
+  assert.deepEqual(blockNine, [
+    '|9001|0|',
+    '|9900|0000|1|',
+    '|9900|0001|1|',
+    '|9900|0150|2|',
+    '|9900|0990|1|',
+    '|9900|C001|1|',
+    '|9900|C990|1|',
+    '|9900|9001|1|',
+    '|9900|9900|10|',
+    '|9900|9990|1|',
+    '|9900|9999|1|',
+    '|9990|13|',
+    '|9999|20|',
+  ]);
+  // Total do 9999 é o número de linhas do arquivo; o conteúdo termina em CRLF
+  assert.equal(lines.length - 1, 20);
+  assert.equal(lines[lines.length - 1], '');
+});
+
+test('interpreta o período como o mês inteiro em UTC', () => {
+  const period = parseSpedPeriod(' 2025-02 ');
+  assert.equal(period.label, '2025-02');
+  assert.equal(period.start.toISOString(), '2025-02-01T00:00:00.000Z');
+  assert.equal(period.end.toISOString(), '2025-02-28T23:59:59.999Z');
+
+  assert.throws(() => parseSpedPeriod('2025-13'), { status: 400 });
+  assert.throws(() => parseSpedPeriod('02/2025'), { status: 400 });
+});
+
+test('formata datas, decimais e textos no padrão do leiaute', () => {
+  assert.equal(formatSpedDate(new Date('2025-01-06T18:39:58Z')), '06012025');
+  assert.equal(formatSpedDecimal('1234.5'), '1234,50');
+  assert.equal(formatSpedDecimal(0), '0,00');
+  assert.equal(formatSpedDecimal(null), '');
+  assert.equal(formatSpedDecimal('1.65', 4), '1,6500');
+  assert.equal(spedText(' Rua A | nº 10\r\nSala 2 '), 'Rua A nº 10 Sala 2');
+  assert.equal(spedText('Fornecedor Ltda', 10), 'Fornecedor');
+});
+
+test('grava o arquivo em ISO-8859-1 trocando caracteres fora do Latin-1', () => {
+  const buffer = toSpedBuffer('|0150|Açúcar “Fino”|\r\n');
+  assert.equal(buffer.toString('latin1'), '|0150|Açúcar ?Fino?|\r\n');
+  assert.equal(buffer.length, 22);
+});
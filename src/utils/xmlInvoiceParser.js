@@ -1,4 +1,7 @@
 const { XMLParser } = require('fast-xml-parser');
+const { INVOICE_MODELS, ANONYMOUS_CONSUMER } = require('../constants/invoiceModels');
+const { CTE_EVENT_TYPES } = require('../constants/cteEvents');
+const { validateAccessKey, validateTaxIds, validateSignature } = require('./documentIntegrity');
 
 class InvoiceParseError extends Error {
   constructor(message, code, options = {}) {
@@ -23,6 +26,8 @@ const NFSE_REASON = 'NFS-e';
 const CANCELLATION_PROTOCOL_CODES = new Set(['101', '151', '155']);
 const CANCELLATION_EVENT_TYPES = new Set(['110111', '110115']);
 const CANCELLATION_EVENT_STATUS_CODES = new Set(['101', '135', '136', '151', '155']);
+const EVENT_APPROVED_STATUS_CODES = new Set(['135', '136']);
+const NUMBER_VOIDING_APPROVED_STATUS = '102';
 const CTE_NAMESPACE = 'http://www.portalfiscal.inf.br/cte';
 
 function toArray(input) {
@@ -124,6 +129,12 @@ function findInfCte(doc) {
   return null;
 }
 
+function findInfMdfe(doc) {
+  const root = doc?.mdfeProc?.MDFe || doc?.MDFe;
+  if (root?.infMDFe) return { infMDFe: root.infMDFe, proc: doc?.mdfeProc ?? null };
+  return null;
+}
+
 function extractNFeProtocol(doc) {
   if (!doc || typeof doc !== 'object') return null;
   if (doc.protNFe?.infProt) return doc.protNFe.infProt;
@@ -131,6 +142,53 @@ function extractNFeProtocol(doc) {
   return null;
 }
 
+// Pares evento/retorno de procEventoNFe, evento e retEvento avulsos
+function collectEventNodes(doc) {
+  const pairs = [];
+
+  const enqueueProcEvento = (node) => {
+    if (!node || typeof node !== 'object') return;
+    const eventoNodes = toArray(node.evento);
+    const retNodes = toArray(node.retEvento);
+    if (eventoNodes.length === 0 && retNodes.length === 0) {
+      pairs.push({ infEvento: node.infEvento, retInfEvento: node.retInfEvento });
+      return;
+    }
+
+    eventoNodes.forEach((evento, index) => {
+      pairs.push({
+        infEvento: evento?.infEvento || evento,
+        retInfEvento: retNodes[index]?.infEvento || retNodes[index],
+      });
+    });
+
+    if (!eventoNodes.length) {
+      retNodes.forEach((ret) => {
+        pairs.push({ infEvento: ret?.evento?.infEvento, retInfEvento: ret?.infEvento || ret });
+      });
+    }
+  };
+
+  [...toArray(doc?.procEventoNFe), ...toArray(doc?.proceventoNFe)].forEach(enqueueProcEvento);
+  [...toArray(doc?.nfeProc?.procEventoNFe)].forEach(enqueueProcEvento);
+
+  toArray(doc?.evento).forEach((evento) => {
+    pairs.push({
+      infEvento: evento?.infEvento || evento,
+      retInfEvento: doc?.retEvento?.infEvento || doc?.retEvento,
+    });
+  });
+
+  toArray(doc?.retEvento).forEach((ret) => {
+    pairs.push({
+      infEvento: ret?.evento?.infEvento,
+      retInfEvento: ret?.infEvento || ret,
+    });
+  });
+
+  return pairs;
+}
+
 function extractCancellationEvent(doc) {
   if (!doc || typeof doc !== 'object') return null;
 
@@ -221,45 +279,7 @@ function extractCancellationEvent(doc) {
     candidates.push(normalized);
   };
 
-  const enqueueProcEvento = (node) => {
-    if (!node || typeof node !== 'object') return;
-    const eventoNodes = toArray(node.evento);
-    const retNodes = toArray(node.retEvento);
-    if (eventoNodes.length === 0 && retNodes.length === 0) {
-      registerCandidate({ infEvento: node.infEvento, retInfEvento: node.retInfEvento });
-      return;
-    }
-
-    eventoNodes.forEach((evento, index) => {
-      registerCandidate({
-        infEvento: evento?.infEvento || evento,
-        retInfEvento: retNodes[index]?.infEvento || retNodes[index],
-      });
-    });
-
-    if (!eventoNodes.length) {
-      retNodes.forEach((ret) => {
-        registerCandidate({ infEvento: ret?.evento?.infEvento, retInfEvento: ret?.infEvento || ret });
-      });
-    }
-  };
-
-  [...toArray(doc?.procEventoNFe), ...toArray(doc?.proceventoNFe)].forEach(enqueueProcEvento);
-  [...toArray(doc?.nfeProc?.procEventoNFe)].forEach(enqueueProcEvento);
-
-  toArray(doc?.evento).forEach((evento) => {
-    registerCandidate({
-      infEvento: evento?.infEvento || evento,
-      retInfEvento: doc?.retEvento?.infEvento || doc?.retEvento,
-    });
-  });
-
-  toArray(doc?.retEvento).forEach((ret) => {
-    registerCandidate({
-      infEvento: ret?.evento?.infEvento,
-      retInfEvento: ret?.infEvento || ret,
-    });
-  });
+  collectEventNodes(doc).forEach(registerCandidate);
 
   let selected = null;
   for (const candidate of candidates) {
@@ -275,6 +295,173 @@ function extractCancellationEvent(doc) {
   return selected;
 }
 
+// Converte detEvento em objeto simples (JSON) preservando grupos aninhados como os do EPEC
+function simplifyEventNode(node) {
+  if (node == null || typeof node !== 'object') return node ?? null;
+  if (Array.isArray(node)) return node.map(simplifyEventNode);
+  if (Object.prototype.hasOwnProperty.call(node, '#text')) return unwrapXMLValue(node);
+  return Object.entries(node).reduce((acc, [key, value]) => {
+    if (key.startsWith('@_')) return acc;
+    acc[key] = simplifyEventNode(value);
+    return acc;
+  }, {});
+}
+
+function normalizeFiscalEvent({ infEvento, retInfEvento }) {
+  const inf = infEvento && typeof infEvento === 'object' ? infEvento : null;
+  const ret = retInfEvento && typeof retInfEvento === 'object' ? retInfEvento : null;
+  if (!inf && !ret) return null;
+
+  const eventType = textOrNull(inf?.tpEvento ?? ret?.tpEvento);
+  const chave = textOrNull(inf?.chNFe ?? ret?.chNFe);
+  if (!eventType || !chave) return null;
+
+  const detEvento = inf?.detEvento && typeof inf.detEvento === 'object' ? inf.detEvento : null;
+  const statusCode = textOrNull(ret?.cStat);
+  const seqRaw = textOrNull(inf?.nSeqEvento ?? ret?.nSeqEvento);
+  const eventSequence = seqRaw ? Number.parseInt(seqRaw, 10) : 1;
+
+  return {
+    chave,
+    eventType,
+    eventSequence: Number.isFinite(eventSequence) ? eventSequence : 1,
+    description: textOrNull(detEvento?.descEvento ?? ret?.xEvento),
+    statusCode,
+    statusMessage: textOrNull(ret?.xMotivo),
+    protocolNumber: textOrNull(ret?.nProt),
+    eventTimestamp: parseDateTime(inf?.dhEvento),
+    receivedAt: parseDateTime(ret?.dhRegEvento),
+    authorTaxId: normalizeTaxId(inf?.CNPJ ?? inf?.CPF),
+    correctionText: textOrNull(detEvento?.xCorrecao),
+    justification: textOrNull(detEvento?.xJust),
+    payload: detEvento ? simplifyEventNode(detEvento) : null,
+    // Sem retorno da SEFAZ não há como afirmar a homologação; o evento é aceito como informado
+    isApproved: statusCode ? EVENT_APPROVED_STATUS_CODES.has(statusCode) : true,
+  };
+}
+
+// Eventos da NF-e que não são cancelamento (CC-e, manifestação, EPEC...)
+function extractFiscalEvent(doc) {
+  if (!doc || typeof doc !== 'object') return null;
+
+  const events = collectEventNodes(doc)
+    .map(normalizeFiscalEvent)
+    .filter((event) => event && !CANCELLATION_EVENT_TYPES.has(event.eventType));
+
+  return events.find((event) => event.isApproved) ?? events[0] ?? null;
+}
+
+// procEventoCTe segue o desenho da NF-e, com eventoCTe/retEventoCTe
+function collectCteEventNodes(doc) {
+  const pairs = [];
+
+  toArray(doc?.procEventoCTe).forEach((proc) => {
+    const retNodes = toArray(proc?.retEventoCTe);
+    toArray(proc?.eventoCTe).forEach((evento, index) => {
+      pairs.push({ infEvento: evento?.infEvento, retInfEvento: retNodes[index]?.infEvento });
+    });
+  });
+  toArray(doc?.eventoCTe).forEach((evento) => {
+    pairs.push({ infEvento: evento?.infEvento, retInfEvento: null });
+  });
+  toArray(doc?.retEventoCTe).forEach((ret) => {
+    pairs.push({ infEvento: null, retInfEvento: ret?.infEvento });
+  });
+
+  return pairs;
+}
+
+// CC-e do CT-e lista os campos alterados em infCorrecao (grupo, campo, item e novo valor)
+function formatCteCorrections(group) {
+  const lines = toArray(group?.infCorrecao).map((correction) => {
+    const field = [textOrNull(correction?.grupoAlterado), textOrNull(correction?.campoAlterado)]
+      .filter(Boolean)
+      .join('.');
+    const item = textOrNull(correction?.nroItemAlterado);
+    return `${field}${item ? ` [item ${item}]` : ''}: ${textOrNull(correction?.valorAlterado) ?? ''}`;
+  });
+  return lines.length ? lines.join('\n') : null;
+}
+
+function normalizeCteEvent({ infEvento, retInfEvento }) {
+  const inf = infEvento && typeof infEvento === 'object' ? infEvento : null;
+  const ret = retInfEvento && typeof retInfEvento === 'object' ? retInfEvento : null;
+  if (!inf && !ret) return null;
+
+  const eventType = textOrNull(inf?.tpEvento ?? ret?.tpEvento);
+  const chave = textOrNull(inf?.chCTe ?? ret?.chCTe);
+  if (!eventType || !chave) return null;
+
+  // No CT-e o detEvento envolve um grupo por tipo (evCancCTe, evCCeCTe...)
+  const detEvento = inf?.detEvento && typeof inf.detEvento === 'object' ? inf.detEvento : null;
+  const groupKey = detEvento
+    ? Object.keys(detEvento).find((key) => !key.startsWith('@_') && typeof detEvento[key] === 'object')
+    : null;
+  const group = groupKey ? detEvento[groupKey] : detEvento;
+  const statusCode = textOrNull(ret?.cStat);
+  const seqRaw = textOrNull(inf?.nSeqEvento ?? ret?.nSeqEvento);
+  const eventSequence = seqRaw ? Number.parseInt(seqRaw, 10) : 1;
+
+  return {
+    chave,
+    eventType,
+    eventSequence: Number.isFinite(eventSequence) ? eventSequence : 1,
+    description: textOrNull(group?.descEvento ?? ret?.xEvento),
+    statusCode,
+    statusMessage: textOrNull(ret?.xMotivo),
+    protocolNumber: textOrNull(ret?.nProt),
+    eventTimestamp: parseDateTime(inf?.dhEvento),
+    receivedAt: parseDateTime(ret?.dhRegEvento),
+    authorTaxId: normalizeTaxId(inf?.CNPJ ?? inf?.CPF),
+    correctionText: formatCteCorrections(group),
+    justification: textOrNull(group?.xJust),
+    payload: group ? simplifyEventNode(group) : null,
+    isCancellation: eventType === CTE_EVENT_TYPES.CANCELAMENTO,
+    isApproved: statusCode ? EVENT_APPROVED_STATUS_CODES.has(statusCode) : true,
+  };
+}
+
+function extractCteEvent(doc) {
+  if (!doc || typeof doc !== 'object') return null;
+
+  const events = collectCteEventNodes(doc).map(normalizeCteEvent).filter(Boolean);
+  return events.find((event) => event.isApproved) ?? events[0] ?? null;
+}
+
+// Inutilização de faixa de numeração: procInutNFe (pedido + retorno), retInutNFe ou inutNFe avulsos
+function extractNumberVoiding(doc) {
+  if (!doc || typeof doc !== 'object') return null;
+
+  const request = doc.procInutNFe?.inutNFe?.infInut ?? doc.inutNFe?.infInut ?? null;
+  const response = doc.procInutNFe?.retInutNFe?.infInut ?? doc.retInutNFe?.infInut ?? null;
+  if (!request && !response) return null;
+
+  // O retorno repete os dados do pedido; vale o que a SEFAZ devolveu
+  const field = (key) => textOrNull(response?.[key]) ?? textOrNull(request?.[key]);
+  const toInteger = (value) => {
+    const parsed = Number.parseInt(value ?? '', 10);
+    return Number.isFinite(parsed) ? parsed : null;
+  };
+  const startNumber = toInteger(field('nNFIni'));
+  const statusCode = textOrNull(response?.cStat);
+
+  return {
+    issuerCnpj: normalizeTaxId(field('CNPJ') ?? field('CPF')),
+    cUF: field('cUF'),
+    ano: field('ano'),
+    modelo: field('mod') ?? INVOICE_MODELS.NFE,
+    serie: toInteger(field('serie')),
+    startNumber,
+    endNumber: toInteger(field('nNFFin')) ?? startNumber,
+    justification: textOrNull(request?.xJust),
+    protocolNumber: textOrNull(response?.nProt),
+    statusCode,
+    statusMessage: textOrNull(response?.xMotivo),
+    receivedAt: parseDateTime(response?.dhRecbto),
+    isApproved: statusCode === NUMBER_VOIDING_APPROVED_STATUS,
+  };
+}
+
 function normalizeDecimal(value, { allowNull = false, defaultValue = '0' } = {}) {
   const raw = unwrapXMLValue(value);
   if (raw == null || raw === '') {
@@ -338,6 +525,7 @@ function extractICMSData(icmsNode) {
   const vST = unwrapXMLValue(data.vST) || vICMSST || null;
 
   return {
+    orig: unwrapXMLValue(data.orig) || null,
     cst: unwrapXMLValue(data.CST) || null,
     csosn: unwrapXMLValue(data.CSOSN) || null,
     vBC: unwrapXMLValue(data.vBC),
@@ -345,6 +533,59 @@ function extractICMSData(icmsNode) {
     vICMSDeson: unwrapXMLValue(data.vICMSDeson),
     vBCST: unwrapXMLValue(data.vBCST),
     vST,
+    pICMS: unwrapXMLValue(data.pICMS),
+    pRedBC: unwrapXMLValue(data.pRedBC),
+    pMVAST: unwrapXMLValue(data.pMVAST),
+    vFCP: unwrapXMLValue(data.vFCP),
+    vFCPST: unwrapXMLValue(data.vFCPST),
+    vICMSSTRet: unwrapXMLValue(data.vICMSSTRet),
+  };
+}
+
+// Partilha do ICMS interestadual para consumidor final (DIFAL, EC 87/2015)
+function extractICMSUFDest(node) {
+  if (!node || typeof node !== 'object') return {};
+  return {
+    vBCUFDest: normalizeDecimal(node.vBCUFDest, { allowNull: true }),
+    pFCPUFDest: normalizeDecimal(node.pFCPUFDest, { allowNull: true }),
+    pICMSUFDest: normalizeDecimal(node.pICMSUFDest, { allowNull: true }),
+    pICMSInter: normalizeDecimal(node.pICMSInter, { allowNull: true }),
+    vFCPUFDest: normalizeDecimal(node.vFCPUFDest, { allowNull: true }),
+    vICMSUFDest: normalizeDecimal(node.vICMSUFDest, { allowNull: true }),
+    vICMSUFRemet: normalizeDecimal(node.vICMSUFRemet, { allowNull: true }),
+  };
+}
+
+// Reforma Tributária (LC 214/2025): grupo IBSCBS com IBS estadual/municipal e CBS
+function extractIBSCBSData(node) {
+  if (!node || typeof node !== 'object') return {};
+  const group = node.gIBSCBS && typeof node.gIBSCBS === 'object' ? node.gIBSCBS : {};
+  const uf = group.gIBSUF || {};
+  const mun = group.gIBSMun || {};
+  const cbs = group.gCBS || {};
+  return {
+    cstIBSCBS: unwrapXMLValue(node.CST) || null,
+    cClassTrib: unwrapXMLValue(node.cClassTrib) || null,
+    vBCIBSCBS: normalizeDecimal(group.vBC, { allowNull: true }),
+    pIBSUF: normalizeDecimal(uf.pIBSUF, { allowNull: true }),
+    vIBSUF: normalizeDecimal(uf.vIBSUF, { allowNull: true }),
+    pIBSMun: normalizeDecimal(mun.pIBSMun, { allowNull: true }),
+    vIBSMun: normalizeDecimal(mun.vIBSMun, { allowNull: true }),
+    vIBS: normalizeDecimal(group.vIBS, { allowNull: true }),
+    pCBS: normalizeDecimal(cbs.pCBS, { allowNull: true }),
+    vCBS: normalizeDecimal(cbs.vCBS, { allowNull: true }),
+  };
+}
+
+// Imposto Seletivo
+function extractISData(node) {
+  if (!node || typeof node !== 'object') return {};
+  return {
+    cstIS: unwrapXMLValue(node.CSTIS) || null,
+    cClassTribIS: unwrapXMLValue(node.cClassTribIS) || null,
+    vBCIS: normalizeDecimal(node.vBCIS, { allowNull: true }),
+    pIS: normalizeDecimal(node.pIS, { allowNull: true }),
+    vIS: normalizeDecimal(node.vIS, { allowNull: true }),
   };
 }
 
@@ -366,6 +607,18 @@ function extractSimpleTaxValue(node, key) {
   return unwrapXMLValue(candidate[key]) || null;
 }
 
+// PIS/COFINS/IPI do item: um único grupo filho (PISAliq, COFINSOutr, IPITrib, IPINT...) com CST, base e alíquota
+function extractContributionData(node, rateKey) {
+  if (!node || typeof node !== 'object') return {};
+  const variants = Object.values(node).filter((v) => v && typeof v === 'object');
+  const data = variants[0] || {};
+  return {
+    cst: unwrapXMLValue(data.CST) || null,
+    base: normalizeDecimal(data.vBC, { allowNull: true }),
+    rate: normalizeDecimal(data[rateKey], { allowNull: true }),
+  };
+}
+
 function ensureArray(input) {
   if (!input) return [];
   return Array.isArray(input) ? input : [input];
@@ -385,6 +638,9 @@ function parseItems(detArray) {
     const unitPrice = normalizeDecimal(prod.vUnCom, { allowNull: false });
     const gross = normalizeDecimal(prod.vProd, { allowNull: false });
     const discount = normalizeDecimal(prod.vDesc, { allowNull: true, defaultValue: '0' }) || '0';
+    const vFrete = normalizeDecimal(prod.vFrete, { allowNull: true });
+    const vSeg = normalizeDecimal(prod.vSeg, { allowNull: true });
+    const vOutro = normalizeDecimal(prod.vOutro, { allowNull: true });
 
     const productCode = unwrapXMLValue(prod.cProd) || null;
     const description = unwrapXMLValue(prod.xProd) || null;
@@ -396,14 +652,27 @@ function parseItems(detArray) {
     const vICMSDeson = normalizeDecimal(icmsData.vICMSDeson, { allowNull: true });
     const vBCST = normalizeDecimal(icmsData.vBCST, { allowNull: true });
     const vST = normalizeDecimal(icmsData.vST, { allowNull: true });
+    const pICMS = normalizeDecimal(icmsData.pICMS, { allowNull: true });
+    const pRedBC = normalizeDecimal(icmsData.pRedBC, { allowNull: true });
+    const pMVAST = normalizeDecimal(icmsData.pMVAST, { allowNull: true });
+    const vFCP = normalizeDecimal(icmsData.vFCP, { allowNull: true });
+    const vFCPST = normalizeDecimal(icmsData.vFCPST, { allowNull: true });
+    const vICMSSTRet = normalizeDecimal(icmsData.vICMSSTRet, { allowNull: true });
+    const icmsUfDest = extractICMSUFDest(imposto.ICMSUFDest);
+    const ibsCbs = extractIBSCBSData(imposto.IBSCBS);
+    const seletivo = extractISData(imposto.IS);
     const ipiValue = normalizeDecimal(extractIPIValue(imposto.IPI), { allowNull: true });
     const pisValue = normalizeDecimal(extractSimpleTaxValue(imposto.PIS, 'vPIS'), { allowNull: true });
     const cofinsValue = normalizeDecimal(extractSimpleTaxValue(imposto.COFINS, 'vCOFINS'), { allowNull: true });
+    const pisData = extractContributionData(imposto.PIS, 'pPIS');
+    const cofinsData = extractContributionData(imposto.COFINS, 'pCOFINS');
+    const ipiData = extractContributionData(imposto.IPI, 'pIPI');
     const vTotTrib = normalizeDecimal(unwrapXMLValue(imposto.vTotTrib), { allowNull: true });
 
     return {
       cfopCode: String(cfopCode).trim(),
       ncm: unwrapXMLValue(prod.NCM) || null,
+      icmsOrigin: icmsData.orig,
       cst: icmsData.cst,
       csosn: icmsData.csosn,
       productCode,
@@ -413,31 +682,214 @@ function parseItems(detArray) {
       unitPrice,
       gross,
       discount,
+      vFrete,
+      vSeg,
+      vOutro,
       icmsValue,
       ipiValue,
       pisValue,
       cofinsValue,
+      cstPIS: pisData.cst ?? null,
+      vBCPIS: pisData.base ?? null,
+      pPIS: pisData.rate ?? null,
+      cstCOFINS: cofinsData.cst ?? null,
+      vBCCOFINS: cofinsData.base ?? null,
+      pCOFINS: cofinsData.rate ?? null,
+      cstIPI: ipiData.cst ?? null,
+      vBCIPI: ipiData.base ?? null,
+      pIPI: ipiData.rate ?? null,
+      cEnqIPI: unwrapXMLValue(imposto.IPI?.cEnq) || null,
       vBC,
       vICMSDeson,
       vBCST,
       vST,
+      pICMS,
+      pRedBC,
+      pMVAST,
+      vFCP,
+      vFCPST,
+      vICMSSTRet,
+      ...icmsUfDest,
+      ...ibsCbs,
+      ...seletivo,
       vTotTrib,
     };
   });
 }
 
+function parseTotals(icmsTotNode) {
+  const node = icmsTotNode && typeof icmsTotNode === 'object' ? icmsTotNode : {};
+  const read = (key) => normalizeDecimal(node[key], { allowNull: true });
+  return {
+    vProd: read('vProd'),
+    vDesc: read('vDesc'),
+    vICMSDeson: read('vICMSDeson'),
+    vFrete: read('vFrete'),
+    vSeg: read('vSeg'),
+    vOutro: read('vOutro'),
+    vII: read('vII'),
+    vIPI: read('vIPI'),
+    vIPIDevol: read('vIPIDevol'),
+    vST: read('vST'),
+    vFCPST: read('vFCPST'),
+    vFCP: read('vFCP'),
+    vPIS: read('vPIS'),
+    vCOFINS: read('vCOFINS'),
+  };
+}
+
+function parseBilling(cobrNode) {
+  if (!cobrNode || typeof cobrNode !== 'object') {
+    return { fatura: null, installments: [] };
+  }
+
+  const fat = cobrNode.fat && typeof cobrNode.fat === 'object' ? cobrNode.fat : null;
+  const nFatRaw = unwrapXMLValue(fat?.nFat);
+  const fatura = fat
+    ? {
+        numero: nFatRaw ? String(nFatRaw).trim() : null,
+        valorOriginal: normalizeDecimal(fat.vOrig, { allowNull: true }),
+        valorDesconto: normalizeDecimal(fat.vDesc, { allowNull: true }),
+        valorLiquido: normalizeDecimal(fat.vLiq, { allowNull: true }),
+      }
+    : null;
+
+  const installments = ensureArray(cobrNode.dup).map((dup) => {
+    const nDupRaw = unwrapXMLValue(dup?.nDup);
+    return {
+      numero: nDupRaw ? String(nDupRaw).trim() : null,
+      dueDate: parseDate(dup?.dVenc, { required: false }),
+      amount: normalizeDecimal(dup?.vDup, { allowNull: false }),
+    };
+  });
+
+  return { fatura, installments };
+}
+
+function parsePayments(pagNode) {
+  // Leiaute 3.10 repete o grupo pag; a partir do 4.00 os meios ficam em pag/detPag
+  const pagNodes = ensureArray(pagNode);
+  const payments = [];
+  let changeValue = null;
+
+  pagNodes.forEach((pag) => {
+    if (!pag || typeof pag !== 'object') return;
+    const vTroco = normalizeDecimal(pag.vTroco, { allowNull: true });
+    if (vTroco != null) {
+      changeValue = vTroco;
+    }
+
+    const detPagNodes = pag.detPag ? ensureArray(pag.detPag) : [pag];
+    detPagNodes.forEach((detPag) => {
+      const tPagRaw = unwrapXMLValue(detPag?.tPag);
+      if (!tPagRaw) return;
+      const card = detPag.card && typeof detPag.card === 'object' ? detPag.card : {};
+      const indPagRaw = unwrapXMLValue(detPag.indPag ?? pag.indPag);
+      const xPagRaw = unwrapXMLValue(detPag.xPag);
+      const tpIntegraRaw = unwrapXMLValue(card.tpIntegra);
+      const tBandRaw = unwrapXMLValue(card.tBand);
+      const cAutRaw = unwrapXMLValue(card.cAut);
+
+      payments.push({
+        indPag: indPagRaw != null && indPagRaw !== '' ? String(indPagRaw).trim() : null,
+        tPag: String(tPagRaw).trim(),
+        description: xPagRaw ? String(xPagRaw).trim() : null,
+        amount: normalizeDecimal(detPag.vPag, { allowNull: false }),
+        paidAt: parseDate(detPag.dPag, { required: false }),
+        cardIntegration: tpIntegraRaw ? String(tpIntegraRaw).trim() : null,
+        cardAcquirerCnpj: normalizeTaxId(card.CNPJ),
+        cardBrand: tBandRaw ? String(tBandRaw).trim() : null,
+        cardAuthorization: cAutRaw ? String(cAutRaw).trim() : null,
+      });
+    });
+  });
+
+  return { payments, changeValue };
+}
+
+function parseTransport(transpNode) {
+  if (!transpNode || typeof transpNode !== 'object') {
+    return null;
+  }
+
+  const transporta = transpNode.transporta && typeof transpNode.transporta === 'object'
+    ? transpNode.transporta
+    : {};
+  const modFreteRaw = unwrapXMLValue(transpNode.modFrete);
+  const carrierNameRaw = unwrapXMLValue(transporta.xNome);
+  const carrierUfRaw = unwrapXMLValue(transporta.UF);
+
+  // vol pode se repetir (uma ocorrência por espécie); pesos e quantidades são somados
+  const volumes = ensureArray(transpNode.vol);
+  const sumVolumes = (key) => {
+    const values = volumes
+      .map((vol) => normalizeDecimal(vol?.[key], { allowNull: true }))
+      .filter((value) => value != null);
+    if (!values.length) return null;
+    return values.reduce((acc, value) => acc + Number(value), 0).toString();
+  };
+  const species = volumes
+    .map((vol) => unwrapXMLValue(vol?.esp))
+    .filter(Boolean)
+    .map((value) => String(value).trim());
+
+  return {
+    freightMode: modFreteRaw != null && modFreteRaw !== '' ? String(modFreteRaw).trim() : null,
+    carrierTaxId: normalizeTaxId(transporta.CNPJ ?? transporta.CPF),
+    carrierName: carrierNameRaw ? String(carrierNameRaw).trim() : null,
+    carrierUf: carrierUfRaw ? String(carrierUfRaw).trim() : null,
+    volumeQty: sumVolumes('qVol'),
+    volumeSpecies: species.length ? Array.from(new Set(species)).join(', ') : null,
+    netWeight: sumVolumes('pesoL'),
+    grossWeight: sumVolumes('pesoB'),
+  };
+}
+
+function parseReferences(nfRefNode) {
+  const references = [];
+  ensureArray(nfRefNode).forEach((nfRef) => {
+    if (!nfRef || typeof nfRef !== 'object') return;
+    const candidates = [
+      ['NFE', nfRef.refNFe],
+      ['NFE', nfRef.refNFeSig],
+      ['CTE', nfRef.refCTe],
+    ];
+    candidates.forEach(([kind, value]) => {
+      const raw = unwrapXMLValue(value);
+      if (!raw) return;
+      const chave = String(raw).replace(/\D/g, '');
+      if (chave.length !== 44 || references.some((ref) => ref.chave === chave)) return;
+      references.push({ chave, kind });
+    });
+  });
+  return references;
+}
+
+function idAttributeKey(infNode) {
+  const idAttr = unwrapXMLValue(infNode?.['@_Id']);
+  return idAttr ? String(idAttr).replace(/^(NFe|CTe)/i, '').trim() : null;
+}
+
 function extractChave(rootDoc, infNFe) {
   const protocolChave = unwrapXMLValue(extractNFeProtocol(rootDoc)?.chNFe);
   if (protocolChave) {
     return String(protocolChave).trim();
   }
 
-  const idAttr = unwrapXMLValue(infNFe['@_Id']);
-  if (idAttr) {
-    return String(idAttr).replace(/^NFe/i, '').trim();
-  }
+  return idAttributeKey(infNFe);
+}
 
-  return null;
+// Assinatura conferida sobre o XML original; o resultado se junta às divergências de chave e CNPJ/CPF
+function attachIntegrity(document, xmlContent) {
+  const { integrityIssues = [], signedElementId = null, ...data } = document;
+  const signature = validateSignature(xmlContent, { referenceId: signedElementId, emission: data.emissao });
+  return {
+    ...data,
+    integrity: {
+      signatureStatus: signature.status,
+      issues: [...integrityIssues, ...signature.issues],
+    },
+  };
 }
 
 function parseInvoiceFromDocument(parsed) {
@@ -480,22 +932,41 @@ function parseInvoiceFromDocument(parsed) {
       throw new InvoiceParseError('emitente inválido', 'LAYOUT_UNSUPPORTED');
     }
 
+    const finNFeRaw = unwrapXMLValue(ide.finNFe);
+    const finalidade = finNFeRaw != null && finNFeRaw !== '' ? String(finNFeRaw).trim() : null;
+    const references = parseReferences(ide.NFref);
+
+    const modeloRaw = unwrapXMLValue(ide.mod);
+    const modelo = modeloRaw != null && modeloRaw !== '' ? String(modeloRaw).trim() : INVOICE_MODELS.NFE;
+    const isNFCe = modelo === INVOICE_MODELS.NFCE;
+
     const recipientNode = infNFe.dest || {};
-    const recipientCnpj = normalizeTaxId(recipientNode.CNPJ ?? recipientNode.CPF);
+    const recipientTaxId = normalizeTaxId(recipientNode.CNPJ ?? recipientNode.CPF);
+    // NFC-e pode não identificar o consumidor; agrupamos sob um parceiro sintético
+    const isAnonymousConsumer = !recipientTaxId && isNFCe;
+    const recipientCnpj = isAnonymousConsumer ? ANONYMOUS_CONSUMER.taxId : recipientTaxId;
     if (!recipientCnpj) {
       throw new InvoiceParseError('destinatário inválido', 'LAYOUT_UNSUPPORTED');
     }
-    const recipientName = unwrapXMLValue(recipientNode.xNome) || null;
-    const recipientCity = unwrapXMLValue(recipientNode.xMun) || null;
-    const recipientState = unwrapXMLValue(recipientNode.UF) || null;
+    const recipientName = isAnonymousConsumer
+      ? ANONYMOUS_CONSUMER.name
+      : unwrapXMLValue(recipientNode.xNome) || null;
+    // UF do destinatário fica em dest/enderDest; é a chave do DIFAL por UF de destino
+    const recipientAddress = recipientNode.enderDest || recipientNode;
+    const recipientCity = unwrapXMLValue(recipientAddress.xMun) || null;
+    const recipientState = unwrapXMLValue(recipientAddress.UF) || null;
 
     const totalNFe = normalizeDecimal(infNFe.total?.ICMSTot?.vNF, { allowNull: false });
+    const totals = parseTotals(infNFe.total?.ICMSTot);
 
     const detArray = ensureArray(infNFe.det);
     if (!detArray.length) {
       throw new InvoiceParseError('NF-e sem itens', 'LAYOUT_UNSUPPORTED');
     }
     const items = parseItems(detArray);
+    const { fatura, installments } = parseBilling(infNFe.cobr);
+    const { payments, changeValue } = parsePayments(infNFe.pag);
+    const transport = parseTransport(infNFe.transp);
 
     const protocolNode = extractNFeProtocol(root);
     const protocolStatusCodeRaw = unwrapXMLValue(protocolNode?.cStat);
@@ -515,30 +986,54 @@ function parseInvoiceFromDocument(parsed) {
 
     const isCancelled = Boolean(protocolStatusCode && CANCELLATION_PROTOCOL_CODES.has(protocolStatusCode));
 
-    const hasBlockedCfop = items.some((item) => item.cfopCode === '5949');
-    const isBlockedSerie = serie === '891';
-    const ignored = Boolean(hasBlockedCfop && isBlockedSerie);
-    const ignoreReason = ignored ? 'nota ignorada: CFOP 5949 e série 891' : null;
+    const integrityIssues = [
+      ...validateAccessKey(chave, {
+        cUF: unwrapXMLValue(ide.cUF),
+        emission: unwrapXMLValue(ide.dhEmi ?? ide.dEmi),
+        issuerTaxId: issuerCnpj,
+        modelo,
+        serie,
+        numero: invoiceNumber,
+        tpEmis: unwrapXMLValue(ide.tpEmis),
+        codigo: unwrapXMLValue(ide.cNF),
+        dv: unwrapXMLValue(ide.cDV),
+        alternateKey: idAttributeKey(infNFe),
+      }),
+      ...validateTaxIds([
+        { label: 'emitente', taxId: issuerCnpj },
+        { label: 'destinatário', taxId: recipientTaxId },
+      ]),
+    ];
 
     return {
       chave,
+      modelo,
+      finalidade,
+      references,
       emissao,
       entradaSaida,
       tpNF,
       natOp: String(natOpValue),
       issuerCnpj,
       recipientCnpj,
+      isAnonymousConsumer,
       recipientName,
       recipientCity,
       recipientState,
       totalNFe,
+      totals,
       items,
+      fatura,
+      installments,
+      payments,
+      changeValue,
+      transport,
       protocol,
       isCancelled,
       numero: invoiceNumber,
       serie,
-      ignored,
-      ignoreReason,
+      integrityIssues,
+      signedElementId: unwrapXMLValue(infNFe['@_Id']) ?? null,
     };
   } catch (error) {
     if (error instanceof InvoiceParseError) {
@@ -556,7 +1051,7 @@ function parseCteFromDocument(parsed) {
 
   try {
     const { infCte, root } = infCteData;
-    const chave = extractChave(root, infCte);
+    const chave = textOrNull(parsed?.cteProc?.protCTe?.infProt?.chCTe) ?? extractChave(root, infCte);
     if (!chave) {
       throw new InvoiceParseError('faltando infCte/Id', 'MISSING_INF_CTE');
     }
@@ -585,6 +1080,19 @@ function parseCteFromDocument(parsed) {
     const destUf = unwrapXMLValue(dest?.enderDest?.UF) || null;
     const destMun = unwrapXMLValue(dest?.enderDest?.xMun) || null;
 
+    // Tomador do serviço: toma3 indica uma das partes, toma4 traz o próprio tomador
+    const partyTaxIds = {
+      0: normalizeTaxId(infCte.rem?.CNPJ ?? infCte.rem?.CPF),
+      1: normalizeTaxId(infCte.exped?.CNPJ ?? infCte.exped?.CPF),
+      2: normalizeTaxId(infCte.receb?.CNPJ ?? infCte.receb?.CPF),
+      3: destCnpj,
+    };
+    const toma4 = ide.toma4 || ide.toma04;
+    const tomaCode = unwrapXMLValue((ide.toma3 || ide.toma03)?.toma);
+    const tomaCnpj = toma4
+      ? normalizeTaxId(toma4.CNPJ ?? toma4.CPF)
+      : (partyTaxIds[tomaCode] ?? null);
+
     const vPrestNode = infCte.vPrest || {};
     const valorPrestacao = normalizeDecimal(vPrestNode.vTPrest, { allowNull: false });
     const valorReceber = normalizeDecimal(vPrestNode.vRec, { allowNull: true });
@@ -594,6 +1102,14 @@ function parseCteFromDocument(parsed) {
     const pesoBruto = normalizeDecimal(infQ.qCarga, { allowNull: true });
     const unidadePeso = unwrapXMLValue(infQ.tpMed) || null;
 
+    const infDoc = infCte?.infCTeNorm?.infDoc || {};
+    const nfeKeys = Array.from(new Set(
+      ensureArray(infDoc.infNFe)
+        .map((node) => unwrapXMLValue(node?.chave))
+        .filter(Boolean)
+        .map((value) => String(value).trim()),
+    ));
+
     const protocolNode = extractNFeProtocol(root) || (parsed?.protCTe?.infProt ?? parsed?.cteProc?.protCTe?.infProt);
     const protocolStatusCodeRaw = unwrapXMLValue(protocolNode?.cStat);
     const protocolStatusCode = protocolStatusCodeRaw ? String(protocolStatusCodeRaw).trim() : null;
@@ -613,6 +1129,26 @@ function parseCteFromDocument(parsed) {
     const cancelledCodes = new Set(['101', '135', '136', '155']);
     const isCancelled = Boolean(protocolStatusCode && cancelledCodes.has(protocolStatusCode));
 
+    const integrityIssues = [
+      ...validateAccessKey(chave, {
+        cUF: unwrapXMLValue(ide.cUF),
+        emission: unwrapXMLValue(ide.dhEmi ?? ide.dEmi),
+        issuerTaxId: emitCnpj,
+        modelo: unwrapXMLValue(ide.mod),
+        serie,
+        numero,
+        tpEmis: unwrapXMLValue(ide.tpEmis),
+        codigo: unwrapXMLValue(ide.cCT),
+        dv: unwrapXMLValue(ide.cDV),
+        alternateKey: idAttributeKey(infCte),
+      }),
+      ...validateTaxIds([
+        { label: 'emitente', taxId: emitCnpj },
+        { label: 'destinatário', taxId: destCnpj },
+        { label: 'tomador', taxId: tomaCnpj },
+      ]),
+    ];
+
     return {
       chave,
       emissao,
@@ -629,14 +1165,21 @@ function parseCteFromDocument(parsed) {
       destNome,
       destUf,
       destMun,
+      remCnpj: partyTaxIds[0],
+      expedCnpj: partyTaxIds[1],
+      recebCnpj: partyTaxIds[2],
+      tomaCnpj,
       valorPrestacao,
       valorReceber,
       pesoBruto,
       unidadePeso,
+      nfeKeys,
       protocolo: protocolNumber,
       protocoloMsg: protocolStatusMessage,
       protocoloStatus: protocolStatusCode,
       isCancelled,
+      integrityIssues,
+      signedElementId: unwrapXMLValue(infCte['@_Id']) ?? null,
     };
   } catch (error) {
     if (error instanceof InvoiceParseError) {
@@ -646,6 +1189,368 @@ function parseCteFromDocument(parsed) {
   }
 }
 
+// MDF-e: percurso, veículo/condutor do modal rodoviário e chaves de CT-e/NF-e por município de descarga
+function parseMdfeFromDocument(parsed) {
+  const infMdfeData = findInfMdfe(parsed);
+  if (!infMdfeData) {
+    throw new InvoiceParseError('faltando infMDFe/Id', 'LAYOUT_UNSUPPORTED');
+  }
+
+  try {
+    const { infMDFe, proc } = infMdfeData;
+    const infProt = proc?.protMDFe?.infProt ?? null;
+    const chave = textOrNull(infProt?.chMDFe)
+      ?? textOrNull(infMDFe['@_Id'])?.replace(/^MDFe/i, '')
+      ?? null;
+    if (!chave) {
+      throw new InvoiceParseError('faltando infMDFe/Id', 'LAYOUT_UNSUPPORTED');
+    }
+
+    const ide = infMDFe.ide || {};
+    const emit = infMDFe.emit || {};
+    const rodo = infMDFe.infModal?.rodo || {};
+    const veicTracao = rodo.veicTracao || {};
+    const condutor = ensureArray(veicTracao.condutor)[0] || {};
+    const tot = infMDFe.tot || {};
+
+    const documents = [];
+    ensureArray(infMDFe.infDoc?.infMunDescarga).forEach((descarga) => {
+      const unloadCity = textOrNull(descarga?.xMunDescarga);
+      ensureArray(descarga?.infCTe).forEach((node) => {
+        const key = textOrNull(node?.chCTe);
+        if (key) documents.push({ chave: key, documentType: 'CTE', unloadCity });
+      });
+      ensureArray(descarga?.infNFe).forEach((node) => {
+        const key = textOrNull(node?.chNFe);
+        if (key) documents.push({ chave: key, documentType: 'NFE', unloadCity });
+      });
+    });
+    const uniqueDocuments = Array.from(new Map(documents.map((doc) => [doc.chave, doc])).values());
+
+    const protocolStatus = textOrNull(infProt?.cStat);
+
+    return {
+      chave,
+      serie: textOrNull(ide.serie),
+      numero: textOrNull(ide.nMDF),
+      emissao: parseDate(ide.dhEmi, { required: true }),
+      modal: textOrNull(ide.modal),
+      emitCnpj: normalizeTaxId(emit.CNPJ ?? emit.CPF),
+      emitNome: textOrNull(emit.xNome),
+      ufIni: textOrNull(ide.UFIni),
+      ufFim: textOrNull(ide.UFFim),
+      ufPercurso: ensureArray(ide.infPercurso).map((node) => textOrNull(node?.UFPer)).filter(Boolean),
+      loadingCities: ensureArray(ide.infMunCarrega).map((node) => textOrNull(node?.xMunCarrega)).filter(Boolean),
+      vehiclePlate: textOrNull(veicTracao.placa),
+      vehicleUf: textOrNull(veicTracao.UF),
+      trailerPlates: ensureArray(rodo.veicReboque).map((node) => textOrNull(node?.placa)).filter(Boolean),
+      driverName: textOrNull(condutor.xNome),
+      driverCpf: normalizeTaxId(condutor.CPF),
+      cargoValue: normalizeDecimal(tot.vCarga, { allowNull: true }),
+      cargoWeight: normalizeDecimal(tot.qCarga, { allowNull: true }),
+      cargoUnit: textOrNull(tot.cUnid),
+      tripStartAt: parseDateTime(ide.dhIniViagem),
+      documents: uniqueDocuments,
+      protocolo: textOrNull(infProt?.nProt),
+      protocoloStatus: protocolStatus,
+      isCancelled: Boolean(protocolStatus && CANCELLATION_PROTOCOL_CODES.has(protocolStatus)),
+    };
+  } catch (error) {
+    if (error instanceof InvoiceParseError) {
+      throw error;
+    }
+    throw new InvoiceParseError(error.message || 'layout MDF-e não suportado', 'LAYOUT_UNSUPPORTED');
+  }
+}
+
+function extractNfseTaxId(node) {
+  if (!node || typeof node !== 'object') return null;
+  const cpfCnpj = node.CpfCnpj || {};
+  return normalizeTaxId(cpfCnpj.Cnpj ?? cpfCnpj.Cpf ?? node.Cnpj ?? node.Cpf);
+}
+
+function collectInfNfseNodes(node, isCancelled = false, collected = []) {
+  if (!node || typeof node !== 'object') return collected;
+  if (Array.isArray(node)) {
+    node.forEach((child) => collectInfNfseNodes(child, isCancelled, collected));
+    return collected;
+  }
+
+  // ABRASF: CompNfse traz a nota e, quando houver, o grupo NfseCancelamento como irmão
+  const cancelled = isCancelled || Boolean(node.NfseCancelamento);
+  const infNodes = toArray(node.InfNfse ?? node.infNfse);
+  if (infNodes.length) {
+    infNodes.forEach((infNfse) => collected.push({ infNfse, isCancelled: cancelled }));
+    return collected;
+  }
+
+  Object.entries(node).forEach(([key, child]) => {
+    if (key.startsWith('@_') || key === 'NfseCancelamento') return;
+    collectInfNfseNodes(child, cancelled, collected);
+  });
+  return collected;
+}
+
+function parseNfseNode(infNfse, isCancelled) {
+  // Layout 2.x move serviço, prestador e tomador para DeclaracaoPrestacaoServico
+  const declaracao = infNfse.DeclaracaoPrestacaoServico?.InfDeclaracaoPrestacaoServico
+    || infNfse.DeclaracaoPrestacaoServico
+    || {};
+  const servico = infNfse.Servico || declaracao.Servico || {};
+  const valores = servico.Valores || {};
+  const valoresNfse = infNfse.ValoresNfse || {};
+
+  const numeroRaw = unwrapXMLValue(infNfse.Numero);
+  const numero = numeroRaw != null && numeroRaw !== '' ? String(numeroRaw).trim() : null;
+  if (!numero) {
+    throw new InvoiceParseError('NFS-e sem número', 'LAYOUT_UNSUPPORTED');
+  }
+
+  const emissao = parseDate(infNfse.DataEmissao ?? declaracao.DataEmissao, { required: true });
+  const competencia = parseDate(infNfse.Competencia ?? declaracao.Competencia, { required: false });
+  const codigoVerificacaoRaw = unwrapXMLValue(infNfse.CodigoVerificacao);
+
+  const prestadorServico = infNfse.PrestadorServico || {};
+  const providerCnpj = extractNfseTaxId(prestadorServico.IdentificacaoPrestador)
+    || extractNfseTaxId(declaracao.Prestador)
+    || extractNfseTaxId(infNfse.Prestador);
+  if (!providerCnpj) {
+    throw new InvoiceParseError('prestador inválido', 'LAYOUT_UNSUPPORTED');
+  }
+  const providerName = unwrapXMLValue(prestadorServico.RazaoSocial) || null;
+  const providerAddress = prestadorServico.Endereco || {};
+  const providerMunicipio = unwrapXMLValue(providerAddress.Cidade ?? providerAddress.CodigoMunicipio)
+    || unwrapXMLValue(infNfse.OrgaoGerador?.CodigoMunicipio)
+    || null;
+
+  const tomador = infNfse.TomadorServico || declaracao.TomadorServico || declaracao.Tomador || {};
+  const takerCnpj = extractNfseTaxId(tomador.IdentificacaoTomador);
+  const takerName = unwrapXMLValue(tomador.RazaoSocial) || null;
+
+  const issRetidoRaw = unwrapXMLValue(valores.IssRetido ?? servico.IssRetido);
+  const issWithheld = String(issRetidoRaw ?? '').trim() === '1';
+  const issValue = normalizeDecimal(valores.ValorIss ?? valoresNfse.ValorIss, { allowNull: true });
+  const issWithheldValue = normalizeDecimal(valores.ValorIssRetido, { allowNull: true })
+    ?? (issWithheld ? issValue : null);
+
+  const servicesValue = normalizeDecimal(valores.ValorServicos, { allowNull: false });
+  const serviceCodeRaw = unwrapXMLValue(servico.ItemListaServico);
+  const municipalServiceCodeRaw = unwrapXMLValue(servico.CodigoTributacaoMunicipio);
+  const descriptionRaw = unwrapXMLValue(servico.Discriminacao);
+
+  return {
+    numero,
+    codigoVerificacao: codigoVerificacaoRaw ? String(codigoVerificacaoRaw).trim() : null,
+    emissao,
+    competencia,
+    providerCnpj,
+    providerName,
+    providerMunicipio: providerMunicipio ? String(providerMunicipio).trim() : null,
+    takerCnpj,
+    takerName,
+    serviceCode: serviceCodeRaw ? String(serviceCodeRaw).trim() : null,
+    municipalServiceCode: municipalServiceCodeRaw ? String(municipalServiceCodeRaw).trim() : null,
+    description: descriptionRaw ? String(descriptionRaw).trim() : null,
+    servicesValue,
+    deductionsValue: normalizeDecimal(valores.ValorDeducoes, { allowNull: true }),
+    issBase: normalizeDecimal(valores.BaseCalculo ?? valoresNfse.BaseCalculo, { allowNull: true }),
+    issRate: normalizeDecimal(valores.Aliquota ?? valoresNfse.Aliquota, { allowNull: true }),
+    issValue,
+    issWithheld,
+    issWithheldValue,
+    pisValue: normalizeDecimal(valores.ValorPis, { allowNull: true }),
+    cofinsValue: normalizeDecimal(valores.ValorCofins, { allowNull: true }),
+    irValue: normalizeDecimal(valores.ValorIr, { allowNull: true }),
+    csllValue: normalizeDecimal(valores.ValorCsll, { allowNull: true }),
+    inssValue: normalizeDecimal(valores.ValorInss, { allowNull: true }),
+    netValue: normalizeDecimal(valores.ValorLiquidoNfse ?? valoresNfse.ValorLiquidoNfse, { allowNull: true }),
+    totalValue: servicesValue,
+    isCancelled,
+  };
+}
+
+function parseNfseFromDocument(parsed) {
+  const nodes = collectInfNfseNodes(parsed);
+  if (!nodes.length) {
+    throw new InvoiceParseError('faltando InfNfse', 'MISSING_INF_NFSE');
+  }
+
+  try {
+    return nodes.map(({ infNfse, isCancelled }) => parseNfseNode(infNfse, isCancelled));
+  } catch (error) {
+    if (error instanceof InvoiceParseError) {
+      throw error;
+    }
+    throw new InvoiceParseError(error.message || 'layout NFS-e não suportado', 'LAYOUT_UNSUPPORTED');
+  }
+}
+
+function textOrNull(value) {
+  const raw = unwrapXMLValue(value);
+  if (raw == null || raw === '') return null;
+  return String(raw).trim();
+}
+
+function parseAddress(node) {
+  if (!node || typeof node !== 'object') return null;
+  return {
+    street: textOrNull(node.xLgr),
+    number: textOrNull(node.nro),
+    complement: textOrNull(node.xCpl),
+    district: textOrNull(node.xBairro),
+    city: textOrNull(node.xMun),
+    cityCode: textOrNull(node.cMun),
+    uf: textOrNull(node.UF),
+    countryCode: textOrNull(node.cPais),
+    zip: textOrNull(node.CEP),
+    phone: textOrNull(node.fone),
+  };
+}
+
+// Dados do XML que não ficam persistidos na Invoice, usados apenas na impressão do DANFE
+function parseDanfeExtras(xmlContent) {
+  const parsed = parseXmlContent(xmlContent);
+  const infNFeData = findInfNFe(parsed);
+  if (!infNFeData) return null;
+
+  const { infNFe, root } = infNFeData;
+  const ide = infNFe.ide || {};
+  const emit = infNFe.emit || {};
+  const dest = infNFe.dest || {};
+  const infAdic = infNFe.infAdic || {};
+  const protocolNode = extractNFeProtocol(root);
+
+  return {
+    serie: textOrNull(ide.serie),
+    tpNF: textOrNull(ide.tpNF),
+    tpAmb: textOrNull(ide.tpAmb),
+    issuer: {
+      name: textOrNull(emit.xNome),
+      tradeName: textOrNull(emit.xFant),
+      stateRegistration: textOrNull(emit.IE),
+      stStateRegistration: textOrNull(emit.IEST),
+      address: parseAddress(emit.enderEmit),
+    },
+    recipient: {
+      stateRegistration: textOrNull(dest.IE),
+      email: textOrNull(dest.email),
+      address: parseAddress(dest.enderDest),
+    },
+    protocol: protocolNode
+      ? {
+        protocolNumber: textOrNull(protocolNode.nProt),
+        receivedAt: parseDateTime(protocolNode.dhRecbto),
+      }
+      : null,
+    additionalInfo: textOrNull(infAdic.infCpl),
+    fiscoInfo: textOrNull(infAdic.infAdFisco),
+  };
+}
+
+function parseCteParty(node, addressKey) {
+  if (!node || typeof node !== 'object') return null;
+  return {
+    taxId: normalizeTaxId(node.CNPJ ?? node.CPF),
+    name: textOrNull(node.xNome),
+    stateRegistration: textOrNull(node.IE),
+    address: parseAddress(node[addressKey]),
+  };
+}
+
+// Grupo ICMS do CT-e vem em um único filho (ICMS00, ICMS20, ICMS45, ICMS60, ICMS90, ICMSOutraUF, ICMSSN)
+function parseCteIcms(impNode) {
+  const icmsNode = impNode?.ICMS;
+  if (!icmsNode || typeof icmsNode !== 'object') return null;
+  const [groupName] = Object.keys(icmsNode).filter((key) => key.startsWith('ICMS'));
+  const group = groupName ? icmsNode[groupName] : null;
+  if (!group || typeof group !== 'object') return null;
+  return {
+    group: groupName,
+    cst: textOrNull(group.CST) ?? (groupName === 'ICMSSN' ? 'SN' : null),
+    vBC: normalizeDecimal(group.vBC ?? group.vBCOutraUF ?? group.vBCSTRet, { allowNull: true }),
+    pICMS: normalizeDecimal(group.pICMS ?? group.pICMSOutraUF ?? group.pICMSSTRet, { allowNull: true }),
+    vICMS: normalizeDecimal(group.vICMS ?? group.vICMSOutraUF ?? group.vICMSSTRet, { allowNull: true }),
+    pRedBC: normalizeDecimal(group.pRedBC ?? group.pRedBCOutraUF, { allowNull: true }),
+  };
+}
+
+const CTE_TOMADOR_PARTIES = Object.freeze({
+  0: 'remetente',
+  1: 'expedidor',
+  2: 'recebedor',
+  3: 'destinatario',
+});
+
+// Dados do XML do CT-e que não ficam persistidos na tabela Cte, usados apenas na impressão do DACTE
+function parseDacteExtras(xmlContent) {
+  const parsed = parseXmlContent(xmlContent);
+  const infCteData = findInfCte(parsed);
+  if (!infCteData) return null;
+
+  const { infCte } = infCteData;
+  const ide = infCte.ide || {};
+  const emit = infCte.emit || {};
+  const infCarga = infCte.infCTeNorm?.infCarga || {};
+  const protocolNode = parsed?.cteProc?.protCTe?.infProt ?? parsed?.protCTe?.infProt ?? null;
+
+  const parties = {
+    remetente: parseCteParty(infCte.rem, 'enderReme'),
+    expedidor: parseCteParty(infCte.exped, 'enderExped'),
+    recebedor: parseCteParty(infCte.receb, 'enderReceb'),
+    destinatario: parseCteParty(infCte.dest, 'enderDest'),
+  };
+
+  // toma3 aponta para uma das partes; toma4 (toma no leiaute 4.00) traz os dados do tomador
+  const toma3 = ide.toma3 || ide.toma03;
+  const toma4 = ide.toma4 || ide.toma04;
+  const tomaCode = textOrNull(toma3?.toma ?? toma4?.toma);
+  const tomadorRole = toma4 ? 'outros' : (CTE_TOMADOR_PARTIES[tomaCode] ?? null);
+  const tomador = toma4 ? parseCteParty(toma4, 'enderToma') : (tomadorRole ? parties[tomadorRole] : null);
+
+  return {
+    tpAmb: textOrNull(ide.tpAmb),
+    tpCTe: textOrNull(ide.tpCTe),
+    tpServ: textOrNull(ide.tpServ),
+    modal: textOrNull(ide.modal),
+    route: {
+      originCity: textOrNull(ide.xMunIni),
+      originCityCode: textOrNull(ide.cMunIni),
+      originUf: textOrNull(ide.UFIni),
+      destinationCity: textOrNull(ide.xMunFim),
+      destinationCityCode: textOrNull(ide.cMunFim),
+      destinationUf: textOrNull(ide.UFFim),
+    },
+    issuer: {
+      stateRegistration: textOrNull(emit.IE),
+      address: parseAddress(emit.enderEmit),
+    },
+    parties,
+    tomador: tomador ? { ...tomador, role: tomadorRole } : null,
+    cargo: {
+      value: normalizeDecimal(infCarga.vCarga, { allowNull: true }),
+      predominantProduct: textOrNull(infCarga.proPred),
+      otherCharacteristics: textOrNull(infCarga.xOutCat),
+      quantities: ensureArray(infCarga.infQ).map((infQ) => ({
+        unitCode: textOrNull(infQ?.cUnid),
+        measure: textOrNull(infQ?.tpMed),
+        quantity: normalizeDecimal(infQ?.qCarga, { allowNull: true }),
+      })),
+    },
+    components: ensureArray(infCte.vPrest?.Comp).map((comp) => ({
+      name: textOrNull(comp?.xNome),
+      value: normalizeDecimal(comp?.vComp, { allowNull: true }),
+    })),
+    icms: parseCteIcms(infCte.imp),
+    protocol: protocolNode
+      ? {
+        protocolNumber: textOrNull(protocolNode.nProt),
+        receivedAt: parseDateTime(protocolNode.dhRecbto),
+      }
+      : null,
+    observations: textOrNull(infCte.compl?.xObs),
+  };
+}
+
 function parseInvoiceXml(xmlContent) {
   const parsed = parseXmlContent(xmlContent);
 
@@ -655,8 +1560,8 @@ function parseInvoiceXml(xmlContent) {
 
   const invoice = parseInvoiceFromDocument(parsed);
   return {
-    ignored: invoice.ignored ?? false,
-    ignoreReason: invoice.ignoreReason ?? null,
+    ignored: false,
+    ignoreReason: null,
     ...invoice,
   };
 }
@@ -665,7 +1570,12 @@ function parseUploadXml(xmlContent) {
   const parsed = parseXmlContent(xmlContent);
 
   if (isNFSeDocument(parsed)) {
-    return { kind: 'NFSE', data: { reason: NFSE_REASON } };
+    return { kind: 'NFSE', data: parseNfseFromDocument(parsed) };
+  }
+
+  const numberVoiding = extractNumberVoiding(parsed);
+  if (numberVoiding) {
+    return { kind: 'NUMBER_VOIDING', data: numberVoiding };
   }
 
   const cancellation = extractCancellationEvent(parsed);
@@ -673,24 +1583,33 @@ function parseUploadXml(xmlContent) {
     return { kind: 'CANCELLATION', data: cancellation };
   }
 
+  const fiscalEvent = extractFiscalEvent(parsed);
+  if (fiscalEvent) {
+    return { kind: 'EVENT', data: fiscalEvent };
+  }
+
+  if (findInfMdfe(parsed)) {
+    return { kind: 'MDFE', data: parseMdfeFromDocument(parsed) };
+  }
+
+  const cteEvent = extractCteEvent(parsed);
+  if (cteEvent) {
+    return { kind: 'CTE_EVENT', data: cteEvent };
+  }
+
   if (isCTeDocument(parsed)) {
     const cte = parseCteFromDocument(parsed);
-    return { kind: 'CTE', data: cte };
+    return { kind: 'CTE', data: attachIntegrity(cte, xmlContent) };
   }
 
   const invoice = parseInvoiceFromDocument(parsed);
-  return {
-    kind: 'INVOICE',
-    data: {
-      ignored: invoice.ignored ?? false,
-      ignoreReason: invoice.ignoreReason ?? null,
-      ...invoice,
-    },
-  };
+  return { kind: 'INVOICE', data: attachIntegrity(invoice, xmlContent) };
 }
 
 module.exports = {
   parseInvoiceXml,
   parseUploadXml,
+  parseDanfeExtras,
+  parseDacteExtras,
   InvoiceParseError,
 };
@@ -0,0 +1,347 @@
+const crypto = require('crypto');
+
+// Verificação offline de XMLDSig no formato usado por NF-e/CT-e: referência ao Id do
+// elemento inf*, transformações enveloped-signature + C14N inclusiva, RSA-SHA1 ou RSA-SHA256.
+
+const SIGNATURE_STATUS = Object.freeze({
+  VALID: 'VALID',
+  INVALID: 'INVALID',
+  MISSING: 'MISSING',
+  UNSUPPORTED: 'UNSUPPORTED',
+});
+
+// Só a C14N sem comentários: a árvore descarta comentários, então #WithComments fica UNSUPPORTED
+const C14N_ALGORITHMS = new Set([
+  'http://www.w3.org/TR/2001/REC-xml-c14n-20010315',
+]);
+const ENVELOPED_SIGNATURE = 'http://www.w3.org/2000/09/xmldsig#enveloped-signature';
+const DIGEST_ALGORITHMS = {
+  'http://www.w3.org/2000/09/xmldsig#sha1': 'sha1',
+  'http://www.w3.org/2001/04/xmlenc#sha256': 'sha256',
+};
+const SIGNATURE_ALGORITHMS = {
+  'http://www.w3.org/2000/09/xmldsig#rsa-sha1': 'RSA-SHA1',
+  'http://www.w3.org/2001/04/xmldsig-more#rsa-sha256': 'RSA-SHA256',
+};
+
+const ATTRIBUTE_PATTERN = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+function decodeEntities(value) {
+  return value.replace(/&(#x[0-9a-fA-F]+|#\d+|lt|gt|amp|quot|apos);/g, (match, entity) => {
+    if (entity === 'lt') return '<';
+    if (entity === 'gt') return '>';
+    if (entity === 'amp') return '&';
+    if (entity === 'quot') return '"';
+    if (entity === 'apos') return "'";
+    const code = entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+    return String.fromCodePoint(code);
+  });
+}
+
+// Árvore mínima preservando texto e ordem de atributos; comentários e instruções são descartados
+function parseXmlTree(xmlContent) {
+  const xml = String(xmlContent).replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const root = { name: null, attrs: [], children: [], parent: null };
+  let current = root;
+  let index = 0;
+
+  while (index < xml.length) {
+    const tagStart = xml.indexOf('<', index);
+    if (tagStart === -1) {
+      current.children.push({ text: decodeEntities(xml.slice(index)) });
+      break;
+    }
+    if (tagStart > index) {
+      current.children.push({ text: decodeEntities(xml.slice(index, tagStart)) });
+    }
+
+    if (xml.startsWith('<!--', tagStart)) {
+      const end = xml.indexOf('-->', tagStart + 4);
+      if (end === -1) throw new Error('comentário não encerrado');
+      index = end + 3;
+    } else if (xml.startsWith('<![CDATA[', tagStart)) {
+      const end = xml.indexOf(']]>', tagStart + 9);
+      if (end === -1) throw new Error('CDATA não encerrado');
+      current.children.push({ text: xml.slice(tagStart + 9, end) });
+      index = end + 3;
+    } else if (xml.startsWith('<?', tagStart)) {
+      const end = xml.indexOf('?>', tagStart + 2);
+      if (end === -1) throw new Error('instrução de processamento não encerrada');
+      index = end + 2;
+    } else if (xml.startsWith('<!', tagStart)) {
+      const end = xml.indexOf('>', tagStart + 2);
+      if (end === -1) throw new Error('declaração não encerrada');
+      index = end + 1;
+    } else if (xml[tagStart + 1] === '/') {
+      const end = xml.indexOf('>', tagStart);
+      if (end === -1) throw new Error('tag não encerrada');
+      const name = xml.slice(tagStart + 2, end).trim();
+      if (current.name !== name || !current.parent) {
+        throw new Error(`fechamento inesperado de ${name}`);
+      }
+      current = current.parent;
+      index = end + 1;
+    } else {
+      const end = xml.indexOf('>', tagStart);
+      if (end === -1) throw new Error('tag não encerrada');
+      const selfClosing = xml[end - 1] === '/';
+      const body = xml.slice(tagStart + 1, selfClosing ? end - 1 : end);
+      const nameMatch = /^[^\s/>]+/.exec(body);
+      if (!nameMatch) throw new Error('tag sem nome');
+      const attrs = [];
+      ATTRIBUTE_PATTERN.lastIndex = nameMatch[0].length;
+      let attrMatch = ATTRIBUTE_PATTERN.exec(body);
+      while (attrMatch) {
+        const rawValue = attrMatch[2] ?? attrMatch[3] ?? '';
+        attrs.push({ name: attrMatch[1], value: decodeEntities(rawValue.replace(/[\t\n]/g, ' ')) });
+        attrMatch = ATTRIBUTE_PATTERN.exec(body);
+      }
+      const element = { name: nameMatch[0], attrs, children: [], parent: current };
+      current.children.push(element);
+      if (!selfClosing) {
+        current = element;
+      }
+      index = end + 1;
+    }
+  }
+
+  if (current !== root) {
+    throw new Error(`elemento ${current.name} não encerrado`);
+  }
+  return root;
+}
+
+function localName(name) {
+  const separator = name.indexOf(':');
+  return separator === -1 ? name : name.slice(separator + 1);
+}
+
+function isNamespaceDeclaration(attr) {
+  return attr.name === 'xmlns' || attr.name.startsWith('xmlns:');
+}
+
+function namespacePrefix(attr) {
+  return attr.name === 'xmlns' ? '' : attr.name.slice(6);
+}
+
+function collectNamespaces(element, base) {
+  const scope = new Map(base);
+  element.attrs.filter(isNamespaceDeclaration).forEach((attr) => {
+    scope.set(namespacePrefix(attr), attr.value);
+  });
+  return scope;
+}
+
+// Namespaces em escopo herdados dos ancestrais (a C14N inclusiva os declara no elemento ápice)
+function ancestorNamespaces(element) {
+  const chain = [];
+  for (let node = element.parent; node && node.name; node = node.parent) {
+    chain.unshift(node);
+  }
+  return chain.reduce((scope, node) => collectNamespaces(node, scope), new Map());
+}
+
+function escapeText(value) {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\r/g, '&#xD;');
+}
+
+function escapeAttribute(value) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\t/g, '&#x9;')
+    .replace(/\n/g, '&#xA;')
+    .replace(/\r/g, '&#xD;');
+}
+
+function compareCodeUnits(a, b) {
+  if (a === b) return 0;
+  return a < b ? -1 : 1;
+}
+
+function renderElement(element, inScope, rendered, exclude) {
+  if (exclude && exclude.has(element)) return '';
+
+  const scope = collectNamespaces(element, inScope);
+  const declarations = [];
+  scope.forEach((uri, prefix) => {
+    if (prefix === '' && uri === '' && !rendered.has('')) return;
+    if (rendered.get(prefix) !== uri) {
+      declarations.push({ prefix, uri });
+    }
+  });
+  declarations.sort((a, b) => compareCodeUnits(a.prefix, b.prefix));
+
+  const attributes = element.attrs
+    .filter((attr) => !isNamespaceDeclaration(attr))
+    .map((attr) => {
+      const separator = attr.name.indexOf(':');
+      const prefix = separator === -1 ? null : attr.name.slice(0, separator);
+      const uri = prefix === null ? '' : (prefix === 'xml' ? 'http://www.w3.org/XML/1998/namespace' : scope.get(prefix) ?? '');
+      return { ...attr, uri, local: localName(attr.name) };
+    })
+    .sort((a, b) => compareCodeUnits(a.uri, b.uri) || compareCodeUnits(a.local, b.local));
+
+  const childRendered = new Map(rendered);
+  declarations.forEach(({ prefix, uri }) => childRendered.set(prefix, uri));
+
+  let output = `<${element.name}`;
+  declarations.forEach(({ prefix, uri }) => {
+    output += prefix ? ` xmlns:${prefix}="${escapeAttribute(uri)}"` : ` xmlns="${escapeAttribute(uri)}"`;
+  });
+  attributes.forEach((attr) => {
+    output += ` ${attr.name}="${escapeAttribute(attr.value)}"`;
+  });
+  output += '>';
+  element.children.forEach((child) => {
+    output += child.name ? renderElement(child, scope, childRendered, exclude) : escapeText(child.text);
+  });
+  return `${output}</${element.name}>`;
+}
+
+function canonicalize(element, { exclude = null } = {}) {
+  return renderElement(element, ancestorNamespaces(element), new Map(), exclude);
+}
+
+function findElements(node, predicate, found = []) {
+  node.children.forEach((child) => {
+    if (!child.name) return;
+    if (predicate(child)) found.push(child);
+    findElements(child, predicate, found);
+  });
+  return found;
+}
+
+function childByName(element, name) {
+  return element?.children.find((child) => child.name && localName(child.name) === name) ?? null;
+}
+
+function textContent(element) {
+  if (!element) return '';
+  return element.children.map((child) => (child.name ? textContent(child) : child.text)).join('');
+}
+
+function attributeValue(element, name) {
+  return element?.attrs.find((attr) => attr.name === name)?.value ?? null;
+}
+
+function isDescendant(node, ancestor) {
+  for (let current = node.parent; current; current = current.parent) {
+    if (current === ancestor) return true;
+  }
+  return false;
+}
+
+function describeCertificate(certificate) {
+  return {
+    subject: certificate.subject,
+    serialNumber: certificate.serialNumber,
+    validFrom: new Date(certificate.validFrom).toISOString(),
+    validTo: new Date(certificate.validTo).toISOString(),
+  };
+}
+
+function verifySignatureElement(tree, signature, referenceId) {
+  const signedInfo = childByName(signature, 'SignedInfo');
+  const reference = childByName(signedInfo, 'Reference');
+  if (!signedInfo || !reference) {
+    return { status: SIGNATURE_STATUS.INVALID, reason: 'assinatura sem SignedInfo/Reference' };
+  }
+
+  const c14nMethod = attributeValue(childByName(signedInfo, 'CanonicalizationMethod'), 'Algorithm');
+  const signatureAlgorithm = SIGNATURE_ALGORITHMS[attributeValue(childByName(signedInfo, 'SignatureMethod'), 'Algorithm')];
+  const digestAlgorithm = DIGEST_ALGORITHMS[attributeValue(childByName(reference, 'DigestMethod'), 'Algorithm')];
+  const transforms = (childByName(reference, 'Transforms')?.children ?? [])
+    .filter((child) => child.name && localName(child.name) === 'Transform')
+    .map((transform) => attributeValue(transform, 'Algorithm'));
+  if (
+    !C14N_ALGORITHMS.has(c14nMethod)
+    || !signatureAlgorithm
+    || !digestAlgorithm
+    || transforms.some((algorithm) => algorithm !== ENVELOPED_SIGNATURE && !C14N_ALGORITHMS.has(algorithm))
+  ) {
+    return { status: SIGNATURE_STATUS.UNSUPPORTED, reason: 'algoritmo de assinatura não suportado' };
+  }
+
+  const targetId = (attributeValue(reference, 'URI') ?? '').replace(/^#/, '');
+  if (referenceId && targetId !== referenceId) {
+    return { status: SIGNATURE_STATUS.INVALID, reason: `assinatura referencia ${targetId || 'documento inteiro'}, não ${referenceId}` };
+  }
+  const [target] = findElements(tree, (element) => ['Id', 'ID', 'id'].some((name) => attributeValue(element, name) === targetId));
+  if (!target) {
+    return { status: SIGNATURE_STATUS.INVALID, reason: 'elemento referenciado pela assinatura não encontrado' };
+  }
+
+  const exclude = transforms.includes(ENVELOPED_SIGNATURE) && isDescendant(signature, target) ? new Set([signature]) : null;
+  const digest = crypto.createHash(digestAlgorithm).update(canonicalize(target, { exclude }), 'utf8').digest('base64');
+  const expectedDigest = textContent(childByName(reference, 'DigestValue')).replace(/\s+/g, '');
+
+  const certificateBase64 = textContent(childByName(childByName(childByName(signature, 'KeyInfo'), 'X509Data'), 'X509Certificate'))
+    .replace(/\s+/g, '');
+  if (!certificateBase64) {
+    return { status: SIGNATURE_STATUS.INVALID, reason: 'assinatura sem certificado X509' };
+  }
+  let certificate;
+  try {
+    certificate = new crypto.X509Certificate(Buffer.from(certificateBase64, 'base64'));
+  } catch {
+    return { status: SIGNATURE_STATUS.INVALID, reason: 'certificado X509 ilegível' };
+  }
+
+  if (digest !== expectedDigest) {
+    return {
+      status: SIGNATURE_STATUS.INVALID,
+      reason: 'conteúdo alterado após a assinatura (DigestValue não confere)',
+      certificate: describeCertificate(certificate),
+    };
+  }
+
+  const signatureValue = Buffer.from(textContent(childByName(signature, 'SignatureValue')).replace(/\s+/g, ''), 'base64');
+  const signatureMatches = crypto.verify(
+    signatureAlgorithm,
+    Buffer.from(canonicalize(signedInfo), 'utf8'),
+    certificate.publicKey,
+    signatureValue,
+  );
+  if (!signatureMatches) {
+    return {
+      status: SIGNATURE_STATUS.INVALID,
+      reason: 'SignatureValue não confere com o certificado',
+      certificate: describeCertificate(certificate),
+    };
+  }
+
+  return { status: SIGNATURE_STATUS.VALID, reason: null, certificate: describeCertificate(certificate) };
+}
+
+// referenceId: Id do elemento que deve estar assinado (ex.: NFe + chave)
+function verifyXmlSignature(xmlContent, { referenceId = null } = {}) {
+  let tree;
+  try {
+    tree = parseXmlTree(Buffer.isBuffer(xmlContent) ? xmlContent.toString('utf8') : xmlContent);
+  } catch (error) {
+    return { status: SIGNATURE_STATUS.INVALID, reason: `XML ilegível para verificação: ${error.message}` };
+  }
+
+  const signatures = findElements(tree, (element) => localName(element.name) === 'Signature');
+  if (!signatures.length) {
+    return { status: SIGNATURE_STATUS.MISSING, reason: 'documento sem assinatura digital' };
+  }
+  // Documentos processados trazem outras assinaturas (protocolo); vale a que referencia o documento
+  const signature = signatures.find((candidate) => {
+    const reference = childByName(childByName(candidate, 'SignedInfo'), 'Reference');
+    return !referenceId || (attributeValue(reference, 'URI') ?? '').replace(/^#/, '') === referenceId;
+  }) ?? signatures[0];
+
+  try {
+    return verifySignatureElement(tree, signature, referenceId);
+  } catch (error) {
+    return { status: SIGNATURE_STATUS.INVALID, reason: `falha ao verificar assinatura: ${error.message}` };
+  }
+}
+
+module.exports = {
+  SIGNATURE_STATUS,
+  verifyXmlSignature,
+};
@@ -0,0 +1,58 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('node:fs');
+const path = require('node:path');
+const { SIGNATURE_STATUS, verifyXmlSignature } = require('./xmlSignature');
+
+const fileName = '11250130404512000184550010000008431529700922-nfe.xml';
+const xml = fs.readFileSync(path.join(__dirname, '../../documentos', fileName), 'utf8');
+const referenceId = 'NFe11250130404512000184550010000008431529700922';
+
+test('confirma a assinatura da NF-e autorizada', () => {
+  const result = verifyXmlSignature(xml, { referenceId });
+  assert.equal(result.status, SIGNATURE_STATUS.VALID);
+  assert.equal(result.reason, null);
+  assert.match(result.certificate.subject, /30404512000184/);
+  assert.equal(result.certificate.validTo, '2025-04-25T15:29:02.000Z');
+});
+
+test('aceita o conteúdo em Buffer', () => {
+  assert.equal(verifyXmlSignature(Buffer.from(xml, 'utf8'), { referenceId }).status, SIGNATURE_STATUS.VALID);
+});
+
+test('detecta valor alterado depois da assinatura', () => {
+  const tampered = xml.replace('<vNF>4910.60</vNF>', '<vNF>4911.60</vNF>');
+  assert.notEqual(tampered, xml);
+
+  const result = verifyXmlSignature(tampered, { referenceId });
+  assert.equal(result.status, SIGNATURE_STATUS.INVALID);
+  assert.match(result.reason, /DigestValue não confere/);
+});
+
+test('detecta SignatureValue adulterado', () => {
+  const tampered = xml.replace(/<SignatureValue>(.)/, (match, first) => (
+    `<SignatureValue>${first === 'A' ? 'B' : 'A'}`
+  ));
+  assert.notEqual(tampered, xml);
+
+  assert.equal(verifyXmlSignature(tampered, { referenceId }).status, SIGNATURE_STATUS.INVALID);
+});
+
+test('não verifica assinatura com C14N que preserva comentários', () => {
+  const withComments = xml.replace(
+    /(<Transform Algorithm="http:\/\/www\.w3\.org\/TR\/2001\/REC-xml-c14n-20010315)"/,
+    '$1#WithComments"',
+  );
+  assert.notEqual(withComments, xml);
+
+  assert.equal(verifyXmlSignature(withComments, { referenceId }).status, SIGNATURE_STATUS.UNSUPPORTED);
+});
+
+test('informa documento sem assinatura', () => {
+  const unsigned = xml.replace(/<Signature[\s\S]*<\/Signature>/, '');
+  assert.equal(verifyXmlSignature(unsigned).status, SIGNATURE_STATUS.MISSING);
+});
+
+test('trata XML ilegível como assinatura inválida', () => {
+  assert.equal(verifyXmlSignature('<NFe><infNFe>').status, SIGNATURE_STATUS.INVALID);
+});
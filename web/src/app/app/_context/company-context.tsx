@@ -8,6 +8,7 @@ export type CompanySummary = {
   id: string;
   name: string;
   cnpj: string;
+  inboxPath?: string | null;
   createdAt: string;
   updatedAt: string;
 };
@@ -34,6 +34,12 @@ type ResetDataResponse = {
     uploadBatches: number;
     reprocessBatches: number;
     cancellations: number;
+    numberVoidings: number;
+    serviceInvoices: number;
+    xmlDocuments: number;
+    invoiceEvents: number;
+    cteEvents: number;
+    mdfes: number;
     stockMovements: number;
   };
 };
@@ -71,12 +77,22 @@ export default function CompaniesPage() {
       uploadBatches: number;
       reprocessBatches: number;
       cancellations: number;
+      numberVoidings: number;
+      serviceInvoices: number;
+      xmlDocuments: number;
+      invoiceEvents: number;
+      cteEvents: number;
+      mdfes: number;
       stockMovements: number;
     };
     companyName: string;
     companyCnpj: string;
   } | null>(null);
 
+  const [inboxPathValue, setInboxPathValue] = useState('');
+  const [isSavingInbox, setIsSavingInbox] = useState(false);
+  const [inboxFeedback, setInboxFeedback] = useState<string | null>(null);
+
   const orderedCompanies = useMemo(() => companies, [companies]);
   const activeCompany = useMemo(
     () => orderedCompanies.find((company) => company.id === selectedCompanyId) ?? null,
@@ -93,6 +109,33 @@ export default function CompaniesPage() {
     setIsResetDialogOpen(false);
   }, [activeCompany?.id]);
 
+  useEffect(() => {
+    setInboxPathValue(activeCompany?.inboxPath ?? '');
+    setInboxFeedback(null);
+  }, [activeCompany?.id, activeCompany?.inboxPath]);
+
+  const handleSaveInbox = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!activeCompany) return;
+    setIsSavingInbox(true);
+    setInboxFeedback(null);
+    try {
+      await fetchJson(`/companies/${activeCompany.id}/inbox`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ inboxPath: inboxPathValue.trim() || null }),
+      });
+      setInboxFeedback(inboxPathValue.trim() ? 'Pasta de entrada salva. A primeira varredura já foi iniciada.' : 'Importação automática desativada.');
+      await refreshCompanies();
+    } catch (err) {
+      setInboxFeedback(err instanceof Error ? err.message : 'Não foi possível salvar a pasta de entrada.');
+    } finally {
+      setIsSavingInbox(false);
+    }
+  };
+
   const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     setFeedback(null);
@@ -349,6 +392,46 @@ export default function CompaniesPage() {
         </aside>
       </section>
 
+      {activeCompany ? (
+        <form
+          onSubmit={handleSaveInbox}
+          className="space-y-3 rounded-2xl border border-[var(--color-border-subtle)] bg-[var(--color-surface-card)] p-6 shadow-sm"
+        >
+          <div className="space-y-1">
+            <p className="text-xs uppercase tracking-[0.3em] text-[var(--color-text-secondary)]/80">
+              Importação automática
+            </p>
+            <p className="text-sm text-[var(--color-text-secondary)]">
+              Pasta no servidor onde o ERP deposita os XMLs autorizados de {activeCompany.name}. Arquivos .xml/.zip novos viram
+              um lote de importação; depois de processados vão para <span className="font-mono">done/</span> ou{' '}
+              <span className="font-mono">failed/</span> dentro da própria pasta. A pasta precisa ficar dentro da raiz
+              configurada no servidor (<span className="font-mono">INBOX_ROOT</span>) e não pode ser a de outra empresa.
+              Deixe vazio para desativar.
+            </p>
+          </div>
+          <div className="flex flex-wrap items-end gap-3">
+            <label className="grid min-w-[320px] flex-1 gap-1 text-sm text-[var(--color-text-secondary)]">
+              <span className="font-medium text-[var(--color-text-primary)]">Pasta de entrada</span>
+              <input
+                name="inboxPath"
+                value={inboxPathValue}
+                onChange={(event) => setInboxPathValue(event.target.value)}
+                placeholder="/srv/erp/xml/entrada"
+                className="h-9 rounded-lg border border-[var(--color-border-subtle)] bg-[var(--color-surface-card)] px-3 font-mono text-sm text-[var(--color-text-primary)] shadow-sm transition focus:border-[var(--color-brand-accent)] focus:outline-none focus:ring-2 focus:ring-[var(--color-brand-accent)]/20"
+              />
+            </label>
+            <Button type="submit" size="sm" disabled={isSavingInbox}>
+              {isSavingInbox ? 'Salvando…' : 'Salvar pasta'}
+            </Button>
+          </div>
+          {inboxFeedback ? (
+            <div className="rounded-lg border border-[var(--color-border-subtle)] bg-[var(--color-gray-50)] px-4 py-2 text-xs text-[var(--color-text-secondary)]">
+              {inboxFeedback}
+            </div>
+          ) : null}
+        </form>
+      ) : null}
+
       <section className="rounded-2xl border border-[var(--color-feedback-danger)]/40 bg-[var(--color-feedback-danger)]/12 p-6 shadow-sm">
         <div className="space-y-3">
           <div>
@@ -406,6 +489,12 @@ export default function CompaniesPage() {
                     { label: 'Lotes de upload removidos', value: resetResult.summary.uploadBatches },
                     { label: 'Reprocessamentos removidos', value: resetResult.summary.reprocessBatches },
                     { label: 'Eventos de cancelamento removidos', value: resetResult.summary.cancellations },
+                    { label: 'Inutilizações removidas', value: resetResult.summary.numberVoidings },
+                    { label: 'Notas de serviço removidas', value: resetResult.summary.serviceInvoices },
+                    { label: 'XMLs originais removidos', value: resetResult.summary.xmlDocuments },
+                    { label: 'Eventos de NF-e removidos', value: resetResult.summary.invoiceEvents },
+                    { label: 'Eventos de CT-e removidos', value: resetResult.summary.cteEvents },
+                    { label: 'MDF-e removidos', value: resetResult.summary.mdfes },
                   ].filter((entry) => entry.value > 0);
 
                   if (!entries.length) {
@@ -1,7 +1,7 @@
 'use client';
 
 import { FormEvent, useCallback, useEffect, useMemo, useState } from 'react';
-import { fetchJson } from '@/lib/api';
+import { fetchJson, getApiBaseUrl } from '@/lib/api';
 import { formatCurrency, formatDate, formatNumber } from '@/lib/format';
 import { useCompanyContext } from '../_context/company-context';
 import { Button } from '@/ui/button';
@@ -21,6 +21,9 @@ type Cte = {
   destMun: string | null;
   valorPrestacao: string | null;
   pesoBruto: string | null;
+  freightPerSaca: string | null;
+  hasXml: boolean;
+  invoices: Array<{ chave: string; invoiceId: string | null; numero: string | null; freightValue: string | null }>;
 };
 
 type CteResponse = {
@@ -105,7 +108,7 @@ export default function CtePage() {
             type="text"
             value={filters.search}
             onChange={(e) => setFilters((prev) => ({ ...prev, search: e.target.value }))}
-            placeholder="Chave, número ou destinatário"
+            placeholder="Chave do CT-e ou NF-e, número ou destinatário"
             className="h-9 w-56 rounded-md border border-[var(--color-border-subtle)] bg-white px-2 text-sm shadow-sm"
           />
         </label>
@@ -172,19 +175,39 @@ export default function CtePage() {
                 <th className="px-4 py-3 text-left font-semibold uppercase tracking-[0.14em]">Destino</th>
                 <th className="px-4 py-3 text-right font-semibold uppercase tracking-[0.14em]">Valor frete</th>
                 <th className="px-4 py-3 text-right font-semibold uppercase tracking-[0.14em]">Peso bruto</th>
+                <th className="px-4 py-3 text-right font-semibold uppercase tracking-[0.14em]">Frete/saca</th>
+                <th className="px-4 py-3 text-left font-semibold uppercase tracking-[0.14em]">NF-e transportadas</th>
               </tr>
             </thead>
             <tbody className="divide-y divide-[var(--color-border-faint)] text-[var(--color-text-primary)]">
               {loading && !ctes.length ? (
                 <tr>
-                  <td colSpan={8} className="px-4 py-6 text-center text-sm text-[var(--color-text-secondary)]">
+                  <td colSpan={10} className="px-4 py-6 text-center text-sm text-[var(--color-text-secondary)]">
                     Carregando CT-es…
                   </td>
                 </tr>
               ) : ctes.length ? (
                 ctes.map((cte) => (
                   <tr key={cte.id} className="hover:bg-[var(--color-gray-50)]/60">
-                    <td className="px-4 py-3 font-mono text-xs text-[var(--color-text-secondary)] break-all">{cte.chave}</td>
+                    <td className="px-4 py-3 font-mono text-xs text-[var(--color-text-secondary)] break-all">
+                      {cte.chave}
+                      {cte.hasXml && selectedCompanyId ? (
+                        <a
+                          href={`${getApiBaseUrl()}/ctes/${cte.id}/xml?companyId=${encodeURIComponent(selectedCompanyId)}`}
+                          className="mt-1 block font-sans font-semibold text-[var(--color-brand-secondary)] hover:underline"
+                        >
+                          Baixar XML
+                        </a>
+                      ) : null}
+                      {selectedCompanyId ? (
+                        <a
+                          href={`${getApiBaseUrl()}/ctes/${cte.id}/dacte.pdf?companyId=${encodeURIComponent(selectedCompanyId)}`}
+                          className="mt-1 block font-sans font-semibold text-[var(--color-brand-secondary)] hover:underline"
+                        >
+                          Imprimir DACTE
+                        </a>
+                      ) : null}
+                    </td>
                     <td className="px-4 py-3">{cte.numero ? `CT ${cte.numero}${cte.serie ? ` · Série ${cte.serie}` : ''}` : '—'}</td>
                     <td className="px-4 py-3">{formatDate(cte.emissao)}</td>
                     <td className="px-4 py-3">
@@ -200,11 +223,33 @@ export default function CtePage() {
                     </td>
                     <td className="px-4 py-3 text-right font-semibold">{formatCurrency(cte.valorPrestacao || '0')}</td>
                     <td className="px-4 py-3 text-right">{cte.pesoBruto ? formatNumber(cte.pesoBruto) : '—'}</td>
+                    <td className="px-4 py-3 text-right">{cte.freightPerSaca ? formatCurrency(cte.freightPerSaca) : '—'}</td>
+                    <td className="px-4 py-3 text-xs">
+                      {cte.invoices.length ? (
+                        <div className="grid gap-1">
+                          {cte.invoices.map((invoice) => (
+                            <div key={invoice.chave} className="whitespace-nowrap">
+                              <span className={invoice.invoiceId ? 'font-semibold' : 'text-[var(--color-text-secondary)]'}>
+                                {invoice.numero ? `NF ${invoice.numero}` : `…${invoice.chave.slice(-9)}`}
+                              </span>
+                              {invoice.freightValue ? (
+                                <span className="text-[var(--color-text-secondary)]"> · {formatCurrency(invoice.freightValue)}</span>
+                              ) : null}
+                              {!invoice.invoiceId ? (
+                                <span className="text-[var(--color-text-secondary)]"> (não importada)</span>
+                              ) : null}
+                            </div>
+                          ))}
+                        </div>
+                      ) : (
+                        '—'
+                      )}
+                    </td>
                   </tr>
                 ))
               ) : (
                 <tr>
-                  <td colSpan={8} className="px-4 py-6 text-center text-sm text-[var(--color-text-secondary)]">
+                  <td colSpan={10} className="px-4 py-6 text-center text-sm text-[var(--color-text-secondary)]">
                     Nenhum CT-e para exibir.
                   </td>
                 </tr>
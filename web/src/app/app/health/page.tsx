@@ -2,9 +2,30 @@
 
 import { useState } from 'react';
 import { fetchJson } from '@/lib/api';
+import { formatDateTime } from '@/lib/format';
+import { Badge } from '@/ui/badge';
 import { Button } from '@/ui/button';
 
-type HealthResponse = Record<string, unknown>;
+type InboxCompanyStatus = {
+  companyId: string;
+  companyName: string;
+  inboxPath: string;
+  pendingFiles: number;
+  processingFiles: number;
+  lastBatchId: string | null;
+  error: string | null;
+};
+
+type InboxStatus = {
+  enabled: boolean;
+  intervalMs: number;
+  lastScanAt: string | null;
+  lastError: string | null;
+  pendingFiles: number;
+  companies: InboxCompanyStatus[];
+};
+
+type HealthResponse = Record<string, unknown> & { inbox?: InboxStatus };
 
 export default function HealthPage() {
   const [result, setResult] = useState<HealthResponse | null>(null);
@@ -64,6 +85,44 @@ export default function HealthPage() {
         </div>
       ) : null}
 
+      {result?.inbox ? (
+        <section className="space-y-3 rounded-2xl border border-[var(--color-border-subtle)] bg-[var(--color-surface-card)] px-4 py-4 shadow-sm">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div>
+              <h2 className="text-sm font-semibold text-[var(--color-text-primary)]">Pasta de entrada (importação automática)</h2>
+              <p className="text-xs text-[var(--color-text-secondary)]">
+                Última varredura: {result.inbox.lastScanAt ? formatDateTime(result.inbox.lastScanAt) : 'ainda não executada'} ·
+                {' '}{result.inbox.pendingFiles} arquivo(s) pendente(s)
+              </p>
+            </div>
+            <Badge variant={result.inbox.lastError ? 'danger' : result.inbox.enabled ? 'success' : 'neutral'}>
+              {result.inbox.lastError ? 'Com erro' : result.inbox.enabled ? 'Ativo' : 'Parado'}
+            </Badge>
+          </div>
+          {result.inbox.lastError ? (
+            <p className="text-xs text-[var(--color-feedback-danger)]">{result.inbox.lastError}</p>
+          ) : null}
+          {result.inbox.companies.length ? (
+            <ul className="divide-y divide-[var(--color-border-subtle)] rounded-xl border border-[var(--color-border-subtle)] bg-white text-xs">
+              {result.inbox.companies.map((company) => (
+                <li key={company.companyId} className="flex flex-wrap items-center justify-between gap-2 px-3 py-2">
+                  <div className="min-w-0">
+                    <p className="font-medium text-[var(--color-text-primary)]">{company.companyName}</p>
+                    <p className="truncate font-mono text-[var(--color-text-secondary)]">{company.inboxPath}</p>
+                    {company.error ? <p className="text-[var(--color-feedback-danger)]">{company.error}</p> : null}
+                  </div>
+                  <span className="text-[var(--color-text-secondary)]">
+                    {company.pendingFiles} aguardando · {company.processingFiles} em processamento
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-xs text-[var(--color-text-secondary)]">Nenhuma empresa com pasta de entrada configurada.</p>
+          )}
+        </section>
+      ) : null}
+
       {result ? (
         <pre className="max-h-[420px] overflow-auto rounded-2xl border border-[var(--color-border-subtle)] bg-[#0f172a] p-4 text-xs text-[var(--color-gray-100)] shadow-sm">
           {JSON.stringify(result, null, 2)}
@@ -0,0 +1,438 @@
+'use client';
+
+import { FormEvent, useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { fetchJson } from '@/lib/api';
+import { Badge } from '@/ui/badge';
+import { Button } from '@/ui/button';
+import { useCompanyContext } from '../_context/company-context';
+
+type IngestionRuleAction = 'IGNORE' | 'FLAG' | 'SET_NATUREZA';
+
+type NaturezaOption = {
+  id: string;
+  natOp: string;
+  descricao: string;
+  cfopCode: string;
+  cfopType: 'IN' | 'OUT';
+};
+
+type IngestionRule = {
+  id: string;
+  name: string;
+  isActive: boolean;
+  priority: number;
+  cfopCodes: string[];
+  series: string[];
+  modelos: string[];
+  natOpContains: string | null;
+  issuerCnpj: string | null;
+  recipientCnpj: string | null;
+  action: IngestionRuleAction;
+  naturezaOperacao: NaturezaOption | null;
+};
+
+type RuleForm = {
+  name: string;
+  priority: string;
+  cfopCodes: string;
+  series: string;
+  modelos: string[];
+  natOpContains: string;
+  issuerCnpj: string;
+  recipientCnpj: string;
+  action: IngestionRuleAction;
+  naturezaOperacaoId: string;
+};
+
+const EMPTY_FORM: RuleForm = {
+  name: '',
+  priority: '0',
+  cfopCodes: '',
+  series: '',
+  modelos: [],
+  natOpContains: '',
+  issuerCnpj: '',
+  recipientCnpj: '',
+  action: 'IGNORE',
+  naturezaOperacaoId: '',
+};
+
+const ACTION_LABELS: Record<IngestionRuleAction, string> = {
+  IGNORE: 'Ignorar nota',
+  FLAG: 'Importar sinalizada',
+  SET_NATUREZA: 'Forçar natureza',
+};
+
+const ACTION_VARIANTS: Record<IngestionRuleAction, 'danger' | 'warning' | 'info'> = {
+  IGNORE: 'danger',
+  FLAG: 'warning',
+  SET_NATUREZA: 'info',
+};
+
+const MODEL_OPTIONS = [
+  { value: '55', label: 'NF-e (55)' },
+  { value: '65', label: 'NFC-e (65)' },
+];
+
+function toForm(rule: IngestionRule): RuleForm {
+  return {
+    name: rule.name,
+    priority: String(rule.priority),
+    cfopCodes: rule.cfopCodes.join(', '),
+    series: rule.series.join(', '),
+    modelos: rule.modelos,
+    natOpContains: rule.natOpContains ?? '',
+    issuerCnpj: rule.issuerCnpj ?? '',
+    recipientCnpj: rule.recipientCnpj ?? '',
+    action: rule.action,
+    naturezaOperacaoId: rule.naturezaOperacao?.id ?? '',
+  };
+}
+
+function describeConditions(rule: IngestionRule) {
+  const parts: string[] = [];
+  if (rule.cfopCodes.length) parts.push(`CFOP ${rule.cfopCodes.join(', ')}`);
+  if (rule.series.length) parts.push(`série ${rule.series.join(', ')}`);
+  if (rule.modelos.length) parts.push(`modelo ${rule.modelos.join(', ')}`);
+  if (rule.natOpContains) parts.push(`natOp contém “${rule.natOpContains}”`);
+  if (rule.issuerCnpj) parts.push(`emitente ${rule.issuerCnpj}`);
+  if (rule.recipientCnpj) parts.push(`destinatário ${rule.recipientCnpj}`);
+  return parts.join(' · ');
+}
+
+const inputClassName = 'h-9 rounded-md border border-[var(--color-border-subtle)] px-2 text-sm';
+
+export default function IngestionRulesPage() {
+  const { selectedCompanyId, selectedCompany } = useCompanyContext();
+  const [items, setItems] = useState<IngestionRule[]>([]);
+  const [naturezas, setNaturezas] = useState<NaturezaOption[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const loadRules = useCallback(async () => {
+    if (!selectedCompanyId) {
+      setItems([]);
+      setNaturezas([]);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetchJson<{ items: IngestionRule[]; naturezas: NaturezaOption[] }>(
+        `/companies/${selectedCompanyId}/ingestion-rules`,
+      );
+      setItems(res.items || []);
+      setNaturezas(res.naturezas || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Falha ao carregar regras de ingestão.');
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedCompanyId]);
+
+  useEffect(() => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+    void loadRules();
+  }, [loadRules]);
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+  };
+
+  const toggleModelo = (value: string) => {
+    setForm((prev) => ({
+      ...prev,
+      modelos: prev.modelos.includes(value) ? prev.modelos.filter((item) => item !== value) : [...prev.modelos, value],
+    }));
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!selectedCompanyId) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const payload = {
+        ...form,
+        naturezaOperacaoId: form.action === 'SET_NATUREZA' ? form.naturezaOperacaoId : null,
+      };
+      await fetchJson(
+        editingId
+          ? `/companies/${selectedCompanyId}/ingestion-rules/${editingId}`
+          : `/companies/${selectedCompanyId}/ingestion-rules`,
+        {
+          method: editingId ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(payload),
+        },
+      );
+      resetForm();
+      await loadRules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Falha ao salvar regra.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (rule: IngestionRule) => {
+    if (!selectedCompanyId) return;
+    setError(null);
+    try {
+      await fetchJson(`/companies/${selectedCompanyId}/ingestion-rules/${rule.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isActive: !rule.isActive }),
+      });
+      await loadRules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Falha ao atualizar regra.');
+    }
+  };
+
+  const handleDelete = async (rule: IngestionRule) => {
+    if (!selectedCompanyId) return;
+    if (!window.confirm(`Excluir a regra “${rule.name}”?`)) return;
+    setError(null);
+    try {
+      await fetchJson(`/companies/${selectedCompanyId}/ingestion-rules/${rule.id}`, { method: 'DELETE' });
+      if (editingId === rule.id) {
+        resetForm();
+      }
+      await loadRules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Falha ao excluir regra.');
+    }
+  };
+
+  return (
+    <div className="space-y-6 px-4 md:px-6">
+      <header className="space-y-1">
+        <p className="text-xs font-semibold uppercase tracking-[0.24em] text-[var(--color-text-secondary)]">Configurações</p>
+        <h1 className="text-2xl font-semibold text-[var(--color-text-primary)]">Regras de ingestão</h1>
+        <p className="text-sm text-[var(--color-text-secondary)]">
+          Defina quais NF-e/NFC-e {selectedCompany ? `de ${selectedCompany.name} ` : ''}devem ser ignoradas, importadas
+          sinalizadas ou reclassificadas em outra natureza durante a importação de XML.
+        </p>
+        <Link href="/app/menus/configuracoes" className="text-xs font-semibold text-[var(--color-brand-secondary)] underline-offset-4 hover:underline">
+          Voltar para configurações
+        </Link>
+      </header>
+
+      {!selectedCompanyId ? (
+        <div className="rounded-lg border border-[var(--color-border-subtle)] bg-[var(--color-gray-50)] p-4 text-sm text-[var(--color-text-secondary)]">
+          Selecione uma empresa para gerenciar as regras de ingestão.
+        </div>
+      ) : (
+        <>
+          <section className="rounded-lg border border-[var(--color-border-subtle)] bg-[var(--color-surface-card)] p-4 shadow-sm">
+            <h2 className="text-sm font-semibold text-[var(--color-text-primary)]">{editingId ? 'Editar regra' : 'Nova regra'}</h2>
+            <p className="mt-1 text-xs text-[var(--color-text-secondary)]">
+              Campos em branco não restringem; os preenchidos precisam bater todos. Listas aceitam valores separados por vírgula.
+              Vale a primeira regra ativa, da menor prioridade para a maior.
+            </p>
+            <form className="mt-3 grid gap-3 md:grid-cols-2 lg:grid-cols-4" onSubmit={handleSubmit}>
+              <label className="grid gap-1 text-xs text-[var(--color-text-primary)] lg:col-span-3">
+                <span>Nome</span>
+                <input
+                  required
+                  value={form.name}
+                  onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+                  className={inputClassName}
+                  placeholder="Ex.: Remessas para demonstração"
+                />
+              </label>
+              <label className="grid gap-1 text-xs text-[var(--color-text-primary)]">
+                <span>Prioridade</span>
+                <input
+                  type="number"
+                  value={form.priority}
+                  onChange={(e) => setForm((prev) => ({ ...prev, priority: e.target.value }))}
+                  className={inputClassName}
+                />
+              </label>
+              <label className="grid gap-1 text-xs text-[var(--color-text-primary)]">
+                <span>CFOP (algum item)</span>
+                <input
+                  value={form.cfopCodes}
+                  onChange={(e) => setForm((prev) => ({ ...prev, cfopCodes: e.target.value }))}
+                  className={inputClassName}
+                  placeholder="Ex.: 5949, 6949"
+                />
+              </label>
+              <label className="grid gap-1 text-xs text-[var(--color-text-primary)]">
+                <span>Série</span>
+                <input
+                  value={form.series}
+                  onChange={(e) => setForm((prev) => ({ ...prev, series: e.target.value }))}
+                  className={inputClassName}
+                  placeholder="Ex.: 891"
+                />
+              </label>
+              <label className="grid gap-1 text-xs text-[var(--color-text-primary)] lg:col-span-2">
+                <span>Natureza da operação contém</span>
+                <input
+                  value={form.natOpContains}
+                  onChange={(e) => setForm((prev) => ({ ...prev, natOpContains: e.target.value }))}
+                  className={inputClassName}
+                  placeholder="Ex.: demonstração"
+                />
+              </label>
+              <label className="grid gap-1 text-xs text-[var(--color-text-primary)]">
+                <span>CNPJ do emitente</span>
+                <input
+                  value={form.issuerCnpj}
+                  onChange={(e) => setForm((prev) => ({ ...prev, issuerCnpj: e.target.value }))}
+                  className={inputClassName}
+                />
+              </label>
+              <label className="grid gap-1 text-xs text-[var(--color-text-primary)]">
+                <span>CNPJ do destinatário</span>
+                <input
+                  value={form.recipientCnpj}
+                  onChange={(e) => setForm((prev) => ({ ...prev, recipientCnpj: e.target.value }))}
+                  className={inputClassName}
+                />
+              </label>
+              <fieldset className="grid gap-1 text-xs text-[var(--color-text-primary)]">
+                <span>Modelo</span>
+                <div className="flex h-9 items-center gap-3">
+                  {MODEL_OPTIONS.map((option) => (
+                    <label key={option.value} className="flex items-center gap-1">
+                      <input
+                        type="checkbox"
+                        checked={form.modelos.includes(option.value)}
+                        onChange={() => toggleModelo(option.value)}
+                      />
+                      {option.label}
+                    </label>
+                  ))}
+                </div>
+              </fieldset>
+              <label className="grid gap-1 text-xs text-[var(--color-text-primary)]">
+                <span>Ação</span>
+                <select
+                  value={form.action}
+                  onChange={(e) => setForm((prev) => ({ ...prev, action: e.target.value as IngestionRuleAction }))}
+                  className={inputClassName}
+                >
+                  {Object.entries(ACTION_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {form.action === 'SET_NATUREZA' ? (
+                <label className="grid gap-1 text-xs text-[var(--color-text-primary)] md:col-span-2">
+                  <span>Natureza a aplicar</span>
+                  <select
+                    required
+                    value={form.naturezaOperacaoId}
+                    onChange={(e) => setForm((prev) => ({ ...prev, naturezaOperacaoId: e.target.value }))}
+                    className={inputClassName}
+                  >
+                    <option value="">Selecione…</option>
+                    {naturezas.map((natureza) => (
+                      <option key={natureza.id} value={natureza.id}>
+                        {natureza.cfopCode} - {natureza.descricao} ({natureza.cfopType === 'IN' ? 'entrada' : 'saída'})
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ) : null}
+              <div className="flex gap-2 md:col-span-2 lg:col-span-4">
+                <Button type="submit" disabled={saving}>
+                  {saving ? 'Salvando…' : editingId ? 'Salvar alterações' : 'Criar regra'}
+                </Button>
+                {editingId ? (
+                  <Button type="button" variant="ghost" onClick={resetForm}>
+                    Cancelar edição
+                  </Button>
+                ) : null}
+              </div>
+            </form>
+          </section>
+
+          <section className="rounded-lg border border-[var(--color-border-subtle)] bg-white p-4 shadow-sm">
+            <div className="flex items-center justify-between">
+              <h2 className="text-sm font-semibold text-[var(--color-text-primary)]">Regras cadastradas</h2>
+              {loading ? <span className="text-xs text-[var(--color-text-secondary)]">Carregando…</span> : null}
+            </div>
+            {error ? (
+              <div className="mt-2 rounded-md border border-[var(--color-feedback-danger)]/60 bg-[var(--color-feedback-danger)]/10 px-3 py-2 text-xs text-[var(--color-feedback-danger)]">
+                {error}
+              </div>
+            ) : null}
+            {items.length === 0 ? (
+              <p className="mt-3 text-sm text-[var(--color-text-secondary)]">Nenhuma regra cadastrada; todas as notas são importadas.</p>
+            ) : (
+              <div className="mt-3 overflow-x-auto">
+                <table className="min-w-full divide-y divide-[var(--color-border-subtle)] text-left text-xs">
+                  <thead className="bg-[var(--color-gray-50)] text-[0.7rem] uppercase tracking-[0.18em] text-[var(--color-text-secondary)]">
+                    <tr>
+                      <th className="px-2 py-2">Prioridade</th>
+                      <th className="px-2 py-2">Regra</th>
+                      <th className="px-2 py-2">Condições</th>
+                      <th className="px-2 py-2">Ação</th>
+                      <th className="px-2 py-2 text-right">Opções</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-[var(--color-border-subtle)]">
+                    {items.map((rule) => (
+                      <tr key={rule.id} className={rule.isActive ? 'bg-white' : 'bg-[var(--color-gray-50)] opacity-70'}>
+                        <td className="px-2 py-2 tabular-nums text-[var(--color-text-secondary)]">{rule.priority}</td>
+                        <td className="px-2 py-2 font-medium text-[var(--color-text-primary)]">
+                          {rule.name}
+                          {!rule.isActive ? <span className="ml-2 text-[var(--color-text-secondary)]">(inativa)</span> : null}
+                        </td>
+                        <td className="px-2 py-2 text-[var(--color-text-secondary)]">{describeConditions(rule)}</td>
+                        <td className="px-2 py-2">
+                          <Badge variant={ACTION_VARIANTS[rule.action]}>{ACTION_LABELS[rule.action]}</Badge>
+                          {rule.action === 'SET_NATUREZA' ? (
+                            <div className="mt-1 text-[var(--color-text-secondary)]">
+                              {rule.naturezaOperacao
+                                ? `${rule.naturezaOperacao.cfopCode} - ${rule.naturezaOperacao.descricao}`
+                                : 'natureza removida; regra sem efeito'}
+                            </div>
+                          ) : null}
+                        </td>
+                        <td className="px-2 py-2">
+                          <div className="flex justify-end gap-1">
+                            <Button
+                              type="button"
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => {
+                                setEditingId(rule.id);
+                                setForm(toForm(rule));
+                              }}
+                            >
+                              Editar
+                            </Button>
+                            <Button type="button" size="sm" variant="secondary" onClick={() => handleToggleActive(rule)}>
+                              {rule.isActive ? 'Desativar' : 'Ativar'}
+                            </Button>
+                            <Button type="button" size="sm" variant="danger" onClick={() => handleDelete(rule)}>
+                              Excluir
+                            </Button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </section>
+        </>
+      )}
+    </div>
+  );
+}
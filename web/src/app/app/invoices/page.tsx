@@ -2,7 +2,7 @@
 
 import { FormEvent, Suspense, useEffect, useMemo, useRef, useState } from 'react';
 import { useSearchParams } from 'next/navigation';
-import { fetchJson } from '@/lib/api';
+import { fetchJson, getApiBaseUrl } from '@/lib/api';
 import { formatCurrency, formatDate, formatNumber } from '@/lib/format';
 import { Badge } from '@/ui/badge';
 import { Button } from '@/ui/button';
@@ -12,12 +12,22 @@ import { useCompanyContext } from '../_context/company-context';
 type InvoiceRow = {
   id: string;
   chave: string;
+  modelo: string;
   numero: string | null;
   type: 'IN' | 'OUT';
   emissao: string;
   issuerCnpj: string;
   recipientCnpj: string;
+  recipientName: string | null;
   totalNFe: string | null;
+  freightValue: string | null;
+  freightPerSaca: string | null;
+  cteCount: number;
+  totalsMismatch: boolean;
+  signatureStatus: SignatureStatus | null;
+  integrityIssues: IntegrityIssue[];
+  hasXml: boolean;
+  hasCorrection: boolean;
 };
 
 type InvoiceListResponse = {
@@ -40,9 +50,199 @@ type InvoiceItem = {
   cofinsValue: string | null;
 };
 
-type InvoiceItemsResponse = {
+type InvoiceInstallment = {
+  id: string;
+  numero: string | null;
+  dueDate: string | null;
+  amount: string;
+};
+
+type InvoicePayment = {
+  id: string;
+  indPag: string | null;
+  tPag: string;
+  label: string;
+  amount: string;
+  paidAt: string | null;
+  card: {
+    integration: string | null;
+    acquirerCnpj: string | null;
+    brand: string | null;
+    authorization: string | null;
+  } | null;
+};
+
+type InvoiceFatura = {
+  numero: string | null;
+  valorOriginal: string | null;
+  valorDesconto: string | null;
+  valorLiquido: string | null;
+};
+
+type InvoiceTransport = {
+  freightMode: string | null;
+  carrierTaxId: string | null;
+  carrierName: string | null;
+  carrierUf: string | null;
+  volumeQty: string | null;
+  volumeSpecies: string | null;
+  netWeight: string | null;
+  grossWeight: string | null;
+  freightValue: string | null;
+  ctes: Array<{ id: string; chave: string; numero: string | null; allocated: string }>;
+};
+
+type DocumentChainInvoice = {
+  id: string;
+  chave: string;
+  numero: string | null;
+  emissao: string;
+  type: 'IN' | 'OUT';
+  finalidade: string | null;
+  natOp: string | null;
+  totalNFe: string | null;
+  role: 'ORIGINAL' | 'RETURN' | 'COMPLEMENT' | 'ADJUSTMENT' | 'RELATED';
+};
+
+type DocumentChainResponse = {
+  invoiceId: string;
+  invoices: DocumentChainInvoice[];
+  links: Array<{ fromInvoiceId: string; toInvoiceId: string | null; refChave: string; refKind: string }>;
+  missingReferences: string[];
+};
+
+type InvoiceEvent = {
+  id: string;
+  eventType: string;
+  label: string;
+  eventSequence: number;
+  statusCode: string | null;
+  statusMessage: string | null;
+  protocolNumber: string | null;
+  eventTimestamp: string | null;
+  receivedAt: string | null;
+  authorTaxId: string | null;
+  correctionText: string | null;
+  justification: string | null;
+  hasXml: boolean;
+};
+
+type InvoiceEventsResponse = {
+  invoiceId: string;
+  chave: string;
+  events: InvoiceEvent[];
+};
+
+type SignatureStatus = 'VALID' | 'INVALID' | 'MISSING' | 'UNSUPPORTED';
+
+type IntegrityIssue = {
+  code: string;
+  message: string;
+};
+
+type InvoiceIntegrity = {
+  signatureStatus: SignatureStatus | null;
+  issues: IntegrityIssue[];
+};
+
+const SIGNATURE_STATUS_LABELS: Record<SignatureStatus, string> = {
+  VALID: 'assinatura válida',
+  INVALID: 'assinatura inválida',
+  MISSING: 'sem assinatura',
+  UNSUPPORTED: 'assinatura não verificada (algoritmo não suportado)',
+};
+
+type NumberVoiding = {
+  id: string;
+  issuerCnpj: string;
+  modelo: string;
+  serie: number;
+  startNumber: number;
+  endNumber: number;
+  justification: string | null;
+  statusCode: string | null;
+  statusMessage: string | null;
+  protocolNumber: string | null;
+  receivedAt: string | null;
+  sourceFileName: string | null;
+};
+
+type NumberVoidingsResponse = {
+  items: NumberVoiding[];
+  nextCursor: string | null;
+};
+
+const NUMBER_VOIDINGS_LIMIT = 50;
+
+type InvoiceCorrection = {
+  sequence: number;
+  eventTimestamp: string | null;
+  protocolNumber: string | null;
+  text: string | null;
+};
+
+const CHAIN_ROLE_LABELS: Record<DocumentChainInvoice['role'], string> = {
+  ORIGINAL: 'Original',
+  RETURN: 'Devolução',
+  COMPLEMENT: 'Complementar',
+  ADJUSTMENT: 'Ajuste',
+  RELATED: 'Referenciada',
+};
+
+const FREIGHT_MODE_LABELS: Record<string, string> = {
+  '0': 'Emitente (CIF)',
+  '1': 'Destinatário (FOB)',
+  '2': 'Terceiros',
+  '3': 'Próprio remetente',
+  '4': 'Próprio destinatário',
+  '9': 'Sem frete',
+};
+
+type InvoiceFinancials = {
+  fatura: InvoiceFatura | null;
+  installments: InvoiceInstallment[];
+  payments: InvoicePayment[];
+  changeValue: string | null;
+};
+
+type TotalsMismatch = { field: string; header: number; items: number; diff: number };
+
+type InvoiceTotals = {
+  vNF: string | null;
+  vProd: string | null;
+  vDesc: string | null;
+  vFrete: string | null;
+  vSeg: string | null;
+  vOutro: string | null;
+  vIPI: string | null;
+  vST: string | null;
+  vFCP: string | null;
+  vPIS: string | null;
+  vCOFINS: string | null;
+  mismatch: boolean;
+  mismatches: TotalsMismatch[];
+};
+
+const TOTALS_LABELS: Array<[Exclude<keyof InvoiceTotals, 'mismatch' | 'mismatches'>, string]> = [
+  ['vProd', 'Produtos'],
+  ['vDesc', 'Desconto'],
+  ['vFrete', 'Frete'],
+  ['vSeg', 'Seguro'],
+  ['vOutro', 'Outras'],
+  ['vIPI', 'IPI'],
+  ['vST', 'ICMS-ST'],
+  ['vFCP', 'FCP'],
+  ['vPIS', 'PIS'],
+  ['vCOFINS', 'COFINS'],
+];
+
+type InvoiceItemsResponse = InvoiceFinancials & {
   invoiceId: string;
   items: InvoiceItem[];
+  totals: InvoiceTotals | null;
+  transport: InvoiceTransport | null;
+  correction: InvoiceCorrection | null;
+  integrity?: InvoiceIntegrity;
 };
 
 type CfopReprocessSample = {
@@ -76,6 +276,7 @@ type Filters = {
   from: string;
   to: string;
   type: 'ALL' | 'IN' | 'OUT';
+  modelo: 'ALL' | '55' | '65';
   search: string;
 };
 
@@ -103,9 +304,18 @@ function InvoicesPageContent({ initialCompanyId, fallbackCompanyId, forceReproce
 
   const [selectedInvoice, setSelectedInvoice] = useState<InvoiceRow | null>(null);
   const [itemRows, setItemRows] = useState<InvoiceItem[]>([]);
+  const [financials, setFinancials] = useState<InvoiceFinancials | null>(null);
+  const [transport, setTransport] = useState<InvoiceTransport | null>(null);
+  const [invoiceTotals, setInvoiceTotals] = useState<InvoiceTotals | null>(null);
+  const [documentChain, setDocumentChain] = useState<DocumentChainResponse | null>(null);
+  const [invoiceEvents, setInvoiceEvents] = useState<InvoiceEvent[]>([]);
+  const [correction, setCorrection] = useState<InvoiceCorrection | null>(null);
+  const [integrity, setIntegrity] = useState<InvoiceIntegrity | null>(null);
   const [itemsError, setItemsError] = useState<string | null>(null);
   const [isItemsLoading, setItemsLoading] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [isDownloadingXml, setIsDownloadingXml] = useState(false);
+  const [isDownloadingDanfe, setIsDownloadingDanfe] = useState(false);
 
   const [isReprocessModalOpen, setReprocessModalOpen] = useState(false);
   const [reprocessMode, setReprocessMode] = useState<'dry-run' | 'commit'>('dry-run');
@@ -268,12 +478,39 @@ const executeSearch = async (event?: FormEvent) => {
     setItemsError(null);
     setItemsLoading(true);
     setItemRows([]);
+    setFinancials(null);
+    setTransport(null);
+    setInvoiceTotals(null);
+    setDocumentChain(null);
+    setInvoiceEvents([]);
+    setCorrection(null);
+    setIntegrity(null);
 
     try {
-      const payload = await fetchJson<InvoiceItemsResponse>(
-        `/invoices/${invoice.id}/items?companyId=${encodeURIComponent(activeCompanyId)}`
-      );
+      const [payload, chain, eventsPayload] = await Promise.all([
+        fetchJson<InvoiceItemsResponse>(
+          `/invoices/${invoice.id}/items?companyId=${encodeURIComponent(activeCompanyId)}`
+        ),
+        fetchJson<DocumentChainResponse>(
+          `/invoices/${invoice.id}/chain?companyId=${encodeURIComponent(activeCompanyId)}`
+        ),
+        fetchJson<InvoiceEventsResponse>(
+          `/invoices/${invoice.id}/events?companyId=${encodeURIComponent(activeCompanyId)}`
+        ),
+      ]);
+      setDocumentChain(chain);
+      setInvoiceEvents(eventsPayload.events ?? []);
+      setCorrection(payload.correction ?? null);
+      setIntegrity(payload.integrity ?? null);
       setItemRows(payload.items);
+      setTransport(payload.transport ?? null);
+      setInvoiceTotals(payload.totals ?? null);
+      setFinancials({
+        fatura: payload.fatura ?? null,
+        installments: payload.installments ?? [],
+        payments: payload.payments ?? [],
+        changeValue: payload.changeValue ?? null,
+      });
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Erro ao carregar itens da nota.';
       setItemsError(message);
@@ -309,9 +546,56 @@ const executeSearch = async (event?: FormEvent) => {
     }
   };
 
+  const handleDownloadXml = async (path: string, filename: string) => {
+    setIsDownloadingXml(true);
+    try {
+      await downloadFromApi(path, filename);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Falha ao baixar XML.';
+      showToast('error', message);
+    } finally {
+      setIsDownloadingXml(false);
+    }
+  };
+
+  const handleDownloadPeriodXmls = () => {
+    const companyId = filters.companyId.trim() || activeCompanyId;
+    if (!companyId) return;
+    const params = new URLSearchParams({ companyId });
+    if (filters.from) params.set('from', filters.from);
+    if (filters.to) params.set('to', filters.to);
+    void handleDownloadXml(`/invoices/xml-export.zip?${params.toString()}`, `xmls-${filters.from || 'inicio'}-${filters.to || 'hoje'}.zip`);
+  };
+
+  const handleDownloadDanfe = async (path: string, filename: string) => {
+    setIsDownloadingDanfe(true);
+    try {
+      await downloadFromApi(path, filename);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Falha ao gerar DANFE.';
+      showToast('error', message);
+    } finally {
+      setIsDownloadingDanfe(false);
+    }
+  };
+
+  const handleDownloadListDanfes = () => {
+    const companyId = filters.companyId.trim() || activeCompanyId;
+    if (!companyId) return;
+    const params = buildFilterParams(filters, companyId);
+    void handleDownloadDanfe(`/invoices/danfe.pdf?${params.toString()}`, `danfes-${filters.from || 'inicio'}-${filters.to || 'hoje'}.pdf`);
+  };
+
   const closeDrawer = () => {
     setSelectedInvoice(null);
     setItemRows([]);
+    setFinancials(null);
+    setTransport(null);
+    setInvoiceTotals(null);
+    setDocumentChain(null);
+    setInvoiceEvents([]);
+    setCorrection(null);
+    setIntegrity(null);
     setItemsError(null);
     setItemsLoading(false);
   };
@@ -521,6 +805,23 @@ const executeSearch = async (event?: FormEvent) => {
                   </button>
                 ))}
               </div>
+              <span className="text-sm font-medium text-slate-700">Modelo</span>
+              <div className="flex flex-wrap gap-2">
+                {(['ALL', '55', '65'] as Filters['modelo'][]).map((m) => (
+                  <button
+                    key={m}
+                    type="button"
+                    onClick={() => handleFilterChange('modelo', m)}
+                    className={`rounded-full border px-3 py-2 text-xs font-semibold ${
+                      filters.modelo === m
+                        ? 'border-slate-800 bg-white text-slate-900'
+                        : 'border-slate-300 bg-white text-slate-600 hover:border-slate-500'
+                    }`}
+                  >
+                    {m === 'ALL' ? 'Todos' : m === '55' ? 'NF-e' : 'NFC-e'}
+                  </button>
+                ))}
+              </div>
             </div>
 
             <label className="grid gap-1 text-sm text-slate-700">
@@ -591,6 +892,23 @@ const executeSearch = async (event?: FormEvent) => {
             >
               Limpar filtros
             </Button>
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={handleDownloadPeriodXmls}
+              disabled={isDownloadingXml || !(filters.companyId.trim() || activeCompanyId)}
+            >
+              {isDownloadingXml ? 'Gerando zip…' : 'Baixar XMLs do período'}
+            </Button>
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={handleDownloadListDanfes}
+              disabled={isDownloadingDanfe || !(filters.companyId.trim() || activeCompanyId)}
+              title="Gera um PDF com o DANFE de cada NF-e da listagem filtrada"
+            >
+              {isDownloadingDanfe ? 'Gerando PDF…' : 'DANFEs da listagem'}
+            </Button>
           </div>
         </form>
         {shouldRenderFallbackTools && (
@@ -839,6 +1157,7 @@ const executeSearch = async (event?: FormEvent) => {
                   <th scope="col">Emitente</th>
                   <th scope="col">Destinatário</th>
                   <th scope="col" className="table-align-right">Total NF-e</th>
+                  <th scope="col" className="table-align-right">Frete (CT-e)</th>
                 </tr>
               </thead>
               <tbody>
@@ -856,13 +1175,52 @@ const executeSearch = async (event?: FormEvent) => {
                       <Badge variant={invoice.type === 'IN' ? 'info' : 'neutral'} uppercase>
                         {invoice.type === 'IN' ? 'Entrada' : 'Saída'}
                       </Badge>
+                      {invoice.modelo === '65' ? (
+                        <Badge variant="warning" uppercase className="ml-1">
+                          NFC-e
+                        </Badge>
+                      ) : null}
+                      {invoice.totalsMismatch ? (
+                        <Badge variant="warning" className="ml-1">
+                          Totais divergentes
+                        </Badge>
+                      ) : null}
+                      {invoice.hasCorrection ? (
+                        <Badge variant="warning" uppercase className="ml-1">
+                          CC-e
+                        </Badge>
+                      ) : null}
+                      {invoice.integrityIssues.length ? (
+                        <Badge
+                          variant="danger"
+                          className="ml-1"
+                          title={invoice.integrityIssues.map((issue) => issue.message).join('\n')}
+                        >
+                          XML com divergências
+                        </Badge>
+                      ) : null}
                     </td>
                     <td className="text-xs text-[var(--color-text-secondary)]">{formatDate(invoice.emissao)}</td>
                     <td className="text-xs text-[var(--color-text-secondary)] break-all">{invoice.issuerCnpj}</td>
-                    <td className="text-xs text-[var(--color-text-secondary)] break-all">{invoice.recipientCnpj}</td>
+                    <td className="text-xs text-[var(--color-text-secondary)] break-all">
+                      {invoice.recipientCnpj}
+                      {invoice.recipientName ? <div className="text-[0.7rem]">{invoice.recipientName}</div> : null}
+                    </td>
                     <td className="table-align-right text-sm font-semibold text-[var(--color-brand-primary)]">
                       {formatCurrency(invoice.totalNFe)}
                     </td>
+                    <td className="table-align-right text-xs text-[var(--color-text-secondary)]">
+                      {invoice.freightValue ? (
+                        <>
+                          <div className="font-semibold text-[var(--color-text-primary)]">{formatCurrency(invoice.freightValue)}</div>
+                          {invoice.freightPerSaca ? (
+                            <div className="text-[0.7rem]">{formatCurrency(invoice.freightPerSaca)}/SC</div>
+                          ) : null}
+                        </>
+                      ) : (
+                        '--'
+                      )}
+                    </td>
                   </tr>
                 ))}
               </tbody>
@@ -870,6 +1228,7 @@ const executeSearch = async (event?: FormEvent) => {
                 <tr>
                   <td colSpan={5}>Total desta página</td>
                   <td className="table-align-right">{formatCurrency(pageTotalValue)}</td>
+                  <td />
                 </tr>
               </tfoot>
             </table>
@@ -895,6 +1254,8 @@ const executeSearch = async (event?: FormEvent) => {
         </div>
       )}
 
+      {activeCompanyId ? <NumberVoidingsSection companyId={activeCompanyId} /> : null}
+
       {isDrawerOpen && selectedInvoice && (
         <div className="fixed inset-0 z-50 flex justify-end bg-black/40">
           <div className="h-full w-full max-w-2xl overflow-y-auto bg-white shadow-xl">
@@ -918,10 +1279,127 @@ const executeSearch = async (event?: FormEvent) => {
             <div className="flex h-[calc(100%-64px)] flex-col overflow-hidden">
               <section className="grid gap-2 border-b border-slate-200 px-6 py-4 text-xs text-slate-600">
                 <div><span className="font-semibold text-slate-700">Tipo:</span> {selectedInvoice.type}</div>
+                <div><span className="font-semibold text-slate-700">Modelo:</span> {selectedInvoice.modelo === '65' ? 'NFC-e (65)' : 'NF-e (55)'}</div>
                 <div><span className="font-semibold text-slate-700">Emitente:</span> {selectedInvoice.issuerCnpj}</div>
                 <div><span className="font-semibold text-slate-700">Destinatario:</span> {selectedInvoice.recipientCnpj}</div>
                 <div><span className="font-semibold text-slate-700">Total:</span> {formatCurrency(selectedInvoice.totalNFe)}</div>
+                {invoiceTotals ? (
+                  <div>
+                    <span className="font-semibold text-slate-700">Totais (ICMSTot):</span>{' '}
+                    {TOTALS_LABELS.filter(([key]) => Number(invoiceTotals[key] ?? 0) !== 0)
+                      .map(([key, label]) => `${label} ${formatCurrency(invoiceTotals[key])}`)
+                      .join(' · ') || '--'}
+                  </div>
+                ) : null}
+                {invoiceTotals?.mismatches.length ? (
+                  <div className="grid gap-1 text-[var(--color-feedback-warning)]">
+                    <span className="font-semibold">Totais divergentes da soma dos itens:</span>
+                    {invoiceTotals.mismatches.map((mismatch) => (
+                      <div key={mismatch.field}>
+                        {mismatch.field}: cabeçalho {formatCurrency(mismatch.header)} · itens {formatCurrency(mismatch.items)} · diferença{' '}
+                        {formatCurrency(mismatch.diff)}
+                      </div>
+                    ))}
+                  </div>
+                ) : null}
+                {transport ? (
+                  <>
+                    <div>
+                      <span className="font-semibold text-slate-700">Frete:</span>{' '}
+                      {transport.freightMode ? FREIGHT_MODE_LABELS[transport.freightMode] ?? transport.freightMode : '--'}
+                      {transport.carrierName ? ` · ${transport.carrierName}` : ''}
+                      {transport.carrierUf ? ` (${transport.carrierUf})` : ''}
+                    </div>
+                    <div>
+                      <span className="font-semibold text-slate-700">Volumes:</span>{' '}
+                      {transport.volumeQty ? formatNumber(transport.volumeQty) : '--'}
+                      {transport.volumeSpecies ? ` ${transport.volumeSpecies}` : ''}
+                      {' · '}Peso líq. {transport.netWeight ? `${formatNumber(transport.netWeight)} kg` : '--'}
+                      {' · '}Peso bruto {transport.grossWeight ? `${formatNumber(transport.grossWeight)} kg` : '--'}
+                    </div>
+                    {transport.ctes.length > 0 ? (
+                      <div>
+                        <span className="font-semibold text-slate-700">Frete pago (CT-e):</span>{' '}
+                        {formatCurrency(transport.freightValue)}{' '}
+                        <span className="text-slate-500">
+                          ({transport.ctes.map((cte) => `CT ${cte.numero ?? cte.chave.slice(-9)}: ${formatCurrency(cte.allocated)}`).join(' · ')})
+                        </span>
+                      </div>
+                    ) : null}
+                  </>
+                ) : null}
+                {documentChain && (documentChain.invoices.length > 1 || documentChain.missingReferences.length > 0) ? (
+                  <div className="grid gap-1 pt-1">
+                    <span className="font-semibold text-slate-700">Cadeia de documentos:</span>
+                    {documentChain.invoices.map((doc) => (
+                      <div key={doc.id} className={doc.id === selectedInvoice.id ? 'font-semibold text-slate-800' : ''}>
+                        <Badge variant={doc.role === 'RETURN' ? 'warning' : doc.role === 'ORIGINAL' ? 'info' : 'neutral'}>
+                          {CHAIN_ROLE_LABELS[doc.role]}
+                        </Badge>{' '}
+                        {formatDate(doc.emissao)} · NF {doc.numero || doc.chave.slice(-9)} · {doc.type === 'IN' ? 'Entrada' : 'Saída'} ·{' '}
+                        {formatCurrency(doc.totalNFe)}
+                      </div>
+                    ))}
+                    {documentChain.missingReferences.map((chave) => (
+                      <div key={chave} className="text-slate-500">
+                        Referência não importada: <span className="font-mono">{chave}</span>
+                      </div>
+                    ))}
+                  </div>
+                ) : null}
+                <div className="grid gap-1 pt-1">
+                  <span className="font-semibold text-slate-700">Linha do tempo de eventos:</span>
+                  <div>
+                    <Badge variant="info">Emissão</Badge> {formatDate(selectedInvoice.emissao)}
+                  </div>
+                  {invoiceEvents.map((event) => (
+                    <div key={event.id}>
+                      <Badge variant={event.eventType === '110111' || event.eventType === '110115' ? 'danger' : event.eventType === '110110' ? 'warning' : 'neutral'}>
+                        {event.label}
+                        {event.eventType === '110110' ? ` #${event.eventSequence}` : ''}
+                      </Badge>{' '}
+                      {formatDateTime(event.eventTimestamp)}
+                      {event.protocolNumber ? ` · Protocolo ${event.protocolNumber}` : ''}
+                      {event.correctionText ? (
+                        <div className="whitespace-pre-wrap text-slate-500">{event.correctionText}</div>
+                      ) : null}
+                      {event.justification ? (
+                        <div className="text-slate-500">Justificativa: {event.justification}</div>
+                      ) : null}
+                    </div>
+                  ))}
+                </div>
                 <div className="flex flex-wrap gap-2 pt-2">
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() =>
+                      activeCompanyId &&
+                      void handleDownloadXml(
+                        `/invoices/${selectedInvoice.id}/xml?companyId=${encodeURIComponent(activeCompanyId)}`,
+                        `${selectedInvoice.chave}.xml`,
+                      )
+                    }
+                    disabled={!selectedInvoice.hasXml || isDownloadingXml}
+                    title={selectedInvoice.hasXml ? undefined : 'XML original não armazenado (importação anterior)'}
+                  >
+                    Baixar XML
+                  </Button>
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() =>
+                      activeCompanyId &&
+                      void handleDownloadDanfe(
+                        `/invoices/${selectedInvoice.id}/danfe.pdf?companyId=${encodeURIComponent(activeCompanyId)}`,
+                        `danfe-${selectedInvoice.chave}.pdf`,
+                      )
+                    }
+                    disabled={selectedInvoice.modelo === '65' || isDownloadingDanfe}
+                    title={selectedInvoice.modelo === '65' ? 'DANFE disponível apenas para NF-e (modelo 55)' : undefined}
+                  >
+                    {isDownloadingDanfe ? 'Gerando DANFE…' : 'Imprimir DANFE'}
+                  </Button>
                   <Button
                     variant="secondary"
                     size="sm"
@@ -948,6 +1426,35 @@ const executeSearch = async (event?: FormEvent) => {
                 {!isItemsLoading && !itemsError && itemRows.length === 0 && (
                   <p className="text-xs text-slate-500">Nenhum item para esta nota.</p>
                 )}
+                {integrity?.issues.length ? (
+                  <div
+                    role="alert"
+                    className="mb-3 rounded-md border border-red-200 bg-red-50 px-4 py-3 text-xs text-red-700"
+                  >
+                    <p className="font-semibold">
+                      XML com divergências
+                      {integrity.signatureStatus ? ` (${SIGNATURE_STATUS_LABELS[integrity.signatureStatus]})` : ''} — confira
+                      o documento com o emitente ou na SEFAZ antes de usá-lo:
+                    </p>
+                    <ul className="mt-1 list-disc pl-4">
+                      {integrity.issues.map((issue, index) => (
+                        <li key={`${issue.code}-${index}`}>{issue.message}</li>
+                      ))}
+                    </ul>
+                  </div>
+                ) : null}
+                {correction?.text ? (
+                  <div
+                    role="status"
+                    className="mb-3 rounded-md border border-amber-200 bg-amber-50 px-4 py-3 text-xs text-amber-800"
+                  >
+                    <p className="font-semibold">
+                      Carta de correção #{correction.sequence} ({formatDateTime(correction.eventTimestamp)}) — confira CFOP e
+                      quantidades antes de usar os itens abaixo:
+                    </p>
+                    <p className="mt-1 whitespace-pre-wrap">{correction.text}</p>
+                  </div>
+                ) : null}
                 {!isItemsLoading && itemRows.length > 0 && (
                   <div className="overflow-x-auto">
                     <table className="min-w-full divide-y divide-slate-200 text-left text-xs">
@@ -984,6 +1491,73 @@ const executeSearch = async (event?: FormEvent) => {
                     </table>
                   </div>
                 )}
+                {!isItemsLoading && financials && (financials.installments.length > 0 || financials.payments.length > 0) && (
+                  <div className="mt-6 grid gap-4">
+                    {financials.installments.length > 0 && (
+                      <div className="space-y-2">
+                        <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                          Duplicatas{financials.fatura?.numero ? ` · Fatura ${financials.fatura.numero}` : ''}
+                        </p>
+                        <table className="min-w-full divide-y divide-slate-200 text-left text-xs">
+                          <thead className="bg-slate-100 text-[0.7rem] uppercase tracking-wide text-slate-500">
+                            <tr>
+                              <th className="px-3 py-2 font-medium">Parcela</th>
+                              <th className="px-3 py-2 font-medium">Vencimento</th>
+                              <th className="px-3 py-2 text-right font-medium">Valor</th>
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y divide-slate-200">
+                            {financials.installments.map((installment) => (
+                              <tr key={installment.id} className="bg-white">
+                                <td className="px-3 py-2 font-mono text-[0.7rem] text-slate-700">{installment.numero || '--'}</td>
+                                <td className="px-3 py-2 text-[0.7rem] text-slate-600">
+                                  {installment.dueDate ? formatDate(installment.dueDate) : '--'}
+                                </td>
+                                <td className="px-3 py-2 text-right text-[0.7rem] text-slate-600">{formatCurrency(installment.amount)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+                    {financials.payments.length > 0 && (
+                      <div className="space-y-2">
+                        <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Pagamentos</p>
+                        <table className="min-w-full divide-y divide-slate-200 text-left text-xs">
+                          <thead className="bg-slate-100 text-[0.7rem] uppercase tracking-wide text-slate-500">
+                            <tr>
+                              <th className="px-3 py-2 font-medium">Meio</th>
+                              <th className="px-3 py-2 font-medium">Condição</th>
+                              <th className="px-3 py-2 font-medium">Cartão</th>
+                              <th className="px-3 py-2 text-right font-medium">Valor</th>
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y divide-slate-200">
+                            {financials.payments.map((payment) => (
+                              <tr key={payment.id} className="bg-white">
+                                <td className="px-3 py-2 text-[0.7rem] text-slate-700">{payment.label}</td>
+                                <td className="px-3 py-2 text-[0.7rem] text-slate-600">
+                                  {payment.indPag === '1' ? 'A prazo' : payment.indPag === '0' ? 'À vista' : '--'}
+                                </td>
+                                <td className="px-3 py-2 text-[0.7rem] text-slate-600">
+                                  {payment.card
+                                    ? [payment.card.brand ? `Bandeira ${payment.card.brand}` : null, payment.card.authorization ? `Aut. ${payment.card.authorization}` : null]
+                                        .filter(Boolean)
+                                        .join(' · ') || '--'
+                                    : '--'}
+                                </td>
+                                <td className="px-3 py-2 text-right text-[0.7rem] text-slate-600">{formatCurrency(payment.amount)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                        {financials.changeValue && Number(financials.changeValue) > 0 ? (
+                          <p className="text-[0.7rem] text-slate-500">Troco: {formatCurrency(financials.changeValue)}</p>
+                        ) : null}
+                      </div>
+                    )}
+                  </div>
+                )}
               </div>
             </div>
           </div>
@@ -1031,6 +1605,99 @@ export default function InvoicesPage() {
   );
 }
 
+// Inutilizações importadas da empresa, para conferir se cada faixa foi homologada
+function NumberVoidingsSection({ companyId }: { companyId: string }) {
+  const [voidings, setVoidings] = useState<NumberVoidingsResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setVoidings(null);
+    setError(null);
+    fetchJson<NumberVoidingsResponse>(
+      `/invoices/number-voidings?companyId=${encodeURIComponent(companyId)}&limit=${NUMBER_VOIDINGS_LIMIT}`,
+    )
+      .then((payload) => {
+        if (!cancelled) setVoidings(payload);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Erro ao carregar inutilizações.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [companyId]);
+
+  if (error) {
+    return (
+      <div role="alert" className="rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+        {error}
+      </div>
+    );
+  }
+  if (!voidings?.items.length) {
+    return null;
+  }
+
+  return (
+    <section className="space-y-3">
+      <div>
+        <h2 className="text-base font-semibold text-slate-900">Numeração inutilizada</h2>
+        <p className="text-xs text-slate-500">
+          Faixas inutilizadas junto à SEFAZ (procInutNFe importados).
+          {voidings.nextCursor ? ` Exibindo as ${NUMBER_VOIDINGS_LIMIT} mais recentes.` : ''}
+        </p>
+      </div>
+      <div className="table-container">
+        <table>
+          <thead>
+            <tr>
+              <th scope="col">Modelo / Série</th>
+              <th scope="col">Números</th>
+              <th scope="col">Emitente</th>
+              <th scope="col">Protocolo</th>
+              <th scope="col">Homologação</th>
+              <th scope="col">Justificativa</th>
+            </tr>
+          </thead>
+          <tbody>
+            {voidings.items.map((voiding) => (
+              <tr key={voiding.id}>
+                <td className="text-xs text-[var(--color-text-secondary)]">
+                  {voiding.modelo === '65' ? 'NFC-e' : 'NF-e'} · Série {voiding.serie}
+                </td>
+                <td className="font-mono text-xs text-[var(--color-text-primary)]">
+                  {voiding.startNumber === voiding.endNumber
+                    ? voiding.startNumber
+                    : `${voiding.startNumber} a ${voiding.endNumber}`}
+                </td>
+                <td className="text-xs text-[var(--color-text-secondary)] break-all">{voiding.issuerCnpj}</td>
+                <td className="font-mono text-xs text-[var(--color-text-secondary)]">
+                  {voiding.protocolNumber ?? '--'}
+                  {voiding.statusCode ? (
+                    <div className="text-[0.7rem]" title={voiding.statusMessage ?? undefined}>
+                      cStat {voiding.statusCode}
+                    </div>
+                  ) : null}
+                </td>
+                <td className="text-xs text-[var(--color-text-secondary)]">
+                  {voiding.receivedAt ? formatDate(voiding.receivedAt) : '--'}
+                </td>
+                <td className="text-xs text-[var(--color-text-secondary)]">
+                  {voiding.justification ?? '--'}
+                  {voiding.sourceFileName ? (
+                    <div className="text-[0.7rem] break-all">{voiding.sourceFileName}</div>
+                  ) : null}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
+
 function ToastStack({ toasts, onDismiss }: { toasts: ToastMessage[]; onDismiss: (id: string) => void }) {
   if (!toasts.length) {
     return null;
@@ -1050,20 +1717,25 @@ function ToastStack({ toasts, onDismiss }: { toasts: ToastMessage[]; onDismiss:
   );
 }
 
-async function loadInvoices(cursor: string | null, filters: Filters, fallbackCompanyId?: string | null) {
-  const params = new URLSearchParams({
-    limit: String(PAGE_SIZE),
-  });
-
-  const companyId = filters.companyId.trim() || fallbackCompanyId || '';
-  if (!companyId) {
-    throw new Error('companyId nao informado.');
+async function downloadFromApi(path: string, filename: string) {
+  const response = await fetch(`${getApiBaseUrl()}${path}`);
+  if (!response.ok) {
+    const payload = await response.json().catch(() => null);
+    throw new Error(payload?.error || 'Falha ao baixar arquivo.');
   }
-  params.set('companyId', companyId);
+  const blob = await response.blob();
+  const downloadUrl = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = downloadUrl;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(downloadUrl);
+}
 
-  if (cursor) {
-    params.set('cursor', cursor);
-  }
+function buildFilterParams(filters: Filters, companyId: string) {
+  const params = new URLSearchParams({ companyId });
 
   if (filters.from) {
     params.set('from', filters.from);
@@ -1077,10 +1749,30 @@ async function loadInvoices(cursor: string | null, filters: Filters, fallbackCom
     params.set('type', filters.type);
   }
 
+  if (filters.modelo !== 'ALL') {
+    params.set('modelo', filters.modelo);
+  }
+
   if (filters.search.trim()) {
     params.set('search', filters.search.trim());
   }
 
+  return params;
+}
+
+async function loadInvoices(cursor: string | null, filters: Filters, fallbackCompanyId?: string | null) {
+  const companyId = filters.companyId.trim() || fallbackCompanyId || '';
+  if (!companyId) {
+    throw new Error('companyId nao informado.');
+  }
+
+  const params = buildFilterParams(filters, companyId);
+  params.set('limit', String(PAGE_SIZE));
+
+  if (cursor) {
+    params.set('cursor', cursor);
+  }
+
   const search = params.toString();
   const data = await fetchJson<InvoiceListResponse>(`/invoices?${search}`);
   return { data, companyId };
@@ -1092,6 +1784,7 @@ function getDefaultFilters(): Filters {
     from: '',
     to: '',
     type: 'ALL',
+    modelo: 'ALL',
     search: '',
   };
 }
@@ -0,0 +1,314 @@
+'use client';
+
+import { FormEvent, useCallback, useEffect, useMemo, useState } from 'react';
+import { fetchJson, getApiBaseUrl } from '@/lib/api';
+import { formatCurrency, formatDate, formatNumber } from '@/lib/format';
+import { useCompanyContext } from '../_context/company-context';
+import { Badge } from '@/ui/badge';
+import { Button } from '@/ui/button';
+
+type MdfeDocument = {
+  chave: string;
+  documentType: 'NFE' | 'CTE';
+  unloadCity: string | null;
+  invoiceId: string | null;
+  invoiceNumero: string | null;
+  cteId: string | null;
+  cteNumero: string | null;
+  cteValue: string | null;
+};
+
+type Mdfe = {
+  id: string;
+  chave: string;
+  numero: string | null;
+  serie: string | null;
+  emissao: string;
+  tripStartAt: string | null;
+  ufIni: string | null;
+  ufFim: string | null;
+  ufPercurso: string[];
+  loadingCities: string[];
+  vehiclePlate: string | null;
+  trailerPlates: string[];
+  driverName: string | null;
+  driverCpf: string | null;
+  cargoValue: string | null;
+  cargoWeight: string | null;
+  cargoUnit: string | null;
+  isCancelled: boolean;
+  hasXml: boolean;
+  documents: MdfeDocument[];
+};
+
+type MdfeResponse = {
+  items: Mdfe[];
+  nextCursor?: string | null;
+};
+
+// cUnid do MDF-e: 01 = KG, 02 = TON
+const CARGO_UNIT_LABELS: Record<string, string> = { '01': 'kg', '02': 't' };
+
+function formatRoute(mdfe: Mdfe) {
+  return [mdfe.ufIni, ...mdfe.ufPercurso, mdfe.ufFim].filter(Boolean).join(' → ') || '—';
+}
+
+function describeDocument(doc: MdfeDocument) {
+  if (doc.documentType === 'CTE') {
+    return doc.cteNumero ? `CT ${doc.cteNumero}` : `CT-e …${doc.chave.slice(-9)}`;
+  }
+  return doc.invoiceNumero ? `NF ${doc.invoiceNumero}` : `NF-e …${doc.chave.slice(-9)}`;
+}
+
+export default function MdfePage() {
+  const { selectedCompany, selectedCompanyId } = useCompanyContext();
+  const [mdfes, setMdfes] = useState<Mdfe[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [filters, setFilters] = useState<{ search: string; from: string; to: string }>({
+    search: '',
+    from: '',
+    to: '',
+  });
+
+  const loadMdfes = useCallback(
+    async (opts?: { append?: boolean; cursor?: string | null }) => {
+      if (!selectedCompanyId) return;
+      setLoading(true);
+      setError(null);
+      try {
+        const params = new URLSearchParams();
+        params.set('companyId', selectedCompanyId);
+        if (filters.search.trim()) params.set('search', filters.search.trim());
+        if (filters.from) params.set('from', filters.from);
+        if (filters.to) params.set('to', filters.to);
+        if (opts?.cursor) params.set('cursor', opts.cursor);
+
+        const response = await fetchJson<MdfeResponse>(`/mdfes?${params.toString()}`);
+        setNextCursor(response.nextCursor ?? null);
+        setMdfes((prev) => (opts?.append ? [...prev, ...response.items] : response.items));
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Falha ao carregar MDF-es.';
+        setError(message);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [filters.from, filters.search, filters.to, selectedCompanyId],
+  );
+
+  useEffect(() => {
+    setMdfes([]);
+    setNextCursor(null);
+    if (selectedCompanyId) {
+      void loadMdfes();
+    }
+  }, [loadMdfes, selectedCompanyId]);
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    void loadMdfes();
+  };
+
+  const hasResults = useMemo(() => mdfes.length > 0, [mdfes.length]);
+
+  return (
+    <div className="space-y-6 px-4 md:px-6">
+      <header className="space-y-1">
+        <p className="text-xs font-semibold uppercase tracking-[0.24em] text-[var(--color-text-secondary)]">Operação</p>
+        <h1 className="text-2xl font-semibold text-[var(--color-text-primary)]">MDF-e</h1>
+        <p className="text-sm text-[var(--color-text-secondary)]">Manifestos de documentos fiscais das viagens da frota própria, com os CT-e e NF-e transportados.</p>
+        {selectedCompany ? (
+          <div className="text-xs text-[var(--color-text-secondary)]">
+            <span className="font-semibold text-[var(--color-text-primary)]">{selectedCompany.name}</span>{' '}
+            · CNPJ {selectedCompany.cnpj}
+          </div>
+        ) : null}
+      </header>
+
+      <form
+        className="flex flex-wrap items-end gap-3 rounded-xl border border-[var(--color-border-subtle)] bg-[var(--color-surface-card)] px-4 py-3 shadow-sm"
+        onSubmit={handleSubmit}
+      >
+        <label className="grid gap-1 text-xs text-[var(--color-text-primary)]">
+          <span className="font-semibold">Buscar</span>
+          <input
+            type="text"
+            value={filters.search}
+            onChange={(e) => setFilters((prev) => ({ ...prev, search: e.target.value }))}
+            placeholder="Chave, número, placa ou motorista"
+            className="h-9 w-56 rounded-md border border-[var(--color-border-subtle)] bg-white px-2 text-sm shadow-sm"
+          />
+        </label>
+        <label className="grid gap-1 text-xs text-[var(--color-text-primary)]">
+          <span className="font-semibold">Período início</span>
+          <input
+            type="date"
+            value={filters.from}
+            onChange={(e) => setFilters((prev) => ({ ...prev, from: e.target.value }))}
+            className="h-9 rounded-md border border-[var(--color-border-subtle)] bg-white px-2 text-sm shadow-sm"
+          />
+        </label>
+        <label className="grid gap-1 text-xs text-[var(--color-text-primary)]">
+          <span className="font-semibold">Período fim</span>
+          <input
+            type="date"
+            value={filters.to}
+            onChange={(e) => setFilters((prev) => ({ ...prev, to: e.target.value }))}
+            className="h-9 rounded-md border border-[var(--color-border-subtle)] bg-white px-2 text-sm shadow-sm"
+          />
+        </label>
+        <div className="flex flex-1 flex-wrap justify-end gap-2">
+          <Button type="submit" disabled={loading || !selectedCompanyId}>
+            {loading ? 'Carregando…' : 'Aplicar filtros'}
+          </Button>
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={() => {
+              setFilters({ search: '', from: '', to: '' });
+              void loadMdfes({ append: false });
+            }}
+            disabled={loading}
+          >
+            Limpar
+          </Button>
+        </div>
+      </form>
+
+      {error ? (
+        <div className="rounded-lg border border-[var(--color-feedback-danger)]/60 bg-[var(--color-feedback-danger)]/10 px-3 py-2 text-sm text-[var(--color-feedback-danger)]">
+          {error}
+        </div>
+      ) : null}
+
+      <div className="rounded-2xl border border-[var(--color-border-subtle)] bg-white shadow-sm">
+        <div className="flex items-center justify-between border-b border-[var(--color-border-subtle)] px-4 py-3">
+          <div className="space-y-1">
+            <p className="text-xs uppercase tracking-[0.2em] text-[var(--color-text-secondary)]">MDF-e importados</p>
+            <p className="text-sm text-[var(--color-text-secondary)]">
+              {hasResults ? `${mdfes.length} registro(s)` : 'Nenhum MDF-e encontrado para os filtros.'}
+            </p>
+          </div>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-[var(--color-border-subtle)] text-sm">
+            <thead className="bg-[var(--color-gray-50)] text-[var(--color-text-secondary)]">
+              <tr>
+                <th className="px-4 py-3 text-left font-semibold uppercase tracking-[0.14em]">Chave</th>
+                <th className="px-4 py-3 text-left font-semibold uppercase tracking-[0.14em]">Número/Série</th>
+                <th className="px-4 py-3 text-left font-semibold uppercase tracking-[0.14em]">Data</th>
+                <th className="px-4 py-3 text-left font-semibold uppercase tracking-[0.14em]">Percurso</th>
+                <th className="px-4 py-3 text-left font-semibold uppercase tracking-[0.14em]">Veículo</th>
+                <th className="px-4 py-3 text-left font-semibold uppercase tracking-[0.14em]">Motorista</th>
+                <th className="px-4 py-3 text-right font-semibold uppercase tracking-[0.14em]">Valor carga</th>
+                <th className="px-4 py-3 text-right font-semibold uppercase tracking-[0.14em]">Peso carga</th>
+                <th className="px-4 py-3 text-left font-semibold uppercase tracking-[0.14em]">Documentos transportados</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-[var(--color-border-faint)] text-[var(--color-text-primary)]">
+              {loading && !mdfes.length ? (
+                <tr>
+                  <td colSpan={9} className="px-4 py-6 text-center text-sm text-[var(--color-text-secondary)]">
+                    Carregando MDF-es…
+                  </td>
+                </tr>
+              ) : mdfes.length ? (
+                mdfes.map((mdfe) => (
+                  <tr key={mdfe.id} className="hover:bg-[var(--color-gray-50)]/60">
+                    <td className="px-4 py-3 font-mono text-xs text-[var(--color-text-secondary)] break-all">
+                      {mdfe.chave}
+                      {mdfe.isCancelled ? (
+                        <Badge variant="danger" className="mt-1 block w-fit font-sans">
+                          Cancelado
+                        </Badge>
+                      ) : null}
+                      {mdfe.hasXml && selectedCompanyId ? (
+                        <a
+                          href={`${getApiBaseUrl()}/mdfes/${mdfe.id}/xml?companyId=${encodeURIComponent(selectedCompanyId)}`}
+                          className="mt-1 block font-sans font-semibold text-[var(--color-brand-secondary)] hover:underline"
+                        >
+                          Baixar XML
+                        </a>
+                      ) : null}
+                    </td>
+                    <td className="px-4 py-3">{mdfe.numero ? `MDF ${mdfe.numero}${mdfe.serie ? ` · Série ${mdfe.serie}` : ''}` : '—'}</td>
+                    <td className="px-4 py-3">
+                      <div>{formatDate(mdfe.emissao)}</div>
+                      {mdfe.tripStartAt ? (
+                        <div className="text-xs text-[var(--color-text-secondary)]">Início viagem {formatDate(mdfe.tripStartAt)}</div>
+                      ) : null}
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="font-semibold">{formatRoute(mdfe)}</div>
+                      {mdfe.loadingCities.length ? (
+                        <div className="text-xs text-[var(--color-text-secondary)]">Carrega em {mdfe.loadingCities.join(', ')}</div>
+                      ) : null}
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="font-mono font-semibold">{mdfe.vehiclePlate || '—'}</div>
+                      {mdfe.trailerPlates.length ? (
+                        <div className="font-mono text-xs text-[var(--color-text-secondary)]">Reboque {mdfe.trailerPlates.join(', ')}</div>
+                      ) : null}
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="font-semibold">{mdfe.driverName || '—'}</div>
+                      <div className="font-mono text-xs text-[var(--color-text-secondary)]">{mdfe.driverCpf || ''}</div>
+                    </td>
+                    <td className="px-4 py-3 text-right font-semibold">{mdfe.cargoValue ? formatCurrency(mdfe.cargoValue) : '—'}</td>
+                    <td className="px-4 py-3 text-right">
+                      {mdfe.cargoWeight
+                        ? `${formatNumber(mdfe.cargoWeight)} ${mdfe.cargoUnit ? CARGO_UNIT_LABELS[mdfe.cargoUnit] ?? '' : ''}`
+                        : '—'}
+                    </td>
+                    <td className="px-4 py-3 text-xs">
+                      {mdfe.documents.length ? (
+                        <div className="grid gap-1">
+                          {mdfe.documents.map((doc) => {
+                            const isImported = Boolean(doc.documentType === 'CTE' ? doc.cteId : doc.invoiceId);
+                            return (
+                              <div key={doc.chave} className="whitespace-nowrap">
+                                <span className={isImported ? 'font-semibold' : 'text-[var(--color-text-secondary)]'}>
+                                  {describeDocument(doc)}
+                                </span>
+                                {doc.cteValue ? (
+                                  <span className="text-[var(--color-text-secondary)]"> · {formatCurrency(doc.cteValue)}</span>
+                                ) : null}
+                                {doc.unloadCity ? (
+                                  <span className="text-[var(--color-text-secondary)]"> · {doc.unloadCity}</span>
+                                ) : null}
+                                {!isImported ? (
+                                  <span className="text-[var(--color-text-secondary)]"> (não importado)</span>
+                                ) : null}
+                              </div>
+                            );
+                          })}
+                        </div>
+                      ) : (
+                        '—'
+                      )}
+                    </td>
+                  </tr>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={9} className="px-4 py-6 text-center text-sm text-[var(--color-text-secondary)]">
+                    Nenhum MDF-e para exibir.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+        {nextCursor ? (
+          <div className="border-t border-[var(--color-border-subtle)] bg-[var(--color-gray-50)] px-4 py-3">
+            <Button variant="secondary" onClick={() => loadMdfes({ append: true, cursor: nextCursor })} disabled={loading}>
+              {loading ? 'Carregando…' : 'Carregar mais'}
+            </Button>
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
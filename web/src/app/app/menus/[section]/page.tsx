@@ -17,6 +17,10 @@ import {
   Warehouse,
   LineChart,
   Truck,
+  Route,
+  Receipt,
+  Filter,
+  ListOrdered,
 } from 'lucide-react';
 
 type SectionKey = 'contexto' | 'operacoes' | 'configuracoes' | 'relatorios';
@@ -38,6 +42,8 @@ const sectionMap: Record<
       { href: '/app/upload', label: 'Importar XML', icon: Upload },
       { href: '/app/invoices', label: 'Notas fiscais', icon: FileText },
       { href: '/app/ctes', label: 'CT-e', icon: Truck },
+      { href: '/app/mdfes', label: 'MDF-e', icon: Route },
+      { href: '/app/service-invoices', label: 'NFS-e', icon: Receipt },
       { href: '/app/products', label: 'Produtos', icon: Package2 },
       { href: '/app/deducoes', label: 'Deduções (DRE)', icon: Percent },
     ],
@@ -48,6 +54,7 @@ const sectionMap: Record<
     links: [
       { href: '/app/naturezas', label: 'Naturezas de Operação', icon: GitBranch },
       { href: '/app/cfop-rules', label: 'Regras CFOP', icon: CircleDot },
+      { href: '/app/ingestion-rules', label: 'Regras de ingestão', icon: Filter },
       { href: '/app/companies', label: 'Empresas', icon: Building2 },
       { href: '/app/health', label: 'Status do sistema', icon: Activity },
     ],
@@ -65,6 +72,9 @@ const sectionMap: Record<
       { href: '/app/reports/product-ledger', label: 'Entradas/Saídas por produto', icon: Package2 },
       { href: '/app/reports/management', label: 'Gestão / Fiscal', icon: LineChart },
       { href: '/app/reports/fiscal-close', label: 'Fechamento fiscal', icon: FileText },
+      { href: '/app/reports/numbering-gaps', label: 'Sequência de numeração', icon: ListOrdered },
+      { href: '/app/reports/sped', label: 'SPED Fiscal', icon: FileText },
+      { href: '/app/reports/sped-contribuicoes', label: 'EFD-Contribuições', icon: FileText },
       { href: '/app/reports/dre', label: 'DRE', icon: LineChart },
     ],
   },
@@ -22,7 +22,7 @@ type DreGroup = {
 };
 
 type DreResponse = {
-  filters: { companyId: string; from: string | null; to: string | null };
+  filters: { companyId: string; from: string | null; to: string | null; includeNfce: boolean };
   revenue: DreGroup[];
   returns: DreGroup[];
   cmv: DreGroup[];
@@ -33,6 +33,7 @@ export default function DrePage() {
   const { selectedCompanyId, selectedCompany } = useCompanyContext();
   const [from, setFrom] = useState('');
   const [to, setTo] = useState('');
+  const [includeNfce, setIncludeNfce] = useState(true);
   const [data, setData] = useState<DreResponse | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
@@ -61,6 +62,7 @@ export default function DrePage() {
       params.set('companyId', selectedCompanyId);
       if (from) params.set('from', from);
       if (to) params.set('to', to);
+      params.set('includeNfce', String(includeNfce));
       const response = await fetchJson<DreResponse>(`/reports/dre?${params.toString()}`);
       setData(response);
     } catch (err) {
@@ -181,6 +183,15 @@ export default function DrePage() {
             </button>
           ))}
         </div>
+        <label className="flex h-9 items-center gap-2 text-xs font-semibold text-[var(--color-text-primary)]">
+          <input
+            type="checkbox"
+            checked={includeNfce}
+            onChange={(event) => setIncludeNfce(event.target.checked)}
+            className="h-4 w-4 rounded border-[var(--color-border-subtle)]"
+          />
+          Incluir NFC-e
+        </label>
         <button
           type="submit"
           disabled={loading || !selectedCompanyId}
@@ -192,7 +203,7 @@ export default function DrePage() {
           <Link
             href={`${getApiBaseUrl()}/reports/dre.pdf?companyId=${encodeURIComponent(
               selectedCompanyId || '',
-            )}${from ? `&from=${encodeURIComponent(from)}` : ''}${to ? `&to=${encodeURIComponent(to)}` : ''}`}
+            )}${from ? `&from=${encodeURIComponent(from)}` : ''}${to ? `&to=${encodeURIComponent(to)}` : ''}&includeNfce=${includeNfce}`}
             target="_blank"
             rel="noreferrer"
             className="inline-flex items-center gap-2 rounded-md border border-[var(--color-border-subtle)] bg-white px-3 py-2 text-xs font-semibold text-[var(--color-text-primary)] shadow-sm hover:border-[var(--color-brand-accent)] hover:text-[var(--color-brand-primary)]"
@@ -20,15 +20,52 @@ type Row = {
   vICMSDeson: number | null;
   vBCST: number | null;
   vST: number | null;
+  vPIS: number | null;
+  vCOFINS: number | null;
+  vIBS: number | null;
+  vCBS: number | null;
+  vIS: number | null;
   vDesc: number | null;
+  returnOf: { invoiceId: string; invoiceNumber: string; naturezaKey: string } | null;
 };
 
 type Grouped = {
-  [naturezaKey: string]: { natureza: string; rows: Row[]; totalsByProduct: Record<string, TotaisProduto> };
+  [naturezaKey: string]: {
+    natureza: string;
+    rows: Row[];
+    totalsByProduct: Record<string, TotaisProduto>;
+    returnsByProduct?: Record<string, TotaisProduto>;
+    netTotalsByProduct?: Record<string, TotaisProduto>;
+  };
+};
+
+type DifalTotals = {
+  vBCUFDest: number;
+  vICMSUFDest: number;
+  vICMSUFRemet: number;
+  vFCPUFDest: number;
+  totalDestino: number;
+};
+
+type DifalRow = DifalTotals & {
+  uf: string;
+  invoiceCount: number;
+  itemCount: number;
+};
+
+type RegimeTotals = {
+  vICMS: number;
+  vPIS: number;
+  vCOFINS: number;
+  vIBS: number;
+  vCBS: number;
+  vIS: number;
 };
 
 type Response = {
   grouped: { entradas: Grouped; saidas: Grouped };
+  regimeTotals?: { entradas: RegimeTotals; saidas: RegimeTotals };
+  difal?: { byUf: DifalRow[]; totals: DifalTotals };
   filters: { from: string | null; to: string | null; naturezaIds: string[] };
 };
 
@@ -42,6 +79,11 @@ type TotaisProduto = {
   vICMSDeson: number;
   vBCST: number;
   vST: number;
+  vPIS: number;
+  vCOFINS: number;
+  vIBS: number;
+  vCBS: number;
+  vIS: number;
   vDesc: number;
 };
 
@@ -129,6 +171,11 @@ export default function FiscalClosePage() {
       'vICMSDeson',
       'vBCST',
       'vST',
+      'vPIS',
+      'vCOFINS',
+      'vIBS',
+      'vCBS',
+      'vIS',
       'vDesc',
     ];
     const lines = rows.map((row) => [
@@ -143,6 +190,11 @@ export default function FiscalClosePage() {
       toExcelNumber(row.vICMSDeson ?? null),
       toExcelNumber(row.vBCST ?? null),
       toExcelNumber(row.vST ?? null),
+      toExcelNumber(row.vPIS ?? null),
+      toExcelNumber(row.vCOFINS ?? null),
+      toExcelNumber(row.vIBS ?? null),
+      toExcelNumber(row.vCBS ?? null),
+      toExcelNumber(row.vIS ?? null),
       toExcelNumber(row.vDesc ?? null),
     ]);
     const tsv = [header.join('\t'), ...lines.map((line) => line.join('\t'))].join('\n');
@@ -154,7 +206,7 @@ export default function FiscalClosePage() {
   const copyTotals = async (title: string, totals: Record<string, TotaisProduto>) => {
     const list = Object.values(totals || {});
     if (!list.length) return;
-    const header = ['Produto', 'SKU', 'Qtd', 'Total', 'vTotTrib', 'vICMS', 'vICMSDeson', 'vBCST', 'vST', 'vDesc'];
+    const header = ['Produto', 'SKU', 'Qtd', 'Total', 'vTotTrib', 'vICMS', 'vICMSDeson', 'vBCST', 'vST', 'vPIS', 'vCOFINS', 'vIBS', 'vCBS', 'vIS', 'vDesc'];
     const lines = list.map((row) => [
       row.product,
       row.sku ?? '',
@@ -165,6 +217,11 @@ export default function FiscalClosePage() {
       toExcelNumber(row.vICMSDeson ?? null),
       toExcelNumber(row.vBCST ?? null),
       toExcelNumber(row.vST ?? null),
+      toExcelNumber(row.vPIS ?? null),
+      toExcelNumber(row.vCOFINS ?? null),
+      toExcelNumber(row.vIBS ?? null),
+      toExcelNumber(row.vCBS ?? null),
+      toExcelNumber(row.vIS ?? null),
       toExcelNumber(row.vDesc ?? null),
     ]);
     const tsv = [header.join('\t'), ...lines.map((line) => line.join('\t'))].join('\n');
@@ -173,12 +230,12 @@ export default function FiscalClosePage() {
     setTimeout(() => setCopyFeedback(null), 2500);
   };
 
-  const renderTotals = (totals: Record<string, TotaisProduto>) => {
+  const renderTotals = (totals: Record<string, TotaisProduto>, title = 'Totais por produto') => {
     const list = Object.values(totals || {});
     if (!list.length) return null;
     return (
       <div className="border-t border-[var(--color-border-subtle)] bg-[var(--color-gray-50)]">
-        <div className="px-4 py-2 text-xs font-semibold text-[var(--color-text-primary)]">Totais por produto</div>
+        <div className="px-4 py-2 text-xs font-semibold text-[var(--color-text-primary)]">{title}</div>
         <div className="overflow-x-auto">
           <table className="min-w-full divide-y divide-[var(--color-border-subtle)] text-left text-xs">
             <thead className="bg-[var(--color-gray-100)] text-[0.65rem] uppercase tracking-[0.18em] text-[var(--color-text-secondary)]">
@@ -191,6 +248,11 @@ export default function FiscalClosePage() {
                 <th className="px-2 py-2 text-right">vICMSDeson</th>
                 <th className="px-2 py-2 text-right">vBCST</th>
                 <th className="px-2 py-2 text-right">vST</th>
+                <th className="px-2 py-2 text-right">vPIS</th>
+                <th className="px-2 py-2 text-right">vCOFINS</th>
+                <th className="px-2 py-2 text-right">vIBS</th>
+                <th className="px-2 py-2 text-right">vCBS</th>
+                <th className="px-2 py-2 text-right">vIS</th>
                 <th className="px-2 py-2 text-right">vDesc</th>
               </tr>
             </thead>
@@ -208,6 +270,11 @@ export default function FiscalClosePage() {
                   <td className="px-2 py-2 text-right">{row.vICMSDeson != null ? formatCurrency(row.vICMSDeson) : '—'}</td>
                   <td className="px-2 py-2 text-right">{row.vBCST != null ? formatCurrency(row.vBCST) : '—'}</td>
                   <td className="px-2 py-2 text-right">{row.vST != null ? formatCurrency(row.vST) : '—'}</td>
+                  <td className="px-2 py-2 text-right">{row.vPIS != null ? formatCurrency(row.vPIS) : '—'}</td>
+                  <td className="px-2 py-2 text-right">{row.vCOFINS != null ? formatCurrency(row.vCOFINS) : '—'}</td>
+                  <td className="px-2 py-2 text-right">{row.vIBS != null ? formatCurrency(row.vIBS) : '—'}</td>
+                  <td className="px-2 py-2 text-right">{row.vCBS != null ? formatCurrency(row.vCBS) : '—'}</td>
+                  <td className="px-2 py-2 text-right">{row.vIS != null ? formatCurrency(row.vIS) : '—'}</td>
                   <td className="px-2 py-2 text-right">{row.vDesc != null ? formatCurrency(row.vDesc) : '—'}</td>
                 </tr>
               ))}
@@ -218,6 +285,126 @@ export default function FiscalClosePage() {
     );
   };
 
+  const renderRegimeTotals = (regimeTotals: NonNullable<Response['regimeTotals']>) => {
+    const sides: Array<[string, RegimeTotals]> = [
+      ['Entradas', regimeTotals.entradas],
+      ['Saídas', regimeTotals.saidas],
+    ];
+    return (
+      <div className="overflow-x-auto rounded-lg border border-[var(--color-border-subtle)] bg-white shadow-sm">
+        <table className="min-w-full divide-y divide-[var(--color-border-subtle)] text-left text-xs">
+          <thead className="bg-[var(--color-gray-50)] text-[0.65rem] uppercase tracking-[0.18em] text-[var(--color-text-secondary)]">
+            <tr>
+              <th className="px-2 py-2">Sentido</th>
+              <th className="px-2 py-2 text-right">ICMS</th>
+              <th className="px-2 py-2 text-right">PIS</th>
+              <th className="px-2 py-2 text-right">COFINS</th>
+              <th className="px-2 py-2 text-right">IBS</th>
+              <th className="px-2 py-2 text-right">CBS</th>
+              <th className="px-2 py-2 text-right">IS</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-[var(--color-border-subtle)]">
+            {sides.map(([label, totals]) => (
+              <tr key={label} className="bg-white">
+                <td className="px-2 py-2 font-semibold text-[var(--color-text-primary)]">{label}</td>
+                <td className="px-2 py-2 text-right">{formatCurrency(totals.vICMS)}</td>
+                <td className="px-2 py-2 text-right">{formatCurrency(totals.vPIS)}</td>
+                <td className="px-2 py-2 text-right">{formatCurrency(totals.vCOFINS)}</td>
+                <td className="px-2 py-2 text-right">{formatCurrency(totals.vIBS)}</td>
+                <td className="px-2 py-2 text-right">{formatCurrency(totals.vCBS)}</td>
+                <td className="px-2 py-2 text-right">{formatCurrency(totals.vIS)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  };
+
+  const copyDifal = async (rows: DifalRow[]) => {
+    if (!rows.length) return;
+    const header = ['UF', 'Notas', 'vBCUFDest', 'vICMSUFDest', 'vFCPUFDest', 'vICMSUFRemet', 'Total destino'];
+    const lines = rows.map((row) => [
+      row.uf,
+      String(row.invoiceCount),
+      toExcelNumber(row.vBCUFDest),
+      toExcelNumber(row.vICMSUFDest),
+      toExcelNumber(row.vFCPUFDest),
+      toExcelNumber(row.vICMSUFRemet),
+      toExcelNumber(row.totalDestino),
+    ]);
+    const tsv = [header.join('\t'), ...lines.map((line) => line.join('\t'))].join('\n');
+    await navigator.clipboard.writeText(tsv);
+    setCopyFeedback('DIFAL por UF copiado para a área de transferência');
+    setTimeout(() => setCopyFeedback(null), 2500);
+  };
+
+  const renderDifal = (difal: NonNullable<Response['difal']>) => {
+    if (!difal.byUf.length) {
+      return (
+        <div className="rounded-lg border border-[var(--color-border-subtle)] bg-[var(--color-gray-50)] px-4 py-3 text-sm text-[var(--color-text-secondary)]">
+          Nenhuma saída com partilha de ICMS (ICMSUFDest) no período.
+        </div>
+      );
+    }
+    return (
+      <div className="rounded-lg border border-[var(--color-border-subtle)] bg-white shadow-sm">
+        <div className="flex items-center justify-between border-b border-[var(--color-border-subtle)] px-4 py-3">
+          <div>
+            <p className="text-xs uppercase tracking-[0.2em] text-[var(--color-text-secondary)]">DIFAL</p>
+            <p className="text-sm font-semibold text-[var(--color-text-primary)]">ICMS devido por UF de destino</p>
+          </div>
+          <button
+            type="button"
+            onClick={() => void copyDifal(difal.byUf)}
+            className="rounded-md border border-[var(--color-border-subtle)] bg-white px-2 py-1 text-xs font-semibold text-[var(--color-text-primary)] hover:border-[var(--color-brand-accent)] hover:text-[var(--color-brand-primary)]"
+          >
+            Copiar DIFAL
+          </button>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-[var(--color-border-subtle)] text-left text-xs">
+            <thead className="bg-[var(--color-gray-50)] text-[0.65rem] uppercase tracking-[0.18em] text-[var(--color-text-secondary)]">
+              <tr>
+                <th className="px-2 py-2">UF destino</th>
+                <th className="px-2 py-2 text-right">Notas</th>
+                <th className="px-2 py-2 text-right">vBCUFDest</th>
+                <th className="px-2 py-2 text-right">vICMSUFDest</th>
+                <th className="px-2 py-2 text-right">vFCPUFDest</th>
+                <th className="px-2 py-2 text-right">vICMSUFRemet</th>
+                <th className="px-2 py-2 text-right">Total destino</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-[var(--color-border-subtle)]">
+              {difal.byUf.map((row) => (
+                <tr key={row.uf} className="bg-white">
+                  <td className="px-2 py-2 font-semibold text-[var(--color-text-primary)]">{row.uf === 'SEM_UF' ? 'UF não informada' : row.uf}</td>
+                  <td className="px-2 py-2 text-right font-mono">{formatNumber(row.invoiceCount)}</td>
+                  <td className="px-2 py-2 text-right">{formatCurrency(row.vBCUFDest)}</td>
+                  <td className="px-2 py-2 text-right">{formatCurrency(row.vICMSUFDest)}</td>
+                  <td className="px-2 py-2 text-right">{formatCurrency(row.vFCPUFDest)}</td>
+                  <td className="px-2 py-2 text-right text-[var(--color-text-secondary)]">{formatCurrency(row.vICMSUFRemet)}</td>
+                  <td className="px-2 py-2 text-right font-semibold">{formatCurrency(row.totalDestino)}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot className="bg-[var(--color-gray-50)] font-semibold text-[var(--color-text-primary)]">
+              <tr>
+                <td className="px-2 py-2" colSpan={2}>Totais</td>
+                <td className="px-2 py-2 text-right">{formatCurrency(difal.totals.vBCUFDest)}</td>
+                <td className="px-2 py-2 text-right">{formatCurrency(difal.totals.vICMSUFDest)}</td>
+                <td className="px-2 py-2 text-right">{formatCurrency(difal.totals.vFCPUFDest)}</td>
+                <td className="px-2 py-2 text-right">{formatCurrency(difal.totals.vICMSUFRemet)}</td>
+                <td className="px-2 py-2 text-right">{formatCurrency(difal.totals.totalDestino)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      </div>
+    );
+  };
+
   const renderGroup = (title: string, group: Grouped) => {
     const entries = Object.values(group);
     if (!entries.length) {
@@ -268,13 +455,23 @@ export default function FiscalClosePage() {
                 <th className="px-2 py-2 text-right">vICMSDeson</th>
                 <th className="px-2 py-2 text-right">vBCST</th>
                 <th className="px-2 py-2 text-right">vST</th>
+                <th className="px-2 py-2 text-right">vPIS</th>
+                <th className="px-2 py-2 text-right">vCOFINS</th>
+                <th className="px-2 py-2 text-right">vIBS</th>
+                <th className="px-2 py-2 text-right">vCBS</th>
+                <th className="px-2 py-2 text-right">vIS</th>
                 <th className="px-2 py-2 text-right">vDesc</th>
               </tr>
             </thead>
             <tbody className="divide-y divide-[var(--color-border-subtle)]">
               {bucket.rows.map((row) => (
                 <tr key={row.id} className="bg-white">
-                  <td className="px-2 py-2 font-mono text-[0.75rem] text-[var(--color-text-primary)]">{row.invoiceNumber}</td>
+                  <td className="px-2 py-2 font-mono text-[0.75rem] text-[var(--color-text-primary)]">
+                    {row.invoiceNumber}
+                    {row.returnOf ? (
+                      <div className="font-sans text-[0.65rem] text-[var(--color-text-secondary)]">Devolução da NF {row.returnOf.invoiceNumber}</div>
+                    ) : null}
+                  </td>
                   <td className="px-2 py-2 text-[var(--color-text-secondary)]">{row.emissao ? formatDate(row.emissao) : '—'}</td>
                   <td className="px-2 py-2 text-[var(--color-text-primary)]">
                     <span className="font-semibold">{row.product}</span>
@@ -287,6 +484,11 @@ export default function FiscalClosePage() {
                   <td className="px-2 py-2 text-right text-[var(--color-text-secondary)]">{row.vICMSDeson != null ? formatCurrency(row.vICMSDeson) : '—'}</td>
                   <td className="px-2 py-2 text-right text-[var(--color-text-secondary)]">{row.vBCST != null ? formatCurrency(row.vBCST) : '—'}</td>
                   <td className="px-2 py-2 text-right text-[var(--color-text-secondary)]">{row.vST != null ? formatCurrency(row.vST) : '—'}</td>
+                  <td className="px-2 py-2 text-right text-[var(--color-text-secondary)]">{row.vPIS != null ? formatCurrency(row.vPIS) : '—'}</td>
+                  <td className="px-2 py-2 text-right text-[var(--color-text-secondary)]">{row.vCOFINS != null ? formatCurrency(row.vCOFINS) : '—'}</td>
+                  <td className="px-2 py-2 text-right text-[var(--color-text-secondary)]">{row.vIBS != null ? formatCurrency(row.vIBS) : '—'}</td>
+                  <td className="px-2 py-2 text-right text-[var(--color-text-secondary)]">{row.vCBS != null ? formatCurrency(row.vCBS) : '—'}</td>
+                  <td className="px-2 py-2 text-right text-[var(--color-text-secondary)]">{row.vIS != null ? formatCurrency(row.vIS) : '—'}</td>
                   <td className="px-2 py-2 text-right text-[var(--color-text-secondary)]">{row.vDesc != null ? formatCurrency(row.vDesc) : '—'}</td>
                 </tr>
               ))}
@@ -294,6 +496,8 @@ export default function FiscalClosePage() {
           </table>
         </div>
         {renderTotals(bucket.totalsByProduct)}
+        {bucket.returnsByProduct ? renderTotals(bucket.returnsByProduct, 'Devoluções vinculadas (NFref)') : null}
+        {bucket.netTotalsByProduct ? renderTotals(bucket.netTotalsByProduct, 'Totais líquidos de devoluções') : null}
       </div>
     ));
   };
@@ -410,10 +614,22 @@ export default function FiscalClosePage() {
             {data.filters.to ? ` · Fim: ${formatDate(data.filters.to)}` : ''}{' '}
             {data.filters.naturezaIds?.length ? ` · Naturezas filtradas: ${data.filters.naturezaIds.length}` : ''}
           </div>
+          {data.regimeTotals ? (
+            <>
+              <h2 className="text-sm font-semibold text-[var(--color-text-primary)]">Tributos do período (regime atual × IBS/CBS/IS)</h2>
+              {renderRegimeTotals(data.regimeTotals)}
+            </>
+          ) : null}
           <h2 className="text-sm font-semibold text-[var(--color-text-primary)]">Entradas</h2>
           {renderGroup('Entradas', data.grouped.entradas)}
           <h2 className="text-sm font-semibold text-[var(--color-text-primary)]">Saídas</h2>
           {renderGroup('Saídas', data.grouped.saidas)}
+          {data.difal ? (
+            <>
+              <h2 className="text-sm font-semibold text-[var(--color-text-primary)]">DIFAL por UF de destino</h2>
+              {renderDifal(data.difal)}
+            </>
+          ) : null}
         </div>
       ) : (
         <div className="rounded-lg border border-dashed border-[var(--color-border-subtle)] bg-[var(--color-gray-50)] px-4 py-6 text-sm text-[var(--color-text-secondary)]">
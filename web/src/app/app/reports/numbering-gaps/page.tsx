@@ -0,0 +1,300 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { fetchJson } from '@/lib/api';
+import { formatCnpj, formatDate, formatDateTime, formatNumber } from '@/lib/format';
+import { Button } from '@/ui/button';
+import { Badge } from '@/ui/badge';
+import { useCompanyContext } from '../../_context/company-context';
+
+type GapStatus = 'CANCELLED' | 'VOIDED' | 'MISSING';
+
+type NumberingGap = {
+  start: number;
+  end: number;
+  count: number;
+  status: GapStatus;
+  chave?: string;
+  justification?: string | null;
+  protocolNumber?: string | null;
+  eventTimestamp?: string | null;
+};
+
+type NumberingSeries = {
+  modelo: string;
+  serie: number;
+  firstNumber: number;
+  lastNumber: number;
+  issuedCount: number;
+  cancelledCount: number;
+  voidedCount: number;
+  missingCount: number;
+  lastEmission: string | null;
+  gaps: NumberingGap[];
+};
+
+type NumberingGapReport = {
+  generatedAt: string;
+  company: {
+    id: string;
+    name: string;
+    cnpj: string | null;
+  };
+  totals: {
+    seriesCount: number;
+    issuedCount: number;
+    cancelledCount: number;
+    voidedCount: number;
+    missingCount: number;
+  };
+  series: NumberingSeries[];
+};
+
+type NumberingGapResponse = {
+  report: NumberingGapReport;
+};
+
+type ReportState = {
+  report: NumberingGapReport | null;
+  isLoading: boolean;
+  error: string | null;
+};
+
+const GAP_STATUS_LABELS: Record<GapStatus, { label: string; variant: 'info' | 'warning' | 'danger' }> = {
+  CANCELLED: { label: 'Cancelada', variant: 'warning' },
+  VOIDED: { label: 'Inutilizada', variant: 'info' },
+  MISSING: { label: 'Sem explicação', variant: 'danger' },
+};
+
+const MODELO_LABELS: Record<string, string> = {
+  '55': 'NF-e (55)',
+  '65': 'NFC-e (65)',
+};
+
+function formatRange(gap: NumberingGap) {
+  return gap.start === gap.end ? String(gap.start) : `${gap.start} a ${gap.end}`;
+}
+
+export default function NumberingGapsReportPage() {
+  const { selectedCompany, selectedCompanyId } = useCompanyContext();
+
+  return (
+    <div className="space-y-6">
+      <header className="space-y-4">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div className="max-w-[760px] space-y-2">
+            <h1 className="text-lg font-semibold text-[var(--color-text-primary)]">Sequência de numeração</h1>
+            <p className="text-sm text-[var(--color-text-secondary)]">
+              Confira as séries emitidas pela própria empresa e identifique números pulados. Cada lacuna é
+              classificada como cancelada, inutilizada (conforme os XMLs importados) ou sem explicação, que precisa
+              ser inutilizada ou localizada antes da entrega do SPED.
+            </p>
+          </div>
+          {selectedCompany ? (
+            <div className="min-w-[260px] rounded-2xl border border-[var(--color-border-subtle)] bg-[var(--color-gray-50)] px-4 py-3 text-xs text-[var(--color-text-secondary)]">
+              <p className="text-[0.68rem] font-semibold uppercase tracking-[0.24em] text-[var(--color-text-secondary)]/80">
+                Empresa selecionada
+              </p>
+              <p className="mt-1 text-sm font-medium text-[var(--color-text-primary)]">{selectedCompany.name}</p>
+              <p className="font-mono text-xs text-[var(--color-text-secondary)]">
+                CNPJ {formatCnpj(selectedCompany.cnpj)}
+              </p>
+            </div>
+          ) : null}
+        </div>
+      </header>
+
+      {selectedCompanyId ? (
+        <ReportPanel companyId={selectedCompanyId} />
+      ) : (
+        <div className="rounded-2xl border border-dashed border-[var(--color-border-subtle)] bg-[var(--color-gray-100)] px-6 py-8 text-sm text-[var(--color-text-secondary)]">
+          Selecione uma empresa para conferir a numeração das notas emitidas.
+        </div>
+      )}
+    </div>
+  );
+}
+
+type ReportPanelProps = {
+  companyId: string;
+};
+
+function ReportPanel({ companyId }: ReportPanelProps) {
+  const [state, setState] = useState<ReportState>({ report: null, isLoading: true, error: null });
+  const [onlyMissing, setOnlyMissing] = useState(false);
+  const requestRef = useRef(0);
+
+  const loadReport = useCallback(async (targetCompanyId: string) => {
+    const requestId = ++requestRef.current;
+    setState((prev) => ({ ...prev, isLoading: true, error: null }));
+
+    try {
+      const response = await fetchJson<NumberingGapResponse>(`/companies/${targetCompanyId}/reports/numbering-gaps`);
+      if (requestRef.current !== requestId) {
+        return;
+      }
+      setState({ report: response.report, isLoading: false, error: null });
+    } catch (error) {
+      if (requestRef.current !== requestId) {
+        return;
+      }
+      const message = error instanceof Error ? error.message : 'Não foi possível carregar o relatório.';
+      setState({ report: null, isLoading: false, error: message });
+    }
+  }, []);
+
+  useEffect(() => {
+    requestRef.current = 0;
+    void loadReport(companyId);
+  }, [companyId, loadReport]);
+
+  const report = state.report;
+
+  return (
+    <section className="space-y-5">
+      <div className="rounded-2xl border border-[var(--color-border-subtle)] bg-white px-5 py-5 shadow-sm">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <p className="text-xs text-[var(--color-text-secondary)]">
+            Atualizado em {formatDateTime(report?.generatedAt ?? new Date().toISOString())}
+          </p>
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-2 text-sm text-[var(--color-text-secondary)]">
+              <input
+                type="checkbox"
+                checked={onlyMissing}
+                onChange={(event) => setOnlyMissing(event.target.checked)}
+              />
+              Mostrar só lacunas sem explicação
+            </label>
+            <Button type="button" variant="secondary" onClick={() => void loadReport(companyId)} disabled={state.isLoading}>
+              {state.isLoading ? 'Carregando…' : 'Atualizar'}
+            </Button>
+          </div>
+        </div>
+
+        <div className="mt-5 grid gap-3 sm:grid-cols-2 xl:grid-cols-5">
+          <SummaryCard label="Séries" value={formatNumber(report?.totals.seriesCount ?? 0)} />
+          <SummaryCard label="Notas emitidas" value={formatNumber(report?.totals.issuedCount ?? 0)} />
+          <SummaryCard label="Canceladas" value={formatNumber(report?.totals.cancelledCount ?? 0)} />
+          <SummaryCard label="Inutilizadas" value={formatNumber(report?.totals.voidedCount ?? 0)} />
+          <SummaryCard label="Sem explicação" value={formatNumber(report?.totals.missingCount ?? 0)} />
+        </div>
+      </div>
+
+      {state.error ? (
+        <div className="rounded-xl border border-[var(--color-feedback-danger)] bg-[var(--color-feedback-danger)]/10 px-4 py-3 text-sm text-[var(--color-feedback-danger)]">
+          {state.error}
+        </div>
+      ) : null}
+
+      {state.isLoading && !report ? (
+        <div className="rounded-2xl border border-[var(--color-border-subtle)] bg-white px-5 py-6 text-center text-sm text-[var(--color-text-secondary)]">
+          Carregando dados do relatório…
+        </div>
+      ) : report && !report.series.length ? (
+        <div className="rounded-2xl border border-dashed border-[var(--color-border-subtle)] bg-[var(--color-gray-100)] px-6 py-8 text-sm text-[var(--color-text-secondary)]">
+          Nenhuma nota emitida pelo CNPJ da empresa foi importada.
+        </div>
+      ) : (
+        report?.series.map((series) => {
+          const gaps = onlyMissing ? series.gaps.filter((gap) => gap.status === 'MISSING') : series.gaps;
+          return (
+            <div
+              key={`${series.modelo}-${series.serie}`}
+              className="overflow-hidden rounded-2xl border border-[var(--color-border-subtle)] bg-white shadow-sm"
+            >
+              <div className="flex flex-wrap items-center justify-between gap-3 border-b border-[var(--color-border-subtle)] px-5 py-4">
+                <div>
+                  <p className="text-sm font-semibold text-[var(--color-text-primary)]">
+                    {MODELO_LABELS[series.modelo] ?? `Modelo ${series.modelo}`} · Série {series.serie}
+                  </p>
+                  <p className="text-xs text-[var(--color-text-secondary)]">
+                    Números {series.firstNumber} a {series.lastNumber} · {formatNumber(series.issuedCount)} emitidas
+                    {series.lastEmission ? ` · última emissão em ${formatDate(series.lastEmission)}` : ''}
+                  </p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {series.cancelledCount ? (
+                    <Badge variant="warning" uppercase={false}>
+                      {formatNumber(series.cancelledCount)} canceladas
+                    </Badge>
+                  ) : null}
+                  {series.voidedCount ? (
+                    <Badge variant="info" uppercase={false}>
+                      {formatNumber(series.voidedCount)} inutilizadas
+                    </Badge>
+                  ) : null}
+                  {series.missingCount ? (
+                    <Badge variant="danger" uppercase={false}>
+                      {formatNumber(series.missingCount)} sem explicação
+                    </Badge>
+                  ) : (
+                    <Badge variant="success" uppercase={false}>
+                      Sequência completa
+                    </Badge>
+                  )}
+                </div>
+              </div>
+              {gaps.length ? (
+                <table className="min-w-full divide-y divide-[var(--color-border-subtle)] text-sm">
+                  <thead className="bg-[var(--color-gray-50)] text-[var(--color-text-secondary)]">
+                    <tr>
+                      <th className="px-4 py-3 text-left font-semibold uppercase tracking-[0.14em]">Números</th>
+                      <th className="px-4 py-3 text-right font-semibold uppercase tracking-[0.14em]">Qtde</th>
+                      <th className="px-4 py-3 text-left font-semibold uppercase tracking-[0.14em]">Situação</th>
+                      <th className="px-4 py-3 text-left font-semibold uppercase tracking-[0.14em]">Detalhe</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-[var(--color-border-faint)] text-[var(--color-text-primary)]">
+                    {gaps.map((gap) => (
+                      <tr key={`${gap.status}-${gap.start}`} className="hover:bg-[var(--color-gray-50)]/60">
+                        <td className="px-4 py-3 font-mono text-xs">{formatRange(gap)}</td>
+                        <td className="px-4 py-3 text-right">{formatNumber(gap.count)}</td>
+                        <td className="px-4 py-3">
+                          <Badge variant={GAP_STATUS_LABELS[gap.status].variant} uppercase={false}>
+                            {GAP_STATUS_LABELS[gap.status].label}
+                          </Badge>
+                        </td>
+                        <td className="px-4 py-3 text-xs text-[var(--color-text-secondary)]">
+                          {gap.status !== 'MISSING' ? (
+                            <div className="space-y-1">
+                              {gap.justification ? <p>{gap.justification}</p> : null}
+                              <p className="font-mono">
+                                {gap.protocolNumber ? `Protocolo ${gap.protocolNumber}` : null}
+                                {gap.eventTimestamp ? ` · ${formatDateTime(gap.eventTimestamp)}` : null}
+                              </p>
+                            </div>
+                          ) : (
+                            'Nenhuma nota, cancelamento ou inutilização encontrada'
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <p className="px-5 py-4 text-sm text-[var(--color-text-secondary)]">
+                  {onlyMissing ? 'Nenhuma lacuna sem explicação nesta série.' : 'Nenhuma lacuna nesta série.'}
+                </p>
+              )}
+            </div>
+          );
+        })
+      )}
+    </section>
+  );
+}
+
+type SummaryCardProps = {
+  label: string;
+  value: string;
+};
+
+function SummaryCard({ label, value }: SummaryCardProps) {
+  return (
+    <div className="rounded-2xl border border-[var(--color-border-subtle)] bg-white px-4 py-4 shadow-sm">
+      <p className="text-xs font-semibold uppercase tracking-[0.24em] text-[var(--color-text-secondary)]">{label}</p>
+      <p className="mt-1 text-lg font-semibold text-[var(--color-text-primary)]">{value}</p>
+    </div>
+  );
+}
@@ -19,6 +19,7 @@ type SalesReport = {
   filters: {
     from: string;
     to: string;
+    includeNfce: boolean;
   };
   products: SalesProductRow[];
   totals: {
@@ -35,6 +36,7 @@ type SalesReportResponse = {
 type Filters = {
   from: string;
   to: string;
+  includeNfce: boolean;
 };
 
 type ReportState = {
@@ -49,7 +51,7 @@ function buildDefaultFilters(): Filters {
   const fromBase = new Date(today);
   fromBase.setDate(fromBase.getDate() - 30);
   const from = fromBase.toISOString().slice(0, 10);
-  return { from, to };
+  return { from, to, includeNfce: true };
 }
 
 export default function SalesByPeriodReportPage() {
@@ -78,6 +80,7 @@ export default function SalesByPeriodReportPage() {
     const params = new URLSearchParams();
     params.append('from', currentFilters.from.trim());
     params.append('to', currentFilters.to.trim());
+    params.append('includeNfce', String(currentFilters.includeNfce));
 
     try {
       const response = await fetchJson<SalesReportResponse>(
@@ -107,7 +110,7 @@ export default function SalesByPeriodReportPage() {
     void loadReport();
   }, [loadReport]);
 
-  const handleFilterChange = useCallback((field: keyof Filters, value: string) => {
+  const handleFilterChange = useCallback(<K extends keyof Filters>(field: K, value: Filters[K]) => {
     setFilters((prev) => ({ ...prev, [field]: value }));
   }, []);
 
@@ -124,6 +127,7 @@ export default function SalesByPeriodReportPage() {
       const params = new URLSearchParams();
       params.append('from', filters.from.trim());
       params.append('to', filters.to.trim());
+      params.append('includeNfce', String(filters.includeNfce));
 
       const baseUrl = getApiBaseUrl();
       const path = format === 'pdf'
@@ -336,6 +340,15 @@ export default function SalesByPeriodReportPage() {
               className="h-10 rounded-xl border border-[var(--color-border-subtle)] px-3 text-sm text-[var(--color-text-primary)] focus:border-[var(--color-brand-primary)] focus:outline-none focus:ring-2 focus:ring-[var(--color-brand-primary)]/40"
             />
           </div>
+          <label className="flex h-10 items-center gap-2 text-sm text-[var(--color-text-primary)]">
+            <input
+              type="checkbox"
+              checked={filters.includeNfce}
+              onChange={(event) => handleFilterChange('includeNfce', event.target.checked)}
+              className="h-4 w-4 rounded border-[var(--color-border-subtle)]"
+            />
+            Incluir NFC-e (modelo 65)
+          </label>
           <div className="flex items-center gap-2">
             <Button type="submit" variant="primary">
               Atualizar
@@ -0,0 +1,456 @@
+'use client';
+
+import { FormEvent, useCallback, useEffect, useRef, useState } from 'react';
+import { fetchJson, getApiBaseUrl } from '@/lib/api';
+import { formatCnpj, formatCurrency, formatDate, formatDateTime, formatNumber } from '@/lib/format';
+import { Button } from '@/ui/button';
+import { Badge } from '@/ui/badge';
+import { useCompanyContext } from '../../_context/company-context';
+
+type ItemIssue = {
+  invoiceId: string;
+  chave: string;
+  numero: string | null;
+  emissao: string;
+  itemNumber: number;
+  description: string | null;
+  cfop: string;
+  issues: string[];
+};
+
+type ContribuicoesValidation = {
+  errors: string[];
+  warnings: string[];
+  items: ItemIssue[];
+  itemsWithIssues: number;
+};
+
+type ContributionSettlement = {
+  debit: number;
+  creditBase: number;
+  credit: number;
+  creditUsed: number;
+  creditBalance: number;
+  due: number;
+};
+
+type ContribuicoesSummary = {
+  layoutVersion: string;
+  activity: string;
+  documents: {
+    invoices: number;
+    serviceInvoices: number;
+    participants: number;
+    items: number;
+  };
+  registers: Record<string, number>;
+  pis: ContributionSettlement;
+  cofins: ContributionSettlement;
+};
+
+type ContribuicoesPreview = {
+  generatedAt: string;
+  period: string;
+  fileName: string;
+  validation: ContribuicoesValidation;
+  summary: ContribuicoesSummary;
+};
+
+type ContribuicoesFilters = {
+  period: string;
+  activity: string;
+};
+
+type PreviewState = {
+  preview: ContribuicoesPreview | null;
+  isLoading: boolean;
+  error: string | null;
+};
+
+const ACTIVITY_OPTIONS = [
+  { value: '2', label: 'Comércio' },
+  { value: '0', label: 'Industrial ou equiparado' },
+  { value: '1', label: 'Prestador de serviços' },
+  { value: '9', label: 'Outros' },
+];
+
+// O arquivo do SPED normalmente é do mês anterior ao atual
+function previousMonth() {
+  const today = new Date();
+  const reference = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() - 1, 1));
+  return reference.toISOString().slice(0, 7);
+}
+
+function buildQuery(filters: ContribuicoesFilters) {
+  return new URLSearchParams({ period: filters.period, activity: filters.activity }).toString();
+}
+
+export default function SpedContribuicoesReportPage() {
+  const { selectedCompany, selectedCompanyId } = useCompanyContext();
+
+  return (
+    <div className="space-y-6">
+      <header className="space-y-4">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div className="max-w-[760px] space-y-2">
+            <h1 className="text-lg font-semibold text-[var(--color-text-primary)]">EFD-Contribuições (PIS/COFINS)</h1>
+            <p className="text-sm text-[var(--color-text-secondary)]">
+              Gere o arquivo do mês no regime não cumulativo: NFS-e prestadas (A100/A170), notas com PIS/COFINS por
+              item (C100/C170/C175), créditos das entradas e a apuração (M100 a M610). Itens sem CST ou alíquota aparecem
+              na pré-validação.
+            </p>
+          </div>
+          {selectedCompany ? (
+            <div className="min-w-[260px] rounded-2xl border border-[var(--color-border-subtle)] bg-[var(--color-gray-50)] px-4 py-3 text-xs text-[var(--color-text-secondary)]">
+              <p className="text-[0.68rem] font-semibold uppercase tracking-[0.24em] text-[var(--color-text-secondary)]/80">
+                Empresa selecionada
+              </p>
+              <p className="mt-1 text-sm font-medium text-[var(--color-text-primary)]">{selectedCompany.name}</p>
+              <p className="font-mono text-xs text-[var(--color-text-secondary)]">
+                CNPJ {formatCnpj(selectedCompany.cnpj)}
+              </p>
+            </div>
+          ) : null}
+        </div>
+      </header>
+
+      {selectedCompanyId ? (
+        <ContribuicoesPanel companyId={selectedCompanyId} />
+      ) : (
+        <div className="rounded-2xl border border-dashed border-[var(--color-border-subtle)] bg-[var(--color-gray-100)] px-6 py-8 text-sm text-[var(--color-text-secondary)]">
+          Selecione uma empresa para gerar a EFD-Contribuições.
+        </div>
+      )}
+    </div>
+  );
+}
+
+type ContribuicoesPanelProps = {
+  companyId: string;
+};
+
+function ContribuicoesPanel({ companyId }: ContribuicoesPanelProps) {
+  const [filters, setFilters] = useState<ContribuicoesFilters>(() => ({
+    period: previousMonth(),
+    activity: '2',
+  }));
+  const [appliedFilters, setAppliedFilters] = useState<ContribuicoesFilters>(filters);
+  const [state, setState] = useState<PreviewState>({ preview: null, isLoading: true, error: null });
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+  const requestRef = useRef(0);
+
+  const loadPreview = useCallback(async (targetCompanyId: string, targetFilters: ContribuicoesFilters) => {
+    const requestId = ++requestRef.current;
+    setState((prev) => ({ ...prev, isLoading: true, error: null }));
+
+    try {
+      const response = await fetchJson<ContribuicoesPreview>(
+        `/companies/${targetCompanyId}/sped/efd-contribuicoes?${buildQuery(targetFilters)}`,
+      );
+      if (requestRef.current !== requestId) {
+        return;
+      }
+      setState({ preview: response, isLoading: false, error: null });
+    } catch (error) {
+      if (requestRef.current !== requestId) {
+        return;
+      }
+      const message = error instanceof Error ? error.message : 'Não foi possível validar o período.';
+      setState({ preview: null, isLoading: false, error: message });
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadPreview(companyId, appliedFilters);
+  }, [companyId, appliedFilters, loadPreview]);
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setAppliedFilters({ ...filters });
+  };
+
+  const handleFilterChange = (field: keyof ContribuicoesFilters, value: string) => {
+    setFilters((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleDownload = useCallback(async () => {
+    setIsDownloading(true);
+    setDownloadError(null);
+
+    const url = `${getApiBaseUrl()}/companies/${companyId}/sped/efd-contribuicoes.txt?${buildQuery(appliedFilters)}`;
+
+    try {
+      const response = await fetch(url);
+      if (!response.ok) {
+        const message = await response.text();
+        throw new Error(message || 'Falha ao gerar o arquivo.');
+      }
+
+      const blob = await response.blob();
+      const downloadUrl = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = downloadUrl;
+      link.download = state.preview?.fileName ?? `efd-contribuicoes-${appliedFilters.period}.txt`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(downloadUrl);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Falha ao gerar o arquivo.';
+      setDownloadError(message);
+    } finally {
+      setIsDownloading(false);
+    }
+  }, [companyId, appliedFilters, state.preview]);
+
+  const preview = state.preview;
+  const errorCount = preview?.validation.errors.length ?? 0;
+  const selectClassName =
+    'mt-1 h-10 rounded-lg border border-[var(--color-border-subtle)] px-3 text-sm font-normal normal-case tracking-normal text-[var(--color-text-primary)] focus-visible:outline-focus-visible';
+
+  return (
+    <section className="space-y-5">
+      <form
+        onSubmit={handleSubmit}
+        className="rounded-2xl border border-[var(--color-border-subtle)] bg-white px-5 py-4 shadow-sm"
+      >
+        <div className="flex flex-wrap items-end gap-4">
+          <label className="flex flex-col text-xs font-medium uppercase tracking-[0.16em] text-[var(--color-text-secondary)]">
+            Período
+            <input
+              type="month"
+              value={filters.period}
+              onChange={(event) => handleFilterChange('period', event.target.value)}
+              className={selectClassName}
+              required
+            />
+          </label>
+          <label className="flex flex-col text-xs font-medium uppercase tracking-[0.16em] text-[var(--color-text-secondary)]">
+            Atividade
+            <select
+              value={filters.activity}
+              onChange={(event) => handleFilterChange('activity', event.target.value)}
+              className={selectClassName}
+            >
+              {ACTIVITY_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <div className="flex flex-wrap gap-2">
+            <Button type="submit" variant="secondary" disabled={state.isLoading || !filters.period}>
+              {state.isLoading ? 'Validando…' : 'Validar'}
+            </Button>
+            <Button
+              type="button"
+              onClick={() => void handleDownload()}
+              disabled={isDownloading || state.isLoading || !preview}
+            >
+              {isDownloading ? 'Gerando…' : 'Baixar arquivo'}
+            </Button>
+          </div>
+        </div>
+        {downloadError ? <p className="mt-3 text-sm text-[var(--color-feedback-danger)]">{downloadError}</p> : null}
+      </form>
+
+      {state.error ? (
+        <div className="rounded-xl border border-[var(--color-feedback-danger)] bg-[var(--color-feedback-danger)]/10 px-4 py-3 text-sm text-[var(--color-feedback-danger)]">
+          {state.error}
+        </div>
+      ) : null}
+
+      {state.isLoading && !preview ? (
+        <div className="rounded-2xl border border-[var(--color-border-subtle)] bg-white px-5 py-6 text-center text-sm text-[var(--color-text-secondary)]">
+          Validando documentos do período…
+        </div>
+      ) : preview ? (
+        <>
+          <div className="rounded-2xl border border-[var(--color-border-subtle)] bg-white px-5 py-5 shadow-sm">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <p className="text-xs text-[var(--color-text-secondary)]">
+                Leiaute {preview.summary.layoutVersion} · validado em {formatDateTime(preview.generatedAt)}
+              </p>
+              {errorCount ? (
+                <Badge variant="danger" uppercase={false}>
+                  {formatNumber(errorCount)} pendência(s)
+                </Badge>
+              ) : (
+                <Badge variant="success" uppercase={false}>
+                  Pronto para o PVA
+                </Badge>
+              )}
+            </div>
+            <div className="mt-5 grid gap-3 sm:grid-cols-2 xl:grid-cols-5">
+              <SummaryCard label="Notas" value={formatNumber(preview.summary.documents.invoices)} />
+              <SummaryCard label="NFS-e" value={formatNumber(preview.summary.documents.serviceInvoices)} />
+              <SummaryCard label="Participantes" value={formatNumber(preview.summary.documents.participants)} />
+              <SummaryCard label="Itens" value={formatNumber(preview.summary.documents.items)} />
+              <SummaryCard label="Linhas" value={formatNumber(preview.summary.registers['9999'] ?? 0)} />
+            </div>
+            <div className="mt-3 grid gap-3 lg:grid-cols-2">
+              <SettlementCard title="PIS" settlement={preview.summary.pis} />
+              <SettlementCard title="COFINS" settlement={preview.summary.cofins} />
+            </div>
+          </div>
+
+          <ItemIssuesTable
+            items={preview.validation.items}
+            total={preview.validation.itemsWithIssues}
+          />
+          <ValidationList
+            title="Pendências"
+            description="Dados que o PVA vai recusar ou que deixam a apuração incompleta. Corrija antes de transmitir."
+            items={preview.validation.errors}
+            variant="danger"
+          />
+          <ValidationList
+            title="Avisos"
+            description="Pontos a conferir ou completar no PVA."
+            items={preview.validation.warnings}
+            variant="warning"
+          />
+        </>
+      ) : null}
+    </section>
+  );
+}
+
+type SettlementCardProps = {
+  title: string;
+  settlement: ContributionSettlement;
+};
+
+function SettlementCard({ title, settlement }: SettlementCardProps) {
+  const rows = [
+    { label: 'Contribuição apurada', value: settlement.debit },
+    { label: 'Base dos créditos', value: settlement.creditBase },
+    { label: 'Crédito do período', value: settlement.credit },
+    { label: 'Crédito descontado', value: settlement.creditUsed },
+    { label: 'Saldo de crédito', value: settlement.creditBalance },
+  ];
+  return (
+    <div className="rounded-2xl border border-[var(--color-border-subtle)] bg-white px-4 py-4 shadow-sm">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-xs font-semibold uppercase tracking-[0.24em] text-[var(--color-text-secondary)]">{title}</p>
+        <p className="text-lg font-semibold text-[var(--color-text-primary)]">
+          {formatCurrency(settlement.due)} a recolher
+        </p>
+      </div>
+      <dl className="mt-3 space-y-1 text-sm">
+        {rows.map((row) => (
+          <div key={row.label} className="flex justify-between gap-3">
+            <dt className="text-[var(--color-text-secondary)]">{row.label}</dt>
+            <dd className="font-medium text-[var(--color-text-primary)]">{formatCurrency(row.value)}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+}
+
+type ItemIssuesTableProps = {
+  items: ItemIssue[];
+  total: number;
+};
+
+function ItemIssuesTable({ items, total }: ItemIssuesTableProps) {
+  if (!items.length) {
+    return null;
+  }
+  return (
+    <div className="overflow-hidden rounded-2xl border border-[var(--color-border-subtle)] bg-white shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3 border-b border-[var(--color-border-subtle)] px-5 py-4">
+        <div>
+          <p className="text-sm font-semibold text-[var(--color-text-primary)]">Itens sem CST ou alíquota</p>
+          <p className="text-xs text-[var(--color-text-secondary)]">
+            {total > items.length
+              ? `Mostrando ${formatNumber(items.length)} de ${formatNumber(total)} itens. Reimporte os XMLs para capturar o PIS/COFINS.`
+              : 'Reimporte os XMLs para capturar o PIS/COFINS ou corrija os itens no PVA.'}
+          </p>
+        </div>
+        <Badge variant="danger" uppercase={false}>
+          {formatNumber(total)}
+        </Badge>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-[var(--color-border-subtle)] text-sm">
+          <thead className="bg-[var(--color-gray-50)] text-[var(--color-text-secondary)]">
+            <tr>
+              <th className="px-4 py-3 text-left font-semibold uppercase tracking-[0.14em]">Nota</th>
+              <th className="px-4 py-3 text-left font-semibold uppercase tracking-[0.14em]">Emissão</th>
+              <th className="px-4 py-3 text-right font-semibold uppercase tracking-[0.14em]">Item</th>
+              <th className="px-4 py-3 text-left font-semibold uppercase tracking-[0.14em]">Descrição</th>
+              <th className="px-4 py-3 text-left font-semibold uppercase tracking-[0.14em]">CFOP</th>
+              <th className="px-4 py-3 text-left font-semibold uppercase tracking-[0.14em]">Pendência</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-[var(--color-border-faint)] text-[var(--color-text-primary)]">
+            {items.map((item) => (
+              <tr key={`${item.invoiceId}-${item.itemNumber}`} className="hover:bg-[var(--color-gray-50)]/60">
+                <td className="px-4 py-3">
+                  <p>{item.numero ?? '—'}</p>
+                  <p className="font-mono text-xs text-[var(--color-text-secondary)]">{item.chave}</p>
+                </td>
+                <td className="px-4 py-3">{formatDate(item.emissao)}</td>
+                <td className="px-4 py-3 text-right">{formatNumber(item.itemNumber)}</td>
+                <td className="px-4 py-3">{item.description ?? '—'}</td>
+                <td className="px-4 py-3 font-mono text-xs">{item.cfop}</td>
+                <td className="px-4 py-3 text-xs text-[var(--color-text-secondary)]">{item.issues.join('; ')}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+type ValidationListProps = {
+  title: string;
+  description: string;
+  items: string[];
+  variant: 'danger' | 'warning';
+};
+
+function ValidationList({ title, description, items, variant }: ValidationListProps) {
+  if (!items.length) {
+    return null;
+  }
+  return (
+    <div className="overflow-hidden rounded-2xl border border-[var(--color-border-subtle)] bg-white shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3 border-b border-[var(--color-border-subtle)] px-5 py-4">
+        <div>
+          <p className="text-sm font-semibold text-[var(--color-text-primary)]">{title}</p>
+          <p className="text-xs text-[var(--color-text-secondary)]">{description}</p>
+        </div>
+        <Badge variant={variant} uppercase={false}>
+          {formatNumber(items.length)}
+        </Badge>
+      </div>
+      <ul className="divide-y divide-[var(--color-border-faint)] text-sm text-[var(--color-text-primary)]">
+        {items.map((item) => (
+          <li key={item} className="px-5 py-2">
+            {item}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+type SummaryCardProps = {
+  label: string;
+  value: string;
+};
+
+function SummaryCard({ label, value }: SummaryCardProps) {
+  return (
+    <div className="rounded-2xl border border-[var(--color-border-subtle)] bg-white px-4 py-4 shadow-sm">
+      <p className="text-xs font-semibold uppercase tracking-[0.24em] text-[var(--color-text-secondary)]">{label}</p>
+      <p className="mt-1 text-lg font-semibold text-[var(--color-text-primary)]">{value}</p>
+    </div>
+  );
+}
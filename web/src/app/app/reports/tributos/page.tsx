@@ -119,6 +119,22 @@ type FunruralSection = {
   productSummary: FunruralProductSummary[];
 };
 
+type DifalUfRow = {
+  uf: string;
+  invoiceCount: number;
+  itemCount: number;
+  baseValue: string;
+  icmsUfDest: string;
+  icmsUfRemet: string;
+  fcpUfDest: string;
+  totalDestino: string;
+};
+
+type DifalSection = {
+  byUf: DifalUfRow[];
+  totals: Omit<DifalUfRow, 'uf' | 'invoiceCount' | 'itemCount'>;
+};
+
 type TributosReport = {
   generatedAt: string;
   company: {
@@ -133,8 +149,10 @@ type TributosReport = {
   tributo1: SalesSection;
   tributo2: SalesSection;
   tributo3: FunruralSection;
+  difal: DifalSection;
   overall: {
     totalSalesTax: string;
+    totalDifal: string;
     totalFunrural: string;
     totalDiscountIcms: string;
     grandTotalTax: string;
@@ -392,6 +410,11 @@ function ReportView({ report }: { report: TributosReport }) {
         value: formatCurrency(funrural),
         hint: 'Produtores rurais pessoa física — CFOP 1.101',
       },
+      {
+        label: 'DIFAL (UF de destino)',
+        value: formatCurrency(Number(report.overall.totalDifal)),
+        hint: 'ICMSUFDest + FCP destino nas vendas a consumidor final',
+      },
       {
         label: 'Total geral de tributos',
         value: formatCurrency(Number(report.overall.grandTotalTax)),
@@ -404,8 +427,9 @@ function ReportView({ report }: { report: TributosReport }) {
   const tributo1Ref = useRef<HTMLDivElement>(null);
   const tributo2Ref = useRef<HTMLDivElement>(null);
   const tributo3Ref = useRef<HTMLDivElement>(null);
+  const difalRef = useRef<HTMLDivElement>(null);
 
-  const handleSectionPrint = useCallback((ref: React.RefObject<HTMLDivElement>, title: string) => {
+  const handleSectionPrint = useCallback((ref: React.RefObject<HTMLDivElement | null>, title: string) => {
     if (!ref.current) return;
     const printWindow = window.open('', '_blank', 'width=1400,height=900');
     if (!printWindow) return;
@@ -480,6 +504,13 @@ function ReportView({ report }: { report: TributosReport }) {
           onPrintSection={() => handleSectionPrint(tributo3Ref, 'Tributo 3 — FUNRURAL na compra de café cru')}
         />
       </div>
+
+      <div ref={difalRef}>
+        <DifalSectionView
+          section={report.difal}
+          onPrintSection={() => handleSectionPrint(difalRef, 'DIFAL — ICMS devido por UF de destino')}
+        />
+      </div>
     </div>
   );
 }
@@ -841,6 +872,82 @@ function FunruralSectionView({ section, onPrintSection }: { section: FunruralSec
   );
 }
 
+function DifalSectionView({ section, onPrintSection }: { section: DifalSection; onPrintSection: () => void }) {
+  const hasRows = section.byUf.length > 0;
+
+  return (
+    <section className="space-y-5 rounded-2xl border border-[var(--color-border-subtle)] bg-white p-6 shadow-sm">
+      <header className="space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h2 className="text-base font-semibold text-[var(--color-text-primary)]">DIFAL — ICMS devido por UF de destino</h2>
+            <p className="text-sm text-[var(--color-text-secondary)]">
+              Partilha do ICMS interestadual (grupo ICMSUFDest) nas vendas a consumidor final de outros estados.
+            </p>
+          </div>
+          <Button type="button" variant="secondary" size="sm" onClick={onPrintSection}>
+            Imprimir tributo
+          </Button>
+        </div>
+        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+          <SummaryItem label="UFs de destino" value={section.byUf.length.toString()} hint="Estados com DIFAL no período" />
+          <SummaryItem label="ICMS UF destino" value={formatCurrency(section.totals.icmsUfDest)} hint="vICMSUFDest" />
+          <SummaryItem label="FCP UF destino" value={formatCurrency(section.totals.fcpUfDest)} hint="vFCPUFDest" />
+          <SummaryItem label="Total a recolher" value={formatCurrency(section.totals.totalDestino)} hint="ICMS + FCP destino" variant="accent" />
+        </div>
+      </header>
+
+      {hasRows ? (
+        <div className="overflow-x-auto rounded-xl border border-[var(--color-border-subtle)]">
+          <table className="min-w-full divide-y divide-[var(--color-border-subtle)] text-left text-xs">
+            <thead className="bg-[var(--color-gray-50)] text-[0.68rem] uppercase tracking-[0.24em] text-[var(--color-text-secondary)]">
+              <tr>
+                <th className="px-3 py-2 font-semibold">UF destino</th>
+                <th className="px-3 py-2 font-semibold text-right">Notas</th>
+                <th className="px-3 py-2 font-semibold text-right">Base</th>
+                <th className="px-3 py-2 font-semibold text-right">ICMS destino</th>
+                <th className="px-3 py-2 font-semibold text-right">FCP destino</th>
+                <th className="px-3 py-2 font-semibold text-right">ICMS remetente</th>
+                <th className="px-3 py-2 font-semibold text-right">Total destino</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-[var(--color-border-subtle)] bg-white text-[var(--color-text-primary)]">
+              {section.byUf.map((row) => (
+                <tr key={row.uf}>
+                  <td className="px-3 py-2 font-semibold">{row.uf === 'SEM_UF' ? 'UF não informada' : row.uf}</td>
+                  <td className="px-3 py-2 text-right">{formatNumber(row.invoiceCount)}</td>
+                  <td className="px-3 py-2 text-right whitespace-nowrap">{formatCurrency(row.baseValue)}</td>
+                  <td className="px-3 py-2 text-right whitespace-nowrap">{formatCurrency(row.icmsUfDest)}</td>
+                  <td className="px-3 py-2 text-right whitespace-nowrap">{formatCurrency(row.fcpUfDest)}</td>
+                  <td className="px-3 py-2 text-right whitespace-nowrap text-[var(--color-text-secondary)]">{formatCurrency(row.icmsUfRemet)}</td>
+                  <td className="px-3 py-2 text-right whitespace-nowrap font-semibold text-[var(--color-brand-primary)]">
+                    {formatCurrency(row.totalDestino)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot className="bg-[var(--color-gray-50)] text-[var(--color-text-primary)]">
+              <tr>
+                <td className="px-3 py-2 font-semibold" colSpan={2}>Totais</td>
+                <TaxTotalsCell value={section.totals.baseValue} />
+                <TaxTotalsCell value={section.totals.icmsUfDest} />
+                <TaxTotalsCell value={section.totals.fcpUfDest} />
+                <TaxTotalsCell value={section.totals.icmsUfRemet} />
+                <TaxTotalsCell value={section.totals.totalDestino} highlight />
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      ) : (
+        <EmptyState
+          title="Nenhuma venda com DIFAL"
+          description="Não encontramos saídas com o grupo ICMSUFDest no período filtrado."
+        />
+      )}
+    </section>
+  );
+}
+
 function SummaryItem({
   label,
   value,
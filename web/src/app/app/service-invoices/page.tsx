@@ -0,0 +1,281 @@
+'use client';
+
+import { FormEvent, useCallback, useEffect, useMemo, useState } from 'react';
+import { fetchJson } from '@/lib/api';
+import { formatCnpj, formatCurrency, formatDate } from '@/lib/format';
+import { useCompanyContext } from '../_context/company-context';
+import { Button } from '@/ui/button';
+import { Badge } from '@/ui/badge';
+
+type ServiceInvoice = {
+  id: string;
+  type: 'IN' | 'OUT';
+  numero: string;
+  codigoVerificacao: string | null;
+  emissao: string;
+  competencia: string | null;
+  providerCnpj: string;
+  providerName: string | null;
+  providerMunicipio: string | null;
+  takerCnpj: string | null;
+  takerName: string | null;
+  serviceCode: string | null;
+  municipalServiceCode: string | null;
+  description: string | null;
+  servicesValue: string;
+  issValue: string | null;
+  issWithheld: boolean;
+  issWithheldValue: string | null;
+  pisValue: string | null;
+  cofinsValue: string | null;
+  irValue: string | null;
+  csllValue: string | null;
+  inssValue: string | null;
+  netValue: string | null;
+  totalValue: string;
+};
+
+type ServiceInvoiceResponse = {
+  items: ServiceInvoice[];
+  nextCursor?: string | null;
+};
+
+type Filters = { search: string; type: 'ALL' | 'IN' | 'OUT'; from: string; to: string };
+
+const EMPTY_FILTERS: Filters = { search: '', type: 'ALL', from: '', to: '' };
+
+function sumRetentions(nfse: ServiceInvoice): number {
+  return [nfse.pisValue, nfse.cofinsValue, nfse.irValue, nfse.csllValue, nfse.inssValue].reduce(
+    (sum, value) => sum + Number(value ?? 0),
+    0,
+  );
+}
+
+export default function ServiceInvoicesPage() {
+  const { selectedCompany, selectedCompanyId } = useCompanyContext();
+  const [serviceInvoices, setServiceInvoices] = useState<ServiceInvoice[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+
+  const loadServiceInvoices = useCallback(
+    async (opts?: { append?: boolean; cursor?: string | null }) => {
+      if (!selectedCompanyId) return;
+      setLoading(true);
+      setError(null);
+      try {
+        const params = new URLSearchParams();
+        params.set('companyId', selectedCompanyId);
+        if (filters.search.trim()) params.set('search', filters.search.trim());
+        if (filters.type !== 'ALL') params.set('type', filters.type);
+        if (filters.from) params.set('from', filters.from);
+        if (filters.to) params.set('to', filters.to);
+        if (opts?.cursor) params.set('cursor', opts.cursor);
+
+        const response = await fetchJson<ServiceInvoiceResponse>(`/service-invoices?${params.toString()}`);
+        setNextCursor(response.nextCursor ?? null);
+        setServiceInvoices((prev) => (opts?.append ? [...prev, ...response.items] : response.items));
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Falha ao carregar NFS-e.';
+        setError(message);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [filters.from, filters.search, filters.to, filters.type, selectedCompanyId],
+  );
+
+  useEffect(() => {
+    setServiceInvoices([]);
+    setNextCursor(null);
+    if (selectedCompanyId) {
+      void loadServiceInvoices();
+    }
+  }, [loadServiceInvoices, selectedCompanyId]);
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    void loadServiceInvoices();
+  };
+
+  const hasResults = useMemo(() => serviceInvoices.length > 0, [serviceInvoices.length]);
+
+  return (
+    <div className="space-y-6 px-4 md:px-6">
+      <header className="space-y-1">
+        <p className="text-xs font-semibold uppercase tracking-[0.24em] text-[var(--color-text-secondary)]">Operação</p>
+        <h1 className="text-2xl font-semibold text-[var(--color-text-primary)]">NFS-e</h1>
+        <p className="text-sm text-[var(--color-text-secondary)]">Notas fiscais de serviço (padrão ABRASF) importadas via XML.</p>
+        {selectedCompany ? (
+          <div className="text-xs text-[var(--color-text-secondary)]">
+            <span className="font-semibold text-[var(--color-text-primary)]">{selectedCompany.name}</span>{' '}
+            · CNPJ {selectedCompany.cnpj}
+          </div>
+        ) : null}
+      </header>
+
+      <form
+        className="flex flex-wrap items-end gap-3 rounded-xl border border-[var(--color-border-subtle)] bg-[var(--color-surface-card)] px-4 py-3 shadow-sm"
+        onSubmit={handleSubmit}
+      >
+        <label className="grid gap-1 text-xs text-[var(--color-text-primary)]">
+          <span className="font-semibold">Buscar</span>
+          <input
+            type="text"
+            value={filters.search}
+            onChange={(e) => setFilters((prev) => ({ ...prev, search: e.target.value }))}
+            placeholder="Número, prestador, tomador ou item"
+            className="h-9 w-56 rounded-md border border-[var(--color-border-subtle)] bg-white px-2 text-sm shadow-sm"
+          />
+        </label>
+        <label className="grid gap-1 text-xs text-[var(--color-text-primary)]">
+          <span className="font-semibold">Tipo</span>
+          <select
+            value={filters.type}
+            onChange={(e) => setFilters((prev) => ({ ...prev, type: e.target.value as Filters['type'] }))}
+            className="h-9 rounded-md border border-[var(--color-border-subtle)] bg-white px-2 text-sm shadow-sm"
+          >
+            <option value="ALL">Todas</option>
+            <option value="IN">Tomadas</option>
+            <option value="OUT">Prestadas</option>
+          </select>
+        </label>
+        <label className="grid gap-1 text-xs text-[var(--color-text-primary)]">
+          <span className="font-semibold">Período início</span>
+          <input
+            type="date"
+            value={filters.from}
+            onChange={(e) => setFilters((prev) => ({ ...prev, from: e.target.value }))}
+            className="h-9 rounded-md border border-[var(--color-border-subtle)] bg-white px-2 text-sm shadow-sm"
+          />
+        </label>
+        <label className="grid gap-1 text-xs text-[var(--color-text-primary)]">
+          <span className="font-semibold">Período fim</span>
+          <input
+            type="date"
+            value={filters.to}
+            onChange={(e) => setFilters((prev) => ({ ...prev, to: e.target.value }))}
+            className="h-9 rounded-md border border-[var(--color-border-subtle)] bg-white px-2 text-sm shadow-sm"
+          />
+        </label>
+        <div className="flex flex-1 flex-wrap justify-end gap-2">
+          <Button type="submit" disabled={loading || !selectedCompanyId}>
+            {loading ? 'Carregando…' : 'Aplicar filtros'}
+          </Button>
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={() => {
+              setFilters(EMPTY_FILTERS);
+              void loadServiceInvoices({ append: false });
+            }}
+            disabled={loading}
+          >
+            Limpar
+          </Button>
+        </div>
+      </form>
+
+      {error ? (
+        <div className="rounded-lg border border-[var(--color-feedback-danger)]/60 bg-[var(--color-feedback-danger)]/10 px-3 py-2 text-sm text-[var(--color-feedback-danger)]">
+          {error}
+        </div>
+      ) : null}
+
+      <div className="rounded-2xl border border-[var(--color-border-subtle)] bg-white shadow-sm">
+        <div className="flex items-center justify-between border-b border-[var(--color-border-subtle)] px-4 py-3">
+          <div className="space-y-1">
+            <p className="text-xs uppercase tracking-[0.2em] text-[var(--color-text-secondary)]">NFS-e importadas</p>
+            <p className="text-sm text-[var(--color-text-secondary)]">
+              {hasResults ? `${serviceInvoices.length} registro(s)` : 'Nenhuma NFS-e encontrada para os filtros.'}
+            </p>
+          </div>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-[var(--color-border-subtle)] text-sm">
+            <thead className="bg-[var(--color-gray-50)] text-[var(--color-text-secondary)]">
+              <tr>
+                <th className="px-4 py-3 text-left font-semibold uppercase tracking-[0.14em]">Número</th>
+                <th className="px-4 py-3 text-left font-semibold uppercase tracking-[0.14em]">Data</th>
+                <th className="px-4 py-3 text-left font-semibold uppercase tracking-[0.14em]">Prestador</th>
+                <th className="px-4 py-3 text-left font-semibold uppercase tracking-[0.14em]">Tomador</th>
+                <th className="px-4 py-3 text-left font-semibold uppercase tracking-[0.14em]">Serviço</th>
+                <th className="px-4 py-3 text-right font-semibold uppercase tracking-[0.14em]">ISS</th>
+                <th className="px-4 py-3 text-right font-semibold uppercase tracking-[0.14em]">Retenções</th>
+                <th className="px-4 py-3 text-right font-semibold uppercase tracking-[0.14em]">Total</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-[var(--color-border-faint)] text-[var(--color-text-primary)]">
+              {loading && !serviceInvoices.length ? (
+                <tr>
+                  <td colSpan={8} className="px-4 py-6 text-center text-sm text-[var(--color-text-secondary)]">
+                    Carregando NFS-e…
+                  </td>
+                </tr>
+              ) : serviceInvoices.length ? (
+                serviceInvoices.map((nfse) => (
+                  <tr key={nfse.id} className="hover:bg-[var(--color-gray-50)]/60">
+                    <td className="px-4 py-3">
+                      <div className="flex items-center gap-2">
+                        <span className="font-semibold">{nfse.numero}</span>
+                        <Badge variant={nfse.type === 'IN' ? 'info' : 'success'}>
+                          {nfse.type === 'IN' ? 'Tomada' : 'Prestada'}
+                        </Badge>
+                      </div>
+                      {nfse.codigoVerificacao ? (
+                        <div className="font-mono text-xs text-[var(--color-text-secondary)]">{nfse.codigoVerificacao}</div>
+                      ) : null}
+                    </td>
+                    <td className="px-4 py-3">{formatDate(nfse.emissao)}</td>
+                    <td className="px-4 py-3">
+                      <div className="font-semibold">{nfse.providerName || '—'}</div>
+                      <div className="font-mono text-xs text-[var(--color-text-secondary)]">{formatCnpj(nfse.providerCnpj)}</div>
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="font-semibold">{nfse.takerName || '—'}</div>
+                      <div className="font-mono text-xs text-[var(--color-text-secondary)]">{formatCnpj(nfse.takerCnpj)}</div>
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="font-semibold">{nfse.serviceCode ? `Item ${nfse.serviceCode}` : '—'}</div>
+                      {nfse.description ? (
+                        <div className="line-clamp-2 max-w-xs text-xs text-[var(--color-text-secondary)]">{nfse.description}</div>
+                      ) : null}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      <div>{formatCurrency(nfse.issValue || '0')}</div>
+                      {nfse.issWithheld ? (
+                        <div className="text-xs text-[var(--color-feedback-warning)]">
+                          Retido {formatCurrency(nfse.issWithheldValue || nfse.issValue || '0')}
+                        </div>
+                      ) : null}
+                    </td>
+                    <td className="px-4 py-3 text-right">{formatCurrency(sumRetentions(nfse))}</td>
+                    <td className="px-4 py-3 text-right font-semibold">{formatCurrency(nfse.totalValue)}</td>
+                  </tr>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={8} className="px-4 py-6 text-center text-sm text-[var(--color-text-secondary)]">
+                    Nenhuma NFS-e para exibir.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+        {nextCursor ? (
+          <div className="border-t border-[var(--color-border-subtle)] bg-[var(--color-gray-50)] px-4 py-3">
+            <Button
+              variant="secondary"
+              onClick={() => loadServiceInvoices({ append: true, cursor: nextCursor })}
+              disabled={loading}
+            >
+              {loading ? 'Carregando…' : 'Carregar mais'}
+            </Button>
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
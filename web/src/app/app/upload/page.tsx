@@ -1,23 +1,112 @@
 'use client';
 
-import { FormEvent, Suspense, useMemo, useRef, useState } from 'react';
+import { FormEvent, Suspense, useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useSearchParams } from 'next/navigation';
 import { ApiError, fetchJson } from '@/lib/api';
+import { formatDateTime } from '@/lib/format';
 import { Badge } from '@/ui/badge';
 import { Button } from '@/ui/button';
 import { useCompanyContext } from '../_context/company-context';
 
-type UploadResult = {
+type UploadCounts = {
   inserted: number;
+  updated: number;
   duplicate: number;
   failed: number;
+  cancelled: number;
+};
+
+type UploadResult = UploadCounts & {
   details: Array<{
     file: string;
-    status: 'inserted' | 'duplicate' | 'failed';
+    status: 'inserted' | 'updated' | 'duplicate' | 'failed' | 'cancelled';
     reason?: string | null;
+    warning?: string | null;
+    source?: string | null;
+    company?: string | null;
+    rule?: { id: string; name: string; action: 'IGNORE' | 'FLAG' | 'SET_NATUREZA' } | null;
+    integrity?: { signatureStatus: string | null; issues: Array<{ code: string; message: string }> } | null;
   }>;
+  byCompany?: Array<UploadCounts & { companyId: string; companyName: string }>;
+};
+
+type UploadBatchStatus = 'QUEUED' | 'RUNNING' | 'COMPLETED' | 'FAILED';
+
+type UploadBatch = {
+  batchId: string;
+  status: UploadBatchStatus;
+  fileName: string | null;
+  totalFiles: number | null;
+  processedFiles: number;
+  progress: number;
+  counts: UploadCounts;
+  error: string | null;
+  createdAt: string;
+  finishedAt: string | null;
+  summary?: UploadResult;
+};
+
+type RollbackPreview = {
+  batchId: string;
+  fileName: string | null;
+  blockingBatches: string[];
+  remove: Record<string, number>;
+  restore: Record<string, number>;
 };
 
+const POLL_INTERVAL_MS = 1500;
+const RECENT_BATCHES_LIMIT = 10;
+
+const ROLLBACK_REMOVE_LABELS: Record<string, string> = {
+  invoices: 'Notas inseridas',
+  cancellations: 'Cancelamentos',
+  invoiceEvents: 'Eventos de NF-e',
+  ctes: 'CT-e',
+  cteEvents: 'Eventos de CT-e',
+  numberVoidings: 'Inutilizações',
+  mdfes: 'MDF-e',
+  serviceInvoices: 'NFS-e',
+};
+
+const ROLLBACK_RESTORE_LABELS: Record<string, string> = {
+  updatedInvoices: 'Notas atualizadas (volta a versão anterior)',
+  deletedInvoices: 'Notas apagadas por cancelamento',
+  cancellations: 'Cancelamentos sobrescritos',
+  serviceInvoices: 'NFS-e marcadas como canceladas',
+  reactivatedCtes: 'CT-e cancelados pelo lote',
+};
+
+const BATCH_STATUS_LABELS: Record<UploadBatchStatus, string> = {
+  QUEUED: 'Na fila',
+  RUNNING: 'Processando',
+  COMPLETED: 'Concluído',
+  FAILED: 'Falhou',
+};
+
+const RULE_ACTION_LABELS: Record<'IGNORE' | 'FLAG' | 'SET_NATUREZA', string> = {
+  IGNORE: 'ignorada',
+  FLAG: 'importada sinalizada',
+  SET_NATUREZA: 'natureza forçada',
+};
+
+function isBatchActive(batch: UploadBatch | null) {
+  return batch?.status === 'QUEUED' || batch?.status === 'RUNNING';
+}
+
+function detailVariant(status: UploadResult['details'][number]['status']) {
+  if (status === 'failed') return 'danger';
+  if (status === 'duplicate') return 'warning';
+  if (status === 'updated' || status === 'cancelled') return 'info';
+  return 'success';
+}
+
+const ACCEPTED_EXTENSIONS = ['.zip', '.xml'];
+
+function isAcceptedFile(file: File) {
+  const name = file.name.toLowerCase();
+  return ACCEPTED_EXTENSIONS.some((extension) => name.endsWith(extension));
+}
+
 type UploadPageContentProps = {
   initialCompanyId: string;
   fallbackCompanyId?: string;
@@ -25,15 +114,115 @@ type UploadPageContentProps = {
 
 function UploadPageContent({ initialCompanyId, fallbackCompanyId }: UploadPageContentProps) {
   const [companyId, setCompanyId] = useState(initialCompanyId);
-  const [file, setFile] = useState<File | null>(null);
+  const [files, setFiles] = useState<File[]>([]);
   const [fileKey, setFileKey] = useState(0);
-  const [result, setResult] = useState<UploadResult | null>(null);
+  const [batch, setBatch] = useState<UploadBatch | null>(null);
+  const [recentBatches, setRecentBatches] = useState<UploadBatch[]>([]);
+  const [recentVersion, setRecentVersion] = useState(0);
+  const [rollback, setRollback] = useState<RollbackPreview | null>(null);
+  const [isRollingBack, setIsRollingBack] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
+  const [routeByCnpj, setRouteByCnpj] = useState(false);
   const dropRef = useRef<HTMLLabelElement | null>(null);
   const { selectedCompanyId, handleCompanyNotFound } = useCompanyContext();
 
+  const result = batch?.summary ?? null;
+  const activeBatchId = isBatchActive(batch) ? batch?.batchId ?? null : null;
+
+  const loadBatch = useCallback(async (batchId: string) => {
+    const data = await fetchJson<UploadBatch>(
+      `/uploads/${encodeURIComponent(batchId)}?companyId=${encodeURIComponent(companyId.trim())}`
+    );
+    setBatch(data);
+  }, [companyId]);
+
+  // Ao abrir a página, retoma o lote mais recente: acompanha se ainda está rodando ou mostra o resumo final
+  useEffect(() => {
+    const trimmed = initialCompanyId.trim();
+    if (!trimmed) return;
+    let cancelled = false;
+    fetchJson<{ items: UploadBatch[] }>(`/uploads?companyId=${encodeURIComponent(trimmed)}&limit=1`)
+      .then(async (data) => {
+        const latest = data.items[0];
+        if (!latest || cancelled) return;
+        const detailed = await fetchJson<UploadBatch>(
+          `/uploads/${encodeURIComponent(latest.batchId)}?companyId=${encodeURIComponent(trimmed)}`
+        );
+        if (!cancelled) setBatch(detailed);
+      })
+      .catch(() => {
+        // Sem histórico disponível: a página segue só com o formulário
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [initialCompanyId]);
+
+  // Lista recarregada quando um lote começa/termina ou depois de desfazer
+  useEffect(() => {
+    const trimmed = initialCompanyId.trim();
+    if (!trimmed) return;
+    let cancelled = false;
+    fetchJson<{ items: UploadBatch[] }>(
+      `/uploads?companyId=${encodeURIComponent(trimmed)}&limit=${RECENT_BATCHES_LIMIT}`
+    )
+      .then((data) => {
+        if (!cancelled) setRecentBatches(data.items);
+      })
+      .catch(() => {
+        if (!cancelled) setRecentBatches([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [initialCompanyId, recentVersion, activeBatchId]);
+
+  useEffect(() => {
+    if (!activeBatchId) return;
+    const timer = window.setInterval(() => {
+      loadBatch(activeBatchId).catch((err) => {
+        setError(err instanceof Error ? err.message : 'Falha ao consultar o andamento do lote.');
+      });
+    }, POLL_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [activeBatchId, loadBatch]);
+
+  const rollbackPath = (batchId: string, dryRun: boolean) =>
+    `/uploads/${encodeURIComponent(batchId)}?companyId=${encodeURIComponent(companyId.trim())}${dryRun ? '&dryRun=true' : ''}`;
+
+  const previewRollback = async (batchId: string) => {
+    setError(null);
+    setNotice(null);
+    try {
+      const preview = await fetchJson<RollbackPreview>(rollbackPath(batchId, true), { method: 'DELETE' });
+      setRollback(preview);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Falha ao simular a exclusão do lote.');
+    }
+  };
+
+  const confirmRollback = async () => {
+    if (!rollback) return;
+    setIsRollingBack(true);
+    setError(null);
+    try {
+      await fetchJson(rollbackPath(rollback.batchId, false), { method: 'DELETE' });
+      setNotice(`Lote ${rollback.batchId.slice(0, 8)} desfeito.`);
+      if (batch?.batchId === rollback.batchId) {
+        setBatch(null);
+      }
+      setRollback(null);
+      setRecentVersion((version) => version + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Falha ao desfazer o lote.');
+    } finally {
+      setIsRollingBack(false);
+    }
+  };
+
   const limitsInfo = useMemo(() => {
     const maxFiles = process.env.NEXT_PUBLIC_MAX_XML_FILES || '10000';
     const maxSize = process.env.NEXT_PUBLIC_MAX_XML_FILE_SIZE_MB || '5';
@@ -48,28 +237,39 @@ function UploadPageContent({ initialCompanyId, fallbackCompanyId }: UploadPageCo
       return;
     }
 
-    if (!file) {
-      setError('Selecione um arquivo .zip contendo as notas.');
+    if (!files.length) {
+      setError('Selecione arquivos .xml ou .zip contendo as notas.');
       return;
     }
 
     const formData = new FormData();
-    formData.append('file', file);
+    files.forEach((selected) => formData.append('files', selected));
 
     setIsSubmitting(true);
     setError(null);
 
     try {
-      const summary = await fetchJson<UploadResult>(
-        `/invoices/upload-xml?companyId=${encodeURIComponent(companyId.trim())}`,
+      const queued = await fetchJson<{ batchId: string; status: UploadBatchStatus }>(
+        `/invoices/upload-xml?companyId=${encodeURIComponent(companyId.trim())}${routeByCnpj ? '&routeByCnpj=true' : ''}`,
         {
           method: 'POST',
           body: formData,
           onNotFound: () => handleCompanyNotFound(companyId.trim() || selectedCompanyId),
         }
       );
-      setResult(summary);
-      setFile(null);
+      setBatch({
+        batchId: queued.batchId,
+        status: queued.status,
+        fileName: files.map((item) => item.name).join(', '),
+        totalFiles: null,
+        processedFiles: 0,
+        progress: 0,
+        counts: { inserted: 0, updated: 0, duplicate: 0, failed: 0, cancelled: 0 },
+        error: null,
+        createdAt: new Date().toISOString(),
+        finishedAt: null,
+      });
+      setFiles([]);
       setFileKey((key) => key + 1);
     } catch (err) {
       const message =
@@ -79,17 +279,28 @@ function UploadPageContent({ initialCompanyId, fallbackCompanyId }: UploadPageCo
             ? err.message
             : 'Upload falhou. Tente novamente.';
       setError(message);
-      setResult(null);
     } finally {
       setIsSubmitting(false);
     }
   };
 
   const resetSelection = () => {
-    setFile(null);
+    setFiles([]);
     setFileKey((key) => key + 1);
   };
 
+  // Arquivos de seleções/arrastos sucessivos se acumulam; o mesmo nome e tamanho não entra duas vezes
+  const addFiles = (incoming: File[]) => {
+    const accepted = incoming.filter(isAcceptedFile);
+    if (!accepted.length) return;
+    setFiles((prev) => {
+      const known = new Set(prev.map((item) => `${item.name}:${item.size}`));
+      return [...prev, ...accepted.filter((item) => !known.has(`${item.name}:${item.size}`))];
+    });
+  };
+
+  const totalSizeMb = files.reduce((acc, item) => acc + item.size, 0) / (1024 * 1024);
+
   return (
     <div className="space-y-8">
       <section className="flex flex-col gap-4 rounded-2xl border border-[var(--color-border-subtle)] bg-[var(--color-surface-card)] px-5 py-6 shadow-sm">
@@ -99,7 +310,7 @@ function UploadPageContent({ initialCompanyId, fallbackCompanyId }: UploadPageCo
             <div>
               <h1 className="text-xl font-semibold text-[var(--color-text-primary)]">Subir XMLs de NF-e</h1>
               <p className="text-sm text-[var(--color-text-secondary)]">
-                Envie um arquivo .zip com XMLs de NF-e. Ele é processado em memória e gravado direto no banco (nenhum arquivo fica salvo em disco).
+                Envie XMLs soltos e/ou arquivos .zip (inclusive zips dentro de zips). Tudo entra num único lote processado em segundo plano — pode sair da página e voltar depois para ver o resultado.
               </p>
             </div>
             <div className="flex flex-wrap gap-2 text-xs text-[var(--color-text-secondary)]">
@@ -134,12 +345,27 @@ function UploadPageContent({ initialCompanyId, fallbackCompanyId }: UploadPageCo
                 </button>
               )}
             </label>
+            <label className="flex items-start gap-2 text-xs text-[var(--color-text-secondary)]">
+              <input
+                type="checkbox"
+                checked={routeByCnpj}
+                onChange={(event) => setRouteByCnpj(event.target.checked)}
+                className="mt-0.5"
+              />
+              <span>
+                <span className="font-medium text-[var(--color-text-primary)]">Distribuir entre as empresas cadastradas</span>
+                {' '}— cada documento vai para a empresa cujo CNPJ é emitente, destinatário ou tomador; notas entre empresas do grupo entram nas duas.
+              </span>
+            </label>
             <div className="rounded-lg border border-[var(--color-border-subtle)] bg-[var(--color-gray-50)] px-3 py-3 text-xs text-[var(--color-text-secondary)]">
               <p className="font-semibold text-[var(--color-text-primary)]">Como funciona</p>
               <ul className="mt-2 space-y-1 list-disc pl-4">
                 <li>Validação de layout e cancelamentos; notas canceladas são registradas em tabela própria.</li>
-                <li>Nenhum arquivo fica armazenado em disco — apenas os dados persistem no banco.</li>
+                <li>Inutilizações de numeração (procInutNFe) homologadas entram na conferência da sequência de notas emitidas.</li>
+                <li>Os arquivos enviados ficam guardados só até o lote terminar; depois apenas os dados importados persistem no banco.</li>
                 <li>Use “fila de mapeamento” em Produtos para vincular itens importados.</li>
+                <li>Regras de ingestão da empresa podem ignorar, sinalizar ou reclassificar notas durante a importação.</li>
+                <li>Chave de acesso, CNPJ/CPF e assinatura digital são conferidos; XML com divergência é importado e sinalizado.</li>
               </ul>
             </div>
           </div>
@@ -158,29 +384,30 @@ function UploadPageContent({ initialCompanyId, fallbackCompanyId }: UploadPageCo
               onDrop={(event) => {
                 event.preventDefault();
                 setIsDragging(false);
-                const dropped = event.dataTransfer.files?.[0];
-                if (dropped && dropped.name.toLowerCase().endsWith('.zip')) {
-                  setFile(dropped);
-                  setFileKey((key) => key + 1);
-                }
+                addFiles(Array.from(event.dataTransfer.files ?? []));
+                setFileKey((key) => key + 1);
               }}
               className={`flex h-full min-h-[200px] cursor-pointer flex-col justify-center gap-3 rounded-xl border-2 border-dashed px-4 py-6 text-sm transition ${isDragging ? 'border-[var(--color-brand-primary)] bg-[var(--color-gray-50)]' : 'border-[var(--color-border-subtle)] bg-white'} hover:border-[var(--color-brand-accent)]`}
             >
-              <span className="text-sm font-semibold text-[var(--color-text-primary)]">Arraste e solte o .zip aqui</span>
-              <span className="text-xs text-[var(--color-text-secondary)]">ou clique para selecionar um arquivo .zip com XMLs de NF-e</span>
+              <span className="text-sm font-semibold text-[var(--color-text-primary)]">Arraste e solte XMLs ou .zip aqui</span>
+              <span className="text-xs text-[var(--color-text-secondary)]">ou clique para selecionar vários arquivos .xml/.zip de uma vez</span>
               <input
                 key={fileKey}
                 type="file"
-                accept=".zip"
+                accept={ACCEPTED_EXTENSIONS.join(',')}
+                multiple
                 className="hidden"
                 onChange={(event) => {
-                  const selected = event.target.files?.[0] ?? null;
-                  setFile(selected);
+                  addFiles(Array.from(event.target.files ?? []));
                 }}
               />
-              {file ? (
+              {files.length ? (
                 <div className="flex items-center justify-between rounded-lg border border-[var(--color-border-subtle)] bg-[var(--color-gray-50)] px-3 py-2 text-xs text-[var(--color-text-secondary)]">
-                  <span className="truncate">{file.name}</span>
+                  <span className="truncate">
+                    {files.length === 1
+                      ? files[0].name
+                      : `${files.length} arquivos (${files.filter((item) => item.name.toLowerCase().endsWith('.zip')).length} zip) · ${totalSizeMb.toFixed(1)} MB`}
+                  </span>
                   <button
                     type="button"
                     onClick={resetSelection}
@@ -192,7 +419,7 @@ function UploadPageContent({ initialCompanyId, fallbackCompanyId }: UploadPageCo
               ) : null}
             </label>
             <div className="flex justify-end">
-              <Button type="submit" disabled={isSubmitting}>
+              <Button type="submit" disabled={isSubmitting || Boolean(activeBatchId)}>
                 {isSubmitting ? 'Enviando...' : 'Enviar XMLs'}
               </Button>
             </div>
@@ -209,10 +436,59 @@ function UploadPageContent({ initialCompanyId, fallbackCompanyId }: UploadPageCo
         </div>
       )}
 
+      {notice && (
+        <div className="rounded-xl border border-[var(--color-border-subtle)] bg-[var(--color-gray-50)] px-4 py-3 text-sm text-[var(--color-text-primary)]">
+          {notice}
+        </div>
+      )}
+
+      {batch && (
+        <section className="space-y-3 rounded-2xl border border-[var(--color-border-subtle)] bg-[var(--color-surface-card)] px-4 py-4 shadow-sm">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="min-w-0">
+              <p className="text-sm font-semibold text-[var(--color-text-primary)]">
+                Lote {batch.batchId.slice(0, 8)}
+              </p>
+              {batch.fileName ? (
+                <p className="truncate text-xs text-[var(--color-text-secondary)]">{batch.fileName}</p>
+              ) : null}
+            </div>
+            <Badge
+              variant={batch.status === 'FAILED' ? 'danger' : batch.status === 'COMPLETED' ? 'success' : 'info'}
+              uppercase
+            >
+              {BATCH_STATUS_LABELS[batch.status]}
+            </Badge>
+          </div>
+          <div className="h-2 overflow-hidden rounded-full bg-[var(--color-gray-50)]">
+            <div
+              className={`h-full rounded-full transition-all ${batch.status === 'FAILED' ? 'bg-[var(--color-feedback-danger)]' : 'bg-[var(--color-brand-primary)]'}`}
+              style={{ width: `${Math.round(batch.progress * 100)}%` }}
+            />
+          </div>
+          <p className="text-xs text-[var(--color-text-secondary)]">
+            {batch.totalFiles != null
+              ? `${batch.processedFiles} de ${batch.totalFiles} XMLs processados`
+              : 'Aguardando início do processamento...'}
+            {' · '}
+            {batch.counts.inserted} inseridas · {batch.counts.updated} atualizadas · {batch.counts.duplicate} duplicadas · {batch.counts.cancelled} canceladas · {batch.counts.failed} falhas
+          </p>
+          {batch.error ? (
+            <p className="text-xs text-[var(--color-feedback-danger)]">{batch.error}</p>
+          ) : null}
+        </section>
+      )}
+
       {result && (
         <section className="space-y-4 rounded-2xl border border-[var(--color-border-subtle)] bg-[var(--color-surface-card)] px-4 py-4 shadow-sm">
-          <div className="grid gap-4 sm:grid-cols-3">
-            {[{ label: 'Inseridas', value: result.inserted }, { label: 'Duplicadas', value: result.duplicate }, { label: 'Falhas', value: result.failed }].map((item) => (
+          <div className="grid gap-4 sm:grid-cols-5">
+            {[
+              { label: 'Inseridas', value: result.inserted },
+              { label: 'Atualizadas', value: result.updated },
+              { label: 'Duplicadas', value: result.duplicate },
+              { label: 'Canceladas', value: result.cancelled },
+              { label: 'Falhas', value: result.failed },
+            ].map((item) => (
               <div key={item.label} className="rounded-xl border border-[var(--color-border-subtle)] bg-white px-4 py-3">
                 <p className="text-xs uppercase tracking-[0.24em] text-[var(--color-text-secondary)]">{item.label}</p>
                 <p className="text-2xl font-semibold text-[var(--color-text-primary)]">{item.value}</p>
@@ -220,6 +496,35 @@ function UploadPageContent({ initialCompanyId, fallbackCompanyId }: UploadPageCo
             ))}
           </div>
 
+          {result.byCompany && result.byCompany.length > 0 && (
+            <div className="overflow-x-auto rounded-xl border border-[var(--color-border-subtle)]">
+              <table className="min-w-full divide-y divide-[var(--color-border-subtle)] text-left text-sm">
+                <thead className="bg-[var(--color-gray-50)] text-xs font-semibold uppercase tracking-wide text-[var(--color-text-secondary)]">
+                  <tr>
+                    <th className="px-3 py-2">Empresa</th>
+                    <th className="px-3 py-2 text-right">Inseridas</th>
+                    <th className="px-3 py-2 text-right">Atualizadas</th>
+                    <th className="px-3 py-2 text-right">Duplicadas</th>
+                    <th className="px-3 py-2 text-right">Canceladas</th>
+                    <th className="px-3 py-2 text-right">Falhas</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-[var(--color-border-subtle)] tabular-nums">
+                  {result.byCompany.map((entry) => (
+                    <tr key={entry.companyId} className="bg-white">
+                      <td className="px-3 py-2 text-xs font-medium text-[var(--color-text-primary)]">{entry.companyName}</td>
+                      <td className="px-3 py-2 text-right text-xs">{entry.inserted}</td>
+                      <td className="px-3 py-2 text-right text-xs">{entry.updated}</td>
+                      <td className="px-3 py-2 text-right text-xs">{entry.duplicate}</td>
+                      <td className="px-3 py-2 text-right text-xs">{entry.cancelled}</td>
+                      <td className="px-3 py-2 text-right text-xs">{entry.failed}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
           <div className="overflow-x-auto rounded-xl border border-[var(--color-border-subtle)]">
             <table className="min-w-full divide-y divide-[var(--color-border-subtle)] text-left text-sm">
               <thead className="bg-[var(--color-gray-50)] text-xs font-semibold uppercase tracking-wide text-[var(--color-text-secondary)]">
@@ -237,18 +542,40 @@ function UploadPageContent({ initialCompanyId, fallbackCompanyId }: UploadPageCo
                     </td>
                   </tr>
                 ) : (
-                  result.details.map((detail) => (
-                    <tr key={`${detail.file}-${detail.status}`} className="bg-white">
-                      <td className="px-3 py-3 text-xs font-medium text-[var(--color-text-primary)] break-all">{detail.file}</td>
+                  result.details.map((detail, index) => (
+                    <tr key={`${detail.source ?? ''}/${detail.file}-${index}`} className="bg-white">
+                      <td className="px-3 py-3 text-xs font-medium text-[var(--color-text-primary)] break-all">
+                        {detail.file}
+                        {detail.source ? (
+                          <div className="font-normal text-[var(--color-text-secondary)]">em {detail.source}</div>
+                        ) : null}
+                        {detail.company ? (
+                          <div className="font-normal text-[var(--color-brand-secondary)]">→ {detail.company}</div>
+                        ) : null}
+                      </td>
                       <td className="px-3 py-3">
-                        <Badge
-                          variant={detail.status === 'failed' ? 'danger' : detail.status === 'duplicate' ? 'warning' : 'success'}
-                          uppercase
-                        >
+                        <Badge variant={detailVariant(detail.status)} uppercase>
                           {detail.status}
                         </Badge>
                       </td>
-                      <td className="px-3 py-3 text-xs text-[var(--color-text-secondary)]">{detail.reason || '--'}</td>
+                      <td className="px-3 py-3 text-xs text-[var(--color-text-secondary)]">
+                        {detail.reason || (detail.warning ? null : '--')}
+                        {detail.warning ? (
+                          <div className="text-[var(--color-feedback-warning)]">{detail.warning}</div>
+                        ) : null}
+                        {detail.rule && detail.rule.action !== 'IGNORE' ? (
+                          <div className="text-[var(--color-brand-secondary)]">
+                            Regra “{detail.rule.name}”: {RULE_ACTION_LABELS[detail.rule.action]}
+                          </div>
+                        ) : null}
+                        {detail.integrity?.issues.length ? (
+                          <ul className="mt-1 list-disc pl-4 text-[var(--color-feedback-danger)]">
+                            {detail.integrity.issues.map((issue, index) => (
+                              <li key={`${issue.code}-${index}`}>{issue.message}</li>
+                            ))}
+                          </ul>
+                        ) : null}
+                      </td>
                     </tr>
                   ))
                 )}
@@ -257,6 +584,110 @@ function UploadPageContent({ initialCompanyId, fallbackCompanyId }: UploadPageCo
           </div>
         </section>
       )}
+
+      {recentBatches.length > 0 && (
+        <section className="space-y-3 rounded-2xl border border-[var(--color-border-subtle)] bg-[var(--color-surface-card)] px-4 py-4 shadow-sm">
+          <div>
+            <h2 className="text-sm font-semibold text-[var(--color-text-primary)]">Lotes recentes</h2>
+            <p className="text-xs text-[var(--color-text-secondary)]">
+              Desfazer remove tudo o que o lote inseriu e devolve as notas que ele atualizou à versão anterior.
+            </p>
+          </div>
+
+          {rollback && (
+            <div className="space-y-3 rounded-xl border border-[var(--color-feedback-danger)]/40 bg-[var(--color-feedback-danger)]/5 px-4 py-3 text-sm">
+              <p className="font-semibold text-[var(--color-text-primary)]">
+                Desfazer lote {rollback.batchId.slice(0, 8)}{rollback.fileName ? ` (${rollback.fileName})` : ''}?
+              </p>
+              <div className="grid gap-3 sm:grid-cols-2">
+                {[
+                  { title: 'Será removido', values: rollback.remove, labels: ROLLBACK_REMOVE_LABELS },
+                  { title: 'Será restaurado', values: rollback.restore, labels: ROLLBACK_RESTORE_LABELS },
+                ].map((group) => {
+                  const entries = Object.entries(group.values).filter(([, value]) => value > 0);
+                  return (
+                    <div key={group.title} className="text-xs text-[var(--color-text-secondary)]">
+                      <p className="font-semibold uppercase tracking-wide">{group.title}</p>
+                      {entries.length ? (
+                        <ul className="mt-1 space-y-0.5">
+                          {entries.map(([key, value]) => (
+                            <li key={key}>
+                              {group.labels[key] ?? key}: <span className="font-semibold text-[var(--color-text-primary)]">{value}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      ) : (
+                        <p className="mt-1">Nada.</p>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+              {rollback.blockingBatches.length > 0 && (
+                <p className="text-xs text-[var(--color-feedback-danger)]">
+                  Lotes posteriores alteraram as mesmas notas; desfaça-os antes: {rollback.blockingBatches.map((id) => id.slice(0, 8)).join(', ')}
+                </p>
+              )}
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="ghost" size="sm" onClick={() => setRollback(null)} disabled={isRollingBack}>
+                  Cancelar
+                </Button>
+                <Button
+                  type="button"
+                  variant="danger"
+                  size="sm"
+                  onClick={confirmRollback}
+                  disabled={isRollingBack || rollback.blockingBatches.length > 0}
+                >
+                  {isRollingBack ? 'Desfazendo...' : 'Confirmar exclusão'}
+                </Button>
+              </div>
+            </div>
+          )}
+
+          <div className="overflow-x-auto rounded-xl border border-[var(--color-border-subtle)]">
+            <table className="min-w-full divide-y divide-[var(--color-border-subtle)] text-left text-sm">
+              <thead className="bg-[var(--color-gray-50)] text-xs font-semibold uppercase tracking-wide text-[var(--color-text-secondary)]">
+                <tr>
+                  <th className="px-3 py-2">Lote</th>
+                  <th className="px-3 py-2">Status</th>
+                  <th className="px-3 py-2">Resultado</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-[var(--color-border-subtle)]">
+                {recentBatches.map((item) => (
+                  <tr key={item.batchId} className="bg-white">
+                    <td className="px-3 py-3 text-xs">
+                      <div className="font-medium text-[var(--color-text-primary)]">{formatDateTime(item.createdAt)}</div>
+                      <div className="max-w-xs truncate text-[var(--color-text-secondary)]">{item.fileName ?? item.batchId}</div>
+                    </td>
+                    <td className="px-3 py-3">
+                      <Badge variant={item.status === 'FAILED' ? 'danger' : item.status === 'COMPLETED' ? 'success' : 'info'}>
+                        {BATCH_STATUS_LABELS[item.status]}
+                      </Badge>
+                    </td>
+                    <td className="px-3 py-3 text-xs text-[var(--color-text-secondary)]">
+                      {item.counts.inserted} inseridas · {item.counts.updated} atualizadas · {item.counts.failed} falhas
+                    </td>
+                    <td className="px-3 py-3 text-right">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => previewRollback(item.batchId)}
+                        disabled={isBatchActive(item) || isRollingBack}
+                      >
+                        Desfazer
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      )}
     </div>
   );
 }